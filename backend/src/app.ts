@@ -3,66 +3,103 @@
  * It initializes the Express application, sets up middleware, routes, and error handling,
  * and starts the server on the specified port.
  * 
- * Environment Variables:
- * - `PORT`: The port number on which the server will listen for incoming requests (default: 3000).
- * - `FRONTEND_URL`: The URL of the frontend application for CORS configuration.
- * - `DB_USER`: The database username.
- * - `DB_HOST`: The database host.
- * - `DB_DATABASE`: The database name.
- * - `DB_PASSWORD`: The database password.
- * - `DB_PORT`: The database port.
+ * Configuration:
+ * - Every setting (`PORT`, `FRONTEND_URL`, the `DB_*` settings, `JWT_SECRET`, `LOG_LEVEL`, ...)
+ *   is read and validated by `config/index.ts`; the process exits at boot if any is invalid.
  * 
  * Middleware:
+ * - `requestId`: Assigns every request a correlation ID (honoring an incoming `X-Request-Id`).
+ * - `accessLogger`: Writes one structured access log line per request.
  * - `cors`: Configures Cross-Origin Resource Sharing (CORS) to allow requests from the frontend.
  * - `express.json`: Parses incoming JSON requests.
  * - `express.urlencoded`: Parses URL-encoded data.
+ * - `idempotent` (on the routes that create orders and payments): Replays the stored response
+ *   to retries sent with the same `Idempotency-Key`; expired keys are purged every hour.
+ * - `authRateLimit` (on the `/auth` routes): Limits requests per IP address; stale rate limit
+ *   and failed login counters are purged every hour.
  * 
  * Routes:
  * - `/health`: Health check endpoint to verify server and database connectivity.
  * - `/`: Root endpoint returning a basic status response.
  * - `/api-docs`: Serves Swagger UI for API documentation.
- * - `/auth`: Authentication-related routes.
+ * - `/auth`: Authentication-related routes, and unlocking usernames locked after failed logins.
  * - `/products`: Product-related routes.
+ * - `/categories`: Menu category routes.
+ * - `/modifier-groups`: Product modifier group and modifier routes.
  * - `/orders`: Order-related routes.
+ * - `/tables`: Dining table routes.
+ * - `/kitchen`: Kitchen station and ticket routes.
+ * - `/order-items`: Order item preparation status routes.
+ * - `/promotions`: Promo code routes.
+ * - `/reports`: Sales report routes (JSON or CSV).
+ * - `/inventory`: Stock ledger and low-stock routes.
+ * - `/ingredients`: Ingredient and ingredient stock routes.
+ * - `/audit`: Audit log of changes to products, orders and users.
+ * - `/events`: Real-time event stream (Server-Sent Events).
  * 
  * Error Handling:
- * - Custom error handler middleware to handle application errors.
+ * - Unmatched routes and application errors are answered with RFC 7807
+ *   `application/problem+json` responses by the error handler middleware.
+ * 
+ * Logging:
+ * - Everything is logged as structured JSON through `utils/logger`, which tags each line with
+ *   the request ID and redacts secrets such as passwords and tokens.
  * 
  * Database:
- * - Establishes a connection to the database using the `pool` object.
- * - Logs database connection status.
+ * - The `pool` object logs the database connection status (never the credentials).
+ * - A dedicated connection listens for the events published with Postgres `NOTIFY` and
+ *   forwards them to the `/events` streams (see `utils/eventBus`).
  * 
  * Swagger:
  * - Serves API documentation using Swagger UI at `/api-docs`.
  * 
  * Server:
- * - Starts the server and listens on the specified port.
+ * - Starts the server and listens on the specified port, but only once every database
+ *   migration has been applied; the process exits if migrations are pending.
  */
 
-import dotenv from 'dotenv';
-dotenv.config({ path: '../.env' }); 
-
+import config from './config';
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import pool from './config/db';
 import authRoutes from './routes/authRoutes';
 import productRoutes from './routes/productRoutes';
+import categoryRoutes from './routes/categoryRoutes';
+import modifierRoutes from './routes/modifierRoutes';
 import orderRoutes from './routes/orderRoutes';
-import errorHandler from './middleware/errorHandler';
+import tableRoutes from './routes/tableRoutes';
+import kitchenRoutes from './routes/kitchenRoutes';
+import orderItemRoutes from './routes/orderItemRoutes';
+import eventRoutes from './routes/eventRoutes';
+import promotionRoutes from './routes/promotionRoutes';
+import reportRoutes from './routes/reportRoutes';
+import inventoryRoutes from './routes/inventoryRoutes';
+import ingredientRoutes from './routes/ingredientRoutes';
+import auditRoutes from './routes/auditRoutes';
+import errorHandler, { notFoundHandler } from './middleware/errorHandler';
 import swaggerUi from 'swagger-ui-express';
 import swaggerSpec from './swagger';
+import { getPendingMigrations } from './migrations/runner';
+import { requestId, REQUEST_ID_HEADER } from './middleware/requestId';
+import { accessLogger } from './middleware/accessLogger';
+import { IDEMPOTENCY_KEY_HEADER, IDEMPOTENT_REPLAYED_HEADER, scheduleIdempotencyKeyPurge } from './middleware/idempotency';
+import { scheduleAuthThrottlePurge } from './middleware/authRateLimit';
+import logger from './utils/logger';
+import { startEventListener } from './utils/eventBus';
 
 const app = express();
 
-app.use(cors());
+app.use(requestId);
+app.use(accessLogger);
 app.use(express.json());
 
 app.use(express.urlencoded({ extended: true }));
 
 app.use(cors({
-  origin: process.env.FRONTEND_URL || '*',
-  methods: ['POST', 'GET', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  origin: config.cors.origins.includes('*') ? '*' : config.cors.origins,
+  methods: ['POST', 'GET', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', REQUEST_ID_HEADER, IDEMPOTENCY_KEY_HEADER, 'If-Match', 'If-None-Match'],
+  exposedHeaders: [REQUEST_ID_HEADER, IDEMPOTENT_REPLAYED_HEADER, 'Retry-After', 'ETag']
 }));
 
 app.get('/health', (req: Request, res: Response) => {
@@ -78,42 +115,66 @@ app.get('/health', (req: Request, res: Response) => {
     }));
 });
 
-console.log('DB Config:', {
-  user: process.env.DB_USER,
-  host: process.env.DB_HOST,
-  database: process.env.DB_DATABASE,
-  password: process.env.DB_PASSWORD,
-  port: process.env.DB_PORT,
-});
-pool.connect((err) => {
-  if (err) console.error('Database connection error:', err);
-  else console.log('Database connected successfully');
-});
-
 app.get('/', (req: Request, res: Response) => {
   res.json({ status: 'OK' });
 });
 
 app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec));
-console.log('Swagger UI available at /api-docs');
+logger.info('Swagger UI available at /api-docs');
 
 app.use('/auth', authRoutes);
 app.use('/products', productRoutes);
+app.use('/categories', categoryRoutes);
+app.use('/modifier-groups', modifierRoutes);
 app.use('/orders', orderRoutes);
-console.log('Routes loaded:', [
+app.use('/tables', tableRoutes);
+app.use('/kitchen', kitchenRoutes);
+app.use('/order-items', orderItemRoutes);
+app.use('/events', eventRoutes);
+app.use('/promotions', promotionRoutes);
+app.use('/reports', reportRoutes);
+app.use('/inventory', inventoryRoutes);
+app.use('/ingredients', ingredientRoutes);
+app.use('/audit', auditRoutes);
+logger.debug('Routes loaded', { routes: [
   ...authRoutes.stack.map(r => r.route?.path).filter(path => path !== undefined),
   ...productRoutes.stack.map(r => r.route?.path).filter(path => path !== undefined),
+  ...categoryRoutes.stack.map(r => r.route?.path).filter(path => path !== undefined),
+  ...modifierRoutes.stack.map(r => r.route?.path).filter(path => path !== undefined),
   ...orderRoutes.stack.map(r => r.route?.path).filter(path => path !== undefined),
-]);
+  ...tableRoutes.stack.map(r => r.route?.path).filter(path => path !== undefined),
+  ...kitchenRoutes.stack.map(r => r.route?.path).filter(path => path !== undefined),
+  ...orderItemRoutes.stack.map(r => r.route?.path).filter(path => path !== undefined),
+  ...eventRoutes.stack.map(r => r.route?.path).filter(path => path !== undefined),
+  ...promotionRoutes.stack.map(r => r.route?.path).filter(path => path !== undefined),
+  ...reportRoutes.stack.map(r => r.route?.path).filter(path => path !== undefined),
+  ...inventoryRoutes.stack.map(r => r.route?.path).filter(path => path !== undefined),
+  ...ingredientRoutes.stack.map(r => r.route?.path).filter(path => path !== undefined),
+  ...auditRoutes.stack.map(r => r.route?.path).filter(path => path !== undefined),
+] });
 
+app.use(notFoundHandler);
 app.use(errorHandler);
 
-/**
- * The port number on which the server will listen for incoming requests.
- * Defaults to 3000 if the `PORT` environment variable is not defined.
- */
+config.warnings.forEach((warning) => logger.warn(warning));
+
+getPendingMigrations()
+  .then((pending) => {
+    if (pending.length > 0) {
+      logger.error('Refusing to start: pending database migrations, run `npm run migrate:up` first', {
+        pending: pending.map((migration) => `${migration.version}_${migration.name}`),
+      });
+      process.exit(1);
+    }
 
-const PORT = process.env.PORT || 3000;
-app.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-});
\ No newline at end of file
+    startEventListener();
+    scheduleIdempotencyKeyPurge();
+    scheduleAuthThrottlePurge();
+    app.listen(config.port, () => {
+      logger.info('Server running', { port: config.port, env: config.env });
+    });
+  })
+  .catch((err) => {
+    logger.error('Could not check database migrations', { error: err });
+    process.exit(1);
+  });
\ No newline at end of file
@@ -1,54 +1,48 @@
 import { Pool } from 'pg';
-import dotenv from 'dotenv'; 
-dotenv.config();
+import config from './index';
+import logger from '../utils/logger';
 
 /**
  * Creates a new instance of a PostgreSQL connection pool using the `pg` library.
- * The connection pool is configured with environment variables for database credentials
- * and connection details.
+ * The connection pool is configured with the database credentials and connection details
+ * from the validated application configuration (`config.db`).
  *
  * @constant
  * @type {Pool}
- * @property {string} user - The username for authenticating with the database, sourced from `process.env.DB_USER`.
- * @property {string} host - The hostname of the database server, sourced from `process.env.DB_HOST`.
- * @property {string} database - The name of the database to connect to, sourced from `process.env.DB_DATABASE`.
- * @property {string} password - The password for authenticating with the database, sourced from `process.env.DB_PASSWORD`.
- * @property {number} port - The port number on which the database server is running, sourced from `process.env.DB_PORT` or defaults to `5432`.
+ * @property {string} user - The username for authenticating with the database (`DB_USER`).
+ * @property {string} host - The hostname of the database server (`DB_HOST`).
+ * @property {string} database - The name of the database to connect to (`DB_DATABASE`).
+ * @property {string} password - The password for authenticating with the database (`DB_PASSWORD`).
+ * @property {number} port - The port number on which the database server is running (`DB_PORT`, defaults to `5432`).
  */
 
 const pool = new Pool({
-  user: process.env.DB_USER,
-  host: process.env.DB_HOST,
-  database: process.env.DB_DATABASE,
-  password: process.env.DB_PASSWORD,
-  port: parseInt(process.env.DB_PORT || '5432'),
+  user: config.db.user,
+  host: config.db.host,
+  database: config.db.database,
+  password: config.db.password,
+  port: config.db.port,
 });
 
-pool.connect((err) => {
+pool.connect((err, client, release) => {
   if (err) {
-    console.error('Initial database connection error:', {
-      message: err.message,
-      code: (err as any).code,
-      password_status: process.env.DB_PASSWORD ? 'defined' : 'undefined',
+    logger.error('Initial database connection error', {
+      error: err,
+      host: config.db.host,
+      database: config.db.database,
+      user: config.db.user,
     });
   } else {
-    console.log('Database connected successfully');
+    release();
+    logger.info('Database connected successfully', { host: config.db.host, database: config.db.database });
   }
 });
 
 pool.on('error', (err, client) => {
-  console.error('Pool error (unhandled client error):', {
-    message: err.message,
+  logger.error('Pool error (unhandled client error)', {
+    error: err,
     client: client ? 'active' : 'inactive',
   });
 });
 
-export default pool;
-
-console.log('DB Config:', {
-    user: process.env.DB_USER,
-    host: process.env.DB_HOST,
-    database: process.env.DB_DATABASE,
-    password: process.env.DB_PASSWORD,
-    port: process.env.DB_PORT,
-  });
\ No newline at end of file
+export default pool;
\ No newline at end of file
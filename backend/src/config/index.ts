@@ -0,0 +1,236 @@
+import path from 'path';
+import dotenv from 'dotenv';
+import { z } from 'zod';
+
+/**
+ * Typed application configuration.
+ *
+ * This is the only module that reads `process.env`. Settings are loaded from the environment,
+ * then from `backend/.env` and the repository root `.env` (variables that are already set are
+ * never overridden), and validated once at boot. If anything is missing or invalid the process
+ * prints every problem and exits before the server starts.
+ *
+ * Environment Variables:
+ * - `NODE_ENV`: `development` (default), `production` or `test`.
+ * - `PORT`: The port the HTTP server listens on (default: 3000).
+ * - `FRONTEND_URL`: Comma-separated list of origins allowed by CORS (default: `*`).
+ * - `DB_HOST`, `DB_PORT` (default: 5432), `DB_DATABASE`, `DB_USER`, `DB_PASSWORD`: Database connection.
+ * - `JWT_SECRET`: Secret used to sign access tokens, at least 32 characters. Optional outside
+ *   production, where a well-known development secret is used instead.
+ * - `LOG_LEVEL`: `debug`, `info` (default), `warn` or `error`.
+ * - `PAYMENT_PROVIDER`: The card payment provider, see `payments/cardProvider.ts` (default: `fake`).
+ * - `DEFAULT_TAX_RATE`: Tax percentage for products whose category sets no rate (default: 0).
+ * - `SERVICE_CHARGE_RATE`: Percentage added to orders placed with a service charge (default: 0).
+ * - `IDEMPOTENCY_KEY_TTL_HOURS`: How long the response to a request sent with an
+ *   `Idempotency-Key` is kept for replay (default: 24).
+ * - `AUTH_RATE_LIMIT_PER_MINUTE`: Requests to `/auth` allowed per IP address and minute (default: 30).
+ * - `LOGIN_LOCKOUT_THRESHOLD`: Failed logins in a row after which a username is locked (default: 10).
+ * - `LOGIN_LOCKOUT_MINUTES`: How long a locked username stays locked (default: 15).
+ *
+ * In production the server refuses to start with the development secrets that ship with
+ * this repository.
+ */
+
+dotenv.config({
+  path: [path.resolve(__dirname, '../../.env'), path.resolve(__dirname, '../../../.env')],
+  quiet: true,
+});
+
+/**
+ * Secrets published in this repository. Fine for local development, never for production.
+ */
+
+const DEVELOPMENT_JWT_SECRET = 'zRUu2DEQJg5MMCi81y48ITM6HL4SJlR+4XkmJrEMB3g=';
+const DEVELOPMENT_DB_PASSWORD = 'securePassRestaurant223140';
+
+const required = (name: string) => z.string({ message: `${name} is required` }).trim().min(1, `${name} is required`);
+
+const envSchema = z.object({
+  NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
+  PORT: z.coerce.number().int().min(1).max(65535).default(3000),
+  FRONTEND_URL: z.string().trim().default('*'),
+  DB_HOST: required('DB_HOST'),
+  DB_PORT: z.coerce.number().int().min(1).max(65535).default(5432),
+  DB_DATABASE: required('DB_DATABASE'),
+  DB_USER: required('DB_USER'),
+  DB_PASSWORD: required('DB_PASSWORD'),
+  JWT_SECRET: z.string().trim().min(32, 'JWT_SECRET must be at least 32 characters long').optional(),
+  LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+  PAYMENT_PROVIDER: z.enum(['fake']).default('fake'),
+  DEFAULT_TAX_RATE: z.coerce.number().min(0).max(100).default(0),
+  SERVICE_CHARGE_RATE: z.coerce.number().min(0).max(100).default(0),
+  IDEMPOTENCY_KEY_TTL_HOURS: z.coerce.number().int().min(1).max(24 * 30).default(24),
+  AUTH_RATE_LIMIT_PER_MINUTE: z.coerce.number().int().min(1).default(30),
+  LOGIN_LOCKOUT_THRESHOLD: z.coerce.number().int().min(4).max(100).default(10),
+  LOGIN_LOCKOUT_MINUTES: z.coerce.number().int().min(1).max(24 * 60).default(15),
+});
+
+/**
+ * Checks that only apply in production, where the development secrets must not be used.
+ * Kept out of `envSchema` so they are reported together with any other invalid setting.
+ */
+
+const productionProblems = (env: Record<string, string | undefined>): string[] => {
+  if (env.NODE_ENV !== 'production') {
+    return [];
+  }
+
+  const problems: string[] = [];
+  if (!env.JWT_SECRET) {
+    problems.push('JWT_SECRET: JWT_SECRET is required in production');
+  } else if (env.JWT_SECRET === DEVELOPMENT_JWT_SECRET) {
+    problems.push('JWT_SECRET: JWT_SECRET must not be the development default in production');
+  }
+  if (env.DB_PASSWORD === DEVELOPMENT_DB_PASSWORD) {
+    problems.push('DB_PASSWORD: DB_PASSWORD must not be the development default in production');
+  }
+  return problems;
+};
+
+export interface AppConfig {
+  env: 'development' | 'production' | 'test';
+  port: number;
+  cors: {
+    /** Allowed origins; `['*']` allows any origin. */
+    origins: string[];
+  };
+  db: {
+    host: string;
+    port: number;
+    database: string;
+    user: string;
+    password: string;
+  };
+  jwt: {
+    secret: string;
+  };
+  logLevel: 'debug' | 'info' | 'warn' | 'error';
+  payments: {
+    /** The card payment provider. */
+    provider: 'fake';
+  };
+  pricing: {
+    /** Tax percentage for products whose category (or its parents) sets no `tax_rate`. */
+    defaultTaxRate: number;
+    /** Percentage charged on the discounted subtotal of orders placed with a service charge. */
+    serviceChargeRate: number;
+  };
+  idempotency: {
+    /** Hours an idempotency key and its response are kept before the key can be reused. */
+    ttlHours: number;
+  };
+  auth: {
+    /** Requests to `/auth` allowed per IP address and minute. */
+    rateLimitPerMinute: number;
+    /** Failed logins in a row after which a username is locked. */
+    lockoutThreshold: number;
+    /** How long a locked username stays locked. */
+    lockoutMinutes: number;
+  };
+  /** Non-fatal problems found while loading the configuration, logged at startup. */
+  warnings: string[];
+}
+
+/**
+ * Thrown by `loadConfig` when the environment is invalid; `problems` lists every invalid setting.
+ */
+
+export class ConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Parses and validates the configuration from a set of environment variables.
+ *
+ * @param env - The environment variables to read (defaults to `process.env`).
+ * @returns The typed configuration.
+ * @throws {ConfigError} If any setting is missing or invalid.
+ */
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): AppConfig => {
+  // Treat empty variables (e.g. `JWT_SECRET=` in docker-compose) as unset.
+  const defined = Object.fromEntries(Object.entries(env).filter(([, value]) => value !== undefined && value !== ''));
+  const result = envSchema.safeParse(defined);
+  const problems = [
+    ...(result.success ? [] : result.error.issues.map((issue) => `${issue.path.join('.') || 'env'}: ${issue.message}`)),
+    ...productionProblems(defined),
+  ];
+
+  if (!result.success || problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  const parsed = result.data;
+  const warnings: string[] = [];
+  if (!parsed.JWT_SECRET) {
+    warnings.push('JWT_SECRET is not set; using the development secret. Never do this in production.');
+  }
+  if (parsed.NODE_ENV === 'production' && parsed.PAYMENT_PROVIDER === 'fake') {
+    warnings.push('PAYMENT_PROVIDER is `fake`; card payments are approved without being charged.');
+  }
+
+  return {
+    env: parsed.NODE_ENV,
+    port: parsed.PORT,
+    cors: {
+      origins: parsed.FRONTEND_URL.split(',').map((origin) => origin.trim()).filter(Boolean),
+    },
+    db: {
+      host: parsed.DB_HOST,
+      port: parsed.DB_PORT,
+      database: parsed.DB_DATABASE,
+      user: parsed.DB_USER,
+      password: parsed.DB_PASSWORD,
+    },
+    jwt: {
+      secret: parsed.JWT_SECRET ?? DEVELOPMENT_JWT_SECRET,
+    },
+    logLevel: parsed.LOG_LEVEL,
+    payments: {
+      provider: parsed.PAYMENT_PROVIDER,
+    },
+    pricing: {
+      defaultTaxRate: parsed.DEFAULT_TAX_RATE,
+      serviceChargeRate: parsed.SERVICE_CHARGE_RATE,
+    },
+    idempotency: {
+      ttlHours: parsed.IDEMPOTENCY_KEY_TTL_HOURS,
+    },
+    auth: {
+      rateLimitPerMinute: parsed.AUTH_RATE_LIMIT_PER_MINUTE,
+      lockoutThreshold: parsed.LOGIN_LOCKOUT_THRESHOLD,
+      lockoutMinutes: parsed.LOGIN_LOCKOUT_MINUTES,
+    },
+    warnings,
+  };
+};
+
+/**
+ * Loads the configuration, or reports every problem and exits. The logger cannot be used
+ * here because it is configured from this module, so the report is written directly in
+ * the same JSON line format.
+ */
+
+const loadConfigOrExit = (): AppConfig => {
+  try {
+    return loadConfig();
+  } catch (error) {
+    if (!(error instanceof ConfigError)) {
+      throw error;
+    }
+    process.stderr.write(`${JSON.stringify({
+      time: new Date().toISOString(),
+      level: 'error',
+      msg: 'Invalid configuration, refusing to start',
+      problems: error.problems,
+    })}\n`);
+    process.exit(1);
+  }
+};
+
+const config: AppConfig = loadConfigOrExit();
+
+export default config;
@@ -0,0 +1,73 @@
+import { Request, Response } from 'express';
+import { getAuditLog } from '../models/auditModel';
+import { AuditEntityType, IAuditQuery } from '../types';
+import { sendProblem } from '../middleware/errorHandler';
+import { DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT, queryDateRange, queryNumber, queryString } from '../utils/queryParams';
+
+const AUDIT_ENTITY_TYPES: AuditEntityType[] = ['product', 'order', 'user'];
+
+/**
+ * Parses and validates the query parameters of the audit log listing.
+ *
+ * @returns The parsed query, or an error message describing the first invalid parameter.
+ */
+
+const parseAuditQuery = (query: Request['query']): { value: IAuditQuery } | { error: string } => {
+  const page = queryNumber(query, 'page', { integer: true, min: 1 });
+  const limit = queryNumber(query, 'limit', { integer: true, min: 1 });
+  const actorId = queryNumber(query, 'actorId', { integer: true, min: 1 });
+  const entityType = queryString(query, 'entityType');
+  const entityId = queryNumber(query, 'entityId', { integer: true, min: 1 });
+  const range = queryDateRange(query);
+
+  if (page === null) return { error: 'page must be a positive integer' };
+  if (limit === null || (limit !== undefined && limit > MAX_PAGE_LIMIT)) {
+    return { error: `limit must be an integer between 1 and ${MAX_PAGE_LIMIT}` };
+  }
+  if (actorId === null) return { error: 'actorId must be a positive integer' };
+  if (entityType !== undefined && !AUDIT_ENTITY_TYPES.includes(entityType as AuditEntityType)) {
+    return { error: `entityType must be one of: ${AUDIT_ENTITY_TYPES.join(', ')}` };
+  }
+  if (entityId === null) return { error: 'entityId must be a positive integer' };
+  if (entityId !== undefined && entityType === undefined) return { error: 'entityId requires entityType' };
+  if (range === null) return { error: 'from and to must be valid dates' };
+
+  return {
+    value: {
+      page: page ?? 1,
+      limit: limit ?? DEFAULT_PAGE_LIMIT,
+      actorId,
+      entityType: entityType as AuditEntityType | undefined,
+      entityId,
+      from: range.from,
+      to: range.to,
+    },
+  };
+};
+
+/**
+ * Handles the request to list the audit log.
+ *
+ * @param req - The HTTP request object. Supports the query parameters `page`, `limit`,
+ *              `actorId`, `entityType` (`product`, `order`, `user`), `entityId` (together
+ *              with `entityType`), `from` and `to`.
+ * @param res - The HTTP response object.
+ * @returns A JSON envelope `{ data, pagination }` with the entries, newest first, or an error message.
+ *
+ * @throws Returns a 400 status code if a query parameter is invalid, and a 500 status code if
+ *         fetching the audit log fails.
+ */
+
+export const getAuditLogHandler = async (req: Request, res: Response) => {
+  try {
+    const parsed = parseAuditQuery(req.query);
+    if ('error' in parsed) {
+      return sendProblem(res, 400, parsed.error);
+    }
+
+    const entries = await getAuditLog(parsed.value);
+    res.json(entries);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching audit log');
+  }
+};
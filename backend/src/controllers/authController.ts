@@ -1,15 +1,48 @@
 import { Request, Response } from 'express';
 import jwt from 'jsonwebtoken';
 import { findUserByUsername, comparePassword, createUser } from '../models/userModel';
-import bcrypt from 'bcryptjs';
+import {
+  createRefreshToken,
+  rotateRefreshToken,
+  revokeRefreshTokenFamily,
+  InvalidRefreshTokenError,
+} from '../models/refreshTokenModel';
+import {
+  beginLoginAttempt,
+  settleSuccessfulLogin,
+  getLoginLockouts,
+  unlockUsername,
+} from '../models/authThrottleModel';
+import { UserRole } from '../types';
+import config from '../config';
+import { LoginInput, RegisterInput, RefreshTokenInput } from '@oceans/shared';
+import { sendProblem } from '../middleware/errorHandler';
+import { clientIp, sendTooManyRequests } from '../middleware/authRateLimit';
+import logger from '../utils/logger';
 
 
+/**
+ * Lifetime of access tokens. Kept short because clients renew them with their refresh token.
+ */
+
+const ACCESS_TOKEN_TTL = '15m';
+
+/**
+ * Signs an access token for a user. The `sid` claim ties the token to its refresh token
+ * family so `authenticateToken` can reject it once the session is logged out or revoked.
+ */
 
-const JWT_SECRET = process.env.JWT_SECRET || 'zRUu2DEQJg5MMCi81y48ITM6HL4SJlR+4XkmJrEMB3g=';
+const signAccessToken = (user: { id: number; username: string; role: UserRole }, sessionId: string) =>
+  jwt.sign({ id: user.id, username: user.username, role: user.role, sid: sessionId }, config.jwt.secret, { expiresIn: ACCESS_TOKEN_TTL });
 
-if (!JWT_SECRET) {
-  throw new Error('JWT_SECRET is not defined in .env');
-}
+/**
+ * Starts a new session for a user and returns the access and refresh tokens to send to the client.
+ */
+
+const issueTokens = async (user: { id: number; username: string; role: UserRole }) => {
+  const refresh = await createRefreshToken(user.id);
+  return { token: signAccessToken(user, refresh.familyId), refreshToken: refresh.token };
+};
 
 /**
  * Handles user login by validating credentials and generating a JWT token.
@@ -17,26 +50,60 @@ if (!JWT_SECRET) {
  * @param req - The HTTP request object containing the username and password in the body.
  * @param res - The HTTP response object used to send back the response.
  *
- * @returns A JSON response containing the JWT token if the credentials are valid,
+ * @returns A JSON response containing the short-lived JWT access token (which carries the user's role),
+ *          a refresh token, the username and the role if the credentials are valid,
  *          or an error message with the appropriate HTTP status code.
  *
+ * @remarks
+ * Failed logins are counted per username (whether it exists or not) and per IP address.
+ * After a few failures in a row each attempt has to wait a little longer, and once the
+ * username reaches `LOGIN_LOCKOUT_THRESHOLD` failures it is locked for `LOGIN_LOCKOUT_MINUTES`
+ * or until an admin unlocks it. Each attempt is counted as a failure before the password is
+ * checked, in the same statement that checks whether it has to wait, so parallel attempts
+ * cannot get past the delays; a successful login undoes the count and forgets the failures
+ * of the username. If the failures cannot be counted the attempt is refused.
+ *
  * @throws Returns a 401 status code if the credentials are invalid.
+ *         Returns a 429 status code, with `Retry-After`, if the attempt has to wait
+ *         (`reason` is `login_throttled` or `login_locked`).
+ *         Returns a 503 status code if the failed login counters are unavailable.
  *         Returns a 500 status code if there is a server error.
  */
 
 export const login = async (req: Request, res: Response) => {
-  const { username, password } = req.body;
+  const { username, password } = req.body as LoginInput;
+  const ip = clientIp(req);
+  const { lockoutThreshold, lockoutMinutes } = config.auth;
+
+  let attempt;
+  try {
+    attempt = await beginLoginAttempt(ip, username, { lockoutThreshold, lockoutMinutes });
+  } catch (error) {
+    return sendProblem(res, 503, 'Login is temporarily unavailable, try again later');
+  }
+  if ('blocked' in attempt) {
+    const block = attempt.blocked;
+    return sendTooManyRequests(
+      res,
+      block.reason === 'login_locked' ? 'Account locked after too many failed logins' : 'Too many failed logins, try again later',
+      block
+    );
+  }
 
   try {
     const user = await findUserByUsername(username);
     if (!user || !(await comparePassword(password, user.password))) {
-      return res.status(401).json({ message: 'Invalid credentials' });
+      if (attempt.failures === lockoutThreshold) {
+        logger.warn('Username locked after failed logins', { username, ip });
+      }
+      return sendProblem(res, 401, 'Invalid credentials');
     }
 
-    const token = jwt.sign({ id: user.id, username: user.username }, JWT_SECRET, { expiresIn: '1h' });
-    res.json({ token });
+    await settleSuccessfulLogin(ip, username);
+    const { token, refreshToken } = await issueTokens(user);
+    res.json({ token, refreshToken, user: user.username, role: user.role });
   } catch (error) {
-    res.status(500).json({ message: 'Server error' });
+    sendProblem(res, 500, 'Server error');
   }
 };
 
@@ -48,13 +115,14 @@ export const login = async (req: Request, res: Response) => {
  * @param res - The HTTP response object used to send back the appropriate response.
  *
  * @remarks
- * - The `username` and `password` fields are required.
- * - The `password` must be at least 8 characters long.
+ * - The body is validated against `registerSchema` from `@oceans/shared` by the `validate`
+ *   middleware: the `username` must be 3 to 50 characters long and the `password` at least 8.
  * - If the `username` already exists, the registration will fail.
- * - A JWT token is generated for the newly registered user, valid for 1 hour.
+ * - A JWT access token (valid for 15 minutes) and a refresh token are generated for the newly registered user.
  *
  * @throws
- * - Returns a 400 status code if the input validation fails (e.g., missing fields, short password, or duplicate username).
+ * - Returns a 400 status code if the input validation fails (e.g., missing fields or short password).
+ * - Returns a 409 status code if the username already exists.
  * - Returns a 500 status code if there is a server error during user creation or token generation.
  *
  * @example
@@ -66,57 +134,152 @@ export const login = async (req: Request, res: Response) => {
  * 
  * // Example response on success:
  * // {
- * //   "token": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ * //   "token": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+ * //   "refreshToken": "3f9c1d...",
+ * //   "user": "newuser",
+ * //   "role": "waiter"
  * // }
  * 
- * // Example response on failure (e.g., username already exists):
+ * // Example response on failure (e.g., username already exists), as application/problem+json:
  * // {
- * //   "message": "Username already exists"
+ * //   "type": "about:blank",
+ * //   "title": "Conflict",
+ * //   "status": 409,
+ * //   "detail": "Username already exists",
+ * //   "instance": "/auth/register",
+ * //   "errors": [{ "field": "username", "message": "El nombre de usuario ya existe" }]
  * // }
  */
 
 export const register = async (req: Request, res: Response) => {
-    const { username, password } = req.body;
-  
-    console.log('Register request body:', req.body);
-  
-    try {
-      if (!username || !password) {
-        console.log('Missing username or password');
-        return res.status(400).json({ message: 'Username and password are required' });
-      }
-  
-      if (password.length < 8) {
-        console.log('Password too short:', password.length);
-        return res.status(400).json({ message: 'Password must be at least 8 characters long' });
-      }
-  
-      console.log('Checking existing user...');
-      const existingUser = await findUserByUsername(username);
-      
-      if (existingUser) {
-        console.log('Username already exists:', username);
-        return res.status(400).json({ message: 'Username already exists' });
-      }
-  
-      console.log('Creating new user...');
-      const user = await createUser(username, password);
-      
-      if (!user) {
-        console.error('User creation failed');
-        return res.status(500).json({ message: 'User creation failed' });
-      }
-  
-      console.log('Generating token...');
-      const token = jwt.sign({ id: user.id, username: user.username }, JWT_SECRET, { expiresIn: '1h' });
-      
-      console.log('Registration successful for user:', username);
-      res.status(201).json({ token });
-    } catch (error) {
-      console.error('Registration error:', error);
-      res.status(500).json({ 
-        message: 'Server error',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
+  const { username, password } = req.body as RegisterInput;
+
+  try {
+    const existingUser = await findUserByUsername(username);
+    if (existingUser) {
+      return sendProblem(res, 409, 'Username already exists', { errors: [{ field: 'username', message: 'El nombre de usuario ya existe' }] });
+    }
+
+    const user = await createUser(username, password);
+    if (!user) {
+      return sendProblem(res, 500, 'User creation failed');
+    }
+
+    const { token, refreshToken } = await issueTokens(user);
+    res.status(201).json({ token, refreshToken, user: user.username, role: user.role });
+  } catch (error) {
+    logger.error('Registration error', { error });
+    sendProblem(res, 500, 'Server error');
+  }
+};
+
+/**
+ * Exchanges a refresh token for a new access token and a new refresh token.
+ *
+ * @param req - The HTTP request object, expected to contain `refreshToken` in the body.
+ * @param res - The HTTP response object used to send back the response.
+ *
+ * @remarks
+ * Refresh tokens are single-use: the presented token is revoked and replaced. If a token
+ * that was already used is presented again, the whole session is revoked.
+ *
+ * @throws
+ * - Returns a 400 status code if `refreshToken` is missing (checked by the `validate` middleware).
+ * - Returns a 401 status code if the refresh token is invalid, expired, revoked or reused.
+ * - Returns a 500 status code if there is a server error.
+ *
+ * @returns A JSON response with `token`, `refreshToken`, `user` and `role`.
+ */
+
+export const refresh = async (req: Request, res: Response) => {
+  const { refreshToken } = req.body as RefreshTokenInput;
+
+  try {
+    const rotated = await rotateRefreshToken(refreshToken);
+    const token = signAccessToken(rotated.user, rotated.familyId);
+    res.json({ token, refreshToken: rotated.token, user: rotated.user.username, role: rotated.user.role });
+  } catch (error) {
+    if (error instanceof InvalidRefreshTokenError) {
+      return sendProblem(res, 401, error.message);
     }
-  };
\ No newline at end of file
+    sendProblem(res, 500, 'Server error');
+  }
+};
+
+/**
+ * Logs a user out by revoking the session their refresh token belongs to.
+ *
+ * @param req - The HTTP request object, expected to contain `refreshToken` in the body.
+ * @param res - The HTTP response object used to send back the response.
+ *
+ * @remarks
+ * Revoking the session also invalidates every access token issued for it, so they are
+ * rejected by `authenticateToken` before they expire. Logging out an unknown or already
+ * revoked session still succeeds.
+ *
+ * @throws
+ * - Returns a 400 status code if `refreshToken` is missing (checked by the `validate` middleware).
+ * - Returns a 500 status code if there is a server error.
+ *
+ * @returns An empty 204 response.
+ */
+
+export const logout = async (req: Request, res: Response) => {
+  const { refreshToken } = req.body as RefreshTokenInput;
+
+  try {
+    await revokeRefreshTokenFamily(refreshToken);
+    res.status(204).send();
+  } catch (error) {
+    sendProblem(res, 500, 'Server error');
+  }
+};
+
+/**
+ * Lists the usernames whose logins currently have to wait after failed attempts, locked ones
+ * included, longest wait first.
+ *
+ * @param req - The HTTP request object.
+ * @param res - The HTTP response object used to send back the response.
+ *
+ * @throws Returns a 500 status code if there is a server error.
+ *
+ * @returns A JSON array of `{ username, failures, last_failure_at, blocked_until }`.
+ */
+
+export const getLockoutsHandler = async (req: Request, res: Response) => {
+  try {
+    const lockouts = await getLoginLockouts();
+    res.json(lockouts);
+  } catch (error) {
+    sendProblem(res, 500, 'Server error');
+  }
+};
+
+/**
+ * Unlocks a username locked after failed logins, so its next attempt is allowed right away.
+ *
+ * @param req - The HTTP request object, with the `username` to unlock as a route parameter.
+ * @param res - The HTTP response object used to send back the response.
+ *
+ * @throws
+ * - Returns a 404 status code if the username has no failed logins to forget.
+ * - Returns a 500 status code if there is a server error.
+ *
+ * @returns An empty 204 response.
+ */
+
+export const unlockUsernameHandler = async (req: Request, res: Response) => {
+  const username = String(req.params.username);
+
+  try {
+    const unlocked = await unlockUsername(username);
+    if (!unlocked) {
+      return sendProblem(res, 404, 'No failed logins for this username');
+    }
+    logger.info('Username unlocked', { username, by: (req as any).user.id });
+    res.status(204).send();
+  } catch (error) {
+    sendProblem(res, 500, 'Server error');
+  }
+};
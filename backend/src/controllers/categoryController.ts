@@ -0,0 +1,199 @@
+import { Request, Response } from 'express';
+import {
+  getAllCategories,
+  getCategoryById,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+  DuplicateCategoryNameError,
+  UnknownCategoryError,
+  CategoryCycleError,
+} from '../models/categoryModel';
+import { ICategory } from '../types';
+import { CategoryInput, CategoryPatchInput } from '@oceans/shared';
+import { sendProblem } from '../middleware/errorHandler';
+
+/**
+ * Parses the `:id` route parameter, returning `NaN` when it is not a positive integer.
+ */
+
+const parseCategoryId = (req: Request): number => {
+  const id = Number(req.params.id);
+  return Number.isInteger(id) && id > 0 ? id : NaN;
+};
+
+/**
+ * Sends the response for the errors shared by category creation and updates, or returns
+ * `undefined` if `error` is not one of them.
+ */
+
+const sendCategoryError = (res: Response, error: unknown) => {
+  if (error instanceof DuplicateCategoryNameError) {
+    return sendProblem(res, 409, error.message, { errors: [{ field: 'name', message: 'Ya existe una categoría con ese nombre' }] });
+  }
+  if (error instanceof UnknownCategoryError) {
+    return sendProblem(res, 400, error.message, { errors: [{ field: 'parent_id', message: 'La categoría padre no existe' }] });
+  }
+  if (error instanceof CategoryCycleError) {
+    return sendProblem(res, 409, error.message, {
+      errors: [{ field: 'parent_id', message: 'Una categoría no puede estar dentro de sí misma ni de sus subcategorías' }],
+    });
+  }
+  return undefined;
+};
+
+/**
+ * Handles the request to list the menu categories.
+ *
+ * @param req - The HTTP request object.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing every category ordered by `display_order` and name,
+ *          or an error message. Nesting is given by each category's `parent_id`.
+ *
+ * @throws Returns a 500 status code if fetching the categories fails.
+ */
+
+export const getCategoriesHandler = async (req: Request, res: Response) => {
+  try {
+    const categories = await getAllCategories();
+    res.json(categories);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching categories');
+  }
+};
+
+/**
+ * Handles the request to fetch a single category.
+ *
+ * @param req - The HTTP request object, with the category ID in `req.params.id`.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing the category, or an error message.
+ *
+ * @throws Returns a 400 status code if the ID is invalid, a 404 status code if the category
+ *         does not exist, and a 500 status code if fetching the category fails.
+ */
+
+export const getCategoryHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parseCategoryId(req);
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid category ID');
+    }
+
+    const category = await getCategoryById(id);
+    if (!category) {
+      return sendProblem(res, 404, 'Category not found');
+    }
+    res.json(category);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching category');
+  }
+};
+
+/**
+ * Handles the creation of a new category.
+ *
+ * @param req - The HTTP request object, containing the category data (validated against
+ *              `categorySchema`) in the body.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @throws Returns a 400 status code if the parent category does not exist, a 409 status code
+ *         if the name is already taken, and a 500 status code if the category cannot be created.
+ *
+ * @returns A JSON response containing the newly created category or an error message.
+ */
+
+export const createCategoryHandler = async (req: Request, res: Response) => {
+  try {
+    const { name, display_order, parent_id, tax_rate } = req.body as CategoryInput;
+
+    const category = await createCategory({ name, display_order, parent_id: parent_id ?? null, tax_rate: tax_rate ?? null });
+    res.status(201).json(category);
+  } catch (error) {
+    if (sendCategoryError(res, error)) {
+      return;
+    }
+    sendProblem(res, 500, 'Error creating category');
+  }
+};
+
+/**
+ * Handles category updates for both `PUT` (full replacement) and `PATCH` (partial update).
+ *
+ * @param req - The HTTP request object, with the category ID in `req.params.id` and the category data in the body.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @remarks
+ * The body is validated by the `validate` middleware: against `categorySchema` for `PUT`
+ * requests, where an omitted `display_order` is reset to 0, an omitted `parent_id` moves
+ * the category to the top level and an omitted `tax_rate` makes it use its parent's rate, and against `categoryPatchSchema` for `PATCH` requests,
+ * where only the fields present in the body are changed.
+ *
+ * @throws
+ * - Returns a 400 status code if the ID is invalid or the parent category does not exist.
+ * - Returns a 404 status code if the category does not exist.
+ * - Returns a 409 status code if the name is already taken or the new parent would nest the
+ *   category inside itself.
+ * - Returns a 500 status code if the update fails.
+ *
+ * @returns A JSON response containing the updated category or an error message.
+ */
+
+export const updateCategoryHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parseCategoryId(req);
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid category ID');
+    }
+
+    const partial = req.method === 'PATCH';
+    const { name, display_order, parent_id, tax_rate } = req.body as CategoryPatchInput;
+    const fields: Partial<ICategory> = partial
+      ? { name, display_order, parent_id, tax_rate }
+      : { name, display_order: display_order ?? 0, parent_id: parent_id ?? null, tax_rate: tax_rate ?? null };
+
+    const category = await updateCategory(id, fields);
+    if (!category) {
+      return sendProblem(res, 404, 'Category not found');
+    }
+    res.json(category);
+  } catch (error) {
+    if (sendCategoryError(res, error)) {
+      return;
+    }
+    sendProblem(res, 500, 'Error updating category');
+  }
+};
+
+/**
+ * Handles the deletion of a category.
+ *
+ * @param req - The HTTP request object, with the category ID in `req.params.id`.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @remarks
+ * The products of the category are kept but become uncategorized, and its subcategories
+ * move to the top level.
+ *
+ * @throws Returns a 400 status code if the ID is invalid, a 404 status code if the category
+ *         does not exist, and a 500 status code if the deletion fails.
+ *
+ * @returns A JSON response containing the deleted category or an error message.
+ */
+
+export const deleteCategoryHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parseCategoryId(req);
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid category ID');
+    }
+
+    const category = await deleteCategory(id);
+    if (!category) {
+      return sendProblem(res, 404, 'Category not found');
+    }
+    res.json(category);
+  } catch (error) {
+    sendProblem(res, 500, 'Error deleting category');
+  }
+};
@@ -0,0 +1,106 @@
+import { Request, Response } from 'express';
+import { UserPayload } from '../middleware/authMiddleware';
+import { hasPermission } from '../middleware/roleMiddleware';
+import { isSessionActive } from '../models/refreshTokenModel';
+import { subscribeToEvents } from '../utils/eventBus';
+import logger from '../utils/logger';
+import { AppEvent } from '../types';
+
+/**
+ * Interval between the comment lines sent to keep idle streams open through proxies.
+ */
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+/**
+ * Delay the browser waits before reconnecting a dropped stream, sent as the SSE `retry` field.
+ */
+
+const CLIENT_RETRY_MS = 5000;
+
+/**
+ * Interval between the checks that the session of an open stream has not been logged out or
+ * revoked.
+ */
+
+const SESSION_CHECK_INTERVAL_MS = 30000;
+
+/**
+ * Whether a user may receive an event. Stock changes are public like the menu; low-stock
+ * alerts only reach the roles that manage the inventory; order events only reach the waiter
+ * who owns the order, the roles that can read every order and the kitchen.
+ */
+
+const canReceiveEvent = (user: UserPayload, event: AppEvent): boolean => {
+  if (event.type === 'product.stock_changed') {
+    return true;
+  }
+  if (event.type === 'product.low_stock') {
+    return hasPermission(user.role, 'inventory:read');
+  }
+  return event.user_id === user.id
+    || hasPermission(user.role, 'orders:read_all')
+    || hasPermission(user.role, 'kitchen:update');
+};
+
+/**
+ * Handles the request to open the real-time event stream (Server-Sent Events).
+ *
+ * @param req - The HTTP request object, with the authenticated user in `req.user`.
+ * @param res - The HTTP response object, kept open until the client disconnects.
+ *
+ * @remarks
+ * Each event is sent with its `type` as the SSE event name and the whole event as JSON data,
+ * e.g. `event: order.status_changed` / `data: {"type":"order.status_changed",...}`. A comment
+ * line is sent every `HEARTBEAT_INTERVAL_MS` so idle connections are not closed. Events are
+ * not replayed: clients should refetch their data after reconnecting.
+ *
+ * The stream is only as valid as the access token that opened it: it is closed when the token
+ * expires, and when a check every `SESSION_CHECK_INTERVAL_MS` finds its session logged out or
+ * revoked (or cannot tell), so clients have to reconnect with a fresh token.
+ */
+
+export const streamEventsHandler = (req: Request, res: Response) => {
+  const user = (req as Request & { user: UserPayload }).user;
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+
+  const unsubscribe = subscribeToEvents((event) => {
+    if (canReceiveEvent(user, event)) {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    }
+  });
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    clearInterval(sessionCheck);
+    clearTimeout(expiry);
+    unsubscribe();
+    res.end();
+  };
+
+  const expiry = user.exp !== undefined ? setTimeout(close, Math.max(user.exp * 1000 - Date.now(), 0)) : undefined;
+  const sessionCheck = setInterval(() => {
+    isSessionActive(user.sid)
+      .then((active) => {
+        if (!active) close();
+      })
+      .catch((error) => {
+        logger.error('Could not check the session of an event stream', { error, userId: user.id });
+        close();
+      });
+  }, SESSION_CHECK_INTERVAL_MS);
+
+  req.on('close', close);
+};
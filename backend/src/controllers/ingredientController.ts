@@ -0,0 +1,252 @@
+import { Request, Response } from 'express';
+import {
+  getAllIngredients,
+  getIngredientById,
+  createIngredient,
+  updateIngredient,
+  deleteIngredient,
+  createIngredientMovement,
+  getIngredientMovements,
+  DuplicateIngredientNameError,
+  IngredientInUseError,
+  NegativeIngredientStockError,
+} from '../models/ingredientModel';
+import { IngredientInput, IngredientMovementInput, IngredientPatchInput } from '@oceans/shared';
+import { sendProblem } from '../middleware/errorHandler';
+import { DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT, queryNumber } from '../utils/queryParams';
+
+/**
+ * Parses the `:id` route parameter, returning `NaN` when it is not a positive integer.
+ */
+
+const parseIngredientId = (req: Request): number => {
+  const id = Number(req.params.id);
+  return Number.isInteger(id) && id > 0 ? id : NaN;
+};
+
+/**
+ * Sends the 409 response for an ingredient name that is already taken.
+ */
+
+const sendDuplicateName = (res: Response, error: DuplicateIngredientNameError) =>
+  sendProblem(res, 409, error.message, { errors: [{ field: 'name', message: 'Ya existe un ingrediente con ese nombre' }] });
+
+/**
+ * Handles the request to list the ingredients.
+ *
+ * @param req - The HTTP request object.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing every ingredient, by name, with its stock and the number
+ *          of recipes that use it, or an error message.
+ *
+ * @throws Returns a 500 status code if fetching the ingredients fails.
+ */
+
+export const getIngredientsHandler = async (req: Request, res: Response) => {
+  try {
+    const ingredients = await getAllIngredients();
+    res.json(ingredients);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching ingredients');
+  }
+};
+
+/**
+ * Handles the request to fetch a single ingredient.
+ *
+ * @param req - The HTTP request object, with the ingredient ID in `req.params.id`.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing the ingredient, or an error message.
+ *
+ * @throws Returns a 400 status code if the ID is invalid, a 404 status code if the ingredient
+ *         does not exist, and a 500 status code if fetching the ingredient fails.
+ */
+
+export const getIngredientHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parseIngredientId(req);
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid ingredient ID');
+    }
+
+    const ingredient = await getIngredientById(id);
+    if (!ingredient) {
+      return sendProblem(res, 404, 'Ingredient not found');
+    }
+    res.json(ingredient);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching ingredient');
+  }
+};
+
+/**
+ * Handles the creation of a new ingredient.
+ *
+ * @param req - The HTTP request object, containing the `name`, `unit` and optional initial
+ *              `stock` (validated against `ingredientSchema`) in the body.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing the newly created ingredient, or an error message.
+ *
+ * @throws Returns a 409 status code if the name is already taken, and a 500 status code if
+ *         the ingredient cannot be created.
+ */
+
+export const createIngredientHandler = async (req: Request, res: Response) => {
+  try {
+    const { name, unit, stock } = req.body as IngredientInput;
+    const userId = (req as any).user.id; // From authMiddleware
+
+    const ingredient = await createIngredient({ name, unit, stock }, userId);
+    res.status(201).json(ingredient);
+  } catch (error) {
+    if (error instanceof DuplicateIngredientNameError) {
+      return sendDuplicateName(res, error);
+    }
+    sendProblem(res, 500, 'Error creating ingredient');
+  }
+};
+
+/**
+ * Handles partial ingredient updates (`PATCH`) of the name and unit.
+ *
+ * @param req - The HTTP request object, with the ingredient ID in `req.params.id` and the
+ *              fields to change (validated against `ingredientPatchSchema`) in the body.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing the updated ingredient, or an error message.
+ *
+ * @throws Returns a 400 status code if the ID is invalid, a 404 status code if the ingredient
+ *         does not exist, a 409 status code if the new name is already taken, and a 500
+ *         status code if the update fails.
+ */
+
+export const updateIngredientHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parseIngredientId(req);
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid ingredient ID');
+    }
+
+    const ingredient = await updateIngredient(id, req.body as IngredientPatchInput);
+    if (!ingredient) {
+      return sendProblem(res, 404, 'Ingredient not found');
+    }
+    res.json(ingredient);
+  } catch (error) {
+    if (error instanceof DuplicateIngredientNameError) {
+      return sendDuplicateName(res, error);
+    }
+    sendProblem(res, 500, 'Error updating ingredient');
+  }
+};
+
+/**
+ * Handles the deletion of an ingredient.
+ *
+ * @param req - The HTTP request object, with the ingredient ID in `req.params.id`.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing the deleted ingredient, or an error message.
+ *
+ * @throws Returns a 400 status code if the ID is invalid, a 404 status code if the ingredient
+ *         does not exist, a 409 status code if a recipe still uses it, and a 500 status code
+ *         if the deletion fails.
+ */
+
+export const deleteIngredientHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parseIngredientId(req);
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid ingredient ID');
+    }
+
+    const ingredient = await deleteIngredient(id);
+    if (!ingredient) {
+      return sendProblem(res, 404, 'Ingredient not found');
+    }
+    res.json(ingredient);
+  } catch (error) {
+    if (error instanceof IngredientInUseError) {
+      return sendProblem(res, 409, error.message);
+    }
+    sendProblem(res, 500, 'Error deleting ingredient');
+  }
+};
+
+/**
+ * Handles the request to record a restock, adjustment or waste of an ingredient.
+ *
+ * @param req - The HTTP request object, with the ingredient ID in `req.params.id` and the
+ *              `kind`, signed `quantity` and `reason` (validated against
+ *              `ingredientMovementSchema`) in the body.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing the recorded movement, with the resulting `stock_after`,
+ *          or an error message.
+ *
+ * @throws
+ * - Returns a 400 status code if the ID is invalid.
+ * - Returns a 404 status code if the ingredient does not exist.
+ * - Returns a 409 status code with the `available` stock if the movement would leave the stock negative.
+ * - Returns a 500 status code if the movement cannot be recorded.
+ */
+
+export const createIngredientMovementHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parseIngredientId(req);
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid ingredient ID');
+    }
+
+    const { kind, quantity, reason } = req.body as IngredientMovementInput;
+    const userId = (req as any).user.id; // From authMiddleware
+
+    const movement = await createIngredientMovement({ ingredient_id: id, kind, quantity, reason: reason || null, user_id: userId });
+    if (!movement) {
+      return sendProblem(res, 404, 'Ingredient not found');
+    }
+    res.status(201).json(movement);
+  } catch (error) {
+    if (error instanceof NegativeIngredientStockError) {
+      return sendProblem(res, 409, error.message, {
+        available: error.available,
+        errors: [{ field: 'quantity', message: `Solo quedan ${error.available} en stock` }],
+      });
+    }
+    sendProblem(res, 500, 'Error recording ingredient movement');
+  }
+};
+
+/**
+ * Handles the request to list the ledger of an ingredient.
+ *
+ * @param req - The HTTP request object, with the ingredient ID in `req.params.id`. Supports
+ *              the query parameters `page` and `limit`.
+ * @param res - The HTTP response object.
+ * @returns A JSON envelope `{ data, pagination }` with the movements, newest first, or an error message.
+ *
+ * @throws Returns a 400 status code if the ID or a query parameter is invalid, a 404 status
+ *         code if the ingredient does not exist, and a 500 status code if fetching fails.
+ */
+
+export const getIngredientMovementsHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parseIngredientId(req);
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid ingredient ID');
+    }
+    const page = queryNumber(req.query, 'page', { integer: true, min: 1 });
+    const limit = queryNumber(req.query, 'limit', { integer: true, min: 1 });
+    if (page === null) {
+      return sendProblem(res, 400, 'page must be a positive integer');
+    }
+    if (limit === null || (limit !== undefined && limit > MAX_PAGE_LIMIT)) {
+      return sendProblem(res, 400, `limit must be an integer between 1 and ${MAX_PAGE_LIMIT}`);
+    }
+
+    if (!(await getIngredientById(id))) {
+      return sendProblem(res, 404, 'Ingredient not found');
+    }
+    const movements = await getIngredientMovements(id, page ?? 1, limit ?? DEFAULT_PAGE_LIMIT);
+    res.json(movements);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching ingredient movements');
+  }
+};
@@ -0,0 +1,176 @@
+import { Request, Response } from 'express';
+import {
+  createStockMovement,
+  getLowStockProducts,
+  getStockDiscrepancies,
+  getStockMovements,
+  NegativeStockError,
+  STOCK_MOVEMENT_KINDS,
+} from '../models/inventoryModel';
+import { IStockMovementInput, IStockMovementQuery, StockMovementKind } from '../types';
+import { RestockInput, StockAdjustmentInput } from '@oceans/shared';
+import { sendProblem } from '../middleware/errorHandler';
+import { DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT, queryDateRange, queryNumber, queryString } from '../utils/queryParams';
+
+/**
+ * Parses and validates the query parameters of the stock movement listing.
+ *
+ * @returns The parsed query, or an error message describing the first invalid parameter.
+ */
+
+const parseMovementQuery = (query: Request['query']): { value: IStockMovementQuery } | { error: string } => {
+  const page = queryNumber(query, 'page', { integer: true, min: 1 });
+  const limit = queryNumber(query, 'limit', { integer: true, min: 1 });
+  const productId = queryNumber(query, 'productId', { integer: true, min: 1 });
+  const range = queryDateRange(query);
+  const kind = queryString(query, 'kind')?.split(',').map((value) => value.trim()) as StockMovementKind[] | undefined;
+
+  if (page === null) return { error: 'page must be a positive integer' };
+  if (limit === null || (limit !== undefined && limit > MAX_PAGE_LIMIT)) {
+    return { error: `limit must be an integer between 1 and ${MAX_PAGE_LIMIT}` };
+  }
+  if (productId === null) return { error: 'productId must be a positive integer' };
+  if (range === null) return { error: 'from and to must be valid dates' };
+  if (kind && !kind.every((value) => STOCK_MOVEMENT_KINDS.includes(value))) {
+    return { error: `kind must be a comma-separated list of: ${STOCK_MOVEMENT_KINDS.join(', ')}` };
+  }
+
+  return {
+    value: {
+      page: page ?? 1,
+      limit: limit ?? DEFAULT_PAGE_LIMIT,
+      productId,
+      kind,
+      from: range.from,
+      to: range.to,
+    },
+  };
+};
+
+/**
+ * Handles the request to list the inventory ledger.
+ *
+ * @param req - The HTTP request object. Supports the query parameters `page`, `limit`,
+ *              `productId`, `kind` (comma-separated), `from` and `to`.
+ * @param res - The HTTP response object.
+ * @returns A JSON envelope `{ data, pagination }` with the movements, newest first, or an error message.
+ *
+ * @throws Returns a 400 status code if a query parameter is invalid, and a 500 status code if
+ *         fetching the movements fails.
+ */
+
+export const getStockMovementsHandler = async (req: Request, res: Response) => {
+  try {
+    const parsed = parseMovementQuery(req.query);
+    if ('error' in parsed) {
+      return sendProblem(res, 400, parsed.error);
+    }
+
+    const movements = await getStockMovements(parsed.value);
+    res.json(movements);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching stock movements');
+  }
+};
+
+/**
+ * Records a stock movement for the current user and sends it with a 201 status code, or the
+ * matching error response.
+ */
+
+const sendStockMovement = async (req: Request, res: Response, movement: IStockMovementInput) => {
+  try {
+    const recorded = await createStockMovement({ ...movement, user_id: (req as any).user.id }); // From authMiddleware
+    if (!recorded) {
+      return sendProblem(res, 404, 'Product not found', { errors: [{ field: 'product_id', message: 'El producto no existe' }] });
+    }
+    res.status(201).json(recorded);
+  } catch (error) {
+    if (error instanceof NegativeStockError) {
+      return sendProblem(res, 409, error.message, {
+        available: error.available,
+        errors: [{ field: 'quantity', message: `Solo hay ${error.available} unidades en stock` }],
+      });
+    }
+    sendProblem(res, 500, 'Error recording stock movement');
+  }
+};
+
+/**
+ * Handles the request to record a restock.
+ *
+ * @param req - The HTTP request object, with the `product_id`, the positive `quantity` received
+ *              and an optional `reason` (validated against `restockSchema`) in the body.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing the recorded `restock` movement, with the resulting
+ *          `stock_after`, or an error message.
+ *
+ * @throws Returns a 404 status code if the product does not exist or is archived, and a 500
+ *         status code if the movement cannot be recorded.
+ */
+
+export const createRestockHandler = async (req: Request, res: Response) => {
+  const { product_id, quantity, reason } = req.body as RestockInput;
+  await sendStockMovement(req, res, { product_id, kind: 'restock', quantity, reason: reason || null });
+};
+
+/**
+ * Handles the request to record a manual stock adjustment or waste.
+ *
+ * @param req - The HTTP request object, with the `product_id`, the `kind` (`adjustment` or
+ *              `waste`), the signed `quantity` and the `reason` (validated against
+ *              `stockAdjustmentSchema`) in the body.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing the recorded movement, with the resulting `stock_after`,
+ *          or an error message.
+ *
+ * @throws
+ * - Returns a 404 status code if the product does not exist or is archived.
+ * - Returns a 409 status code with the `available` stock if the movement would leave the stock negative.
+ * - Returns a 500 status code if the movement cannot be recorded.
+ */
+
+export const createStockAdjustmentHandler = async (req: Request, res: Response) => {
+  const { product_id, kind, quantity, reason } = req.body as StockAdjustmentInput;
+  await sendStockMovement(req, res, { product_id, kind, quantity, reason });
+};
+
+/**
+ * Handles the request to list the products that need restocking.
+ *
+ * @param req - The HTTP request object.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing the active products at or below their reorder
+ *          threshold, or an error message.
+ *
+ * @throws Returns a 500 status code if fetching the products fails.
+ */
+
+export const getLowStockHandler = async (req: Request, res: Response) => {
+  try {
+    const products = await getLowStockProducts();
+    res.json(products);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching low-stock products');
+  }
+};
+
+/**
+ * Handles the request to audit the inventory ledger.
+ *
+ * @param req - The HTTP request object.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing the products whose stock differs from the sum of their
+ *          movements (empty when the ledger is consistent), or an error message.
+ *
+ * @throws Returns a 500 status code if the audit fails.
+ */
+
+export const getStockDiscrepanciesHandler = async (req: Request, res: Response) => {
+  try {
+    const discrepancies = await getStockDiscrepancies();
+    res.json(discrepancies);
+  } catch (error) {
+    sendProblem(res, 500, 'Error auditing stock');
+  }
+};
@@ -0,0 +1,109 @@
+import { Request, Response } from 'express';
+import {
+  getStations,
+  getStationByCode,
+  getKitchenTickets,
+  updateOrderItemStatus,
+  PrepStatusTransitionError,
+  OrderNotInKitchenError,
+} from '../models/kitchenModel';
+import { OrderItemStatusUpdateInput } from '@oceans/shared';
+import { sendProblem } from '../middleware/errorHandler';
+
+/**
+ * Station code that selects the tickets of every station on `GET /kitchen/:station/tickets`.
+ */
+
+const ALL_STATIONS = 'all';
+
+/**
+ * Handles the request to list the kitchen stations.
+ *
+ * @param req - The HTTP request object.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing every station ordered by name, or an error message.
+ *
+ * @throws Returns a 500 status code if fetching the stations fails.
+ */
+
+export const getStationsHandler = async (req: Request, res: Response) => {
+  try {
+    const stations = await getStations();
+    res.json(stations);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching stations');
+  }
+};
+
+/**
+ * Handles the request to fetch the open tickets of a kitchen station.
+ *
+ * @param req - The HTTP request object, with the station code in `req.params.station`
+ *              (`all` for every station).
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing the station's tickets, oldest order first, or an error message.
+ *
+ * @throws Returns a 404 status code if the station does not exist, and a 500 status code if
+ *         fetching the tickets fails.
+ */
+
+export const getStationTicketsHandler = async (req: Request, res: Response) => {
+  try {
+    const code = req.params.station;
+    let stationId: number | null = null;
+    if (code !== ALL_STATIONS) {
+      const station = await getStationByCode(code);
+      if (!station) {
+        return sendProblem(res, 404, 'Station not found');
+      }
+      stationId = station.id;
+    }
+
+    const tickets = await getKitchenTickets(stationId);
+    res.json(tickets);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching kitchen tickets');
+  }
+};
+
+/**
+ * Handles the change of the preparation status of an order item.
+ *
+ * @param req - The HTTP request object, with the item ID in `req.params.id` and the new
+ *              status (validated against `orderItemStatusUpdateSchema`) in the body.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @throws Returns a 400 status code if the ID is invalid, a 404 status code if the item
+ *         does not exist, a 409 status code if the transition is not allowed or the order
+ *         has left the kitchen, and a 500 status code if the update fails.
+ *
+ * @returns A JSON response containing the updated item and the resulting `order_status`,
+ *          or an error message.
+ */
+
+export const updateOrderItemStatusHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id; // From authMiddleware
+    const itemId = parseInt(req.params.id, 10);
+    const { status } = req.body as OrderItemStatusUpdateInput;
+
+    if (isNaN(itemId)) {
+      return sendProblem(res, 400, 'Invalid order item ID');
+    }
+
+    const result = await updateOrderItemStatus(itemId, status, userId);
+    if (!result) {
+      return sendProblem(res, 404, 'Order item not found');
+    }
+
+    res.json({ ...result.item, order_status: result.order_status });
+  } catch (error) {
+    if (error instanceof PrepStatusTransitionError) {
+      return sendProblem(res, 409, error.message, { from: error.from, to: error.to });
+    }
+    if (error instanceof OrderNotInKitchenError) {
+      return sendProblem(res, 409, error.message, { order_id: error.orderId, order_status: error.orderStatus });
+    }
+    sendProblem(res, 500, 'Error updating order item status');
+  }
+};
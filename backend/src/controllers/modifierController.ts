@@ -0,0 +1,252 @@
+import { Request, Response } from 'express';
+import {
+  getModifierGroupsByProduct,
+  createModifierGroup,
+  updateModifierGroup,
+  deleteModifierGroup,
+  createModifier,
+  updateModifier,
+  deleteModifier,
+  ModifierGroupLimitsError,
+} from '../models/modifierModel';
+import { getProductById } from '../models/productModel';
+import { IModifierGroup } from '../types';
+import { ModifierGroupInput, ModifierGroupPatchInput, ModifierInput, ModifierPatchInput } from '@oceans/shared';
+import { sendProblem } from '../middleware/errorHandler';
+
+/**
+ * Parses a route parameter, returning `NaN` when it is not a positive integer.
+ */
+
+const parseId = (req: Request, param: string): number => {
+  const id = Number(req.params[param]);
+  return Number.isInteger(id) && id > 0 ? id : NaN;
+};
+
+/**
+ * Handles the request to fetch the modifier groups of a product, each with its modifiers.
+ *
+ * @param req - The HTTP request object, with the product ID in `req.params.id`.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing the groups in display order (empty if the product has
+ *          no modifiers), or an error message.
+ *
+ * @throws Returns a 400 status code if the ID is invalid, a 404 status code if the product
+ *         does not exist or is archived, and a 500 status code if fetching the groups fails.
+ */
+
+export const getProductModifierGroupsHandler = async (req: Request, res: Response) => {
+  try {
+    const productId = parseId(req, 'id');
+    if (isNaN(productId)) {
+      return sendProblem(res, 400, 'Invalid product ID');
+    }
+
+    const product = await getProductById(productId);
+    if (!product) {
+      return sendProblem(res, 404, 'Product not found');
+    }
+
+    const groups = await getModifierGroupsByProduct(productId);
+    res.json(groups);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching modifier groups');
+  }
+};
+
+/**
+ * Handles the creation of a modifier group for a product.
+ *
+ * @param req - The HTTP request object, with the product ID in `req.params.id` and the group
+ *              (validated against `modifierGroupSchema`, optionally with its `modifiers`) in the body.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @throws Returns a 400 status code if the ID is invalid or the selection limits are
+ *         inconsistent, a 404 status code if the product does not exist or is archived, and
+ *         a 500 status code if the group cannot be created.
+ *
+ * @returns A JSON response containing the created group with its modifiers, or an error message.
+ */
+
+export const createModifierGroupHandler = async (req: Request, res: Response) => {
+  try {
+    const productId = parseId(req, 'id');
+    if (isNaN(productId)) {
+      return sendProblem(res, 400, 'Invalid product ID');
+    }
+
+    const { name, required, min_selections, max_selections, display_order, modifiers } = req.body as ModifierGroupInput;
+    const group = await createModifierGroup(productId, { name, required, min_selections, max_selections, display_order, modifiers });
+    if (!group) {
+      return sendProblem(res, 404, 'Product not found');
+    }
+    res.status(201).json(group);
+  } catch (error) {
+    if (error instanceof ModifierGroupLimitsError) {
+      return sendProblem(res, 400, error.message);
+    }
+    sendProblem(res, 500, 'Error creating modifier group');
+  }
+};
+
+/**
+ * Handles partial updates of a modifier group. Its modifiers are managed through their own
+ * endpoints.
+ *
+ * @param req - The HTTP request object, with the group ID in `req.params.id` and the fields
+ *              to change (validated against `modifierGroupPatchSchema`) in the body.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @throws Returns a 400 status code if the ID is invalid or the resulting selection limits
+ *         are inconsistent, a 404 status code if the group does not exist, and a 500 status
+ *         code if the update fails.
+ *
+ * @returns A JSON response containing the updated group or an error message.
+ */
+
+export const updateModifierGroupHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req, 'id');
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid modifier group ID');
+    }
+
+    const { name, required, min_selections, max_selections, display_order } = req.body as ModifierGroupPatchInput;
+    const fields: Partial<IModifierGroup> = { name, required, min_selections, max_selections, display_order };
+
+    const group = await updateModifierGroup(id, fields);
+    if (!group) {
+      return sendProblem(res, 404, 'Modifier group not found');
+    }
+    res.json(group);
+  } catch (error) {
+    if (error instanceof ModifierGroupLimitsError) {
+      return sendProblem(res, 400, error.message);
+    }
+    sendProblem(res, 500, 'Error updating modifier group');
+  }
+};
+
+/**
+ * Handles the deletion of a modifier group and its modifiers.
+ *
+ * @param req - The HTTP request object, with the group ID in `req.params.id`.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @throws Returns a 400 status code if the ID is invalid, a 404 status code if the group
+ *         does not exist, and a 500 status code if the deletion fails.
+ *
+ * @returns A JSON response containing the deleted group or an error message.
+ */
+
+export const deleteModifierGroupHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req, 'id');
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid modifier group ID');
+    }
+
+    const group = await deleteModifierGroup(id);
+    if (!group) {
+      return sendProblem(res, 404, 'Modifier group not found');
+    }
+    res.json(group);
+  } catch (error) {
+    sendProblem(res, 500, 'Error deleting modifier group');
+  }
+};
+
+/**
+ * Handles adding a modifier to a group.
+ *
+ * @param req - The HTTP request object, with the group ID in `req.params.id` and the
+ *              modifier (validated against `modifierSchema`) in the body.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @throws Returns a 400 status code if the ID is invalid, a 404 status code if the group
+ *         does not exist, and a 500 status code if the modifier cannot be created.
+ *
+ * @returns A JSON response containing the created modifier or an error message.
+ */
+
+export const createModifierHandler = async (req: Request, res: Response) => {
+  try {
+    const groupId = parseId(req, 'id');
+    if (isNaN(groupId)) {
+      return sendProblem(res, 400, 'Invalid modifier group ID');
+    }
+
+    const { name, price_delta, display_order } = req.body as ModifierInput;
+    const modifier = await createModifier(groupId, { name, price_delta, display_order });
+    if (!modifier) {
+      return sendProblem(res, 404, 'Modifier group not found');
+    }
+    res.status(201).json(modifier);
+  } catch (error) {
+    sendProblem(res, 500, 'Error creating modifier');
+  }
+};
+
+/**
+ * Handles partial updates of a modifier. A new price delta only applies to orders placed
+ * from now on.
+ *
+ * @param req - The HTTP request object, with the group ID in `req.params.id`, the modifier ID
+ *              in `req.params.modifierId` and the fields to change in the body.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @throws Returns a 400 status code if an ID is invalid, a 404 status code if the modifier
+ *         does not exist in that group, and a 500 status code if the update fails.
+ *
+ * @returns A JSON response containing the updated modifier or an error message.
+ */
+
+export const updateModifierHandler = async (req: Request, res: Response) => {
+  try {
+    const groupId = parseId(req, 'id');
+    const id = parseId(req, 'modifierId');
+    if (isNaN(groupId) || isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid modifier ID');
+    }
+
+    const { name, price_delta, display_order } = req.body as ModifierPatchInput;
+    const modifier = await updateModifier(groupId, id, { name, price_delta, display_order });
+    if (!modifier) {
+      return sendProblem(res, 404, 'Modifier not found');
+    }
+    res.json(modifier);
+  } catch (error) {
+    sendProblem(res, 500, 'Error updating modifier');
+  }
+};
+
+/**
+ * Handles the deletion of a modifier. Past orders keep the modifier they were placed with.
+ *
+ * @param req - The HTTP request object, with the group ID in `req.params.id` and the
+ *              modifier ID in `req.params.modifierId`.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @throws Returns a 400 status code if an ID is invalid, a 404 status code if the modifier
+ *         does not exist in that group, and a 500 status code if the deletion fails.
+ *
+ * @returns A JSON response containing the deleted modifier or an error message.
+ */
+
+export const deleteModifierHandler = async (req: Request, res: Response) => {
+  try {
+    const groupId = parseId(req, 'id');
+    const id = parseId(req, 'modifierId');
+    if (isNaN(groupId) || isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid modifier ID');
+    }
+
+    const modifier = await deleteModifier(groupId, id);
+    if (!modifier) {
+      return sendProblem(res, 404, 'Modifier not found');
+    }
+    res.json(modifier);
+  } catch (error) {
+    sendProblem(res, 500, 'Error deleting modifier');
+  }
+};
@@ -1,18 +1,72 @@
 import { Request, Response } from 'express';
-import { createOrder, getAllOrdersWithDetails } from '../models/orderModel';
-import { IOrder, IOrderItem } from '../types';
+import {
+  createOrder,
+  quoteOrder,
+  getAllOrdersWithDetails,
+  getAllOrders,
+  updateOrderStatus,
+  getOrderStatusHistory,
+  ORDER_STATUSES,
+  OrderStatusTransitionError,
+  OrderNotPaidError,
+  OrderHasPaymentsError,
+  InsufficientStockError,
+  UnknownProductsError,
+  InvalidModifiersError,
+  UnknownTableError,
+  TableUnavailableError,
+} from '../models/orderModel';
+import { PromoCodeNotApplicableError, PromoCodeRejection } from '../models/promotionModel';
+import { IOrderQuery, OrderStatus } from '../types';
+import { CreateOrderInput, OrderStatusUpdateInput } from '@oceans/shared';
+import { sendProblem } from '../middleware/errorHandler';
+import { queryString, queryNumber, queryDateRange, DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from '../utils/queryParams';
+
+/**
+ * Messages shown next to the promo code input for each reason a code is rejected.
+ */
+
+const PROMO_CODE_MESSAGES: Record<PromoCodeRejection, string> = {
+  unknown: 'El código promocional no existe',
+  inactive: 'El código promocional no está activo',
+  not_started: 'El código promocional todavía no es válido',
+  expired: 'El código promocional ha caducado',
+  exhausted: 'El código promocional ya no tiene usos disponibles',
+};
+
+/**
+ * Sends the 400 response for a promo code that cannot be applied.
+ */
+
+const sendPromoCodeNotApplicable = (res: Response, error: PromoCodeNotApplicableError) =>
+  sendProblem(res, 400, error.message, {
+    reason: error.reason,
+    errors: [{ field: 'promo_code', message: PROMO_CODE_MESSAGES[error.reason] }],
+  });
 
 /**
  * Handles the creation of a new order.
  *
  * This function processes the incoming request to create an order for the authenticated user.
- * It validates the order items, ensures they meet the required criteria, and then creates the order
- * in the database. If successful, it responds with the created order; otherwise, it returns an error response.
+ * The order items have already been validated against `createOrderSchema` by the `validate`
+ * middleware (a missing `quantity` defaults to 1); the order is then created in the database.
+ * An optional `table_id` assigns the order to a dining table, which becomes `occupied`. If successful, it responds with the created order; otherwise, it returns an error response.
+ * An optional `promo_code` applies a promotion, and `service_charge: true` adds the service charge.
  *
  * @param req - The HTTP request object, expected to contain the authenticated user's ID and order items in the body.
  * @param res - The HTTP response object used to send back the appropriate response.
  *
- * @throws {Error} If there is an issue during order creation, a 500 status code is returned with the error message.
+ * @remarks
+ * Only `product_id`, `quantity` and `modifier_ids` are read from each item. Prices, taxes,
+ * discount and the order total are computed on the server from the current product prices,
+ * modifier price deltas, tax rates and promotions, and stock is reserved atomically with the order.
+ *
+ * @throws
+ * - Returns a 400 status code if the items are missing or malformed, reference unknown products or an unknown table,
+ *   or their modifiers do not fit the product's modifier groups (details in `modifier_problems`), or if the
+ *   promo code cannot be applied (field error on `promo_code`, machine-readable `reason`).
+ * - Returns a 409 status code with the per-item shortages if there is not enough stock, or if the table is `dirty`.
+ * - Returns a 500 status code if there is an issue during order creation.
  *
  * @returns A JSON response with the created order on success or an error message on failure.
  */
@@ -20,28 +74,69 @@ import { IOrder, IOrderItem } from '../types';
 export const createOrderHandler = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user.id; // From authMiddleware
-    const { orderItems } = req.body as { orderItems: IOrderItem[] };
+    const { orderItems, table_id: tableId, promo_code: promoCode, service_charge: serviceCharge } = req.body as CreateOrderInput;
 
-    if (!orderItems || !Array.isArray(orderItems) || orderItems.length === 0) {
-      return res.status(400).json({ message: 'Order items are required' });
+    const order = await createOrder(userId, orderItems, tableId ?? null, { promoCode, serviceCharge });
+    res.status(201).json(order);
+  } catch (error) {
+    if (error instanceof PromoCodeNotApplicableError) {
+      return sendPromoCodeNotApplicable(res, error);
+    }
+    if (error instanceof UnknownProductsError) {
+      return sendProblem(res, 400, error.message, { product_ids: error.productIds });
+    }
+    if (error instanceof InvalidModifiersError) {
+      return sendProblem(res, 400, error.message, { modifier_problems: error.problems });
+    }
+    if (error instanceof UnknownTableError) {
+      return sendProblem(res, 400, error.message, { table_id: error.tableId });
+    }
+    if (error instanceof TableUnavailableError) {
+      return sendProblem(res, 409, error.message, { table_id: error.tableId, table_status: error.tableStatus });
+    }
+    if (error instanceof InsufficientStockError) {
+      return sendProblem(res, 409, error.message, { items: error.shortages });
     }
+    sendProblem(res, 500, 'Error creating order');
+  }
+};
 
-    const validItems = orderItems.map(item => ({
-      id: item.id || 0, // Default or generate an ID if necessary
-      order_id: item.order_id || 0, // Default or associate with an order ID
-      product_id: item.product_id,
-      quantity: item.quantity || 1,
-      price_at_time: item.price_at_time || 0,
-    })).filter(item => item.quantity > 0 && item.price_at_time >= 0);
+/**
+ * Prices an order without placing it (`POST /orders/quote`).
+ *
+ * @param req - The HTTP request object, with the same body as `createOrderHandler`.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @remarks
+ * The body has already been validated against `createOrderSchema`; `table_id` is ignored.
+ * The quote is not binding: stock is not checked or reserved, and the order is priced again
+ * when it is placed.
+ *
+ * @throws
+ * - Returns a 400 status code if the items reference unknown products, their modifiers do not fit the
+ *   product's modifier groups, or the promo code cannot be applied.
+ * - Returns a 500 status code if there is an issue while pricing the order.
+ *
+ * @returns A JSON response with the subtotal, discount, service charge, taxes and total, and the breakdown of every line.
+ */
 
-    if (validItems.length !== orderItems.length) {
-      return res.status(400).json({ message: 'Invalid order item data' });
-    }
+export const quoteOrderHandler = async (req: Request, res: Response) => {
+  try {
+    const { orderItems, promo_code: promoCode, service_charge: serviceCharge } = req.body as CreateOrderInput;
 
-    const order = await createOrder(userId, validItems);
-    res.status(201).json(order);
+    const quote = await quoteOrder(orderItems, { promoCode, serviceCharge });
+    res.json(quote);
   } catch (error) {
-    res.status(500).json({ message: 'Error creating order', error: (error as Error).message });
+    if (error instanceof PromoCodeNotApplicableError) {
+      return sendPromoCodeNotApplicable(res, error);
+    }
+    if (error instanceof UnknownProductsError) {
+      return sendProblem(res, 400, error.message, { product_ids: error.productIds });
+    }
+    if (error instanceof InvalidModifiersError) {
+      return sendProblem(res, 400, error.message, { modifier_problems: error.problems });
+    }
+    sendProblem(res, 500, 'Error quoting order');
   }
 };
 
@@ -63,6 +158,159 @@ export const getOrders = async (req: Request, res: Response) => {
     const orders = await getAllOrdersWithDetails(userId);
     res.json(orders);
   } catch (error) {
-    res.status(500).json({ message: 'Error fetching orders', error: (error as Error).message });
+    sendProblem(res, 500, 'Error fetching orders');
+  }
+};
+
+/**
+ * Parses and validates the filters of `GET /orders/all` from the query string.
+ *
+ * @returns The parsed query, or an error message describing the first invalid parameter.
+ */
+
+const parseOrderQuery = (query: Request['query']): { value: IOrderQuery } | { error: string } => {
+  const page = queryNumber(query, 'page', { integer: true, min: 1 });
+  const limit = queryNumber(query, 'limit', { integer: true, min: 1 });
+  const tableId = queryNumber(query, 'tableId', { integer: true, min: 1 });
+  const waiterId = queryNumber(query, 'waiterId', { integer: true, min: 1 });
+  const minTotal = queryNumber(query, 'minTotal');
+  const maxTotal = queryNumber(query, 'maxTotal');
+  const range = queryDateRange(query);
+  const status = queryString(query, 'status')?.split(',').map((value) => value.trim()) as OrderStatus[] | undefined;
+
+  if (page === null) return { error: 'page must be a positive integer' };
+  if (limit === null || (limit !== undefined && limit > MAX_PAGE_LIMIT)) {
+    return { error: `limit must be an integer between 1 and ${MAX_PAGE_LIMIT}` };
+  }
+  if (tableId === null) return { error: 'tableId must be a positive integer' };
+  if (waiterId === null) return { error: 'waiterId must be a positive integer' };
+  if (minTotal === null || maxTotal === null) return { error: 'minTotal and maxTotal must be non-negative numbers' };
+  if (range === null) return { error: 'from and to must be valid dates' };
+  if (status && !status.every((value) => ORDER_STATUSES.includes(value))) {
+    return { error: `status must be a comma-separated list of: ${ORDER_STATUSES.join(', ')}` };
+  }
+
+  return {
+    value: {
+      page: page ?? 1,
+      limit: limit ?? DEFAULT_PAGE_LIMIT,
+      status,
+      tableId,
+      waiterId,
+      waiter: queryString(query, 'waiter'),
+      from: range.from,
+      to: range.to,
+      minTotal,
+      maxTotal,
+    },
+  };
+};
+
+/**
+ * Retrieves the orders of every waiter in the restaurant, for admins.
+ *
+ * @param req - The HTTP request object. Supports the query parameters `page`, `limit`,
+ *              `status` (comma-separated), `tableId`, `waiterId`, `waiter` (username), `from`, `to`,
+ *              `minTotal` and `maxTotal`.
+ * @param res - The HTTP response object used to send the response back to the client.
+ *
+ * @returns A JSON envelope `{ data, pagination }` with the orders (including the waiter's
+ *          `username`, the `table_number` and the order items), newest first.
+ *
+ * @throws Will return a 400 status code if a filter is invalid, or a 500 status code
+ *         if an error occurs while fetching orders.
+ */
+export const getAllOrdersHandler = async (req: Request, res: Response) => {
+  try {
+    const parsed = parseOrderQuery(req.query);
+    if ('error' in parsed) {
+      return sendProblem(res, 400, parsed.error);
+    }
+
+    const orders = await getAllOrders(parsed.value);
+    res.json(orders);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching orders');
+  }
+};
+
+/**
+ * Changes the status of an order.
+ *
+ * @param req - The HTTP request object, with the order ID in `req.params.id` and the
+ *              requested `status` in the body.
+ * @param res - The HTTP response object used to send back the appropriate response.
+ *
+ * @remarks
+ * Status changes follow the order state machine
+ * (`pending` → `in_progress` → `ready` → `served` → `completed`, with cancellation
+ * allowed before the order is served and while it has received no payments). Every accepted
+ * change is recorded in the order status history together with the user who made it. An order can only be
+ * `completed` once it has been fully paid. Waiters can only change the orders they created
+ * (checked by `requireOrderAccess`).
+ *
+ * @throws
+ * - Returns a 400 status code if the order ID or the status is invalid.
+ * - Returns a 403 status code if the order belongs to another waiter.
+ * - Returns a 404 status code if the order does not exist.
+ * - Returns a 409 status code if the transition is not allowed from the current status, or if
+ *   the order is being completed with an outstanding balance (in `balance`) or cancelled after
+ *   receiving payments (the amount paid in `paid`).
+ * - Returns a 500 status code if the update fails.
+ *
+ * @returns A JSON response with the updated order on success or an error message on failure.
+ */
+export const updateOrderStatusHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id; // From authMiddleware
+    const orderId = parseInt(req.params.id, 10);
+    const { status } = req.body as OrderStatusUpdateInput;
+
+    if (isNaN(orderId)) {
+      return sendProblem(res, 400, 'Invalid order ID');
+    }
+
+    const order = await updateOrderStatus(orderId, status, userId);
+    if (!order) {
+      return sendProblem(res, 404, 'Order not found');
+    }
+
+    res.json(order);
+  } catch (error) {
+    if (error instanceof OrderStatusTransitionError) {
+      return sendProblem(res, 409, error.message, { from: error.from, to: error.to });
+    }
+    if (error instanceof OrderNotPaidError) {
+      return sendProblem(res, 409, error.message, { balance: error.balance });
+    }
+    if (error instanceof OrderHasPaymentsError) {
+      return sendProblem(res, 409, error.message, { paid: error.paid });
+    }
+    sendProblem(res, 500, 'Error updating order status');
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Retrieves the status change history of an order. Waiters can only read the orders they
+ * created (checked by `requireOrderAccess`).
+ *
+ * @param req - The HTTP request object, with the order ID in `req.params.id`.
+ * @param res - The HTTP response object used to send the response back to the client.
+ *
+ * @throws Will return a 400 status code if the order ID is invalid, a 403 status code if the
+ *         order belongs to another waiter, a 404 status code if it does not exist, or a 500
+ *         status code if an error occurs while fetching the history.
+ */
+export const getOrderStatusHistoryHandler = async (req: Request, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.id, 10);
+    if (isNaN(orderId)) {
+      return sendProblem(res, 400, 'Invalid order ID');
+    }
+
+    const history = await getOrderStatusHistory(orderId);
+    res.json(history);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching order status history');
+  }
+};
@@ -0,0 +1,109 @@
+import { Request, Response } from 'express';
+import {
+  createPayment,
+  getOrderBalance,
+  OrderNotPayableError,
+  PaymentExceedsBalanceError,
+  InvalidPaymentItemsError,
+  InsufficientTenderedError,
+  CardDeclinedError,
+  PaymentConflictError,
+} from '../models/paymentModel';
+import { PaymentInput } from '@oceans/shared';
+import { sendProblem } from '../middleware/errorHandler';
+
+/**
+ * Handles a payment towards an order.
+ *
+ * @param req - The HTTP request object, with the order ID in `req.params.id` and the payment
+ *              (validated against `paymentSchema`) in the body.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @remarks
+ * The response is the stored payment plus the order's remaining `balance` and its
+ * `order_status`, which is `completed` when the payment settled a served order. For cash
+ * payments `change_given` is the change to hand back. Waiters can only take payments on the
+ * orders they created (checked by `requireOrderAccess`).
+ *
+ * @throws
+ * - Returns a 400 status code if the ID is invalid, the items of a split by item are not part
+ *   of the order or already paid (details in `item_problems`), or the cash tendered is not enough.
+ * - Returns a 402 status code if the card is declined (reason in `decline_reason`).
+ * - Returns a 403 status code if the order belongs to another waiter.
+ * - Returns a 404 status code if the order does not exist.
+ * - Returns a 409 status code if the order is completed or cancelled, the payment exceeds the
+ *   balance, or the order changed while the card was being charged (the charge is refunded).
+ * - Returns a 500 status code if the payment fails.
+ *
+ * @returns A JSON response containing the payment or an error message.
+ */
+
+export const createPaymentHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id; // From authMiddleware
+    const orderId = parseInt(req.params.id, 10);
+    if (isNaN(orderId)) {
+      return sendProblem(res, 400, 'Invalid order ID');
+    }
+
+    const payment = await createPayment(orderId, req.body as PaymentInput, userId);
+    if (!payment) {
+      return sendProblem(res, 404, 'Order not found');
+    }
+    res.status(201).json(payment);
+  } catch (error) {
+    if (error instanceof InvalidPaymentItemsError) {
+      return sendProblem(res, 400, error.message, { item_problems: error.problems });
+    }
+    if (error instanceof InsufficientTenderedError) {
+      return sendProblem(res, 400, error.message, {
+        required: error.required,
+        errors: [{ field: 'tendered', message: `El importe entregado debe ser al menos ${error.required}` }],
+      });
+    }
+    if (error instanceof CardDeclinedError) {
+      return sendProblem(res, 402, error.message, { decline_reason: error.reason });
+    }
+    if (error instanceof OrderNotPayableError) {
+      return sendProblem(res, 409, error.message, { order_status: error.orderStatus });
+    }
+    if (error instanceof PaymentConflictError) {
+      return sendProblem(res, 409, error.message);
+    }
+    if (error instanceof PaymentExceedsBalanceError) {
+      return sendProblem(res, 409, error.message, { balance: error.balance, amount: error.amount });
+    }
+    sendProblem(res, 500, 'Error creating payment');
+  }
+};
+
+/**
+ * Handles the request to fetch the balance of an order. Waiters can only read the orders they
+ * created (checked by `requireOrderAccess`).
+ *
+ * @param req - The HTTP request object, with the order ID in `req.params.id`.
+ * @param res - The HTTP response object.
+ * @returns A JSON response with the order's total, paid amount, tips, outstanding balance,
+ *          items (with the units already paid by item) and payments, or an error message.
+ *
+ * @throws Returns a 400 status code if the ID is invalid, a 403 status code if the order
+ *         belongs to another waiter, a 404 status code if the order does not exist, and a 500
+ *         status code if fetching the balance fails.
+ */
+
+export const getOrderBalanceHandler = async (req: Request, res: Response) => {
+  try {
+    const orderId = parseInt(req.params.id, 10);
+    if (isNaN(orderId)) {
+      return sendProblem(res, 400, 'Invalid order ID');
+    }
+
+    const balance = await getOrderBalance(orderId);
+    if (!balance) {
+      return sendProblem(res, 404, 'Order not found');
+    }
+    res.json(balance);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching order balance');
+  }
+};
@@ -1,26 +1,128 @@
 import { Request, Response } from 'express';
-import { getAllProducts, createProduct } from '../models/productModel';
-import { IProduct } from '../types';
+import {
+  getAllProducts,
+  createProduct,
+  getArchivedProducts,
+  getProductById,
+  updateProduct,
+  archiveProduct,
+  restoreProduct,
+  productETag,
+  InvalidCursorError,
+  ProductVersionMismatchError,
+} from '../models/productModel';
+import { UnknownCategoryError } from '../models/categoryModel';
+import { UnknownStationError } from '../models/kitchenModel';
+import { IProduct, IProductQuery, ProductSortKey } from '../types';
+import { ProductInput, ProductPatchInput } from '@oceans/shared';
+import { sendProblem } from '../middleware/errorHandler';
+import { queryString, queryNumber, DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from '../utils/queryParams';
+
+const PRODUCT_SORT_KEYS: ProductSortKey[] = ['id', 'name', 'price', 'stock', 'created_at'];
 
 /**
- * Handles the request to fetch all products.
+ * Parses and validates the listing options of `GET /products` from the query string.
  *
- * @param req - The HTTP request object.
+ * @returns The parsed query, or an error message describing the first invalid parameter.
+ */
+
+const parseProductQuery = (query: Request['query']): { value: IProductQuery } | { error: string } => {
+  const page = queryNumber(query, 'page', { integer: true, min: 1 });
+  const limit = queryNumber(query, 'limit', { integer: true, min: 1 });
+  const minPrice = queryNumber(query, 'minPrice');
+  const maxPrice = queryNumber(query, 'maxPrice');
+  const minStock = queryNumber(query, 'minStock', { integer: true });
+  const maxStock = queryNumber(query, 'maxStock', { integer: true });
+  const sort = queryString(query, 'sort') ?? 'id';
+  const order = (queryString(query, 'order') ?? 'asc').toLowerCase();
+  const inStock = queryString(query, 'inStock');
+  const category = queryNumber(query, 'category', { integer: true, min: 1 });
+
+  if (page === null) return { error: 'page must be a positive integer' };
+  if (limit === null || (limit !== undefined && limit > MAX_PAGE_LIMIT)) {
+    return { error: `limit must be an integer between 1 and ${MAX_PAGE_LIMIT}` };
+  }
+  if (minPrice === null || maxPrice === null) return { error: 'minPrice and maxPrice must be non-negative numbers' };
+  if (minStock === null || maxStock === null) return { error: 'minStock and maxStock must be non-negative integers' };
+  if (!PRODUCT_SORT_KEYS.includes(sort as ProductSortKey)) {
+    return { error: `sort must be one of: ${PRODUCT_SORT_KEYS.join(', ')}` };
+  }
+  if (order !== 'asc' && order !== 'desc') return { error: 'order must be asc or desc' };
+  if (inStock !== undefined && inStock !== 'true' && inStock !== 'false') return { error: 'inStock must be true or false' };
+  if (category === null) return { error: 'category must be a category ID' };
+
+  return {
+    value: {
+      page: page ?? 1,
+      limit: limit ?? DEFAULT_PAGE_LIMIT,
+      cursor: queryString(query, 'cursor'),
+      sort: sort as ProductSortKey,
+      order,
+      minPrice,
+      maxPrice,
+      minStock,
+      maxStock,
+      inStock: inStock === undefined ? undefined : inStock === 'true',
+      q: queryString(query, 'q'),
+      category,
+    },
+  };
+};
+
+/**
+ * Handles the request to fetch a page of products.
+ *
+ * @param req - The HTTP request object. Supports the query parameters `page`, `limit`, `cursor`,
+ *              `sort` (`id`, `name`, `price`, `stock`, `created_at`), `order` (`asc`, `desc`),
+ *              `minPrice`, `maxPrice`, `minStock`, `maxStock`, `inStock`, `q` (text search
+ *              on name and description) and `category` (a category ID; products in its
+ *              subcategories are included).
  * @param res - The HTTP response object.
- * @returns A JSON response containing the list of products or an error message.
+ * @returns A JSON envelope `{ data, pagination }` containing the products and the total counts,
+ *          or an error message.
  *
- * @throws Returns a 500 status code with an error message if fetching products fails.
+ * @remarks
+ * The response is sent with `Cache-Control: no-cache`, so browsers keep it but revalidate it
+ * on every use. Express tags it with an `ETag` computed from the body and answers a request
+ * whose `If-None-Match` matches with an empty 304, so unchanged catalog pages are not
+ * downloaded again.
+ *
+ * @throws Returns a 400 status code if a query parameter or the cursor is invalid, and a 500
+ *         status code with an error message if fetching products fails.
  */
 
 export const getProducts = async (req: Request, res: Response) => {
   try {
-    const products = await getAllProducts();
+    const parsed = parseProductQuery(req.query);
+    if ('error' in parsed) {
+      return sendProblem(res, 400, parsed.error);
+    }
+
+    const products = await getAllProducts(parsed.value);
+    res.setHeader('Cache-Control', 'no-cache');
     res.json(products);
   } catch (error) {
-    res.status(500).json({ message: 'Error fetching products', error: (error as Error).message });
+    if (error instanceof InvalidCursorError) {
+      return sendProblem(res, 400, error.message);
+    }
+    sendProblem(res, 500, 'Error fetching products');
   }
 };
 
+/**
+ * Sends the 400 response for a product that references a category that does not exist.
+ */
+
+const sendUnknownCategory = (res: Response, error: UnknownCategoryError) =>
+  sendProblem(res, 400, error.message, { errors: [{ field: 'category_id', message: 'La categoría no existe' }] });
+
+/**
+ * Sends the 400 response for a product assigned to a kitchen station that does not exist.
+ */
+
+const sendUnknownStation = (res: Response, error: UnknownStationError) =>
+  sendProblem(res, 400, error.message, { errors: [{ field: 'station_id', message: 'La estación no existe' }] });
+
 /**
  * Handles the creation of a new product.
  *
@@ -28,12 +130,12 @@ export const getProducts = async (req: Request, res: Response) => {
  * @param res - The HTTP response object used to send the response.
  *
  * @remarks
- * This function validates the product data from the request body, ensuring that
- * the `name` is provided, and `price` and `stock` are numbers greater than or equal to 0.
- * If the validation passes, it creates a new product using the `createProduct` function
- * and returns the created product with a 201 status code.
- * If validation fails, it responds with a 400 status code and an error message.
- * If an unexpected error occurs, it responds with a 500 status code and the error details.
+ * The body has already been validated against `productSchema` by the `validate` middleware:
+ * the `name` is required, `price` is a positive number and `stock` a non-negative integer.
+ * It creates a new product using the `createProduct` function, which records the initial
+ * stock in the inventory ledger, and returns the created product with a 201 status code.
+ * If `category_id` or `station_id` does not exist it responds with a 400 status code, and if an unexpected
+ * error occurs, with a 500 status code.
  *
  * @throws {Error} If an unexpected error occurs during product creation.
  *
@@ -42,16 +144,223 @@ export const getProducts = async (req: Request, res: Response) => {
 
 export const createProductHandler = async (req: Request, res: Response) => {
   try {
-    const { name, description, price, stock } = req.body as IProduct;
+    const { name, description, price, stock, reorder_threshold, category_id, station_id } = req.body as ProductInput;
+    const userId = (req as any).user.id; // From authMiddleware
 
-    if (!name || typeof price !== 'number' || typeof stock !== 'number' || price < 0 || stock < 0) {
-      return res.status(400).json({ message: 'Invalid product data' });
+    const product: IProduct = {
+      name, description: description ?? null, price, stock, reorder_threshold: reorder_threshold ?? null,
+      category_id: category_id ?? null, station_id: station_id ?? null,
+    };
+    const newProduct = await createProduct(product, userId);
+    res.status(201).json(newProduct);
+  } catch (error) {
+    if (error instanceof UnknownCategoryError) {
+      return sendUnknownCategory(res, error);
     }
+    if (error instanceof UnknownStationError) {
+      return sendUnknownStation(res, error);
+    }
+    sendProblem(res, 500, 'Error creating product');
+  }
+};
 
-    const product: IProduct = {name, description, price, stock };
-    const newProduct = await createProduct(product);
-    res.status(201).json(newProduct);
+/**
+ * Parses the `:id` route parameter, returning `NaN` when it is not a positive integer.
+ */
+
+const parseProductId = (req: Request): number => {
+  const id = Number(req.params.id);
+  return Number.isInteger(id) && id > 0 ? id : NaN;
+};
+
+/**
+ * Parses the `If-Match` header into its list of entity tags, or `undefined` when it is absent.
+ */
+
+const parseIfMatch = (req: Request): string[] | undefined =>
+  req.get('If-Match')?.split(',').map((tag) => tag.trim()).filter(Boolean);
+
+/**
+ * Handles the request to fetch a single active product.
+ *
+ * @param req - The HTTP request object, with the product ID in `req.params.id`.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing the product, with its `ETag` (see `productETag`), or
+ *          an error message. A request whose `If-None-Match` matches gets an empty 304.
+ *
+ * @throws Returns a 400 status code if the ID is invalid, a 404 status code if the product
+ *         does not exist or is archived, and a 500 status code if fetching the product fails.
+ */
+
+export const getProductHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parseProductId(req);
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid product ID');
+    }
+
+    const product = await getProductById(id);
+    if (!product) {
+      return sendProblem(res, 404, 'Product not found');
+    }
+    res.setHeader('ETag', productETag(product));
+    res.setHeader('Cache-Control', 'no-cache');
+    res.json(product);
   } catch (error) {
-    res.status(500).json({ message: 'Error creating product', error: (error as Error).message });
+    sendProblem(res, 500, 'Error fetching product');
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Handles the request to fetch all archived products.
+ *
+ * @param req - The HTTP request object.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing the archived products or an error message.
+ *
+ * @throws Returns a 500 status code with an error message if fetching products fails.
+ */
+
+export const getArchivedProductsHandler = async (req: Request, res: Response) => {
+  try {
+    const products = await getArchivedProducts();
+    res.json(products);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching archived products');
+  }
+};
+
+/**
+ * Handles product updates for both `PUT` (full replacement) and `PATCH` (partial update).
+ *
+ * @param req - The HTTP request object, with the product ID in `req.params.id` and the product data in the body.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @remarks
+ * The body is validated by the `validate` middleware: against `productSchema` for `PUT`
+ * requests, where `name`, `price` and `stock` are required and an omitted `description`,
+ * `reorder_threshold`, `category_id` or `station_id` is cleared, and against `productPatchSchema` for `PATCH` requests, where only the fields
+ * present in the body are changed.
+ * A new `stock` is recorded in the inventory ledger as an adjustment by the current user;
+ * restocks and waste should be recorded through `/inventory` instead.
+ * Archived products cannot be updated; restore them first.
+ * Clients must send the `ETag` they got from `GET /products/:id` in `If-Match` (or `*` to
+ * overwrite whatever is there), so that the update is rejected if someone else changed the
+ * product in the meantime.
+ *
+ * @throws
+ * - Returns a 400 status code if the ID or the product data is invalid, or the category or station does not exist.
+ * - Returns a 404 status code if the product does not exist or is archived.
+ * - Returns a 412 status code with the current `ETag` if `If-Match` does not match it.
+ * - Returns a 428 status code if `If-Match` is missing.
+ * - Returns a 500 status code if the update fails.
+ *
+ * @returns A JSON response containing the updated product, with its new `ETag`, or an error message.
+ */
+
+export const updateProductHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parseProductId(req);
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid product ID');
+    }
+
+    const ifMatch = parseIfMatch(req);
+    if (!ifMatch || ifMatch.length === 0) {
+      return sendProblem(res, 428, 'If-Match header is required; send the ETag from GET /products/:id');
+    }
+
+    const partial = req.method === 'PATCH';
+    const { name, description, price, stock, reorder_threshold, category_id, station_id } = req.body as ProductPatchInput;
+    const fields: Partial<IProduct> = partial
+      ? { name, description, price, stock, reorder_threshold, category_id, station_id }
+      : {
+        name, description: description ?? null, price, stock, reorder_threshold: reorder_threshold ?? null,
+        category_id: category_id ?? null, station_id: station_id ?? null,
+      };
+    const userId = (req as any).user.id; // From authMiddleware
+
+    const product = await updateProduct(id, fields, userId, ifMatch);
+    if (!product) {
+      return sendProblem(res, 404, 'Product not found');
+    }
+    res.setHeader('ETag', productETag(product));
+    res.json(product);
+  } catch (error) {
+    if (error instanceof ProductVersionMismatchError) {
+      res.setHeader('ETag', error.etag);
+      return sendProblem(res, 412, error.message, { etag: error.etag });
+    }
+    if (error instanceof UnknownCategoryError) {
+      return sendUnknownCategory(res, error);
+    }
+    if (error instanceof UnknownStationError) {
+      return sendUnknownStation(res, error);
+    }
+    sendProblem(res, 500, 'Error updating product');
+  }
+};
+
+/**
+ * Handles product deletion by archiving the product.
+ *
+ * @param req - The HTTP request object, with the product ID in `req.params.id`.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @remarks
+ * Products are never removed from the database because historical order items reference them.
+ * Archiving hides the product from the menu and prevents new orders for it.
+ *
+ * @throws Returns a 400 status code if the ID is invalid, a 404 status code if the product
+ *         does not exist or is already archived, and a 500 status code if archiving fails.
+ *
+ * @returns A JSON response containing the archived product or an error message.
+ */
+
+export const archiveProductHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parseProductId(req);
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid product ID');
+    }
+
+    const userId = (req as any).user.id; // From authMiddleware
+    const product = await archiveProduct(id, userId);
+    if (!product) {
+      return sendProblem(res, 404, 'Product not found');
+    }
+    res.json(product);
+  } catch (error) {
+    sendProblem(res, 500, 'Error archiving product');
+  }
+};
+
+/**
+ * Handles restoring an archived product back onto the menu.
+ *
+ * @param req - The HTTP request object, with the product ID in `req.params.id`.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @throws Returns a 400 status code if the ID is invalid, a 404 status code if there is no
+ *         archived product with that ID, and a 500 status code if restoring fails.
+ *
+ * @returns A JSON response containing the restored product or an error message.
+ */
+
+export const restoreProductHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parseProductId(req);
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid product ID');
+    }
+
+    const userId = (req as any).user.id; // From authMiddleware
+    const product = await restoreProduct(id, userId);
+    if (!product) {
+      return sendProblem(res, 404, 'Archived product not found');
+    }
+    res.json(product);
+  } catch (error) {
+    sendProblem(res, 500, 'Error restoring product');
+  }
+};
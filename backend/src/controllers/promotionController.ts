@@ -0,0 +1,187 @@
+import { Request, Response } from 'express';
+import {
+  getAllPromotions,
+  getPromotionById,
+  createPromotion,
+  updatePromotion,
+  deletePromotion,
+  DuplicatePromotionCodeError,
+  InvalidPromotionError,
+} from '../models/promotionModel';
+import { IPromotion } from '../types';
+import { PromotionInput, PromotionPatchInput } from '@oceans/shared';
+import { sendProblem } from '../middleware/errorHandler';
+
+/**
+ * Parses the `:id` route parameter, returning `NaN` when it is not a positive integer.
+ */
+
+const parsePromotionId = (req: Request): number => {
+  const id = Number(req.params.id);
+  return Number.isInteger(id) && id > 0 ? id : NaN;
+};
+
+/**
+ * Sends the response for the errors shared by promotion creation and updates, or returns
+ * `undefined` if `error` is not one of them.
+ */
+
+const sendPromotionError = (res: Response, error: unknown) => {
+  if (error instanceof DuplicatePromotionCodeError) {
+    return sendProblem(res, 409, error.message, { errors: [{ field: 'code', message: 'Ya existe una promoción con ese código' }] });
+  }
+  if (error instanceof InvalidPromotionError) {
+    return sendProblem(res, 400, error.message, {
+      errors: [{ field: 'value', message: 'El descuento no puede superar el 100% y la fecha de fin debe ser posterior a la de inicio' }],
+    });
+  }
+  return undefined;
+};
+
+/**
+ * Handles the request to list the promotions.
+ *
+ * @param req - The HTTP request object.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing every promotion, newest first, with how many times it
+ *          has been used, or an error message.
+ *
+ * @throws Returns a 500 status code if fetching the promotions fails.
+ */
+
+export const getPromotionsHandler = async (req: Request, res: Response) => {
+  try {
+    const promotions = await getAllPromotions();
+    res.json(promotions);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching promotions');
+  }
+};
+
+/**
+ * Handles the request to fetch a single promotion.
+ *
+ * @param req - The HTTP request object, with the promotion ID in `req.params.id`.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing the promotion, or an error message.
+ *
+ * @throws Returns a 400 status code if the ID is invalid, a 404 status code if the promotion
+ *         does not exist, and a 500 status code if fetching the promotion fails.
+ */
+
+export const getPromotionHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parsePromotionId(req);
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid promotion ID');
+    }
+
+    const promotion = await getPromotionById(id);
+    if (!promotion) {
+      return sendProblem(res, 404, 'Promotion not found');
+    }
+    res.json(promotion);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching promotion');
+  }
+};
+
+/**
+ * Handles the creation of a new promotion.
+ *
+ * @param req - The HTTP request object, containing the promotion (validated against
+ *              `promotionSchema`, with its code in upper case) in the body.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @throws Returns a 409 status code if the code is already taken, and a 500 status code if
+ *         the promotion cannot be created.
+ *
+ * @returns A JSON response containing the newly created promotion or an error message.
+ */
+
+export const createPromotionHandler = async (req: Request, res: Response) => {
+  try {
+    const promotion = await createPromotion(req.body as PromotionInput);
+    res.status(201).json(promotion);
+  } catch (error) {
+    if (sendPromotionError(res, error)) {
+      return;
+    }
+    sendProblem(res, 500, 'Error creating promotion');
+  }
+};
+
+/**
+ * Handles partial promotion updates (`PATCH`), e.g. to deactivate a promotion or extend its
+ * validity window.
+ *
+ * @param req - The HTTP request object, with the promotion ID in `req.params.id` and the
+ *              fields to change (validated against `promotionPatchSchema`) in the body.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @remarks
+ * Changes only affect orders placed afterwards; orders that already redeemed the promotion
+ * keep their discount.
+ *
+ * @throws
+ * - Returns a 400 status code if the ID is invalid, or if the promotion would end up with a
+ *   percentage above 100 or a validity window that ends before it starts.
+ * - Returns a 404 status code if the promotion does not exist.
+ * - Returns a 409 status code if the new code is already taken.
+ * - Returns a 500 status code if the update fails.
+ *
+ * @returns A JSON response containing the updated promotion or an error message.
+ */
+
+export const updatePromotionHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parsePromotionId(req);
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid promotion ID');
+    }
+
+    const promotion = await updatePromotion(id, req.body as PromotionPatchInput as Partial<IPromotion>);
+    if (!promotion) {
+      return sendProblem(res, 404, 'Promotion not found');
+    }
+    res.json(promotion);
+  } catch (error) {
+    if (sendPromotionError(res, error)) {
+      return;
+    }
+    sendProblem(res, 500, 'Error updating promotion');
+  }
+};
+
+/**
+ * Handles the deletion of a promotion.
+ *
+ * @param req - The HTTP request object, with the promotion ID in `req.params.id`.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @remarks
+ * Orders that redeemed the promotion keep their discount and promo code. To stop a code from
+ * being redeemed while keeping its history, deactivate it instead.
+ *
+ * @throws Returns a 400 status code if the ID is invalid, a 404 status code if the promotion
+ *         does not exist, and a 500 status code if the deletion fails.
+ *
+ * @returns A JSON response containing the deleted promotion or an error message.
+ */
+
+export const deletePromotionHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parsePromotionId(req);
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid promotion ID');
+    }
+
+    const promotion = await deletePromotion(id);
+    if (!promotion) {
+      return sendProblem(res, 404, 'Promotion not found');
+    }
+    res.json(promotion);
+  } catch (error) {
+    sendProblem(res, 500, 'Error deleting promotion');
+  }
+};
@@ -0,0 +1,84 @@
+import { Request, Response } from 'express';
+import { getProductRecipe, replaceProductRecipe, UnknownIngredientsError } from '../models/recipeModel';
+import { RecipeInput } from '@oceans/shared';
+import { sendProblem } from '../middleware/errorHandler';
+
+/**
+ * Parses the `:id` route parameter, returning `NaN` when it is not a positive integer.
+ */
+
+const parseProductId = (req: Request): number => {
+  const id = Number(req.params.id);
+  return Number.isInteger(id) && id > 0 ? id : NaN;
+};
+
+/**
+ * Handles the request to fetch the recipe of a product.
+ *
+ * @param req - The HTTP request object, with the product ID in `req.params.id`.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing the ingredients one unit of the product uses (empty if
+ *          it has no recipe), or an error message.
+ *
+ * @throws Returns a 400 status code if the ID is invalid, a 404 status code if the product
+ *         does not exist or is archived, and a 500 status code if fetching the recipe fails.
+ */
+
+export const getProductRecipeHandler = async (req: Request, res: Response) => {
+  try {
+    const productId = parseProductId(req);
+    if (isNaN(productId)) {
+      return sendProblem(res, 400, 'Invalid product ID');
+    }
+
+    const recipe = await getProductRecipe(productId);
+    if (!recipe) {
+      return sendProblem(res, 404, 'Product not found');
+    }
+    res.json(recipe);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching recipe');
+  }
+};
+
+/**
+ * Handles the request to replace the recipe of a product (`PUT`).
+ *
+ * @param req - The HTTP request object, with the product ID in `req.params.id` and the
+ *              `items` of the recipe (validated against `recipeSchema`) in the body.
+ * @param res - The HTTP response object.
+ *
+ * @remarks
+ * Once a product has a recipe, its availability comes from its ingredients and ordering it
+ * consumes them; an empty list makes it a product stocked as units again.
+ *
+ * @throws Returns a 400 status code if the ID is invalid or an ingredient does not exist, a
+ *         404 status code if the product does not exist or is archived, and a 500 status code
+ *         if the recipe cannot be saved.
+ *
+ * @returns A JSON response containing the new recipe, or an error message.
+ */
+
+export const replaceProductRecipeHandler = async (req: Request, res: Response) => {
+  try {
+    const productId = parseProductId(req);
+    if (isNaN(productId)) {
+      return sendProblem(res, 400, 'Invalid product ID');
+    }
+
+    const { items } = req.body as RecipeInput;
+    const userId = (req as any).user.id; // From authMiddleware
+    const recipe = await replaceProductRecipe(productId, items, userId);
+    if (!recipe) {
+      return sendProblem(res, 404, 'Product not found');
+    }
+    res.json(recipe);
+  } catch (error) {
+    if (error instanceof UnknownIngredientsError) {
+      return sendProblem(res, 400, error.message, {
+        errors: [{ field: 'items', message: `Los ingredientes ${error.ingredientIds.join(', ')} no existen` }],
+      });
+    }
+    sendProblem(res, 500, 'Error saving recipe');
+  }
+};
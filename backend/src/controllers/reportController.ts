@@ -0,0 +1,215 @@
+import { Request, Response } from 'express';
+import {
+  getRevenueReport,
+  getTopProductsReport,
+  getWaiterSalesReport,
+  getAverageTicketReport,
+  getOrderStatusReport,
+} from '../models/reportModel';
+import { IReportRange, ReportPeriod } from '../types';
+import { sendProblem } from '../middleware/errorHandler';
+import { queryDateRange, queryNumber, queryString, MAX_PAGE_LIMIT } from '../utils/queryParams';
+import { toCsv } from '../utils/csv';
+
+const REPORT_PERIODS: ReportPeriod[] = ['day', 'week', 'month'];
+const TOP_PRODUCT_SORTS = ['quantity', 'revenue'] as const;
+const REPORT_FORMATS = ['json', 'csv'] as const;
+const DEFAULT_TOP_PRODUCTS_LIMIT = 10;
+
+/**
+ * Parses the query parameters shared by every report: the `from`/`to` date range and the
+ * output `format`. Without `format`, CSV is returned when the `Accept` header prefers
+ * `text/csv` over JSON.
+ *
+ * @returns The range and whether to answer with CSV, or an error message describing the first invalid parameter.
+ */
+
+const parseReportQuery = (req: Request): { value: { range: IReportRange; csv: boolean } } | { error: string } => {
+  const range = queryDateRange(req.query);
+  const format = queryString(req.query, 'format');
+
+  if (range === null) return { error: 'from and to must be valid dates' };
+  if (range.from && range.to && range.from > range.to) return { error: 'from must not be after to' };
+  if (format !== undefined && !(REPORT_FORMATS as readonly string[]).includes(format)) {
+    return { error: `format must be one of: ${REPORT_FORMATS.join(', ')}` };
+  }
+
+  const csv = format ? format === 'csv' : req.accepts(['application/json', 'text/csv']) === 'text/csv';
+  return { value: { range, csv } };
+};
+
+/**
+ * Sends a report as JSON (`{ from, to, ...details, data }`) or as a CSV download named after
+ * the report and its date range, e.g. `revenue_2024-05-01_2024-05-31.csv`.
+ *
+ * @param res - The HTTP response object.
+ * @param report - The name of the report, used for the CSV file name.
+ * @param query - The parsed report query.
+ * @param data - The rows of the report (a single object for one-row reports).
+ * @param columns - The columns written to the CSV, in order.
+ * @param details - Extra parameters of the report echoed in the JSON response.
+ */
+
+const sendReport = <T extends object>(
+  res: Response,
+  report: string,
+  { range, csv }: { range: IReportRange; csv: boolean },
+  data: T[] | T,
+  columns: (keyof T & string)[],
+  details: Record<string, unknown> = {}
+) => {
+  if (!csv) {
+    res.json({ from: range.from ?? null, to: range.to ?? null, ...details, data });
+    return;
+  }
+  const fileName = [report, range.from?.toISOString().slice(0, 10), range.to?.toISOString().slice(0, 10)]
+    .filter(Boolean)
+    .join('_');
+  res.attachment(`${fileName}.csv`);
+  res.type('text/csv; charset=utf-8');
+  res.send(toCsv(Array.isArray(data) ? data : [data], columns));
+};
+
+/**
+ * Handles the revenue report (`GET /reports/revenue`).
+ *
+ * @param req - The HTTP request object. Query: `from`, `to`, `format`, and `groupBy`
+ *              (`day`, `week` or `month`, default `day`).
+ * @param res - The HTTP response object.
+ *
+ * @throws Returns a 400 status code if a parameter is invalid, and a 500 status code if the report fails.
+ *
+ * @returns The orders, gross sales, discounts, service charges, taxes, revenue and average ticket of each period.
+ */
+
+export const getRevenueReportHandler = async (req: Request, res: Response) => {
+  try {
+    const parsed = parseReportQuery(req);
+    if ('error' in parsed) {
+      return sendProblem(res, 400, parsed.error);
+    }
+    const groupBy = (queryString(req.query, 'groupBy') ?? 'day') as ReportPeriod;
+    if (!REPORT_PERIODS.includes(groupBy)) {
+      return sendProblem(res, 400, `groupBy must be one of: ${REPORT_PERIODS.join(', ')}`);
+    }
+
+    const rows = await getRevenueReport(parsed.value.range, groupBy);
+    sendReport(res, 'revenue', parsed.value, rows,
+      ['period', 'orders', 'gross_sales', 'discounts', 'service_charges', 'taxes', 'revenue', 'average_ticket'],
+      { group_by: groupBy });
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching revenue report');
+  }
+};
+
+/**
+ * Handles the top-selling products report (`GET /reports/top-products`).
+ *
+ * @param req - The HTTP request object. Query: `from`, `to`, `format`, `sort` (`quantity` or
+ *              `revenue`, default `quantity`) and `limit` (1 to 100, default 10).
+ * @param res - The HTTP response object.
+ *
+ * @throws Returns a 400 status code if a parameter is invalid, and a 500 status code if the report fails.
+ *
+ * @returns The best-selling products with the units sold and their revenue at `price_at_time`.
+ */
+
+export const getTopProductsReportHandler = async (req: Request, res: Response) => {
+  try {
+    const parsed = parseReportQuery(req);
+    if ('error' in parsed) {
+      return sendProblem(res, 400, parsed.error);
+    }
+    const sort = (queryString(req.query, 'sort') ?? 'quantity') as (typeof TOP_PRODUCT_SORTS)[number];
+    if (!TOP_PRODUCT_SORTS.includes(sort)) {
+      return sendProblem(res, 400, `sort must be one of: ${TOP_PRODUCT_SORTS.join(', ')}`);
+    }
+    const limit = queryNumber(req.query, 'limit', { integer: true, min: 1 });
+    if (limit === null || (limit !== undefined && limit > MAX_PAGE_LIMIT)) {
+      return sendProblem(res, 400, `limit must be an integer between 1 and ${MAX_PAGE_LIMIT}`);
+    }
+
+    const rows = await getTopProductsReport(parsed.value.range, sort, limit ?? DEFAULT_TOP_PRODUCTS_LIMIT);
+    sendReport(res, 'top-products', parsed.value, rows, ['product_id', 'name', 'quantity', 'revenue'], {
+      sort,
+      limit: limit ?? DEFAULT_TOP_PRODUCTS_LIMIT,
+    });
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching top products report');
+  }
+};
+
+/**
+ * Handles the sales per waiter report (`GET /reports/waiters`).
+ *
+ * @param req - The HTTP request object. Query: `from`, `to` and `format`.
+ * @param res - The HTTP response object.
+ *
+ * @throws Returns a 400 status code if a parameter is invalid, and a 500 status code if the report fails.
+ *
+ * @returns The orders, revenue, average ticket and tips of each waiter.
+ */
+
+export const getWaiterSalesReportHandler = async (req: Request, res: Response) => {
+  try {
+    const parsed = parseReportQuery(req);
+    if ('error' in parsed) {
+      return sendProblem(res, 400, parsed.error);
+    }
+
+    const rows = await getWaiterSalesReport(parsed.value.range);
+    sendReport(res, 'waiters', parsed.value, rows, ['user_id', 'username', 'orders', 'revenue', 'average_ticket', 'tips']);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching waiter sales report');
+  }
+};
+
+/**
+ * Handles the average ticket report (`GET /reports/average-ticket`).
+ *
+ * @param req - The HTTP request object. Query: `from`, `to` and `format`.
+ * @param res - The HTTP response object.
+ *
+ * @throws Returns a 400 status code if a parameter is invalid, and a 500 status code if the report fails.
+ *
+ * @returns The order count, revenue, average ticket and average items per order.
+ */
+
+export const getAverageTicketReportHandler = async (req: Request, res: Response) => {
+  try {
+    const parsed = parseReportQuery(req);
+    if ('error' in parsed) {
+      return sendProblem(res, 400, parsed.error);
+    }
+
+    const report = await getAverageTicketReport(parsed.value.range);
+    sendReport(res, 'average-ticket', parsed.value, report, ['orders', 'revenue', 'average_ticket', 'average_items']);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching average ticket report');
+  }
+};
+
+/**
+ * Handles the orders by status report (`GET /reports/order-status`).
+ *
+ * @param req - The HTTP request object. Query: `from`, `to` and `format`.
+ * @param res - The HTTP response object.
+ *
+ * @throws Returns a 400 status code if a parameter is invalid, and a 500 status code if the report fails.
+ *
+ * @returns The number of orders in each status and their total, cancelled orders included.
+ */
+
+export const getOrderStatusReportHandler = async (req: Request, res: Response) => {
+  try {
+    const parsed = parseReportQuery(req);
+    if ('error' in parsed) {
+      return sendProblem(res, 400, parsed.error);
+    }
+
+    const rows = await getOrderStatusReport(parsed.value.range);
+    sendReport(res, 'order-status', parsed.value, rows, ['status', 'orders', 'total']);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching order status report');
+  }
+};
@@ -0,0 +1,234 @@
+import { Request, Response } from 'express';
+import {
+  getAllTables,
+  getTableById,
+  createTable,
+  updateTable,
+  deleteTable,
+  DuplicateTableNumberError,
+  TableInUseError,
+} from '../models/tableModel';
+import { ITable, ITableQuery, TableStatus } from '../types';
+import { TABLE_STATUSES, TableInput, TablePatchInput, TableStatusUpdateInput } from '@oceans/shared';
+import { sendProblem } from '../middleware/errorHandler';
+import { queryString } from '../utils/queryParams';
+
+/**
+ * Parses the `:id` route parameter, returning `NaN` when it is not a positive integer.
+ */
+
+const parseTableId = (req: Request): number => {
+  const id = Number(req.params.id);
+  return Number.isInteger(id) && id > 0 ? id : NaN;
+};
+
+/**
+ * Parses and validates the filters of `GET /tables` from the query string.
+ *
+ * @returns The parsed query, or an error message describing the first invalid parameter.
+ */
+
+const parseTableQuery = (query: Request['query']): { value: ITableQuery } | { error: string } => {
+  const status = queryString(query, 'status')?.split(',').map((value) => value.trim()) as TableStatus[] | undefined;
+
+  if (status && !status.every((value) => (TABLE_STATUSES as readonly string[]).includes(value))) {
+    return { error: `status must be a comma-separated list of: ${TABLE_STATUSES.join(', ')}` };
+  }
+
+  return { value: { status, area: queryString(query, 'area') } };
+};
+
+/**
+ * Handles the request to list the dining tables.
+ *
+ * @param req - The HTTP request object. Supports the query parameters `status`
+ *              (comma-separated) and `area`.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing the tables ordered by number, or an error message.
+ *
+ * @throws Returns a 400 status code if a filter is invalid, and a 500 status code if
+ *         fetching the tables fails.
+ */
+
+export const getTablesHandler = async (req: Request, res: Response) => {
+  try {
+    const parsed = parseTableQuery(req.query);
+    if ('error' in parsed) {
+      return sendProblem(res, 400, parsed.error);
+    }
+
+    const tables = await getAllTables(parsed.value);
+    res.json(tables);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching tables');
+  }
+};
+
+/**
+ * Handles the request to fetch a single table.
+ *
+ * @param req - The HTTP request object, with the table ID in `req.params.id`.
+ * @param res - The HTTP response object.
+ * @returns A JSON response containing the table, or an error message.
+ *
+ * @throws Returns a 400 status code if the ID is invalid, a 404 status code if the table
+ *         does not exist, and a 500 status code if fetching the table fails.
+ */
+
+export const getTableHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parseTableId(req);
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid table ID');
+    }
+
+    const table = await getTableById(id);
+    if (!table) {
+      return sendProblem(res, 404, 'Table not found');
+    }
+    res.json(table);
+  } catch (error) {
+    sendProblem(res, 500, 'Error fetching table');
+  }
+};
+
+/**
+ * Handles the creation of a new dining table.
+ *
+ * @param req - The HTTP request object, containing the table data (validated against
+ *              `tableSchema`) in the body.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @throws Returns a 409 status code if the table number is already taken, and a 500 status
+ *         code if the table cannot be created.
+ *
+ * @returns A JSON response containing the newly created table or an error message.
+ */
+
+export const createTableHandler = async (req: Request, res: Response) => {
+  try {
+    const { number, area, capacity, status } = req.body as TableInput;
+
+    const table = await createTable({ number, area: area ?? null, capacity, status });
+    res.status(201).json(table);
+  } catch (error) {
+    if (error instanceof DuplicateTableNumberError) {
+      return sendProblem(res, 409, error.message, { errors: [{ field: 'number', message: 'Ya existe una mesa con ese número' }] });
+    }
+    sendProblem(res, 500, 'Error creating table');
+  }
+};
+
+/**
+ * Handles table updates for both `PUT` (full replacement) and `PATCH` (partial update).
+ *
+ * @param req - The HTTP request object, with the table ID in `req.params.id` and the table data in the body.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @remarks
+ * The body is validated by the `validate` middleware: against `tableSchema` for `PUT`
+ * requests, where an omitted `area` is cleared, and against `tablePatchSchema` for `PATCH`
+ * requests, where only the fields present in the body are changed.
+ *
+ * @throws
+ * - Returns a 400 status code if the ID is invalid.
+ * - Returns a 404 status code if the table does not exist.
+ * - Returns a 409 status code if the new table number is already taken.
+ * - Returns a 500 status code if the update fails.
+ *
+ * @returns A JSON response containing the updated table or an error message.
+ */
+
+export const updateTableHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parseTableId(req);
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid table ID');
+    }
+
+    const partial = req.method === 'PATCH';
+    const { number, area, capacity, status } = req.body as TablePatchInput;
+    const fields: Partial<ITable> = partial
+      ? { number, area, capacity, status }
+      : { number, area: area ?? null, capacity, status };
+
+    const table = await updateTable(id, fields);
+    if (!table) {
+      return sendProblem(res, 404, 'Table not found');
+    }
+    res.json(table);
+  } catch (error) {
+    if (error instanceof DuplicateTableNumberError) {
+      return sendProblem(res, 409, error.message, { errors: [{ field: 'number', message: 'Ya existe una mesa con ese número' }] });
+    }
+    sendProblem(res, 500, 'Error updating table');
+  }
+};
+
+/**
+ * Changes the status of a table, e.g. to mark it `dirty` after the guests leave or `free`
+ * once it has been cleaned.
+ *
+ * @param req - The HTTP request object, with the table ID in `req.params.id` and the new
+ *              `status` in the body.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @throws Returns a 400 status code if the ID is invalid, a 404 status code if the table
+ *         does not exist, and a 500 status code if the update fails.
+ *
+ * @returns A JSON response containing the updated table or an error message.
+ */
+
+export const updateTableStatusHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parseTableId(req);
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid table ID');
+    }
+
+    const { status } = req.body as TableStatusUpdateInput;
+    const table = await updateTable(id, { status });
+    if (!table) {
+      return sendProblem(res, 404, 'Table not found');
+    }
+    res.json(table);
+  } catch (error) {
+    sendProblem(res, 500, 'Error updating table status');
+  }
+};
+
+/**
+ * Handles the deletion of a table.
+ *
+ * @param req - The HTTP request object, with the table ID in `req.params.id`.
+ * @param res - The HTTP response object used to send the response.
+ *
+ * @remarks
+ * Past orders keep their history but are no longer linked to the table.
+ *
+ * @throws Returns a 400 status code if the ID is invalid, a 404 status code if the table
+ *         does not exist, a 409 status code if it still has open orders, and a 500 status
+ *         code if the deletion fails.
+ *
+ * @returns A JSON response containing the deleted table or an error message.
+ */
+
+export const deleteTableHandler = async (req: Request, res: Response) => {
+  try {
+    const id = parseTableId(req);
+    if (isNaN(id)) {
+      return sendProblem(res, 400, 'Invalid table ID');
+    }
+
+    const table = await deleteTable(id);
+    if (!table) {
+      return sendProblem(res, 404, 'Table not found');
+    }
+    res.json(table);
+  } catch (error) {
+    if (error instanceof TableInUseError) {
+      return sendProblem(res, 409, error.message, { table_id: error.tableId });
+    }
+    sendProblem(res, 500, 'Error deleting table');
+  }
+};
@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from 'express';
+import logger from '../utils/logger';
+import { UserPayload } from './authMiddleware';
+
+/**
+ * Middleware that writes one access log entry per request once the response has been sent,
+ * with the method, URL, status code, latency in milliseconds and, for authenticated
+ * requests, the user ID. Server errors are logged as `error` and client errors as `warn`.
+ *
+ * Must be mounted after the `requestId` middleware so the entry carries the request ID.
+ */
+
+export const accessLogger = (req: Request, res: Response, next: NextFunction) => {
+  const start = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const durationMs = Number(process.hrtime.bigint() - start) / 1e6;
+    const user = (req as Request & { user?: UserPayload }).user;
+    const level = res.statusCode >= 500 ? 'error' : res.statusCode >= 400 ? 'warn' : 'info';
+
+    // Passed explicitly: 'finish' may fire outside the request's async context.
+    logger[level]('Request completed', {
+      requestId: (req as Request & { id?: string }).id,
+      method: req.method,
+      url: req.originalUrl,
+      status: res.statusCode,
+      durationMs: Math.round(durationMs * 100) / 100,
+      userId: user?.id,
+    });
+  });
+
+  next();
+};
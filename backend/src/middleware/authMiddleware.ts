@@ -1,25 +1,34 @@
 import { Request, Response, NextFunction } from 'express';
-   import jwt, { JwtPayload } from 'jsonwebtoken';
+   import jwt, { JwtPayload, TokenExpiredError } from 'jsonwebtoken';
+   import { UserRole } from '../types';
+   import config from '../config';
+   import { isSessionActive } from '../models/refreshTokenModel';
+   import { sendProblem } from './errorHandler';
+   import logger from '../utils/logger';
 
-   interface UserPayload extends JwtPayload {
+   export interface UserPayload extends JwtPayload {
      id: number;
      username: string;
+     role?: UserRole;
+     sid: string;
    }
 
-   const JWT_SECRET = process.env.JWT_SECRET || 'zRUu2DEQJg5MMCi81y48ITM6HL4SJlR+4XkmJrEMB3g=';
-
   /**
    * Middleware to authenticate a JSON Web Token (JWT) from the request's `Authorization` header.
    * 
    * This function checks for the presence of a Bearer token in the `Authorization` header,
    * verifies its validity, and attaches the decoded payload to the `req.user` property if valid.
+   * Every token must be tied to a session (`sid` claim), and is rejected once that session
+   * has been logged out or revoked.
    * 
    * @param req - The incoming HTTP request object.
    * @param res - The outgoing HTTP response object.
    * @param next - The next middleware function in the stack.
    * 
-   * @throws {401} If the `Authorization` header is missing or does not start with "Bearer ".
-   * @throws {403} If the token is invalid, expired, or the payload is malformed.
+   * @throws {401} If the `Authorization` header is missing or does not start with "Bearer ",
+   *               if the token has expired (clients should refresh it), or if the token has
+   *               no session or its session has been revoked.
+   * @throws {403} If the token is invalid or the payload is malformed.
    * 
    * Example of a valid `Authorization` header:
    * ```
@@ -31,22 +40,38 @@ import { Request, Response, NextFunction } from 'express';
      const authHeader = req.headers['authorization'];
 
      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-       return res.status(401).json({ message: 'No token or invalid format' });
+       return sendProblem(res, 401, 'No token or invalid format');
      }
 
      const token = authHeader.split(' ')[1];
 
-     jwt.verify(token, JWT_SECRET, (err, decoded) => {
+     jwt.verify(token, config.jwt.secret, (err, decoded) => {
        if (err) {
-         console.error('Token verification error:', err.message);
-         return res.status(403).json({ message: 'Invalid or expired token' });
+         logger.warn('Token verification error', { reason: err.message });
+         if (err instanceof TokenExpiredError) {
+           return sendProblem(res, 401, 'Token expired');
+         }
+         return sendProblem(res, 403, 'Invalid or expired token');
        }
 
        if (!decoded || typeof decoded === 'string' || !('id' in decoded)) {
-         return res.status(403).json({ message: 'Invalid token payload' });
+         return sendProblem(res, 403, 'Invalid token payload');
+       }
+
+       const payload = decoded as UserPayload;
+       // Without a session the token could not be revoked by logging out.
+       if (!payload.sid) {
+         return sendProblem(res, 401, 'Token has no session');
        }
 
-       (req as Request & { user: UserPayload }).user = decoded as UserPayload;
-       next();
+       isSessionActive(payload.sid)
+         .then((active) => {
+           if (!active) {
+             return sendProblem(res, 401, 'Token has been revoked');
+           }
+           (req as Request & { user: UserPayload }).user = payload;
+           next();
+         })
+         .catch(next);
      });
    };
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { Request, Response, NextFunction } from 'express';
+import config from '../config';
+import logger from '../utils/logger';
+import { sendProblem } from './errorHandler';
+import { ILoginBlock } from '../types';
+import { hitAuthRateLimit, deleteStaleAuthThrottles } from '../models/authThrottleModel';
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * The IP address a request is counted against. Behind a reverse proxy this is the proxy's
+ * address unless Express's `trust proxy` setting is configured.
+ */
+
+export const clientIp = (req: Request) => req.ip ?? req.socket.remoteAddress ?? 'unknown';
+
+/**
+ * Answers with 429 and a `Retry-After` header. `reason` tells the client why it has to wait
+ * (`rate_limited`, `login_throttled` or `login_locked`) and `retry_after` for how many seconds.
+ */
+
+export const sendTooManyRequests = (res: Response, detail: string, block: { reason: ILoginBlock['reason'] | 'rate_limited'; retry_after: number }) => {
+  res.setHeader('Retry-After', String(block.retry_after));
+  return sendProblem(res, 429, detail, { reason: block.reason, retry_after: block.retry_after });
+};
+
+/**
+ * Middleware that limits each IP address to `AUTH_RATE_LIMIT_PER_MINUTE` requests per minute,
+ * answering the requests over the limit with 429 until the minute ends.
+ *
+ * If the limit cannot be checked the request is refused with 503, so an outage of the
+ * counters cannot be used to get past the limit.
+ *
+ * @example
+ * ```typescript
+ * router.post('/login', authRateLimit, validate(loginSchema), login);
+ * ```
+ */
+
+export const authRateLimit = async (req: Request, res: Response, next: NextFunction) => {
+  const ip = clientIp(req);
+
+  let retryAfter;
+  try {
+    retryAfter = await hitAuthRateLimit(ip, config.auth.rateLimitPerMinute);
+  } catch (error) {
+    return sendProblem(res, 503, 'Authentication is temporarily unavailable, try again later');
+  }
+
+  if (retryAfter !== undefined) {
+    logger.warn('Auth rate limit exceeded', { ip });
+    return sendTooManyRequests(res, 'Too many requests, try again later', { reason: 'rate_limited', retry_after: retryAfter });
+  }
+  next();
+};
+
+/**
+ * Deletes rate limit windows and failed logins that no longer have any effect every hour.
+ * The timer does not keep the process alive.
+ */
+
+export const scheduleAuthThrottlePurge = () => {
+  setInterval(() => {
+    deleteStaleAuthThrottles()
+      .then((deleted) => logger.debug('Stale auth throttles deleted', { deleted }))
+      .catch((error) => logger.error('Could not delete stale auth throttles', { error }));
+  }, PURGE_INTERVAL_MS).unref();
+};
@@ -1,4 +1,66 @@
 import { Request, Response, NextFunction } from 'express';
+import { STATUS_CODES } from 'http';
+import logger from '../utils/logger';
+
+/**
+ * Media type of every error response sent by the API (RFC 7807).
+ */
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+/**
+ * Sends an RFC 7807 problem details response.
+ *
+ * @param res - The outgoing HTTP response object.
+ * @param status - The HTTP status code.
+ * @param detail - A human-readable explanation of this occurrence of the problem.
+ * @param extensions - Extra members merged into the body, e.g. `errors` with the per-field
+ *                     validation errors or `items` with the stock shortages of an order.
+ *
+ * @example
+ * ```json
+ * {
+ *   "type": "about:blank",
+ *   "title": "Not Found",
+ *   "status": 404,
+ *   "detail": "Product not found",
+ *   "instance": "/products/42"
+ * }
+ * ```
+ */
+
+export const sendProblem = (res: Response, status: number, detail: string, extensions: object = {}) =>
+  res
+    .status(status)
+    .type(PROBLEM_CONTENT_TYPE)
+    .send(JSON.stringify({
+      type: 'about:blank',
+      title: STATUS_CODES[status] ?? 'Error',
+      status,
+      detail,
+      instance: res.req.originalUrl,
+      ...extensions,
+    }));
+
+/**
+ * An error that maps to an HTTP status. Throw it (or pass it to `next`) from a route to have
+ * the error handler answer with the matching problem details.
+ */
+
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly extensions: object = {}) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Fallback for requests that did not match any route.
+ */
+
+export const notFoundHandler = (req: Request, res: Response) => {
+  sendProblem(res, 404, `Cannot ${req.method} ${req.path}`);
+};
 
 /**
  * Middleware function for handling errors in the application.
@@ -8,11 +70,25 @@ import { Request, Response, NextFunction } from 'express';
  * @param res - The outgoing HTTP response object.
  * @param next - The next middleware function in the stack.
  *
- * Logs the error stack to the console and sends a generic 500 Internal Server Error
- * response with a JSON message indicating that something went wrong.
+ * `HttpError`s and request bodies that are not valid JSON are answered with their own status.
+ * Anything else is logged and answered with a generic 500 Internal Server Error, without
+ * leaking the error message to the client. Every response uses the problem details format.
  */
 
 export default (err: Error, req: Request, res: Response, next: NextFunction) => {
-  console.error(err.stack);
-  res.status(500).json({ message: 'Something went wrong!' });
-};
\ No newline at end of file
+  if (res.headersSent) {
+    return next(err);
+  }
+
+  if (err instanceof HttpError) {
+    return sendProblem(res, err.status, err.message, err.extensions);
+  }
+
+  // Raised by express.json() when the body cannot be parsed.
+  if ((err as Error & { type?: string }).type === 'entity.parse.failed') {
+    return sendProblem(res, 400, 'Request body is not valid JSON');
+  }
+
+  logger.error('Unhandled error', { error: err, method: req.method, url: req.originalUrl });
+  sendProblem(res, 500, 'Something went wrong!');
+};
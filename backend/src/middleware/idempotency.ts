@@ -0,0 +1,144 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import config from '../config';
+import logger from '../utils/logger';
+import { sendProblem } from './errorHandler';
+import { UserPayload } from './authMiddleware';
+import {
+  claimIdempotencyKey,
+  saveIdempotentResponse,
+  releaseIdempotencyKey,
+  deleteExpiredIdempotencyKeys,
+  IdempotencyKeyContendedError,
+} from '../models/idempotencyModel';
+
+/**
+ * Header a client sends to make a request safe to retry.
+ */
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Header set on responses that are a replay of the response to an earlier request.
+ */
+
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+/**
+ * Keys are opaque to the server (clients usually send a UUID), but must be printable and
+ * fit the `idempotency_keys.key` column.
+ */
+
+const VALID_IDEMPOTENCY_KEY = /^[\x21-\x7E]{1,255}$/;
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Fingerprints a request by its method, URL and body, so a key reused for a different
+ * request can be told apart from a retry.
+ */
+
+const fingerprint = (req: Request) =>
+  createHash('sha256').update(JSON.stringify([req.method, req.originalUrl, req.body ?? null])).digest('hex');
+
+/**
+ * Middleware that makes a route that creates something safe to retry.
+ *
+ * When the request carries an `Idempotency-Key` header, the key is stored (per user) with a
+ * fingerprint of the request and, once handled, the response it got:
+ * - A retry with the same key and the same method, URL and body gets the stored response
+ *   back, with the `Idempotent-Replayed: true` header, without running the handler again.
+ * - A request with the same key but a different fingerprint is answered with 422.
+ * - A retry that arrives while the first request is still being handled is answered with 409.
+ *
+ * The key is settled when the handler sends its response, whether or not the client is still
+ * connected: a client that dropped the connection and retries gets the response it missed
+ * (or 409 while the first request is still being handled). Only server errors release the
+ * key, so retrying those runs the handler again. Keys expire after
+ * `IDEMPOTENCY_KEY_TTL_HOURS`. Requests without the header are handled as usual.
+ *
+ * Must be mounted after `authenticateToken` and before `validate`, so the fingerprint covers
+ * the body as sent.
+ *
+ * @example
+ * ```typescript
+ * router.post('/', authenticateToken, requirePermission('orders:create'), idempotent, validate(createOrderSchema), createOrderHandler);
+ * ```
+ */
+
+export const idempotent = async (req: Request, res: Response, next: NextFunction) => {
+  const key = req.get(IDEMPOTENCY_KEY_HEADER);
+  if (key === undefined) {
+    return next();
+  }
+  if (!VALID_IDEMPOTENCY_KEY.test(key)) {
+    return sendProblem(res, 400, `${IDEMPOTENCY_KEY_HEADER} must be 1 to 255 printable ASCII characters`);
+  }
+
+  const userId = (req as Request & { user: UserPayload }).user.id;
+  const requestFingerprint = fingerprint(req);
+
+  let existing;
+  try {
+    existing = await claimIdempotencyKey(userId, key, requestFingerprint, config.idempotency.ttlHours);
+  } catch (error) {
+    if (error instanceof IdempotencyKeyContendedError) {
+      res.setHeader('Retry-After', '1');
+      return sendProblem(res, 409, `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`);
+    }
+    return sendProblem(res, 500, 'Error checking idempotency key');
+  }
+
+  if (existing) {
+    if (existing.fingerprint !== requestFingerprint) {
+      return sendProblem(res, 422, `${IDEMPOTENCY_KEY_HEADER} was already used for a different request`);
+    }
+    if (existing.status_code === null) {
+      res.setHeader('Retry-After', '1');
+      return sendProblem(res, 409, `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`);
+    }
+    res.setHeader(IDEMPOTENT_REPLAYED_HEADER, 'true');
+    if (existing.content_type) {
+      res.setHeader('Content-Type', existing.content_type);
+    }
+    return res.status(existing.status_code).send(existing.response_body ?? '');
+  }
+
+  // Settle the key with what the handler sends; `res.json` and `sendProblem` (also used by the
+  // error handler) both end up in `res.send`. This does not depend on the socket, so a client
+  // that disconnects does not release the key while the handler is still working.
+  let body: string | undefined;
+  let settled = false;
+  const send = res.send.bind(res);
+  res.send = (payload?: unknown) => {
+    if (body === undefined) {
+      body = Buffer.isBuffer(payload) ? payload.toString() : typeof payload === 'string' ? payload : JSON.stringify(payload ?? '');
+    }
+    const result = send(payload);
+
+    if (!settled) {
+      settled = true;
+      const contentType = res.getHeader('Content-Type');
+      const store = res.statusCode < 500
+        ? saveIdempotentResponse(userId, key, res.statusCode, contentType === undefined ? null : String(contentType), body)
+        : releaseIdempotencyKey(userId, key);
+      store.catch((error) => logger.error('Could not settle idempotency key', { error, userId }));
+    }
+    return result;
+  };
+
+  next();
+};
+
+/**
+ * Deletes expired idempotency keys every hour, so the table does not grow with keys that
+ * will never be retried. The timer does not keep the process alive.
+ */
+
+export const scheduleIdempotencyKeyPurge = () => {
+  setInterval(() => {
+    deleteExpiredIdempotencyKeys()
+      .then((deleted) => logger.debug('Expired idempotency keys deleted', { deleted }))
+      .catch((error) => logger.error('Could not delete expired idempotency keys', { error }));
+  }, PURGE_INTERVAL_MS).unref();
+};
@@ -0,0 +1,37 @@
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import { requestContext } from '../utils/logger';
+
+/**
+ * Header used to propagate the request ID between clients, proxies and this API.
+ */
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/**
+ * Incoming request IDs are only honored when they are reasonably short and made of safe
+ * characters, so they cannot be used to inject content into the logs.
+ */
+
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Middleware that assigns every request a correlation ID.
+ *
+ * The ID is taken from the incoming `X-Request-Id` header when it is valid, or generated
+ * otherwise. It is exposed as `req.id`, echoed back in the `X-Request-Id` response header,
+ * and attached to every log line written while the request is handled. The client's IP is
+ * kept in the same context for the audit log.
+ *
+ * Must be mounted before any other middleware so that their log lines are correlated too.
+ */
+
+export const requestId = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const id = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+
+  (req as Request & { id: string }).id = id;
+  res.setHeader(REQUEST_ID_HEADER, id);
+
+  requestContext.run({ requestId: id, ip: req.ip }, next);
+};
@@ -0,0 +1,174 @@
+import { Request, Response, NextFunction } from 'express';
+import { UserPayload } from './authMiddleware';
+import { UserRole } from '../types';
+import { sendProblem } from './errorHandler';
+import { getOrderOwnerId } from '../models/orderModel';
+
+/**
+ * Actions that can be granted to a role. Routes declare the permission they need
+ * with `requirePermission`, so the role matrix lives in a single place.
+ */
+
+export type Permission =
+  | 'products:write'
+  | 'categories:write'
+  | 'promotions:write'
+  | 'orders:create'
+  | 'orders:read'
+  | 'orders:read_all'
+  | 'orders:update_status'
+  | 'tables:read'
+  | 'tables:write'
+  | 'tables:update_status'
+  | 'kitchen:read'
+  | 'kitchen:update'
+  | 'payments:create'
+  | 'payments:read'
+  | 'reports:read'
+  | 'inventory:read'
+  | 'inventory:write'
+  | 'audit:read'
+  | 'users:unlock';
+
+/**
+ * Permissions granted to each user role.
+ */
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    'products:write', 'categories:write', 'promotions:write',
+    'orders:create', 'orders:read', 'orders:read_all', 'orders:update_status',
+    'tables:read', 'tables:write', 'tables:update_status',
+    'kitchen:read', 'kitchen:update',
+    'payments:create', 'payments:read',
+    'reports:read',
+    'inventory:read', 'inventory:write',
+    'audit:read',
+    'users:unlock',
+  ],
+  waiter: [
+    'orders:create', 'orders:read', 'orders:update_status',
+    'tables:read', 'tables:update_status',
+    'kitchen:read',
+    'payments:create', 'payments:read',
+  ],
+  cook: ['kitchen:read', 'kitchen:update'],
+};
+
+/**
+ * Whether `role` grants `permission` according to `ROLE_PERMISSIONS`.
+ */
+
+export const hasPermission = (role: UserRole | undefined, permission: Permission): boolean =>
+  role !== undefined && (ROLE_PERMISSIONS[role]?.includes(permission) ?? false);
+
+/**
+ * Sends a 403 problem details response with a machine-readable `reason` so clients can tell
+ * a missing role apart from an insufficient one.
+ */
+
+const forbidden = (
+  res: Response,
+  reason: 'missing_role' | 'insufficient_role' | 'missing_permission' | 'not_order_owner',
+  details: object
+) =>
+  sendProblem(res, 403, 'You are not allowed to perform this action', { reason, ...details });
+
+/**
+ * Middleware factory that only lets through users whose role is one of `roles`.
+ *
+ * Must be mounted after `authenticateToken`, which attaches the JWT payload to `req.user`.
+ *
+ * @param roles - The roles allowed to access the route.
+ * @returns An Express middleware that responds with 403 when the user's role is not allowed.
+ *
+ * @example
+ * ```typescript
+ * router.post('/', authenticateToken, requireRole('admin'), createProductHandler);
+ * ```
+ */
+
+export const requireRole = (...roles: UserRole[]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const { role } = (req as Request & { user: UserPayload }).user;
+
+    if (!role) {
+      return forbidden(res, 'missing_role', { required_roles: roles });
+    }
+
+    if (!roles.includes(role)) {
+      return forbidden(res, 'insufficient_role', { required_roles: roles, role });
+    }
+
+    next();
+  };
+
+/**
+ * Middleware factory that only lets through users whose role grants `permission`
+ * according to `ROLE_PERMISSIONS`.
+ *
+ * Must be mounted after `authenticateToken`, which attaches the JWT payload to `req.user`.
+ *
+ * @param permission - The permission required to access the route.
+ * @returns An Express middleware that responds with 403 when the permission is not granted.
+ *
+ * @example
+ * ```typescript
+ * router.patch('/:id/status', authenticateToken, requirePermission('orders:update_status'), updateOrderStatusHandler);
+ * ```
+ */
+
+export const requirePermission = (permission: Permission) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const { role } = (req as Request & { user: UserPayload }).user;
+
+    if (!role) {
+      return forbidden(res, 'missing_role', { required_permission: permission });
+    }
+
+    if (!hasPermission(role, permission)) {
+      return forbidden(res, 'missing_permission', { required_permission: permission, role });
+    }
+
+    next();
+  };
+
+/**
+ * Middleware that only lets through the user who created the order in `req.params.id`, or
+ * users whose role grants `orders:read_all` (admins), so a waiter cannot act on or read the
+ * orders of another waiter.
+ *
+ * Must be mounted after `authenticateToken` and the route's `requirePermission`.
+ *
+ * @returns Responds with 400 when the order ID is invalid, 404 when the order does not exist
+ *          and 403 (`reason: not_order_owner`) when the user may not access it.
+ *
+ * @example
+ * ```typescript
+ * router.get('/:id/history', authenticateToken, requirePermission('orders:read'), requireOrderAccess, getOrderStatusHistoryHandler);
+ * ```
+ */
+
+export const requireOrderAccess = async (req: Request, res: Response, next: NextFunction) => {
+  const { id: userId, role } = (req as Request & { user: UserPayload }).user;
+  const orderId = parseInt(String(req.params.id), 10);
+  if (isNaN(orderId)) {
+    return sendProblem(res, 400, 'Invalid order ID');
+  }
+
+  let ownerId;
+  try {
+    ownerId = await getOrderOwnerId(orderId);
+  } catch (error) {
+    return sendProblem(res, 500, 'Error checking order access');
+  }
+
+  if (ownerId === undefined) {
+    return sendProblem(res, 404, 'Order not found');
+  }
+  if (ownerId !== userId && !hasPermission(role, 'orders:read_all')) {
+    return forbidden(res, 'not_order_owner', { order_id: orderId });
+  }
+
+  next();
+};
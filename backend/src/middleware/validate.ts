@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from 'express';
+import { parseWithSchema, Schema } from '@oceans/shared';
+import { sendProblem } from './errorHandler';
+
+/**
+ * Middleware factory that validates the request body against one of the schemas from
+ * `@oceans/shared`, the same ones the frontend forms use.
+ *
+ * On success `req.body` is replaced with the parsed data (trimmed strings, defaults applied,
+ * unknown fields stripped), so handlers can trust its shape. On failure it responds with a
+ * 400 problem details response whose `errors` member lists every invalid field:
+ *
+ * ```json
+ * {
+ *   "type": "about:blank",
+ *   "title": "Bad Request",
+ *   "status": 400,
+ *   "detail": "Validation failed",
+ *   "instance": "/auth/register",
+ *   "errors": [{ "field": "password", "message": "La contraseña debe tener al menos 8 caracteres" }]
+ * }
+ * ```
+ *
+ * @param schema - The schema the body must satisfy.
+ * @returns An Express middleware.
+ *
+ * @example
+ * ```typescript
+ * router.post('/', authenticateToken, requirePermission('products:write'), validate(productSchema), createProductHandler);
+ * ```
+ */
+
+export const validate = (schema: Schema) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const result = parseWithSchema(schema, req.body ?? {});
+
+    if (!result.success) {
+      return sendProblem(res, 400, 'Validation failed', { errors: result.errors });
+    }
+
+    req.body = result.data;
+    next();
+  };
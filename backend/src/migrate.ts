@@ -0,0 +1,52 @@
+/**
+ * Command-line entry point for the database migrations.
+ *
+ * Usage:
+ * - `npm run migrate:up`: Applies every pending migration.
+ * - `npm run migrate:down [steps]`: Reverts the last `steps` migrations (default 1).
+ * - `npm run migrate:status`: Lists every migration and whether it has been applied.
+ */
+
+import { migrateUp, migrateDown, getMigrationStatus } from './migrations/runner';
+import logger from './utils/logger';
+
+const run = async () => {
+  const [command, arg] = process.argv.slice(2);
+
+  switch (command) {
+    case 'up': {
+      const applied = await migrateUp();
+      logger.info(applied.length > 0 ? `${applied.length} migration(s) applied` : 'Database is up to date');
+      break;
+    }
+    case 'down': {
+      const steps = arg === undefined ? 1 : parseInt(arg, 10);
+      if (isNaN(steps) || steps < 1) {
+        throw new Error('Steps must be a positive integer');
+      }
+      const reverted = await migrateDown(steps);
+      logger.info(reverted.length > 0 ? `${reverted.length} migration(s) reverted` : 'No migrations to revert');
+      break;
+    }
+    case 'status': {
+      const status = await getMigrationStatus();
+      status.forEach((migration) => {
+        logger.info('Migration status', {
+          migration: `${migration.version}_${migration.name}`,
+          state: migration.applied_at ? 'applied' : 'pending',
+          appliedAt: migration.applied_at ?? undefined,
+        });
+      });
+      break;
+    }
+    default:
+      throw new Error('Usage: migrate <up|down [steps]|status>');
+  }
+};
+
+run()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    logger.error('Migration command failed', { error });
+    process.exit(1);
+  });
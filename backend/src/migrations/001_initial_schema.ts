@@ -0,0 +1,101 @@
+import { Migration } from './runner';
+
+/**
+ * Initial schema: users, products, orders, order items, order status history and refresh tokens,
+ * plus the seeded `admin` user. This is the schema that `database/init.sql` used to create.
+ *
+ * Every statement is idempotent so databases that were bootstrapped with the old `init.sql`
+ * can adopt the migration history without being recreated.
+ */
+
+const migration: Migration = {
+  version: '001',
+  name: 'initial_schema',
+  up: `
+    CREATE TABLE IF NOT EXISTS users (
+        id SERIAL PRIMARY KEY,
+        username VARCHAR(50) NOT NULL UNIQUE,
+        password VARCHAR(255) NOT NULL,
+        role VARCHAR(20) CHECK (role IN ('admin', 'waiter')) NOT NULL DEFAULT 'waiter'
+    );
+
+    CREATE TABLE IF NOT EXISTS products (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        description TEXT,
+        price DECIMAL(10, 2) NOT NULL,
+        stock INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        archived_at TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS orders (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        total DECIMAL(10, 2) NOT NULL DEFAULT 0.00,
+        status VARCHAR(20) CHECK (status IN ('pending', 'in_progress', 'ready', 'served', 'completed', 'cancelled')) NOT NULL DEFAULT 'pending',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS order_items (
+        id SERIAL PRIMARY KEY,
+        order_id INTEGER NOT NULL,
+        product_id INTEGER NOT NULL,
+        quantity INTEGER NOT NULL CHECK (quantity > 0),
+        price_at_time DECIMAL(10, 2) NOT NULL,
+        FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
+        FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE RESTRICT
+    );
+
+    CREATE TABLE IF NOT EXISTS order_status_history (
+        id SERIAL PRIMARY KEY,
+        order_id INTEGER NOT NULL,
+        from_status VARCHAR(20),
+        to_status VARCHAR(20) NOT NULL,
+        changed_by INTEGER NOT NULL,
+        changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
+        FOREIGN KEY (changed_by) REFERENCES users(id) ON DELETE RESTRICT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_order_status_history_order_id ON order_status_history(order_id);
+
+    CREATE TABLE IF NOT EXISTS refresh_tokens (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        family_id UUID NOT NULL,
+        token_hash CHAR(64) NOT NULL UNIQUE,
+        expires_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        revoked_at TIMESTAMP,
+        replaced_by INTEGER,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (replaced_by) REFERENCES refresh_tokens(id) ON DELETE SET NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family_id ON refresh_tokens(family_id);
+
+    -- Bring databases created by the original init.sql up to date.
+    ALTER TABLE products ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP;
+    ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+    ALTER TABLE orders ADD CONSTRAINT orders_status_check
+        CHECK (status IN ('pending', 'in_progress', 'ready', 'served', 'completed', 'cancelled'));
+
+    -- Insert a test admin user with a bcrypt-hashed password
+    -- Using a bcrypt hash for 'admin123' 
+    INSERT INTO users (username, password, role)
+    SELECT 'admin', '$2b$12$QjSH496pQ/9Nq5G6x0T9T.e6W9x0Q2pX8K9y4Z6m3N5q7R1s9U.v2', 'admin'
+    ON CONFLICT (username) DO NOTHING;
+  `,
+  down: `
+    DROP TABLE IF EXISTS refresh_tokens;
+    DROP TABLE IF EXISTS order_status_history;
+    DROP TABLE IF EXISTS order_items;
+    DROP TABLE IF EXISTS orders;
+    DROP TABLE IF EXISTS products;
+    DROP TABLE IF EXISTS users;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,34 @@
+import { Migration } from './runner';
+
+/**
+ * Dining tables, and the optional table an order is served at.
+ *
+ * A table's `status` is kept in sync with its orders: it becomes `occupied` when an order is
+ * opened for it and `free` again once none of its orders are still open.
+ */
+
+const migration: Migration = {
+  version: '002',
+  name: 'tables',
+  up: `
+    CREATE TABLE tables (
+        id SERIAL PRIMARY KEY,
+        number INTEGER NOT NULL UNIQUE CHECK (number > 0),
+        area VARCHAR(50),
+        capacity INTEGER NOT NULL CHECK (capacity > 0),
+        status VARCHAR(20) CHECK (status IN ('free', 'occupied', 'reserved', 'dirty')) NOT NULL DEFAULT 'free',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    ALTER TABLE orders ADD COLUMN table_id INTEGER REFERENCES tables(id) ON DELETE SET NULL;
+
+    CREATE INDEX idx_orders_table_id ON orders(table_id);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_orders_table_id;
+    ALTER TABLE orders DROP COLUMN IF EXISTS table_id;
+    DROP TABLE IF EXISTS tables;
+  `,
+};
+
+export default migration;
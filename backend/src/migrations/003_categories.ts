@@ -0,0 +1,35 @@
+import { Migration } from './runner';
+
+/**
+ * Menu categories ("Bebidas", "Postres", ...) and the category each product is listed under.
+ *
+ * Categories can be nested one inside another through `parent_id`, and are shown in
+ * `display_order` (then by name). Deleting a category leaves its products uncategorized and
+ * moves its subcategories to the top level.
+ */
+
+const migration: Migration = {
+  version: '003',
+  name: 'categories',
+  up: `
+    CREATE TABLE categories (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(50) NOT NULL UNIQUE,
+        display_order INTEGER NOT NULL DEFAULT 0,
+        parent_id INTEGER REFERENCES categories(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        CHECK (parent_id IS NULL OR parent_id <> id)
+    );
+
+    ALTER TABLE products ADD COLUMN category_id INTEGER REFERENCES categories(id) ON DELETE SET NULL;
+
+    CREATE INDEX idx_products_category_id ON products(category_id);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_products_category_id;
+    ALTER TABLE products DROP COLUMN IF EXISTS category_id;
+    DROP TABLE IF EXISTS categories;
+  `,
+};
+
+export default migration;
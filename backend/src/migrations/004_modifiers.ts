@@ -0,0 +1,61 @@
+import { Migration } from './runner';
+
+/**
+ * Product modifiers ("sin cebolla", "extra queso +$1.50") and the modifiers chosen for each
+ * order item.
+ *
+ * Modifiers are grouped per product; a group says how many of its modifiers must be chosen
+ * (`min_selections`, at least 1 when `required`) and how many may be (`max_selections`, or
+ * any number when `NULL`). Order item modifiers keep a copy of the name and price delta at
+ * the time of the order, like `order_items.price_at_time`, so editing or deleting a
+ * modifier never changes past orders.
+ */
+
+const migration: Migration = {
+  version: '004',
+  name: 'modifiers',
+  up: `
+    CREATE TABLE modifier_groups (
+        id SERIAL PRIMARY KEY,
+        product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        name VARCHAR(50) NOT NULL,
+        required BOOLEAN NOT NULL DEFAULT FALSE,
+        min_selections INTEGER NOT NULL DEFAULT 0 CHECK (min_selections >= 0),
+        max_selections INTEGER CHECK (max_selections > 0),
+        display_order INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        CHECK (NOT required OR min_selections >= 1),
+        CHECK (max_selections IS NULL OR max_selections >= min_selections)
+    );
+
+    CREATE INDEX idx_modifier_groups_product_id ON modifier_groups(product_id);
+
+    CREATE TABLE modifiers (
+        id SERIAL PRIMARY KEY,
+        group_id INTEGER NOT NULL REFERENCES modifier_groups(id) ON DELETE CASCADE,
+        name VARCHAR(50) NOT NULL,
+        price_delta DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        display_order INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_modifiers_group_id ON modifiers(group_id);
+
+    CREATE TABLE order_item_modifiers (
+        id SERIAL PRIMARY KEY,
+        order_item_id INTEGER NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+        modifier_id INTEGER REFERENCES modifiers(id) ON DELETE SET NULL,
+        name VARCHAR(50) NOT NULL,
+        price_delta DECIMAL(10, 2) NOT NULL
+    );
+
+    CREATE INDEX idx_order_item_modifiers_order_item_id ON order_item_modifiers(order_item_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS order_item_modifiers;
+    DROP TABLE IF EXISTS modifiers;
+    DROP TABLE IF EXISTS modifier_groups;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,66 @@
+import { Migration } from './runner';
+
+/**
+ * Kitchen stations and the preparation status of each order item.
+ *
+ * Products can be assigned to a station (grill, bar, cold kitchen); when an order is created
+ * each item is routed to its product's station at that moment. Items then move through
+ * `queued` → `preparing` → `ready`, with a timestamp for each step.
+ *
+ * Also adds the `cook` role for kitchen staff. Items of orders placed before this migration
+ * are marked `ready` so they do not flood the kitchen screens.
+ */
+
+const migration: Migration = {
+  version: '005',
+  name: 'kitchen',
+  up: `
+    CREATE TABLE stations (
+        id SERIAL PRIMARY KEY,
+        code VARCHAR(30) NOT NULL UNIQUE CHECK (code ~ '^[a-z0-9_]+$'),
+        name VARCHAR(50) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    INSERT INTO stations (code, name) VALUES
+        ('grill', 'Parrilla'),
+        ('bar', 'Barra'),
+        ('cold_kitchen', 'Cocina fría');
+
+    ALTER TABLE products ADD COLUMN station_id INTEGER REFERENCES stations(id) ON DELETE SET NULL;
+
+    ALTER TABLE order_items
+        ADD COLUMN station_id INTEGER REFERENCES stations(id) ON DELETE SET NULL,
+        ADD COLUMN prep_status VARCHAR(20) CHECK (prep_status IN ('queued', 'preparing', 'ready')) NOT NULL DEFAULT 'queued',
+        ADD COLUMN queued_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        ADD COLUMN started_at TIMESTAMP,
+        ADD COLUMN ready_at TIMESTAMP;
+
+    UPDATE order_items oi
+    SET prep_status = 'ready', queued_at = o.created_at, ready_at = o.created_at
+    FROM orders o
+    WHERE o.id = oi.order_id;
+
+    CREATE INDEX idx_order_items_station_prep ON order_items(station_id, prep_status);
+
+    ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+    ALTER TABLE users ADD CONSTRAINT users_role_check CHECK (role IN ('admin', 'waiter', 'cook'));
+  `,
+  down: `
+    UPDATE users SET role = 'waiter' WHERE role = 'cook';
+    ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+    ALTER TABLE users ADD CONSTRAINT users_role_check CHECK (role IN ('admin', 'waiter'));
+
+    DROP INDEX IF EXISTS idx_order_items_station_prep;
+    ALTER TABLE order_items
+        DROP COLUMN IF EXISTS station_id,
+        DROP COLUMN IF EXISTS prep_status,
+        DROP COLUMN IF EXISTS queued_at,
+        DROP COLUMN IF EXISTS started_at,
+        DROP COLUMN IF EXISTS ready_at;
+    ALTER TABLE products DROP COLUMN IF EXISTS station_id;
+    DROP TABLE IF EXISTS stations;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,54 @@
+import { Migration } from './runner';
+
+/**
+ * Payments towards orders.
+ *
+ * An order can be settled with several payments (partial payments, split bills), each made
+ * in cash, by card or by other means. `amount` is what the payment takes off the order's
+ * balance; the `tip` is recorded on top of it and never counts towards the balance. For cash,
+ * `tendered` is what the customer handed over and `change_given` what was returned. Card
+ * payments keep the name and reference of the provider that processed them.
+ *
+ * Payments split by item record which units of which order items they covered in
+ * `payment_items`, so the same unit cannot be paid twice.
+ */
+
+const migration: Migration = {
+  version: '006',
+  name: 'payments',
+  up: `
+    CREATE TABLE payments (
+        id SERIAL PRIMARY KEY,
+        order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+        method VARCHAR(10) NOT NULL CHECK (method IN ('cash', 'card', 'other')),
+        split VARCHAR(10) NOT NULL DEFAULT 'amount' CHECK (split IN ('amount', 'items', 'even')),
+        amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+        tip DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (tip >= 0),
+        tendered DECIMAL(10, 2),
+        change_given DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (change_given >= 0),
+        provider VARCHAR(30),
+        provider_reference VARCHAR(100),
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        CHECK (tendered IS NULL OR tendered >= amount + tip)
+    );
+
+    CREATE INDEX idx_payments_order_id ON payments(order_id);
+
+    CREATE TABLE payment_items (
+        payment_id INTEGER NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+        order_item_id INTEGER NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+        quantity INTEGER NOT NULL CHECK (quantity > 0),
+        amount DECIMAL(10, 2) NOT NULL,
+        PRIMARY KEY (payment_id, order_item_id)
+    );
+
+    CREATE INDEX idx_payment_items_order_item_id ON payment_items(order_item_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS payment_items;
+    DROP TABLE IF EXISTS payments;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,89 @@
+import { Migration } from './runner';
+
+/**
+ * Taxes, service charge and promotions, and the price breakdown stored with every order.
+ *
+ * A category can carry its own `tax_rate` (a percentage); categories without one use the rate
+ * of their parent, and products outside any taxed category use the default rate from the
+ * configuration. Promotions are percentage or fixed discounts redeemed with a promo code,
+ * optionally limited to a validity window and a number of uses (`times_used` counts the
+ * orders that redeemed it and are not cancelled).
+ *
+ * Each order item stores its share of the order's discount and service charge, its tax rate
+ * and tax, and its `line_total`; the order stores the sums and the rate and promo code that
+ * were applied. Receipts are rebuilt from these columns only, so later changes to rates or
+ * promotions never alter past orders. Existing orders are backfilled as untaxed and undiscounted.
+ */
+
+const migration: Migration = {
+  version: '007',
+  name: 'pricing',
+  up: `
+    ALTER TABLE categories ADD COLUMN tax_rate DECIMAL(5, 2) CHECK (tax_rate BETWEEN 0 AND 100);
+
+    CREATE TABLE promotions (
+        id SERIAL PRIMARY KEY,
+        code VARCHAR(30) NOT NULL UNIQUE,
+        description VARCHAR(255),
+        kind VARCHAR(10) NOT NULL CHECK (kind IN ('percentage', 'fixed')),
+        value DECIMAL(10, 2) NOT NULL CHECK (value > 0),
+        starts_at TIMESTAMP,
+        ends_at TIMESTAMP,
+        max_uses INTEGER CHECK (max_uses > 0),
+        times_used INTEGER NOT NULL DEFAULT 0 CHECK (times_used >= 0),
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        CHECK (kind <> 'percentage' OR value <= 100),
+        CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at)
+    );
+
+    ALTER TABLE orders
+        ADD COLUMN subtotal DECIMAL(10, 2),
+        ADD COLUMN discount_total DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        ADD COLUMN service_charge DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        ADD COLUMN service_charge_rate DECIMAL(5, 2) NOT NULL DEFAULT 0,
+        ADD COLUMN tax_total DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        ADD COLUMN promotion_id INTEGER REFERENCES promotions(id) ON DELETE SET NULL,
+        ADD COLUMN promo_code VARCHAR(30);
+
+    ALTER TABLE order_items
+        ADD COLUMN subtotal DECIMAL(10, 2),
+        ADD COLUMN discount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        ADD COLUMN service_charge DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        ADD COLUMN tax_rate DECIMAL(5, 2) NOT NULL DEFAULT 0,
+        ADD COLUMN tax DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        ADD COLUMN line_total DECIMAL(10, 2);
+
+    UPDATE order_items oi
+    SET subtotal = oi.quantity * (oi.price_at_time + COALESCE((SELECT SUM(price_delta) FROM order_item_modifiers WHERE order_item_id = oi.id), 0)),
+        line_total = oi.quantity * (oi.price_at_time + COALESCE((SELECT SUM(price_delta) FROM order_item_modifiers WHERE order_item_id = oi.id), 0));
+    UPDATE orders SET subtotal = total;
+
+    ALTER TABLE order_items ALTER COLUMN subtotal SET NOT NULL, ALTER COLUMN line_total SET NOT NULL;
+    ALTER TABLE orders ALTER COLUMN subtotal SET NOT NULL;
+
+    CREATE INDEX idx_orders_promotion_id ON orders(promotion_id);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_orders_promotion_id;
+    ALTER TABLE order_items
+        DROP COLUMN IF EXISTS subtotal,
+        DROP COLUMN IF EXISTS discount,
+        DROP COLUMN IF EXISTS service_charge,
+        DROP COLUMN IF EXISTS tax_rate,
+        DROP COLUMN IF EXISTS tax,
+        DROP COLUMN IF EXISTS line_total;
+    ALTER TABLE orders
+        DROP COLUMN IF EXISTS subtotal,
+        DROP COLUMN IF EXISTS discount_total,
+        DROP COLUMN IF EXISTS service_charge,
+        DROP COLUMN IF EXISTS service_charge_rate,
+        DROP COLUMN IF EXISTS tax_total,
+        DROP COLUMN IF EXISTS promotion_id,
+        DROP COLUMN IF EXISTS promo_code;
+    DROP TABLE IF EXISTS promotions;
+    ALTER TABLE categories DROP COLUMN IF EXISTS tax_rate;
+  `,
+};
+
+export default migration;
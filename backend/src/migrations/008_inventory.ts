@@ -0,0 +1,46 @@
+import { Migration } from './runner';
+
+/**
+ * Inventory ledger: every change to a product's stock is recorded in `stock_movements`.
+ *
+ * A movement stores its signed `quantity` (negative for sales and waste), the resulting
+ * `stock_after`, and who made it and why; sales and returns also reference their order.
+ * `products.stock` is kept as the running total of the ledger, so summing a product's
+ * movements must always give its stock. Existing stock is recorded as an opening
+ * `adjustment`, which keeps both in agreement from the start.
+ *
+ * Products can also carry a `reorder_threshold`: at or below it they are reported as low
+ * on stock.
+ */
+
+const migration: Migration = {
+  version: '008',
+  name: 'inventory',
+  up: `
+    ALTER TABLE products ADD COLUMN reorder_threshold INTEGER CHECK (reorder_threshold >= 0);
+
+    CREATE TABLE stock_movements (
+        id SERIAL PRIMARY KEY,
+        product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        kind VARCHAR(20) NOT NULL CHECK (kind IN ('sale', 'restock', 'adjustment', 'waste', 'return')),
+        quantity INTEGER NOT NULL CHECK (quantity <> 0),
+        stock_after INTEGER NOT NULL,
+        reason VARCHAR(255),
+        order_id INTEGER REFERENCES orders(id) ON DELETE SET NULL,
+        user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_stock_movements_product_id ON stock_movements(product_id, created_at);
+    CREATE INDEX idx_stock_movements_order_id ON stock_movements(order_id);
+
+    INSERT INTO stock_movements (product_id, kind, quantity, stock_after, reason)
+    SELECT id, 'adjustment', stock, stock, 'Opening balance' FROM products WHERE stock <> 0;
+  `,
+  down: `
+    DROP TABLE IF EXISTS stock_movements;
+    ALTER TABLE products DROP COLUMN IF EXISTS reorder_threshold;
+  `,
+};
+
+export default migration;
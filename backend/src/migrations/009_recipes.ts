@@ -0,0 +1,73 @@
+import { Migration } from './runner';
+
+/**
+ * Ingredients, product recipes and ingredient-level stock.
+ *
+ * An ingredient is stocked in a unit of measure (grams, kilograms, millilitres, litres or
+ * units) and, like products, every change to its stock is recorded in a ledger,
+ * `ingredient_movements`, so `ingredients.stock` always equals the sum of its movements.
+ *
+ * A recipe (`recipe_items`) lists how much of each ingredient one unit of a product uses, in
+ * the ingredient's unit. Products with a recipe are limited by their ingredients: ordering
+ * them consumes the ingredients and their own `stock` is not used. Products without a recipe
+ * (e.g. bottled drinks) keep being stocked as units. `product_availability` gives how many
+ * units of each product can be sold right now under either rule.
+ */
+
+const migration: Migration = {
+  version: '009',
+  name: 'recipes',
+  up: `
+    CREATE TABLE ingredients (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(100) NOT NULL UNIQUE,
+        unit VARCHAR(10) NOT NULL CHECK (unit IN ('g', 'kg', 'ml', 'l', 'unit')),
+        stock DECIMAL(12, 3) NOT NULL DEFAULT 0 CHECK (stock >= 0),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE recipe_items (
+        product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        ingredient_id INTEGER NOT NULL REFERENCES ingredients(id) ON DELETE RESTRICT,
+        quantity DECIMAL(12, 3) NOT NULL CHECK (quantity > 0),
+        PRIMARY KEY (product_id, ingredient_id)
+    );
+
+    CREATE INDEX idx_recipe_items_ingredient_id ON recipe_items(ingredient_id);
+
+    CREATE TABLE ingredient_movements (
+        id SERIAL PRIMARY KEY,
+        ingredient_id INTEGER NOT NULL REFERENCES ingredients(id) ON DELETE CASCADE,
+        kind VARCHAR(20) NOT NULL CHECK (kind IN ('sale', 'restock', 'adjustment', 'waste', 'return')),
+        quantity DECIMAL(12, 3) NOT NULL CHECK (quantity <> 0),
+        stock_after DECIMAL(12, 3) NOT NULL,
+        reason VARCHAR(255),
+        order_id INTEGER REFERENCES orders(id) ON DELETE SET NULL,
+        user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_ingredient_movements_ingredient_id ON ingredient_movements(ingredient_id, created_at);
+    CREATE INDEX idx_ingredient_movements_order_id ON ingredient_movements(order_id);
+
+    CREATE VIEW product_availability AS
+    SELECT p.id AS product_id,
+           COALESCE(r.available, p.stock) AS available,
+           r.product_id IS NOT NULL AS has_recipe
+    FROM products p
+    LEFT JOIN (
+        SELECT ri.product_id, MIN(FLOOR(i.stock / ri.quantity))::int AS available
+        FROM recipe_items ri
+        JOIN ingredients i ON i.id = ri.ingredient_id
+        GROUP BY ri.product_id
+    ) r ON r.product_id = p.id;
+  `,
+  down: `
+    DROP VIEW IF EXISTS product_availability;
+    DROP TABLE IF EXISTS ingredient_movements;
+    DROP TABLE IF EXISTS recipe_items;
+    DROP TABLE IF EXISTS ingredients;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,36 @@
+import { Migration } from './runner';
+
+/**
+ * Idempotency keys: the `Idempotency-Key` sent with a request to a route that creates
+ * something (orders, payments) is stored with a fingerprint of the request and, once the
+ * request has been handled, the response it got, so that retries get the same response
+ * instead of creating a duplicate.
+ *
+ * Keys are scoped to the user that sent them. A key whose `status_code` is still `NULL` is
+ * being handled. Keys are deleted once `expires_at` has passed.
+ */
+
+const migration: Migration = {
+  version: '010',
+  name: 'idempotency_keys',
+  up: `
+    CREATE TABLE idempotency_keys (
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        key VARCHAR(255) NOT NULL,
+        fingerprint CHAR(64) NOT NULL,
+        status_code INTEGER,
+        content_type VARCHAR(255),
+        response_body TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        expires_at TIMESTAMP NOT NULL,
+        PRIMARY KEY (user_id, key)
+    );
+
+    CREATE INDEX idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS idempotency_keys;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,21 @@
+import { Migration } from './runner';
+
+/**
+ * Product versions for optimistic concurrency: `products.version` starts at 1 and is
+ * incremented by every write to the product (edits, archiving, stock movements, recipe
+ * changes). Together with the available units it forms the product's `ETag`, so a client
+ * can send `If-Match` to update a product only if nobody changed it since it was read.
+ */
+
+const migration: Migration = {
+  version: '011',
+  name: 'product_versions',
+  up: `
+    ALTER TABLE products ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+  `,
+  down: `
+    ALTER TABLE products DROP COLUMN IF EXISTS version;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,38 @@
+import { Migration } from './runner';
+
+/**
+ * Audit log: one row per change to a product, an order or a user, written in the same
+ * transaction as the change.
+ *
+ * Each entry records who made the change (`actor_id`), what they did (`action`) to which
+ * entity, the changed fields before and after as JSON, and the request ID and IP address of
+ * the request that made it, so an entry can be matched with the access log.
+ */
+
+const migration: Migration = {
+  version: '012',
+  name: 'audit_log',
+  up: `
+    CREATE TABLE audit_log (
+        id BIGSERIAL PRIMARY KEY,
+        actor_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        action VARCHAR(20) NOT NULL CHECK (action IN ('create', 'update', 'archive', 'restore', 'status_change')),
+        entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('product', 'order', 'user')),
+        entity_id INTEGER NOT NULL,
+        before JSONB,
+        after JSONB,
+        request_id VARCHAR(128),
+        ip VARCHAR(64),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_audit_log_created_at ON audit_log(created_at);
+    CREATE INDEX idx_audit_log_actor_id ON audit_log(actor_id, created_at);
+    CREATE INDEX idx_audit_log_entity ON audit_log(entity_type, entity_id, created_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS audit_log;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,40 @@
+import { Migration } from './runner';
+
+/**
+ * Brute-force protection for `/auth`, kept in the database so it survives restarts and is
+ * shared by every instance of the API.
+ *
+ * `auth_rate_limits` counts the requests of each IP address in the current one-minute window.
+ * `login_failures` counts the failed logins in a row of each username and each IP address
+ * (`scope`), and `blocked_until` is when the next attempt will be allowed again: a few seconds
+ * after repeated failures, longer once a username is locked.
+ */
+
+const migration: Migration = {
+  version: '013',
+  name: 'auth_throttling',
+  up: `
+    CREATE TABLE auth_rate_limits (
+        ip VARCHAR(64) PRIMARY KEY,
+        window_started_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        requests INTEGER NOT NULL DEFAULT 1
+    );
+
+    CREATE TABLE login_failures (
+        scope VARCHAR(10) NOT NULL CHECK (scope IN ('username', 'ip')),
+        key VARCHAR(255) NOT NULL,
+        failures INTEGER NOT NULL DEFAULT 1,
+        last_failure_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        blocked_until TIMESTAMP,
+        PRIMARY KEY (scope, key)
+    );
+
+    CREATE INDEX idx_login_failures_last_failure_at ON login_failures(last_failure_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS login_failures;
+    DROP TABLE IF EXISTS auth_rate_limits;
+  `,
+};
+
+export default migration;
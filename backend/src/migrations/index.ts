@@ -0,0 +1,37 @@
+import { Migration } from './runner';
+import initialSchema from './001_initial_schema';
+import tables from './002_tables';
+import categories from './003_categories';
+import modifiers from './004_modifiers';
+import kitchen from './005_kitchen';
+import payments from './006_payments';
+import pricing from './007_pricing';
+import inventory from './008_inventory';
+import recipes from './009_recipes';
+import idempotencyKeys from './010_idempotency_keys';
+import productVersions from './011_product_versions';
+import auditLog from './012_audit_log';
+import authThrottling from './013_auth_throttling';
+
+/**
+ * Every migration, in the order it must be applied. Add new migrations to the end of this
+ * list with the next version number; never edit or reorder a migration that has been released.
+ */
+
+const migrations: Migration[] = [
+  initialSchema,
+  tables,
+  categories,
+  modifiers,
+  kitchen,
+  payments,
+  pricing,
+  inventory,
+  recipes,
+  idempotencyKeys,
+  productVersions,
+  auditLog,
+  authThrottling,
+];
+
+export default migrations;
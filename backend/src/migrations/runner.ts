@@ -0,0 +1,163 @@
+import { PoolClient } from 'pg';
+import pool from '../config/db';
+import logger from '../utils/logger';
+import migrations from './index';
+
+/**
+ * A versioned schema change. `up` applies it and `down` reverts it; both are plain SQL
+ * executed inside a transaction.
+ */
+
+export interface Migration {
+  version: string;
+  name: string;
+  up: string;
+  down: string;
+}
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  applied_at: Date | null;
+}
+
+/**
+ * Key of the Postgres advisory lock held while migrations run, so that two runners
+ * (e.g. two backend containers starting at once) never apply migrations concurrently.
+ */
+
+const MIGRATION_LOCK_KEY = 727361;
+
+const ensureMigrationsTable = async (client: PoolClient) => {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version VARCHAR(50) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      applied_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+};
+
+const getAppliedVersions = async (client: PoolClient): Promise<Map<string, Date>> => {
+  const result = await client.query('SELECT version, applied_at FROM schema_migrations ORDER BY version');
+  return new Map(result.rows.map((row) => [row.version, row.applied_at]));
+};
+
+/**
+ * Runs `task` on a dedicated client while holding the migration advisory lock.
+ * Blocks until any other runner has released the lock.
+ */
+
+const withMigrationLock = async <T>(task: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await pool.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    await ensureMigrationsTable(client);
+    return await task(client);
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => undefined);
+    client.release();
+  }
+};
+
+/**
+ * Applies (or reverts) a single migration in its own transaction, recording the change in
+ * `schema_migrations`.
+ */
+
+const runMigration = async (client: PoolClient, migration: Migration, direction: 'up' | 'down') => {
+  try {
+    await client.query('BEGIN');
+    await client.query(migration[direction]);
+    if (direction === 'up') {
+      await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [migration.version, migration.name]);
+    } else {
+      await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    logger.error('Error running migration', { migration: `${migration.version}_${migration.name}`, direction, error });
+    throw new Error(`Migration ${migration.version}_${migration.name} failed`);
+  }
+};
+
+/**
+ * Applies every pending migration in version order.
+ *
+ * @returns A promise that resolves to the migrations that were applied.
+ * @throws An error if a migration fails; migrations applied before it stay applied.
+ */
+
+export const migrateUp = async (): Promise<Migration[]> =>
+  withMigrationLock(async (client) => {
+    const applied = await getAppliedVersions(client);
+    const pending = migrations.filter((migration) => !applied.has(migration.version));
+
+    for (const migration of pending) {
+      await runMigration(client, migration, 'up');
+      logger.info('Applied migration', { migration: `${migration.version}_${migration.name}` });
+    }
+    return pending;
+  });
+
+/**
+ * Reverts the most recently applied migrations, newest first.
+ *
+ * @param steps - How many migrations to revert (defaults to 1).
+ * @returns A promise that resolves to the migrations that were reverted.
+ * @throws An error if a migration fails or an applied version is unknown to this codebase.
+ */
+
+export const migrateDown = async (steps: number = 1): Promise<Migration[]> =>
+  withMigrationLock(async (client) => {
+    const applied = [...(await getAppliedVersions(client)).keys()].sort().reverse().slice(0, steps);
+    const reverted: Migration[] = [];
+
+    for (const version of applied) {
+      const migration = migrations.find((candidate) => candidate.version === version);
+      if (!migration) {
+        throw new Error(`Applied migration ${version} is not known to this codebase`);
+      }
+      await runMigration(client, migration, 'down');
+      logger.info('Reverted migration', { migration: `${migration.version}_${migration.name}` });
+      reverted.push(migration);
+    }
+    return reverted;
+  });
+
+/**
+ * Lists every known migration together with the time it was applied, or `null` if it is pending.
+ *
+ * @returns A promise that resolves to the migration status, in version order.
+ * @throws An error if the status cannot be read.
+ */
+
+export const getMigrationStatus = async (): Promise<MigrationStatus[]> =>
+  withMigrationLock(async (client) => {
+    const applied = await getAppliedVersions(client);
+    return migrations.map((migration) => ({
+      version: migration.version,
+      name: migration.name,
+      applied_at: applied.get(migration.version) ?? null,
+    }));
+  });
+
+/**
+ * Lists the migrations that have not been applied yet, without taking the migration lock
+ * or creating `schema_migrations`. Used by the server to refuse to start on an outdated schema.
+ *
+ * @returns A promise that resolves to the pending migrations, in version order.
+ * @throws An error if the database cannot be queried.
+ */
+
+export const getPendingMigrations = async (): Promise<Migration[]> => {
+  const exists = await pool.query("SELECT to_regclass('schema_migrations') IS NOT NULL AS exists");
+  if (!exists.rows[0].exists) {
+    return migrations;
+  }
+
+  const result = await pool.query('SELECT version FROM schema_migrations');
+  const applied = new Set(result.rows.map((row) => row.version));
+  return migrations.filter((migration) => !applied.has(migration.version));
+};
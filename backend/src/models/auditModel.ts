@@ -0,0 +1,112 @@
+import { Pool, PoolClient } from 'pg';
+import pool from '../config/db';
+import logger, { requestContext } from '../utils/logger';
+import { IAuditEntry, IAuditEntryInput, IAuditQuery, IPaginated } from '../types';
+
+/**
+ * Reduces the state of an entity before and after a change to the fields that changed,
+ * comparing the fields of `before` by their JSON value.
+ *
+ * @param before - The entity before the change.
+ * @param after - The entity after the change.
+ * @returns The old and the new values of the changed fields.
+ */
+
+export const auditDiff = (
+  before: object,
+  after: object
+): { before: Record<string, unknown>; after: Record<string, unknown> } => {
+  const changed = Object.keys(before).filter(
+    (key) => JSON.stringify((before as Record<string, unknown>)[key]) !== JSON.stringify((after as Record<string, unknown>)[key])
+  );
+  return {
+    before: Object.fromEntries(changed.map((key) => [key, (before as Record<string, unknown>)[key]])),
+    after: Object.fromEntries(changed.map((key) => [key, (after as Record<string, unknown>)[key]])),
+  };
+};
+
+/**
+ * Records an entry in the audit log inside the caller's transaction, so it is only kept if
+ * the change it describes is committed. The request ID and IP address are taken from the
+ * context of the request being handled, if any.
+ *
+ * @param db - The client of the caller's transaction.
+ * @param entry - Who changed which entity, how, and the changed fields.
+ * @returns A promise that resolves once the entry is recorded.
+ */
+
+export const recordAudit = async (db: Pool | PoolClient, entry: IAuditEntryInput): Promise<void> => {
+  const context = requestContext.getStore();
+  await db.query(
+    `INSERT INTO audit_log (actor_id, action, entity_type, entity_id, before, after, request_id, ip)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+    [
+      entry.actor_id,
+      entry.action,
+      entry.entity_type,
+      entry.entity_id,
+      entry.before ? JSON.stringify(entry.before) : null,
+      entry.after ? JSON.stringify(entry.after) : null,
+      context?.requestId ?? null,
+      context?.ip ?? null,
+    ]
+  );
+};
+
+/**
+ * Retrieves a page of the audit log, newest first, with the username of each actor.
+ *
+ * @param query - The pagination options and the actor, entity and date range to filter by.
+ * @returns A promise that resolves to the page of entries and its pagination metadata.
+ * @throws An error if the query fails.
+ */
+
+export const getAuditLog = async (query: IAuditQuery): Promise<IPaginated<IAuditEntry>> => {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const addParam = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  if (query.actorId !== undefined) conditions.push(`a.actor_id = ${addParam(query.actorId)}`);
+  if (query.entityType !== undefined) conditions.push(`a.entity_type = ${addParam(query.entityType)}`);
+  if (query.entityId !== undefined) conditions.push(`a.entity_id = ${addParam(query.entityId)}`);
+  if (query.from) conditions.push(`a.created_at >= ${addParam(query.from)}`);
+  if (query.to) conditions.push(`a.created_at <= ${addParam(query.to)}`);
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const filterParams = [...params];
+  const limitParam = addParam(query.limit);
+  const offsetParam = addParam((query.page - 1) * query.limit);
+
+  try {
+    const [countResult, entryResult] = await Promise.all([
+      pool.query(`SELECT COUNT(*)::int AS total FROM audit_log a ${whereClause}`, filterParams),
+      pool.query(
+        `SELECT a.*, u.username AS actor_username
+         FROM audit_log a
+         LEFT JOIN users u ON u.id = a.actor_id
+         ${whereClause}
+         ORDER BY a.created_at DESC, a.id DESC
+         LIMIT ${limitParam} OFFSET ${offsetParam}`,
+        params
+      ),
+    ]);
+
+    const total: number = countResult.rows[0].total;
+    return {
+      data: entryResult.rows,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+        nextCursor: null,
+      },
+    };
+  } catch (error) {
+    logger.error('Error in getAuditLog', { error });
+    throw new Error('Failed to fetch audit log');
+  }
+};
@@ -0,0 +1,244 @@
+import { PoolClient } from 'pg';
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { ILoginBlock, ILoginLockout } from '../types';
+
+/**
+ * Failed logins older than this no longer count towards the delays and the lockout.
+ */
+
+const FAILURE_WINDOW_MINUTES = 15;
+
+/**
+ * Failed logins in a row of a username after which each attempt has to wait, doubling from
+ * one second up to `MAX_DELAY_SECONDS`. IP addresses start waiting at the lockout threshold
+ * instead, because several users may share one (e.g. the restaurant's network), and are
+ * never locked.
+ */
+
+const USERNAME_DELAY_AFTER = 3;
+const MAX_DELAY_SECONDS = 60;
+
+/**
+ * Counts a request to `/auth` from an IP address in the current one-minute window.
+ *
+ * @param ip - The IP address of the client.
+ * @param limit - The requests allowed per window.
+ * @returns A promise that resolves to the seconds until the window ends if the limit is
+ *          exceeded, or `undefined` if the request is allowed.
+ * @throws An error if the query fails.
+ */
+
+export const hitAuthRateLimit = async (ip: string, limit: number): Promise<number | undefined> => {
+  try {
+    const result = await pool.query(
+      `INSERT INTO auth_rate_limits (ip) VALUES ($1)
+       ON CONFLICT (ip) DO UPDATE SET
+         requests = CASE WHEN auth_rate_limits.window_started_at <= NOW() - INTERVAL '1 minute' THEN 1 ELSE auth_rate_limits.requests + 1 END,
+         window_started_at = CASE WHEN auth_rate_limits.window_started_at <= NOW() - INTERVAL '1 minute' THEN NOW() ELSE auth_rate_limits.window_started_at END
+       RETURNING requests, GREATEST(CEIL(EXTRACT(EPOCH FROM window_started_at + INTERVAL '1 minute' - NOW())), 1)::int AS retry_after`,
+      [ip]
+    );
+    const { requests, retry_after } = result.rows[0];
+    return requests > limit ? retry_after : undefined;
+  } catch (error) {
+    logger.error('Error in hitAuthRateLimit', { error });
+    throw new Error('Failed to check auth rate limit');
+  }
+};
+
+/**
+ * Counts a login attempt against one `scope` (a username or an IP address) as a failure in
+ * advance and sets how long its next attempt has to wait, in a single statement, unless the
+ * scope is already waiting. The conflicting row stays locked until the caller's transaction
+ * ends, so concurrent attempts are counted one after the other and each sees the wait set by
+ * the one before.
+ *
+ * Failures older than the failure window are forgotten first. The wait doubles from one
+ * second once `delayAfter` failures are reached, up to `MAX_DELAY_SECONDS`, and is
+ * `lockSeconds` once `lockThreshold` failures are reached (`null` never locks).
+ *
+ * @returns The failures counted so far, or `undefined` if the scope is waiting and the attempt
+ *          was not counted.
+ */
+
+const countLoginAttempt = async (
+  db: PoolClient,
+  scope: 'username' | 'ip',
+  key: string,
+  { delayAfter, lockThreshold, lockSeconds }: { delayAfter: number; lockThreshold: number | null; lockSeconds: number }
+): Promise<number | undefined> => {
+  const failures = `CASE WHEN login_failures.last_failure_at < NOW() - make_interval(mins => $3) THEN 1 ELSE login_failures.failures + 1 END`;
+  const blockedUntil = (count: string) => `CASE
+    WHEN $5::int IS NOT NULL AND ${count} >= $5::int THEN NOW() + make_interval(secs => $6)
+    WHEN ${count} >= $4::int THEN NOW() + make_interval(secs => LEAST(power(2, ${count} - $4::int), $7))
+  END`;
+
+  const result = await db.query(
+    `INSERT INTO login_failures (scope, key, failures, last_failure_at, blocked_until)
+     VALUES ($1, $2, 1, NOW(), ${blockedUntil('1')})
+     ON CONFLICT (scope, key) DO UPDATE SET
+       failures = ${failures},
+       last_failure_at = NOW(),
+       blocked_until = ${blockedUntil(`(${failures})`)}
+     WHERE login_failures.blocked_until IS NULL OR login_failures.blocked_until <= NOW()
+     RETURNING failures`,
+    [scope, key, FAILURE_WINDOW_MINUTES, delayAfter, lockThreshold, lockSeconds, MAX_DELAY_SECONDS]
+  );
+  return result.rows[0]?.failures;
+};
+
+/**
+ * Reads why a username or an IP address is waiting and for how long, the longest wait first.
+ */
+
+const getLoginBlock = async (ip: string, username: string, lockoutThreshold: number): Promise<ILoginBlock> => {
+  const result = await pool.query(
+    `SELECT scope, failures, GREATEST(CEIL(EXTRACT(EPOCH FROM blocked_until - NOW())), 1)::int AS retry_after
+     FROM login_failures
+     WHERE ((scope = 'username' AND key = $1) OR (scope = 'ip' AND key = $2)) AND blocked_until > NOW()`,
+    [username, ip]
+  );
+  const locked = result.rows.some((row) => row.scope === 'username' && row.failures >= lockoutThreshold);
+  return {
+    reason: locked ? 'login_locked' : 'login_throttled',
+    // The wait may have just ended; the client can then retry right away.
+    retry_after: Math.max(1, ...result.rows.map((row) => row.retry_after)),
+  };
+};
+
+/**
+ * Starts a login attempt for a username from an IP address. Unless either has to wait because
+ * of earlier failures, the attempt is counted as a failure of both before the password is
+ * checked, and their next attempts have to wait: progressively longer after a few failures in
+ * a row, and for `lockoutMinutes` once the username reaches `lockoutThreshold` failures. A
+ * successful login undoes the count with `settleSuccessfulLogin`.
+ *
+ * Counting and checking happen atomically, so parallel attempts cannot all get past the
+ * delays and the lockout.
+ *
+ * @param ip - The IP address of the client.
+ * @param username - The username the client is logging in as, whether it exists or not.
+ * @param options.lockoutThreshold - The failures in a row after which the username is locked.
+ * @param options.lockoutMinutes - How long the username stays locked.
+ * @returns A promise that resolves to the wait that applies if the attempt is rejected, or to
+ *          the username's failures in a row (this attempt included) if it may go ahead.
+ * @throws An error if the query fails.
+ */
+
+export const beginLoginAttempt = async (
+  ip: string,
+  username: string,
+  { lockoutThreshold, lockoutMinutes }: { lockoutThreshold: number; lockoutMinutes: number }
+): Promise<{ blocked: ILoginBlock } | { failures: number }> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const usernameFailures = await countLoginAttempt(client, 'username', username, {
+      delayAfter: USERNAME_DELAY_AFTER, lockThreshold: lockoutThreshold, lockSeconds: lockoutMinutes * 60,
+    });
+    const ipFailures = usernameFailures === undefined
+      ? undefined
+      : await countLoginAttempt(client, 'ip', ip, { delayAfter: lockoutThreshold, lockThreshold: null, lockSeconds: 0 });
+
+    if (usernameFailures === undefined || ipFailures === undefined) {
+      await client.query('ROLLBACK');
+      return { blocked: await getLoginBlock(ip, username, lockoutThreshold) };
+    }
+
+    await client.query('COMMIT');
+    return { failures: usernameFailures };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    logger.error('Error in beginLoginAttempt', { error });
+    throw new Error('Failed to begin login attempt');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Undoes the failure counted in advance by `beginLoginAttempt` for a login that succeeded:
+ * the failures of the username are forgotten, and the IP address loses the one failure. The
+ * other failures of the IP address are kept, so one valid account cannot be used to keep
+ * guessing others.
+ *
+ * @param ip - The IP address of the client.
+ * @param username - The username that logged in.
+ * @returns A promise that resolves once the count is undone.
+ * @throws An error if the query fails.
+ */
+
+export const settleSuccessfulLogin = async (ip: string, username: string): Promise<void> => {
+  try {
+    await pool.query("DELETE FROM login_failures WHERE scope = 'username' AND key = $1", [username]);
+    await pool.query("UPDATE login_failures SET failures = failures - 1 WHERE scope = 'ip' AND key = $1 AND failures > 0", [ip]);
+  } catch (error) {
+    logger.error('Error in settleSuccessfulLogin', { error });
+    throw new Error('Failed to settle successful login');
+  }
+};
+
+/**
+ * Retrieves the usernames that currently have to wait before their next login attempt,
+ * longest wait first.
+ *
+ * @returns A promise that resolves to the locked or throttled usernames.
+ * @throws An error if the query fails.
+ */
+
+export const getLoginLockouts = async (): Promise<ILoginLockout[]> => {
+  try {
+    const result = await pool.query(
+      `SELECT key AS username, failures, last_failure_at, blocked_until
+       FROM login_failures
+       WHERE scope = 'username' AND blocked_until > NOW()
+       ORDER BY blocked_until DESC`
+    );
+    return result.rows;
+  } catch (error) {
+    logger.error('Error in getLoginLockouts', { error });
+    throw new Error('Failed to fetch login lockouts');
+  }
+};
+
+/**
+ * Unlocks a username: forgets its failed logins, so its next attempt is allowed right away.
+ *
+ * @param username - The username to unlock.
+ * @returns A promise that resolves to `true` if the username had failed logins, `false` otherwise.
+ * @throws An error if the query fails.
+ */
+
+export const unlockUsername = async (username: string): Promise<boolean> => {
+  try {
+    const result = await pool.query("DELETE FROM login_failures WHERE scope = 'username' AND key = $1", [username]);
+    return (result.rowCount ?? 0) > 0;
+  } catch (error) {
+    logger.error('Error in unlockUsername', { error });
+    throw new Error('Failed to unlock username');
+  }
+};
+
+/**
+ * Deletes the rate limit windows and failed logins that no longer have any effect.
+ *
+ * @returns A promise that resolves to the number of rows deleted.
+ * @throws An error if the query fails.
+ */
+
+export const deleteStaleAuthThrottles = async (): Promise<number> => {
+  try {
+    const rateLimits = await pool.query("DELETE FROM auth_rate_limits WHERE window_started_at <= NOW() - INTERVAL '1 minute'");
+    const failures = await pool.query(
+      `DELETE FROM login_failures
+       WHERE last_failure_at < NOW() - make_interval(mins => $1) AND (blocked_until IS NULL OR blocked_until <= NOW())`,
+      [FAILURE_WINDOW_MINUTES]
+    );
+    return (rateLimits.rowCount ?? 0) + (failures.rowCount ?? 0);
+  } catch (error) {
+    logger.error('Error in deleteStaleAuthThrottles', { error });
+    throw new Error('Failed to delete stale auth throttles');
+  }
+};
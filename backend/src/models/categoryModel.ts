@@ -0,0 +1,237 @@
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { Pool, PoolClient } from 'pg';
+import { ICategory } from '../types';
+
+/**
+ * Error thrown when a category is created or renamed with a name that is already taken.
+ */
+
+export class DuplicateCategoryNameError extends Error {
+  constructor(public categoryName: string) {
+    super(`Category "${categoryName}" already exists`);
+    this.name = 'DuplicateCategoryNameError';
+  }
+}
+
+/**
+ * Error thrown when a category or product references a category that does not exist.
+ */
+
+export class UnknownCategoryError extends Error {
+  constructor(public categoryId: number) {
+    super(`Category ${categoryId} does not exist`);
+    this.name = 'UnknownCategoryError';
+  }
+}
+
+/**
+ * Error thrown when moving a category under itself or under one of its own subcategories.
+ */
+
+export class CategoryCycleError extends Error {
+  constructor(public categoryId: number, public parentId: number) {
+    super(`Category ${categoryId} cannot be nested under category ${parentId}`);
+    this.name = 'CategoryCycleError';
+  }
+}
+
+/**
+ * Whether a database error is a violation of the given constraint.
+ */
+
+const isConstraintViolation = (error: unknown, code: string, constraint: string) => {
+  const details = error as { code?: string; constraint?: string };
+  return details.code === code && details.constraint === constraint;
+};
+
+/**
+ * Retrieves every category, in menu order: by `display_order`, then by name.
+ *
+ * @returns A promise that resolves to the categories.
+ * @throws An error if the query fails.
+ */
+
+export const getAllCategories = async (): Promise<ICategory[]> => {
+  try {
+    const result = await pool.query('SELECT * FROM categories ORDER BY display_order, name');
+    return result.rows;
+  } catch (error) {
+    logger.error('Error in getAllCategories', { error });
+    throw new Error('Failed to fetch categories');
+  }
+};
+
+/**
+ * Retrieves a single category by its ID.
+ *
+ * @param id - The ID of the category.
+ * @returns A promise that resolves to the category, or `undefined` if it does not exist.
+ * @throws An error if the query fails.
+ */
+
+export const getCategoryById = async (id: number): Promise<ICategory | undefined> => {
+  try {
+    const result = await pool.query('SELECT * FROM categories WHERE id = $1', [id]);
+    return result.rows[0];
+  } catch (error) {
+    logger.error('Error in getCategoryById', { error });
+    throw new Error('Failed to fetch category');
+  }
+};
+
+/**
+ * Creates a new category.
+ *
+ * @param category - The category to create. `display_order` defaults to 0; without a `tax_rate`
+ *                   the category uses the rate of its parent.
+ * @returns A promise that resolves to the created category.
+ * @throws {DuplicateCategoryNameError} If another category already has the same name.
+ * @throws {UnknownCategoryError} If `parent_id` does not reference an existing category.
+ * @throws An error if the insert fails for any other reason.
+ */
+
+export const createCategory = async (
+  category: Omit<ICategory, 'display_order'> & { display_order?: number }
+): Promise<ICategory> => {
+  try {
+    const { name, display_order, parent_id, tax_rate } = category;
+    const result = await pool.query(
+      'INSERT INTO categories (name, display_order, parent_id, tax_rate) VALUES ($1, $2, $3, $4) RETURNING *',
+      [name, display_order ?? 0, parent_id ?? null, tax_rate ?? null]
+    );
+    return result.rows[0];
+  } catch (error) {
+    if (isConstraintViolation(error, '23505', 'categories_name_key')) {
+      throw new DuplicateCategoryNameError(category.name);
+    }
+    if (isConstraintViolation(error, '23503', 'categories_parent_id_fkey')) {
+      throw new UnknownCategoryError(category.parent_id!);
+    }
+    logger.error('Error in createCategory', { error });
+    throw new Error('Failed to create category');
+  }
+};
+
+/**
+ * Updates the given fields of a category.
+ *
+ * Only `name`, `display_order`, `parent_id` and `tax_rate` can be changed; any other key in
+ * `fields` is ignored. A `parent_id` of `null` moves the category to the top level, and a
+ * `tax_rate` of `null` makes it use the rate of its parent again.
+ *
+ * @param id - The ID of the category to update.
+ * @param fields - The category fields to change.
+ * @returns A promise that resolves to the updated category, or `undefined` if it does not exist.
+ * @throws {DuplicateCategoryNameError} If the new name is already taken by another category.
+ * @throws {UnknownCategoryError} If the new `parent_id` does not reference an existing category.
+ * @throws {CategoryCycleError} If the new parent is the category itself or one of its subcategories.
+ * @throws An error if the update fails for any other reason.
+ */
+
+export const updateCategory = async (id: number, fields: Partial<ICategory>): Promise<ICategory | undefined> => {
+  const columns = (['name', 'display_order', 'parent_id', 'tax_rate'] as const).filter((column) => fields[column] !== undefined);
+  if (columns.length === 0) {
+    return getCategoryById(id);
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const categoryResult = await client.query('SELECT id FROM categories WHERE id = $1 FOR UPDATE', [id]);
+    if (categoryResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return undefined;
+    }
+
+    if (fields.parent_id) {
+      // Walk up from the new parent: reaching this category means the move would create a loop.
+      const ancestorsResult = await client.query(
+        `WITH RECURSIVE ancestors AS (
+           SELECT id, parent_id FROM categories WHERE id = $1
+           UNION
+           SELECT c.id, c.parent_id FROM categories c JOIN ancestors a ON c.id = a.parent_id
+         )
+         SELECT 1 FROM ancestors WHERE id = $2`,
+        [fields.parent_id, id]
+      );
+      if (ancestorsResult.rows.length > 0) {
+        throw new CategoryCycleError(id, fields.parent_id);
+      }
+    }
+
+    const assignments = columns.map((column, index) => `${column} = $${index + 2}`).join(', ');
+    const result = await client.query(
+      `UPDATE categories SET ${assignments} WHERE id = $1 RETURNING *`,
+      [id, ...columns.map((column) => fields[column])]
+    );
+
+    await client.query('COMMIT');
+    return result.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof CategoryCycleError) {
+      throw error;
+    }
+    if (isConstraintViolation(error, '23505', 'categories_name_key')) {
+      throw new DuplicateCategoryNameError(fields.name!);
+    }
+    if (isConstraintViolation(error, '23503', 'categories_parent_id_fkey')) {
+      throw new UnknownCategoryError(fields.parent_id!);
+    }
+    logger.error('Error in updateCategory', { error });
+    throw new Error('Failed to update category');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Deletes a category. Its products become uncategorized and its subcategories move to the
+ * top level.
+ *
+ * @param id - The ID of the category to delete.
+ * @returns A promise that resolves to the deleted category, or `undefined` if it does not exist.
+ * @throws An error if the delete fails.
+ */
+
+export const deleteCategory = async (id: number): Promise<ICategory | undefined> => {
+  try {
+    const result = await pool.query('DELETE FROM categories WHERE id = $1 RETURNING *', [id]);
+    return result.rows[0];
+  } catch (error) {
+    logger.error('Error in deleteCategory', { error });
+    throw new Error('Failed to delete category');
+  }
+};
+
+/**
+ * Resolves the tax rate that applies to the products of each given category: the category's
+ * own `tax_rate`, or else the nearest one set on its parents. Categories without a rate
+ * anywhere up the tree are left out, so the caller can fall back to the default rate.
+ *
+ * @param db - The pool, or the client of the caller's transaction.
+ * @param categoryIds - The IDs of the categories.
+ * @returns A promise that resolves to the tax rate (a percentage) keyed by category ID.
+ */
+
+export const getCategoryTaxRates = async (db: Pool | PoolClient, categoryIds: number[]): Promise<Map<number, number>> => {
+  if (categoryIds.length === 0) {
+    return new Map();
+  }
+  const result = await db.query(
+    `WITH RECURSIVE chain AS (
+       SELECT id AS category_id, parent_id, tax_rate, 0 AS depth FROM categories WHERE id = ANY($1::int[])
+       UNION ALL
+       SELECT chain.category_id, c.parent_id, c.tax_rate, chain.depth + 1
+       FROM chain JOIN categories c ON c.id = chain.parent_id
+       WHERE chain.tax_rate IS NULL
+     )
+     SELECT DISTINCT ON (category_id) category_id, tax_rate
+     FROM chain WHERE tax_rate IS NOT NULL
+     ORDER BY category_id, depth`,
+    [categoryIds]
+  );
+  return new Map(result.rows.map((row) => [row.category_id, Number(row.tax_rate)]));
+};
@@ -0,0 +1,141 @@
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { IIdempotencyKey } from '../types';
+
+/**
+ * Times a claim is retried when the key it conflicted with is released before it can be read.
+ */
+
+const MAX_CLAIM_ATTEMPTS = 3;
+
+/**
+ * Error thrown when an idempotency key keeps being claimed and released by concurrent
+ * requests, so this request could neither claim it nor read it. The client should retry.
+ */
+
+export class IdempotencyKeyContendedError extends Error {
+  constructor() {
+    super('The idempotency key is being claimed by concurrent requests');
+    this.name = 'IdempotencyKeyContendedError';
+  }
+}
+
+/**
+ * Claims an idempotency key for a request, so that it is handled only once.
+ *
+ * An expired key is deleted first, which lets it be claimed again. When the key is taken but
+ * released (after a server error) before it can be read, the claim is retried.
+ *
+ * @param userId - The ID of the user sending the request; keys are scoped to their user.
+ * @param key - The `Idempotency-Key` sent with the request.
+ * @param fingerprint - The fingerprint of the request (method, URL and body).
+ * @param ttlHours - How many hours the key is kept.
+ * @returns A promise that resolves to `undefined` if the key was claimed by this request, or to
+ *          the existing key (with the stored response, if any) if it was already used.
+ * @throws {IdempotencyKeyContendedError} If the key could not be claimed nor read after retrying.
+ * @throws An error if the query fails.
+ */
+
+export const claimIdempotencyKey = async (
+  userId: number,
+  key: string,
+  fingerprint: string,
+  ttlHours: number
+): Promise<IIdempotencyKey | undefined> => {
+  try {
+    await pool.query('DELETE FROM idempotency_keys WHERE user_id = $1 AND key = $2 AND expires_at <= NOW()', [userId, key]);
+
+    for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+      const inserted = await pool.query(
+        `INSERT INTO idempotency_keys (user_id, key, fingerprint, expires_at)
+         VALUES ($1, $2, $3, NOW() + make_interval(hours => $4))
+         ON CONFLICT (user_id, key) DO NOTHING
+         RETURNING user_id`,
+        [userId, key, fingerprint, ttlHours]
+      );
+      if (inserted.rows.length > 0) {
+        return undefined;
+      }
+
+      const existing = await pool.query('SELECT * FROM idempotency_keys WHERE user_id = $1 AND key = $2', [userId, key]);
+      if (existing.rows.length > 0) {
+        return existing.rows[0];
+      }
+    }
+    throw new IdempotencyKeyContendedError();
+  } catch (error) {
+    if (error instanceof IdempotencyKeyContendedError) {
+      throw error;
+    }
+    logger.error('Error in claimIdempotencyKey', { error });
+    throw new Error('Failed to claim idempotency key');
+  }
+};
+
+/**
+ * Stores the response to the request that claimed an idempotency key, to be replayed to
+ * retries of the request.
+ *
+ * @param userId - The ID of the user that sent the request.
+ * @param key - The `Idempotency-Key` sent with the request.
+ * @param statusCode - The status code of the response.
+ * @param contentType - The `Content-Type` of the response, if any.
+ * @param body - The body of the response.
+ * @returns A promise that resolves once the response is stored.
+ * @throws An error if the query fails.
+ */
+
+export const saveIdempotentResponse = async (
+  userId: number,
+  key: string,
+  statusCode: number,
+  contentType: string | null,
+  body: string
+): Promise<void> => {
+  try {
+    await pool.query(
+      `UPDATE idempotency_keys SET status_code = $3, content_type = $4, response_body = $5
+       WHERE user_id = $1 AND key = $2`,
+      [userId, key, statusCode, contentType, body]
+    );
+  } catch (error) {
+    logger.error('Error in saveIdempotentResponse', { error });
+    throw new Error('Failed to save idempotent response');
+  }
+};
+
+/**
+ * Releases an idempotency key whose request did not get a response worth replaying (a server
+ * error, or the client went away), so that a retry is handled again.
+ *
+ * @param userId - The ID of the user that sent the request.
+ * @param key - The `Idempotency-Key` sent with the request.
+ * @returns A promise that resolves once the key is released.
+ * @throws An error if the query fails.
+ */
+
+export const releaseIdempotencyKey = async (userId: number, key: string): Promise<void> => {
+  try {
+    await pool.query('DELETE FROM idempotency_keys WHERE user_id = $1 AND key = $2 AND status_code IS NULL', [userId, key]);
+  } catch (error) {
+    logger.error('Error in releaseIdempotencyKey', { error });
+    throw new Error('Failed to release idempotency key');
+  }
+};
+
+/**
+ * Deletes every expired idempotency key.
+ *
+ * @returns A promise that resolves to the number of keys deleted.
+ * @throws An error if the query fails.
+ */
+
+export const deleteExpiredIdempotencyKeys = async (): Promise<number> => {
+  try {
+    const result = await pool.query('DELETE FROM idempotency_keys WHERE expires_at <= NOW()');
+    return result.rowCount ?? 0;
+  } catch (error) {
+    logger.error('Error in deleteExpiredIdempotencyKeys', { error });
+    throw new Error('Failed to delete expired idempotency keys');
+  }
+};
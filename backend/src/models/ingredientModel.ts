@@ -0,0 +1,451 @@
+import { PoolClient } from 'pg';
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { publishProductAvailability } from './inventoryModel';
+import {
+  IIngredient,
+  IIngredientMovement,
+  IIngredientMovementInput,
+  IIngredientShortage,
+  IngredientUnit,
+  IPaginated,
+} from '../types';
+
+/**
+ * Error thrown when an ingredient is created or renamed with a name that is already taken.
+ */
+
+export class DuplicateIngredientNameError extends Error {
+  constructor(public ingredientName: string) {
+    super(`Ingredient "${ingredientName}" already exists`);
+    this.name = 'DuplicateIngredientNameError';
+  }
+}
+
+/**
+ * Error thrown when deleting an ingredient that is still used by a recipe.
+ */
+
+export class IngredientInUseError extends Error {
+  constructor(public ingredientId: number) {
+    super(`Ingredient ${ingredientId} is used by one or more recipes`);
+    this.name = 'IngredientInUseError';
+  }
+}
+
+/**
+ * Error thrown when a movement would leave an ingredient with negative stock.
+ */
+
+export class NegativeIngredientStockError extends Error {
+  constructor(public ingredientId: number, public available: string) {
+    super(`Ingredient ${ingredientId} only has ${available} in stock`);
+    this.name = 'NegativeIngredientStockError';
+  }
+}
+
+/**
+ * Whether a database error is a violation of the given constraint.
+ */
+
+const isConstraintViolation = (error: unknown, code: string, constraint: string) => {
+  const details = error as { code?: string; constraint?: string };
+  return details.code === code && details.constraint === constraint;
+};
+
+/**
+ * Ingredient quantities have three decimals; they are added and compared as integer
+ * thousandths so no precision is lost.
+ */
+
+const toThousandths = (quantity: number | string): number => Math.round(Number(quantity) * 1000);
+const fromThousandths = (thousandths: number): string => (thousandths / 1000).toFixed(3);
+
+/**
+ * Publishes the availability of every product whose recipe uses any of the given ingredients.
+ */
+
+const publishIngredientProducts = async (client: PoolClient, ingredientIds: number[]): Promise<void> => {
+  const result = await client.query(
+    'SELECT DISTINCT product_id FROM recipe_items WHERE ingredient_id = ANY($1::int[])',
+    [ingredientIds]
+  );
+  await publishProductAvailability(client, result.rows.map((row) => row.product_id));
+};
+
+/**
+ * Records an ingredient movement inside the caller's transaction: adds `movement.quantity` to
+ * the ingredient's stock and appends the movement to its ledger with the resulting stock.
+ * This is the only place `ingredients.stock` should change.
+ *
+ * The caller is responsible for publishing the new availability of the affected products.
+ *
+ * @param client - The client of the caller's transaction.
+ * @param movement - The movement to record; `quantity` is the signed change to the stock.
+ * @returns The recorded movement.
+ * @throws {NegativeIngredientStockError} If the movement would leave the ingredient with negative stock.
+ */
+
+const recordIngredientMovement = async (client: PoolClient, movement: IIngredientMovementInput): Promise<IIngredientMovement> => {
+  const currentResult = await client.query('SELECT stock FROM ingredients WHERE id = $1 FOR UPDATE', [movement.ingredient_id]);
+  const stock = toThousandths(currentResult.rows[0].stock) + toThousandths(movement.quantity);
+  if (stock < 0) {
+    throw new NegativeIngredientStockError(movement.ingredient_id, currentResult.rows[0].stock);
+  }
+
+  await client.query('UPDATE ingredients SET stock = $1 WHERE id = $2', [fromThousandths(stock), movement.ingredient_id]);
+  const result = await client.query(
+    `INSERT INTO ingredient_movements (ingredient_id, kind, quantity, stock_after, reason, order_id, user_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING *`,
+    [
+      movement.ingredient_id,
+      movement.kind,
+      fromThousandths(toThousandths(movement.quantity)),
+      fromThousandths(stock),
+      movement.reason ?? null,
+      movement.order_id ?? null,
+      movement.user_id ?? null,
+    ]
+  );
+  return result.rows[0];
+};
+
+/**
+ * Retrieves every ingredient, by name, with the number of recipes that use it (`used_by`).
+ *
+ * @returns A promise that resolves to the ingredients.
+ * @throws An error if the query fails.
+ */
+
+export const getAllIngredients = async (): Promise<(IIngredient & { used_by: number })[]> => {
+  try {
+    const result = await pool.query(
+      `SELECT i.*, COUNT(ri.product_id)::int AS used_by
+       FROM ingredients i
+       LEFT JOIN recipe_items ri ON ri.ingredient_id = i.id
+       GROUP BY i.id
+       ORDER BY i.name`
+    );
+    return result.rows;
+  } catch (error) {
+    logger.error('Error in getAllIngredients', { error });
+    throw new Error('Failed to fetch ingredients');
+  }
+};
+
+/**
+ * Retrieves a single ingredient by its ID.
+ *
+ * @param id - The ID of the ingredient.
+ * @returns A promise that resolves to the ingredient, or `undefined` if it does not exist.
+ * @throws An error if the query fails.
+ */
+
+export const getIngredientById = async (id: number): Promise<IIngredient | undefined> => {
+  try {
+    const result = await pool.query('SELECT * FROM ingredients WHERE id = $1', [id]);
+    return result.rows[0];
+  } catch (error) {
+    logger.error('Error in getIngredientById', { error });
+    throw new Error('Failed to fetch ingredient');
+  }
+};
+
+/**
+ * Creates an ingredient. The initial stock is not written directly: the ingredient is created
+ * empty and, if `stock` is positive, a `restock` movement is recorded in the same transaction.
+ *
+ * @param ingredient - The name, unit of measure and initial stock of the ingredient.
+ * @param userId - The ID of the user creating the ingredient, recorded on the initial stock movement.
+ * @returns A promise that resolves to the created ingredient.
+ * @throws {DuplicateIngredientNameError} If the name is already taken.
+ * @throws An error if the ingredient cannot be created for any other reason.
+ */
+
+export const createIngredient = async (
+  ingredient: { name: string; unit: IngredientUnit; stock?: number },
+  userId: number
+): Promise<IIngredient> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query('INSERT INTO ingredients (name, unit) VALUES ($1, $2) RETURNING *', [ingredient.name, ingredient.unit]);
+    const created: IIngredient = result.rows[0];
+    if (ingredient.stock) {
+      const movement = await recordIngredientMovement(client, {
+        ingredient_id: created.id, kind: 'restock', quantity: ingredient.stock, reason: 'Initial stock', user_id: userId,
+      });
+      created.stock = movement.stock_after;
+    }
+
+    await client.query('COMMIT');
+    return created;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (isConstraintViolation(error, '23505', 'ingredients_name_key')) {
+      throw new DuplicateIngredientNameError(ingredient.name);
+    }
+    logger.error('Error in createIngredient', { error });
+    throw new Error('Failed to create ingredient');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Renames an ingredient or changes its unit of measure. The stock only changes through
+ * movements (see `createIngredientMovement`).
+ *
+ * Changing the unit does not convert the stock or the recipes that use the ingredient: it is
+ * meant for fixing mistakes, not for switching e.g. from kilograms to grams.
+ *
+ * @param id - The ID of the ingredient to update.
+ * @param fields - The name and/or unit to set.
+ * @returns A promise that resolves to the updated ingredient, or `undefined` if it does not exist.
+ * @throws {DuplicateIngredientNameError} If the new name is already taken.
+ * @throws An error if the update fails for any other reason.
+ */
+
+export const updateIngredient = async (
+  id: number,
+  fields: { name?: string; unit?: IngredientUnit }
+): Promise<IIngredient | undefined> => {
+  const columns = (['name', 'unit'] as const).filter((column) => fields[column] !== undefined);
+  if (columns.length === 0) {
+    return getIngredientById(id);
+  }
+
+  try {
+    const assignments = columns.map((column, index) => `${column} = $${index + 2}`).join(', ');
+    const result = await pool.query(
+      `UPDATE ingredients SET ${assignments} WHERE id = $1 RETURNING *`,
+      [id, ...columns.map((column) => fields[column])]
+    );
+    return result.rows[0];
+  } catch (error) {
+    if (isConstraintViolation(error, '23505', 'ingredients_name_key')) {
+      throw new DuplicateIngredientNameError(fields.name!);
+    }
+    logger.error('Error in updateIngredient', { error });
+    throw new Error('Failed to update ingredient');
+  }
+};
+
+/**
+ * Deletes an ingredient and its ledger. Ingredients used by a recipe cannot be deleted;
+ * remove them from the recipes first.
+ *
+ * @param id - The ID of the ingredient to delete.
+ * @returns A promise that resolves to the deleted ingredient, or `undefined` if it does not exist.
+ * @throws {IngredientInUseError} If a recipe still uses the ingredient.
+ * @throws An error if the delete fails for any other reason.
+ */
+
+export const deleteIngredient = async (id: number): Promise<IIngredient | undefined> => {
+  try {
+    const result = await pool.query('DELETE FROM ingredients WHERE id = $1 RETURNING *', [id]);
+    return result.rows[0];
+  } catch (error) {
+    if (isConstraintViolation(error, '23503', 'recipe_items_ingredient_id_fkey')) {
+      throw new IngredientInUseError(id);
+    }
+    logger.error('Error in deleteIngredient', { error });
+    throw new Error('Failed to delete ingredient');
+  }
+};
+
+/**
+ * Records a restock, adjustment or waste of an ingredient in its own transaction, and
+ * publishes the new availability of the products whose recipes use it.
+ *
+ * @param movement - The movement to record; `quantity` is the signed change to the stock.
+ * @returns A promise that resolves to the recorded movement, or `undefined` if the ingredient does not exist.
+ * @throws {NegativeIngredientStockError} If the movement would leave the ingredient with negative stock.
+ * @throws An error if the movement cannot be recorded for any other reason.
+ */
+
+export const createIngredientMovement = async (movement: IIngredientMovementInput): Promise<IIngredientMovement | undefined> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const ingredientResult = await client.query('SELECT id FROM ingredients WHERE id = $1 FOR UPDATE', [movement.ingredient_id]);
+    if (ingredientResult.rowCount === 0) {
+      await client.query('ROLLBACK');
+      return undefined;
+    }
+
+    const recorded = await recordIngredientMovement(client, movement);
+    await publishIngredientProducts(client, [movement.ingredient_id]);
+    await client.query('COMMIT');
+    return recorded;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof NegativeIngredientStockError) {
+      throw error;
+    }
+    logger.error('Error in createIngredientMovement', { error });
+    throw new Error('Failed to record ingredient movement');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Retrieves a page of an ingredient's ledger, newest first, with the username of whoever
+ * recorded each movement.
+ *
+ * @param ingredientId - The ID of the ingredient.
+ * @param page - The page to return, starting at 1.
+ * @param limit - The number of movements per page.
+ * @returns A promise that resolves to the movements of the page and the pagination details.
+ * @throws An error if the query fails.
+ */
+
+export const getIngredientMovements = async (
+  ingredientId: number,
+  page: number,
+  limit: number
+): Promise<IPaginated<IIngredientMovement>> => {
+  try {
+    const [countResult, movementResult] = await Promise.all([
+      pool.query('SELECT COUNT(*)::int AS total FROM ingredient_movements WHERE ingredient_id = $1', [ingredientId]),
+      pool.query(
+        `SELECT m.*, u.username
+         FROM ingredient_movements m
+         LEFT JOIN users u ON u.id = m.user_id
+         WHERE m.ingredient_id = $1
+         ORDER BY m.created_at DESC, m.id DESC
+         LIMIT $2 OFFSET $3`,
+        [ingredientId, limit, (page - 1) * limit]
+      ),
+    ]);
+
+    const total: number = countResult.rows[0].total;
+    return {
+      data: movementResult.rows,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit), nextCursor: null },
+    };
+  } catch (error) {
+    logger.error('Error in getIngredientMovements', { error });
+    throw new Error('Failed to fetch ingredient movements');
+  }
+};
+
+/**
+ * How an order draws on the ingredients of its products' recipes, as worked out by
+ * `planIngredientConsumption`.
+ */
+
+export interface IIngredientPlan {
+  /** For each requested product with a recipe: the units its ingredients allow on their own, and the ingredients the whole order is short of. */
+  recipes: Map<number, { available: number; shortages: IIngredientShortage[] }>;
+  /** How much of each ingredient the order consumes, in thousandths. */
+  consumption: Map<number, number>;
+}
+
+/**
+ * Locks the ingredients used by the recipes of the requested products and works out how much
+ * of each the order would consume. Ingredients shared by several products are added up, so
+ * an order can be short of an ingredient even when each product on its own could be made.
+ *
+ * @param client - The client of the caller's transaction.
+ * @param quantities - The requested units of each product.
+ * @returns The plan; products without a recipe are left out of it.
+ */
+
+export const planIngredientConsumption = async (client: PoolClient, quantities: Map<number, number>): Promise<IIngredientPlan> => {
+  const result = await client.query(
+    `SELECT ri.product_id, ri.ingredient_id, ri.quantity, i.name, i.unit, i.stock
+     FROM recipe_items ri
+     JOIN ingredients i ON i.id = ri.ingredient_id
+     WHERE ri.product_id = ANY($1::int[])
+     ORDER BY ri.ingredient_id
+     FOR UPDATE OF i`,
+    [[...quantities.keys()]]
+  );
+
+  const consumption = new Map<number, number>();
+  for (const row of result.rows) {
+    const required = toThousandths(row.quantity) * quantities.get(row.product_id)!;
+    consumption.set(row.ingredient_id, (consumption.get(row.ingredient_id) ?? 0) + required);
+  }
+
+  const recipes: IIngredientPlan['recipes'] = new Map();
+  for (const row of result.rows) {
+    const recipe = recipes.get(row.product_id) ?? { available: Infinity, shortages: [] };
+    const stock = toThousandths(row.stock);
+    recipe.available = Math.min(recipe.available, Math.floor(stock / toThousandths(row.quantity)));
+    const required = consumption.get(row.ingredient_id)!;
+    if (required > stock) {
+      recipe.shortages.push({
+        ingredient_id: row.ingredient_id,
+        name: row.name,
+        unit: row.unit,
+        required: fromThousandths(required),
+        available: fromThousandths(stock),
+      });
+    }
+    recipes.set(row.product_id, recipe);
+  }
+
+  return { recipes, consumption };
+};
+
+/**
+ * Consumes the ingredients of a placed order inside the caller's transaction, recording a
+ * `sale` movement per ingredient, and publishes the new availability of the affected products.
+ * The plan must have been checked for shortages.
+ *
+ * @param client - The client of the caller's transaction.
+ * @param plan - The plan returned by `planIngredientConsumption`.
+ * @param orderId - The ID of the order.
+ * @param userId - The ID of the user placing the order.
+ */
+
+export const consumeIngredients = async (client: PoolClient, plan: IIngredientPlan, orderId: number, userId: number): Promise<void> => {
+  const ingredientIds = [...plan.consumption.keys()];
+  for (const ingredientId of ingredientIds) {
+    await recordIngredientMovement(client, {
+      ingredient_id: ingredientId,
+      kind: 'sale',
+      quantity: fromThousandths(-plan.consumption.get(ingredientId)!),
+      order_id: orderId,
+      user_id: userId,
+    });
+  }
+  if (ingredientIds.length > 0) {
+    await publishIngredientProducts(client, ingredientIds);
+  }
+};
+
+/**
+ * Returns to stock the ingredients an order consumed, inside the caller's transaction, when
+ * the order is cancelled. Exactly what its `sale` movements took is given back, so later
+ * recipe changes do not matter.
+ *
+ * @param client - The client of the caller's transaction.
+ * @param orderId - The ID of the cancelled order.
+ * @param userId - The ID of the user cancelling the order.
+ */
+
+export const returnIngredients = async (client: PoolClient, orderId: number, userId: number): Promise<void> => {
+  const result = await client.query(
+    `SELECT ingredient_id, -SUM(quantity) AS quantity
+     FROM ingredient_movements
+     WHERE order_id = $1 AND kind = 'sale'
+     GROUP BY ingredient_id
+     ORDER BY ingredient_id`,
+    [orderId]
+  );
+  for (const row of result.rows) {
+    await recordIngredientMovement(client, {
+      ingredient_id: row.ingredient_id, kind: 'return', quantity: row.quantity, reason: 'Order cancelled', order_id: orderId, user_id: userId,
+    });
+  }
+  if (result.rows.length > 0) {
+    await publishIngredientProducts(client, result.rows.map((row) => row.ingredient_id));
+  }
+};
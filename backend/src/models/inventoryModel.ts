@@ -0,0 +1,270 @@
+import { Pool, PoolClient } from 'pg';
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { publishEvent } from '../utils/eventBus';
+import { recordAudit } from './auditModel';
+import {
+  IPaginated,
+  IProduct,
+  IStockDiscrepancy,
+  IStockMovement,
+  IStockMovementInput,
+  IStockMovementQuery,
+  StockMovementKind,
+} from '../types';
+
+/**
+ * Every kind of stock movement. Sales and returns are recorded by orders; restocks,
+ * adjustments and waste are recorded by hand.
+ */
+
+export const STOCK_MOVEMENT_KINDS: StockMovementKind[] = ['sale', 'restock', 'adjustment', 'waste', 'return'];
+
+/**
+ * Error thrown when a movement would leave a product with negative stock.
+ */
+
+export class NegativeStockError extends Error {
+  constructor(public productId: number, public available: number) {
+    super(`Product ${productId} only has ${available} units in stock`);
+    this.name = 'NegativeStockError';
+  }
+}
+
+/**
+ * Publishes a `product.stock_changed` event with the current stock and available units of
+ * each product, e.g. after a movement of the product or of an ingredient of its recipe.
+ *
+ * @param db - The client of the caller's transaction (or the pool).
+ * @param productIds - The products whose availability may have changed.
+ */
+
+export const publishProductAvailability = async (db: Pool | PoolClient, productIds: number[]): Promise<void> => {
+  if (productIds.length === 0) {
+    return;
+  }
+  const result = await db.query(
+    `SELECT p.id, p.stock, pa.available
+     FROM products p
+     JOIN product_availability pa ON pa.product_id = p.id
+     WHERE p.id = ANY($1::int[])
+     ORDER BY p.id`,
+    [productIds]
+  );
+  for (const product of result.rows) {
+    await publishEvent(db, { type: 'product.stock_changed', product_id: product.id, stock: product.stock, available: product.available });
+  }
+};
+
+/**
+ * Records a stock movement inside the caller's transaction: adds `movement.quantity` to the
+ * product's stock, appends the movement to the ledger with the resulting stock, and publishes
+ * a `product.stock_changed` event. When the movement takes the product from above its
+ * `reorder_threshold` to at or below it, a `product.low_stock` event is published too.
+ *
+ * This is the only place `products.stock` should change, so that it always equals the sum of
+ * the product's movements.
+ *
+ * @param client - The client of the caller's transaction.
+ * @param movement - The movement to record; `quantity` is the signed change to the stock.
+ * @returns The recorded movement.
+ * @throws {NegativeStockError} If the movement would leave the product with negative stock.
+ */
+
+export const recordStockMovement = async (client: PoolClient, movement: IStockMovementInput): Promise<IStockMovement> => {
+  const productResult = await client.query(
+    'UPDATE products SET stock = stock + $1, version = version + 1 WHERE id = $2 RETURNING id, name, stock, reorder_threshold',
+    [movement.quantity, movement.product_id]
+  );
+  const product: Pick<IProduct, 'name' | 'stock' | 'reorder_threshold'> = productResult.rows[0];
+  if (product.stock < 0) {
+    throw new NegativeStockError(movement.product_id, product.stock - movement.quantity);
+  }
+
+  const movementResult = await client.query(
+    `INSERT INTO stock_movements (product_id, kind, quantity, stock_after, reason, order_id, user_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING *`,
+    [
+      movement.product_id,
+      movement.kind,
+      movement.quantity,
+      product.stock,
+      movement.reason ?? null,
+      movement.order_id ?? null,
+      movement.user_id ?? null,
+    ]
+  );
+
+  await publishProductAvailability(client, [movement.product_id]);
+  const threshold = product.reorder_threshold;
+  if (threshold != null && product.stock <= threshold && product.stock - movement.quantity > threshold) {
+    await publishEvent(client, {
+      type: 'product.low_stock',
+      product_id: movement.product_id,
+      name: product.name,
+      stock: product.stock,
+      reorder_threshold: threshold,
+    });
+  }
+
+  return movementResult.rows[0];
+};
+
+/**
+ * Records a restock, adjustment or waste of an active (non-archived) product in its own
+ * transaction, together with an audit log entry of the stock change by `movement.user_id`.
+ *
+ * @param movement - The movement to record; `quantity` is the signed change to the stock.
+ * @returns A promise that resolves to the recorded movement, or `undefined` if the product does not exist or is archived.
+ * @throws {NegativeStockError} If the movement would leave the product with negative stock.
+ * @throws An error if the movement cannot be recorded for any other reason.
+ */
+
+export const createStockMovement = async (movement: IStockMovementInput): Promise<IStockMovement | undefined> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const productResult = await client.query(
+      'SELECT id FROM products WHERE id = $1 AND archived_at IS NULL FOR UPDATE',
+      [movement.product_id]
+    );
+    if (productResult.rowCount === 0) {
+      await client.query('ROLLBACK');
+      return undefined;
+    }
+
+    const recorded = await recordStockMovement(client, movement);
+    await recordAudit(client, {
+      actor_id: movement.user_id ?? null,
+      action: 'update',
+      entity_type: 'product',
+      entity_id: movement.product_id,
+      before: { stock: recorded.stock_after - recorded.quantity },
+      after: { stock: recorded.stock_after, movement_kind: recorded.kind, movement_reason: recorded.reason },
+    });
+    await client.query('COMMIT');
+    return recorded;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof NegativeStockError) {
+      throw error;
+    }
+    logger.error('Error in createStockMovement', { error });
+    throw new Error('Failed to record stock movement');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Retrieves a page of the inventory ledger, newest first, with the name of each product and
+ * the username of whoever recorded the movement.
+ *
+ * @param query - Pagination and filters: `productId`, `kind` (any of) and the `from`/`to` dates.
+ * @returns A promise that resolves to the movements of the page and the pagination details.
+ * @throws An error if the query fails.
+ */
+
+export const getStockMovements = async (query: IStockMovementQuery): Promise<IPaginated<IStockMovement>> => {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const addParam = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  if (query.productId !== undefined) conditions.push(`m.product_id = ${addParam(query.productId)}`);
+  if (query.kind && query.kind.length > 0) conditions.push(`m.kind = ANY(${addParam(query.kind)}::text[])`);
+  if (query.from) conditions.push(`m.created_at >= ${addParam(query.from)}`);
+  if (query.to) conditions.push(`m.created_at <= ${addParam(query.to)}`);
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const filterParams = [...params];
+  const limitParam = addParam(query.limit);
+  const offsetParam = addParam((query.page - 1) * query.limit);
+
+  try {
+    const [countResult, movementResult] = await Promise.all([
+      pool.query(`SELECT COUNT(*)::int AS total FROM stock_movements m ${whereClause}`, filterParams),
+      pool.query(
+        `SELECT m.*, p.name AS product_name, u.username
+         FROM stock_movements m
+         JOIN products p ON p.id = m.product_id
+         LEFT JOIN users u ON u.id = m.user_id
+         ${whereClause}
+         ORDER BY m.created_at DESC, m.id DESC
+         LIMIT ${limitParam} OFFSET ${offsetParam}`,
+        params
+      ),
+    ]);
+
+    const total: number = countResult.rows[0].total;
+    return {
+      data: movementResult.rows,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+        nextCursor: null,
+      },
+    };
+  } catch (error) {
+    logger.error('Error in getStockMovements', { error });
+    throw new Error('Failed to fetch stock movements');
+  }
+};
+
+/**
+ * Retrieves the active products whose available units are at or below their
+ * `reorder_threshold`, emptiest first (relative to the threshold). Products without a
+ * threshold are never low. For products with a recipe, the available units come from their
+ * ingredients.
+ *
+ * @returns A promise that resolves to the products that need restocking, with their `available` units.
+ * @throws An error if the query fails.
+ */
+
+export const getLowStockProducts = async (): Promise<IProduct[]> => {
+  try {
+    const result = await pool.query(
+      `SELECT p.*, pa.available, pa.has_recipe
+       FROM products p
+       JOIN product_availability pa ON pa.product_id = p.id
+       WHERE p.archived_at IS NULL AND p.reorder_threshold IS NOT NULL AND pa.available <= p.reorder_threshold
+       ORDER BY pa.available - p.reorder_threshold, p.name`
+    );
+    return result.rows;
+  } catch (error) {
+    logger.error('Error in getLowStockProducts', { error });
+    throw new Error('Failed to fetch low-stock products');
+  }
+};
+
+/**
+ * Audits the ledger: retrieves the products (archived ones included) whose stock differs
+ * from the sum of their movements, e.g. because it was changed directly in the database.
+ *
+ * @returns A promise that resolves to the mismatched products; empty when the ledger is consistent.
+ * @throws An error if the query fails.
+ */
+
+export const getStockDiscrepancies = async (): Promise<IStockDiscrepancy[]> => {
+  try {
+    const result = await pool.query(
+      `SELECT p.id AS product_id, p.name, p.stock, COALESCE(SUM(m.quantity), 0)::int AS ledger_stock,
+              (p.stock - COALESCE(SUM(m.quantity), 0))::int AS difference
+       FROM products p
+       LEFT JOIN stock_movements m ON m.product_id = p.id
+       GROUP BY p.id
+       HAVING p.stock <> COALESCE(SUM(m.quantity), 0)
+       ORDER BY p.id`
+    );
+    return result.rows;
+  } catch (error) {
+    logger.error('Error in getStockDiscrepancies', { error });
+    throw new Error('Failed to fetch stock discrepancies');
+  }
+};
@@ -0,0 +1,260 @@
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { IKitchenTicket, IOrderItem, IStation, OrderStatus, PrepStatus } from '../types';
+import { applyOrderStatusChange, canTransitionOrderStatus } from './orderModel';
+
+/**
+ * Allowed preparation status transitions of an order item, keyed by the current status.
+ * Items move forward only; a station may mark a queued item `ready` directly (e.g. drinks).
+ */
+
+export const PREP_STATUS_TRANSITIONS: Record<PrepStatus, PrepStatus[]> = {
+  queued: ['preparing', 'ready'],
+  preparing: ['ready'],
+  ready: [],
+};
+
+/**
+ * Statuses of the orders whose items are shown on the kitchen screens.
+ */
+
+export const KITCHEN_ORDER_STATUSES: OrderStatus[] = ['pending', 'in_progress', 'ready'];
+
+/**
+ * Error thrown when an order item is asked to move to a preparation status that is not
+ * reachable from its current one according to `PREP_STATUS_TRANSITIONS`.
+ */
+
+export class PrepStatusTransitionError extends Error {
+  constructor(public from: PrepStatus, public to: PrepStatus) {
+    super(`Cannot change item status from '${from}' to '${to}'`);
+    this.name = 'PrepStatusTransitionError';
+  }
+}
+
+/**
+ * Error thrown when changing the preparation status of an item whose order has already left
+ * the kitchen (served, completed or cancelled).
+ */
+
+export class OrderNotInKitchenError extends Error {
+  constructor(public orderId: number, public orderStatus: OrderStatus) {
+    super(`Order ${orderId} is ${orderStatus}`);
+    this.name = 'OrderNotInKitchenError';
+  }
+}
+
+/**
+ * Error thrown when a product is assigned to a station that does not exist.
+ */
+
+export class UnknownStationError extends Error {
+  constructor(public stationId: number) {
+    super(`Station ${stationId} does not exist`);
+    this.name = 'UnknownStationError';
+  }
+}
+
+/**
+ * Retrieves every kitchen station, ordered by name.
+ *
+ * @returns A promise that resolves to the stations.
+ * @throws An error if the query fails.
+ */
+
+export const getStations = async (): Promise<IStation[]> => {
+  try {
+    const result = await pool.query('SELECT * FROM stations ORDER BY name');
+    return result.rows;
+  } catch (error) {
+    logger.error('Error in getStations', { error });
+    throw new Error('Failed to fetch stations');
+  }
+};
+
+/**
+ * Retrieves a station by its code (e.g. `grill`).
+ *
+ * @param code - The code of the station.
+ * @returns A promise that resolves to the station, or `undefined` if it does not exist.
+ * @throws An error if the query fails.
+ */
+
+export const getStationByCode = async (code: string): Promise<IStation | undefined> => {
+  try {
+    const result = await pool.query('SELECT * FROM stations WHERE code = $1', [code]);
+    return result.rows[0];
+  } catch (error) {
+    logger.error('Error in getStationByCode', { error });
+    throw new Error('Failed to fetch station');
+  }
+};
+
+/**
+ * Retrieves the open tickets of a station, oldest order first.
+ *
+ * A ticket is an order still in the kitchen (`KITCHEN_ORDER_STATUSES`) with at least one
+ * item of the station that is not `ready`. Each ticket lists every item of the order routed
+ * to the station, ready ones included, with the modifiers chosen for it.
+ *
+ * @param stationId - The ID of the station, or `null` for the tickets of every station
+ *                    (items without a station included).
+ * @returns A promise that resolves to the station's tickets.
+ * @throws An error if the query fails.
+ */
+
+export const getKitchenTickets = async (stationId: number | null): Promise<IKitchenTicket[]> => {
+  const stationFilter = stationId === null ? 'TRUE' : 'oi.station_id = $2';
+  const params: unknown[] = stationId === null ? [KITCHEN_ORDER_STATUSES] : [KITCHEN_ORDER_STATUSES, stationId];
+
+  try {
+    const itemResult = await pool.query(
+      `SELECT oi.id, oi.order_id, oi.product_id, p.name AS product_name, oi.quantity, oi.price_at_time,
+              oi.station_id, s.code AS station_code, oi.prep_status, oi.queued_at, oi.started_at, oi.ready_at,
+              o.status AS order_status, o.created_at AS order_created_at, t.number AS table_number, u.username AS waiter
+       FROM order_items oi
+       JOIN orders o ON o.id = oi.order_id
+       JOIN products p ON p.id = oi.product_id
+       JOIN users u ON u.id = o.user_id
+       LEFT JOIN stations s ON s.id = oi.station_id
+       LEFT JOIN tables t ON t.id = o.table_id
+       WHERE o.status = ANY($1::text[])
+         AND ${stationFilter}
+         AND EXISTS (
+           SELECT 1 FROM order_items pending
+           WHERE pending.order_id = o.id
+             AND pending.prep_status <> 'ready'
+             AND ${stationId === null ? 'TRUE' : 'pending.station_id = $2'}
+         )
+       ORDER BY o.created_at, o.id, oi.id`,
+      params
+    );
+
+    const itemIds = itemResult.rows.map((row) => row.id);
+    const modifierResult = itemIds.length > 0
+      ? await pool.query(
+        'SELECT * FROM order_item_modifiers WHERE order_item_id = ANY($1::int[]) ORDER BY id',
+        [itemIds]
+      )
+      : { rows: [] };
+
+    const tickets = new Map<number, IKitchenTicket>();
+    itemResult.rows.forEach((row) => {
+      if (!tickets.has(row.order_id)) {
+        tickets.set(row.order_id, {
+          order_id: row.order_id,
+          order_status: row.order_status,
+          table_number: row.table_number,
+          waiter: row.waiter,
+          created_at: row.order_created_at,
+          items: [],
+        });
+      }
+      const { order_status, order_created_at, table_number, waiter, ...item } = row;
+      tickets.get(row.order_id)!.items.push({
+        ...item,
+        modifiers: modifierResult.rows.filter((modifier) => modifier.order_item_id === row.id),
+      });
+    });
+    return [...tickets.values()];
+  } catch (error) {
+    logger.error('Error in getKitchenTickets', { error });
+    throw new Error('Failed to fetch kitchen tickets');
+  }
+};
+
+/**
+ * Moves an order item to a new preparation status and stamps the time of the change.
+ *
+ * The order follows its items: when the first item starts (or is ready) a `pending` order
+ * moves to `in_progress`, and when every item of the order is ready an `in_progress` order
+ * moves to `ready`. Those changes are applied with `applyOrderStatusChange` like any other.
+ *
+ * The order row is locked for the duration of the transaction, so concurrent updates of
+ * items of the same order are applied one after the other.
+ *
+ * @param itemId - The ID of the order item.
+ * @param status - The preparation status the item should move to.
+ * @param userId - The ID of the user performing the change.
+ * @returns A promise that resolves to the updated item and the resulting order status, or
+ *          `null` if the item does not exist.
+ *
+ * @throws {PrepStatusTransitionError} If the transition is not allowed from the current status.
+ * @throws {OrderNotInKitchenError} If the item's order has been served, completed or cancelled.
+ * @throws Will throw a generic error if the update fails for any other reason.
+ */
+
+export const updateOrderItemStatus = async (
+  itemId: number,
+  status: PrepStatus,
+  userId: number
+): Promise<{ item: IOrderItem; order_status: OrderStatus } | null> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const orderResult = await client.query(
+      `SELECT o.id, o.status, o.user_id FROM orders o
+       WHERE o.id = (SELECT order_id FROM order_items WHERE id = $1)
+       FOR UPDATE`,
+      [itemId]
+    );
+    if (orderResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+    const orderId: number = orderResult.rows[0].id;
+    const ownerId: number = orderResult.rows[0].user_id;
+    let orderStatus: OrderStatus = orderResult.rows[0].status;
+    if (!KITCHEN_ORDER_STATUSES.includes(orderStatus)) {
+      throw new OrderNotInKitchenError(orderId, orderStatus);
+    }
+
+    const currentResult = await client.query('SELECT prep_status FROM order_items WHERE id = $1', [itemId]);
+    const currentStatus: PrepStatus = currentResult.rows[0].prep_status;
+    if (!PREP_STATUS_TRANSITIONS[currentStatus].includes(status)) {
+      throw new PrepStatusTransitionError(currentStatus, status);
+    }
+
+    const itemResult = await client.query(
+      `UPDATE order_items
+       SET prep_status = $1,
+           started_at = CASE WHEN $1 = 'preparing' OR started_at IS NULL THEN CURRENT_TIMESTAMP ELSE started_at END,
+           ready_at = CASE WHEN $1 = 'ready' THEN CURRENT_TIMESTAMP ELSE ready_at END
+       WHERE id = $2
+       RETURNING *`,
+      [status, itemId]
+    );
+
+    const moveOrder = async (to: OrderStatus) => {
+      if (!canTransitionOrderStatus(orderStatus, to)) {
+        return;
+      }
+      await applyOrderStatusChange(client, { id: orderId, user_id: ownerId, status: orderStatus }, to, userId);
+      orderStatus = to;
+    };
+
+    if (orderStatus === 'pending') {
+      await moveOrder('in_progress');
+    }
+    const pendingResult = await client.query(
+      "SELECT 1 FROM order_items WHERE order_id = $1 AND prep_status <> 'ready' LIMIT 1",
+      [orderId]
+    );
+    if (pendingResult.rows.length === 0) {
+      await moveOrder('ready');
+    }
+
+    await client.query('COMMIT');
+    return { item: itemResult.rows[0], order_status: orderStatus };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof PrepStatusTransitionError || error instanceof OrderNotInKitchenError) {
+      throw error;
+    }
+    logger.error('Error in updateOrderItemStatus', { error });
+    throw new Error('Failed to update order item status');
+  } finally {
+    client.release();
+  }
+};
@@ -0,0 +1,260 @@
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { IModifier, IModifierGroup } from '../types';
+
+/**
+ * Error thrown when an update would leave a modifier group with inconsistent selection
+ * limits, e.g. a `max_selections` lower than its current `min_selections`.
+ */
+
+export class ModifierGroupLimitsError extends Error {
+  constructor() {
+    super('max_selections must be greater than or equal to min_selections, and required groups need min_selections >= 1');
+    this.name = 'ModifierGroupLimitsError';
+  }
+}
+
+/**
+ * Whether a database error is a violation of one of the `CHECK` constraints on the
+ * selection limits of `modifier_groups`.
+ */
+
+const isLimitsViolation = (error: unknown) => {
+  const { code, table } = error as { code?: string; table?: string };
+  return code === '23514' && table === 'modifier_groups';
+};
+
+/**
+ * Retrieves the modifier groups of a product, each with its modifiers, in display order.
+ *
+ * @param productId - The ID of the product.
+ * @returns A promise that resolves to the product's modifier groups (empty if it has none).
+ * @throws An error if the query fails.
+ */
+
+export const getModifierGroupsByProduct = async (productId: number): Promise<IModifierGroup[]> => {
+  try {
+    const [groupResult, modifierResult] = await Promise.all([
+      pool.query('SELECT * FROM modifier_groups WHERE product_id = $1 ORDER BY display_order, id', [productId]),
+      pool.query(
+        `SELECT m.* FROM modifiers m
+         JOIN modifier_groups g ON g.id = m.group_id
+         WHERE g.product_id = $1
+         ORDER BY m.display_order, m.id`,
+        [productId]
+      ),
+    ]);
+
+    return groupResult.rows.map((group) => ({
+      ...group,
+      modifiers: modifierResult.rows.filter((modifier: IModifier) => modifier.group_id === group.id),
+    }));
+  } catch (error) {
+    logger.error('Error in getModifierGroupsByProduct', { error });
+    throw new Error('Failed to fetch modifier groups');
+  }
+};
+
+/**
+ * Creates a modifier group for an active product, together with its initial modifiers.
+ *
+ * @param productId - The ID of the product the group belongs to.
+ * @param group - The group to create. `min_selections` defaults to 1 for required groups
+ *                and 0 otherwise.
+ * @returns A promise that resolves to the created group with its modifiers, or `undefined`
+ *          if the product does not exist or is archived.
+ * @throws {ModifierGroupLimitsError} If the selection limits are inconsistent.
+ * @throws An error if the insert fails for any other reason.
+ */
+
+export const createModifierGroup = async (
+  productId: number,
+  group: Omit<Partial<IModifierGroup>, 'modifiers'> & { name: string; modifiers?: (Partial<IModifier> & { name: string })[] }
+): Promise<IModifierGroup | undefined> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const productResult = await client.query('SELECT id FROM products WHERE id = $1 AND archived_at IS NULL', [productId]);
+    if (productResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return undefined;
+    }
+
+    const required = group.required ?? false;
+    const groupResult = await client.query(
+      `INSERT INTO modifier_groups (product_id, name, required, min_selections, max_selections, display_order)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+      [
+        productId,
+        group.name,
+        required,
+        group.min_selections ?? (required ? 1 : 0),
+        group.max_selections ?? null,
+        group.display_order ?? 0,
+      ]
+    );
+    const created: IModifierGroup = groupResult.rows[0];
+
+    const modifiers: IModifier[] = [];
+    for (const [index, modifier] of (group.modifiers ?? []).entries()) {
+      const modifierResult = await client.query(
+        'INSERT INTO modifiers (group_id, name, price_delta, display_order) VALUES ($1, $2, $3, $4) RETURNING *',
+        [created.id, modifier.name, modifier.price_delta ?? 0, modifier.display_order ?? index]
+      );
+      modifiers.push(modifierResult.rows[0]);
+    }
+
+    await client.query('COMMIT');
+    return { ...created, modifiers };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (isLimitsViolation(error)) {
+      throw new ModifierGroupLimitsError();
+    }
+    logger.error('Error in createModifierGroup', { error });
+    throw new Error('Failed to create modifier group');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Updates the given fields of a modifier group.
+ *
+ * Only `name`, `required`, `min_selections`, `max_selections` and `display_order` can be
+ * changed; any other key in `fields` is ignored.
+ *
+ * @param id - The ID of the group to update.
+ * @param fields - The group fields to change.
+ * @returns A promise that resolves to the updated group (without its modifiers), or
+ *          `undefined` if it does not exist.
+ * @throws {ModifierGroupLimitsError} If the resulting selection limits are inconsistent.
+ * @throws An error if the update fails for any other reason.
+ */
+
+export const updateModifierGroup = async (id: number, fields: Partial<IModifierGroup>): Promise<IModifierGroup | undefined> => {
+  try {
+    const columns = (['name', 'required', 'min_selections', 'max_selections', 'display_order'] as const)
+      .filter((column) => fields[column] !== undefined);
+    if (columns.length === 0) {
+      const result = await pool.query('SELECT * FROM modifier_groups WHERE id = $1', [id]);
+      return result.rows[0];
+    }
+
+    const assignments = columns.map((column, index) => `${column} = $${index + 2}`).join(', ');
+    const result = await pool.query(
+      `UPDATE modifier_groups SET ${assignments} WHERE id = $1 RETURNING *`,
+      [id, ...columns.map((column) => fields[column])]
+    );
+    return result.rows[0];
+  } catch (error) {
+    if (isLimitsViolation(error)) {
+      throw new ModifierGroupLimitsError();
+    }
+    logger.error('Error in updateModifierGroup', { error });
+    throw new Error('Failed to update modifier group');
+  }
+};
+
+/**
+ * Deletes a modifier group and its modifiers. Past orders keep the modifiers they were
+ * placed with.
+ *
+ * @param id - The ID of the group to delete.
+ * @returns A promise that resolves to the deleted group, or `undefined` if it does not exist.
+ * @throws An error if the delete fails.
+ */
+
+export const deleteModifierGroup = async (id: number): Promise<IModifierGroup | undefined> => {
+  try {
+    const result = await pool.query('DELETE FROM modifier_groups WHERE id = $1 RETURNING *', [id]);
+    return result.rows[0];
+  } catch (error) {
+    logger.error('Error in deleteModifierGroup', { error });
+    throw new Error('Failed to delete modifier group');
+  }
+};
+
+/**
+ * Adds a modifier to a group. Without a `display_order`, the modifier is listed last.
+ *
+ * @param groupId - The ID of the group.
+ * @param modifier - The modifier to create.
+ * @returns A promise that resolves to the created modifier, or `undefined` if the group does not exist.
+ * @throws An error if the insert fails.
+ */
+
+export const createModifier = async (
+  groupId: number,
+  modifier: Partial<IModifier> & { name: string }
+): Promise<IModifier | undefined> => {
+  try {
+    const result = await pool.query(
+      `INSERT INTO modifiers (group_id, name, price_delta, display_order)
+       SELECT g.id, $2, $3, COALESCE($4, (SELECT COUNT(*) FROM modifiers WHERE group_id = g.id))
+       FROM modifier_groups g
+       WHERE g.id = $1
+       RETURNING *`,
+      [groupId, modifier.name, modifier.price_delta ?? 0, modifier.display_order ?? null]
+    );
+    return result.rows[0];
+  } catch (error) {
+    logger.error('Error in createModifier', { error });
+    throw new Error('Failed to create modifier');
+  }
+};
+
+/**
+ * Updates the given fields of a modifier of a group.
+ *
+ * Only `name`, `price_delta` and `display_order` can be changed; any other key in `fields`
+ * is ignored. The new price delta only applies to orders placed from now on.
+ *
+ * @param groupId - The ID of the group the modifier belongs to.
+ * @param id - The ID of the modifier to update.
+ * @param fields - The modifier fields to change.
+ * @returns A promise that resolves to the updated modifier, or `undefined` if it does not
+ *          exist in that group.
+ * @throws An error if the update fails.
+ */
+
+export const updateModifier = async (groupId: number, id: number, fields: Partial<IModifier>): Promise<IModifier | undefined> => {
+  try {
+    const columns = (['name', 'price_delta', 'display_order'] as const).filter((column) => fields[column] !== undefined);
+    if (columns.length === 0) {
+      const result = await pool.query('SELECT * FROM modifiers WHERE id = $1 AND group_id = $2', [id, groupId]);
+      return result.rows[0];
+    }
+
+    const assignments = columns.map((column, index) => `${column} = $${index + 3}`).join(', ');
+    const result = await pool.query(
+      `UPDATE modifiers SET ${assignments} WHERE id = $1 AND group_id = $2 RETURNING *`,
+      [id, groupId, ...columns.map((column) => fields[column])]
+    );
+    return result.rows[0];
+  } catch (error) {
+    logger.error('Error in updateModifier', { error });
+    throw new Error('Failed to update modifier');
+  }
+};
+
+/**
+ * Deletes a modifier of a group. Past orders keep the modifier they were placed with.
+ *
+ * @param groupId - The ID of the group the modifier belongs to.
+ * @param id - The ID of the modifier to delete.
+ * @returns A promise that resolves to the deleted modifier, or `undefined` if it does not
+ *          exist in that group.
+ * @throws An error if the delete fails.
+ */
+
+export const deleteModifier = async (groupId: number, id: number): Promise<IModifier | undefined> => {
+  try {
+    const result = await pool.query('DELETE FROM modifiers WHERE id = $1 AND group_id = $2 RETURNING *', [id, groupId]);
+    return result.rows[0];
+  } catch (error) {
+    logger.error('Error in deleteModifier', { error });
+    throw new Error('Failed to delete modifier');
+  }
+};
@@ -1,51 +1,696 @@
 import pool from '../config/db';
-   import { IOrder, IOrderItem } from '../types';
+import logger from '../utils/logger';
+import config from '../config';
+import { publishEvent } from '../utils/eventBus';
+import { fromCents, toCents } from '../utils/money';
+import { priceLines } from '../pricing/pricingEngine';
+import { getCategoryTaxRates } from './categoryModel';
+import { findApplicablePromotion, PromoCodeNotApplicableError, redeemPromotion, releasePromotion } from './promotionModel';
+import { recordStockMovement } from './inventoryModel';
+import { consumeIngredients, planIngredientConsumption, returnIngredients } from './ingredientModel';
+import { recordAudit } from './auditModel';
+   import { Pool, PoolClient } from 'pg';
+   import {
+     IModifierSelectionProblem,
+     IOrder,
+     IOrderItem,
+     IOrderItemInput,
+     IOrderItemModifier,
+     IOrderQuery,
+     IOrderQuote,
+     IOrderStatusHistory,
+     IPaginated,
+     IStockShortage,
+     OrderStatus,
+     TableStatus,
+   } from '../types';
+
+  /**
+   * Allowed order status transitions, keyed by the current status.
+   *
+   * Orders move forward through the kitchen flow
+   * (`pending` → `in_progress` → `ready` → `served` → `completed`) and may be
+   * cancelled at any point before they are served. `completed` and `cancelled` are terminal.
+   */
+
+   export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+     pending: ['in_progress', 'cancelled'],
+     in_progress: ['ready', 'cancelled'],
+     ready: ['served', 'cancelled'],
+     served: ['completed'],
+     completed: [],
+     cancelled: [],
+   };
+
+   export const ORDER_STATUSES = Object.keys(ORDER_STATUS_TRANSITIONS) as OrderStatus[];
+
+  /**
+   * Statuses of orders that are still open, i.e. every non-terminal status. A table stays
+   * occupied while it has an order in one of these statuses.
+   */
+
+   export const OPEN_ORDER_STATUSES = ORDER_STATUSES.filter((status) => ORDER_STATUS_TRANSITIONS[status].length > 0);
+
+  /**
+   * Error thrown when an order is asked to move to a status that is not reachable
+   * from its current one according to `ORDER_STATUS_TRANSITIONS`.
+   */
+
+   export class OrderStatusTransitionError extends Error {
+     constructor(public from: OrderStatus, public to: OrderStatus) {
+       super(`Cannot change order status from '${from}' to '${to}'`);
+       this.name = 'OrderStatusTransitionError';
+     }
+   }
+
+  /**
+   * Checks whether an order in status `from` may be moved to status `to`.
+   *
+   * @param from - The current status of the order.
+   * @param to - The requested status.
+   * @returns `true` if the transition is allowed by the state machine.
+   */
+
+   export const canTransitionOrderStatus = (from: OrderStatus, to: OrderStatus): boolean =>
+     ORDER_STATUS_TRANSITIONS[from].includes(to);
+
+  /**
+   * Error thrown when one or more requested products do not have enough stock
+   * to fulfil an order. `shortages` lists every offending item.
+   */
+
+   export class InsufficientStockError extends Error {
+     constructor(public shortages: IStockShortage[]) {
+       super('Insufficient stock for one or more products');
+       this.name = 'InsufficientStockError';
+     }
+   }
+
+  /**
+   * Error thrown when an order references products that do not exist or have been archived.
+   */
+
+   export class UnknownProductsError extends Error {
+     constructor(public productIds: number[]) {
+       super(`Unknown product IDs: ${productIds.join(', ')}`);
+       this.name = 'UnknownProductsError';
+     }
+   }
+
+  /**
+   * Error thrown when an order references a table that does not exist.
+   */
+
+   export class UnknownTableError extends Error {
+     constructor(public tableId: number) {
+       super(`Unknown table ID: ${tableId}`);
+       this.name = 'UnknownTableError';
+     }
+   }
+
+  /**
+   * Error thrown when an order is opened for a table that cannot take it (a `dirty` table
+   * must be cleaned and marked `free` first).
+   */
+
+   export class TableUnavailableError extends Error {
+     constructor(public tableId: number, public tableStatus: TableStatus) {
+       super(`Table ${tableId} is ${tableStatus}`);
+       this.name = 'TableUnavailableError';
+     }
+   }
+
+  /**
+   * Error thrown when the modifiers chosen for one or more items do not fit the product's
+   * modifier groups. `problems` lists every offending item and group.
+   */
+
+   export class InvalidModifiersError extends Error {
+     constructor(public problems: IModifierSelectionProblem[]) {
+       super('Invalid modifiers for one or more items');
+       this.name = 'InvalidModifiersError';
+     }
+   }
+
+  /**
+   * Error thrown when an order that has received payments is asked to be cancelled. The
+   * payments would otherwise be left on an order whose sale was undone.
+   */
+
+   export class OrderHasPaymentsError extends Error {
+     constructor(public orderId: number, public paid: string) {
+       super(`Order ${orderId} has received payments of ${paid} and cannot be cancelled`);
+       this.name = 'OrderHasPaymentsError';
+     }
+   }
+
+  /**
+   * Error thrown when an order is asked to be completed while part of its total is still unpaid.
+   */
+
+   export class OrderNotPaidError extends Error {
+     constructor(public orderId: number, public balance: string) {
+       super(`Order ${orderId} has an outstanding balance of ${balance}`);
+       this.name = 'OrderNotPaidError';
+     }
+   }
+
+  /**
+   * Loads the modifiers chosen for the given order items and attaches them to each item as
+   * `modifiers`. Works both inside a transaction and on the pool.
+   */
+
+   const withItemModifiers = async (db: Pool | PoolClient, items: IOrderItem[]): Promise<IOrderItem[]> => {
+     if (items.length === 0) {
+       return items;
+     }
+     const result = await db.query(
+       'SELECT * FROM order_item_modifiers WHERE order_item_id = ANY($1::int[]) ORDER BY id',
+       [items.map((item) => item.id)]
+     );
+     return items.map((item) => ({
+       ...item,
+       modifiers: result.rows.filter((modifier: IOrderItemModifier) => modifier.order_item_id === item.id),
+     }));
+   };
+
+  /**
+   * Marks a table `free` once none of its orders are open any more. Must run inside the
+   * transaction that closed the order.
+   *
+   * The table row is locked before counting its open orders, so an order being opened for
+   * the same table concurrently (which locks the table too) is either seen here or sees the
+   * table already released.
+   */
+
+   const releaseTableIfIdle = async (client: PoolClient, tableId: number) => {
+     await client.query('SELECT id FROM tables WHERE id = $1 FOR UPDATE', [tableId]);
+     const openResult = await client.query(
+       'SELECT 1 FROM orders WHERE table_id = $1 AND status = ANY($2::text[]) LIMIT 1',
+       [tableId, OPEN_ORDER_STATUSES]
+     );
+     if (openResult.rows.length === 0) {
+       await client.query("UPDATE tables SET status = 'free' WHERE id = $1 AND status = 'occupied'", [tableId]);
+     }
+   };
+
+  /**
+   * Returns the part of an order's total not yet covered by its payments, as a decimal string
+   * (`"0.00"` once fully paid). Tips are not counted.
+   *
+   * @param db - The pool or the client of the caller's transaction.
+   * @param orderId - The ID of the order.
+   */
+
+   export const getOutstandingBalance = async (db: Pool | PoolClient, orderId: number): Promise<string> => {
+     const result = await db.query(
+       `SELECT o.total - COALESCE((SELECT SUM(amount) FROM payments WHERE order_id = o.id), 0) AS balance
+        FROM orders o WHERE o.id = $1`,
+       [orderId]
+     );
+     return result.rows[0].balance;
+   };
+
+  /**
+   * Moves an order to `to` inside the caller's transaction: updates its status, records the
+   * change in `order_status_history` and the audit log, and publishes an `order.status_changed` event. Closing
+   * the last open order of a table frees the table, and cancelling an order returns to stock
+   * exactly what its sale took, products and ingredients (recording `return` movements), and
+   * gives back the use of its promo code. Orders placed before the inventory ledger existed
+   * have no `sale` movements; their items' quantities are returned to product stock instead.
+   *
+   * The caller must have locked the order row and checked that the transition is allowed.
+   *
+   * @param client - The client of the caller's transaction.
+   * @param order - The locked order, with its current status and owner.
+   * @param to - The status the order moves to.
+   * @param userId - The ID of the user performing the change.
+   * @returns The updated order row.
+   */
+
+   export const applyOrderStatusChange = async (
+     client: PoolClient,
+     order: { id: number; user_id: number; status: OrderStatus },
+     to: OrderStatus,
+     userId: number
+   ): Promise<IOrder> => {
+     const orderResult = await client.query('UPDATE orders SET status = $1 WHERE id = $2 RETURNING *', [to, order.id]);
+
+     await client.query(
+       'INSERT INTO order_status_history (order_id, from_status, to_status, changed_by) VALUES ($1, $2, $3, $4)',
+       [order.id, order.status, to, userId]
+     );
+     await publishEvent(client, { type: 'order.status_changed', order_id: order.id, user_id: order.user_id, from: order.status, to });
+     await recordAudit(client, {
+       actor_id: userId, action: 'status_change', entity_type: 'order', entity_id: order.id, before: { status: order.status }, after: { status: to },
+     });
+
+     const tableId: number | null = orderResult.rows[0].table_id;
+     if (tableId !== null && !OPEN_ORDER_STATUSES.includes(to)) {
+       await releaseTableIfIdle(client, tableId);
+     }
+
+     if (to === 'cancelled') {
+       const returnedResult = await client.query(
+         `SELECT product_id, -SUM(quantity)::int AS quantity
+          FROM stock_movements
+          WHERE order_id = $1 AND kind = 'sale'
+          GROUP BY product_id
+          ORDER BY product_id`,
+         [order.id]
+       );
+       let returnedRows: { product_id: number; quantity: number }[] = returnedResult.rows;
+       if (returnedRows.length === 0) {
+         const legacyResult = await client.query(
+           `SELECT product_id, SUM(quantity)::int AS quantity
+            FROM order_items
+            WHERE order_id = $1
+              AND NOT EXISTS (SELECT 1 FROM ingredient_movements WHERE order_id = $1 AND kind = 'sale')
+            GROUP BY product_id
+            ORDER BY product_id`,
+           [order.id]
+         );
+         returnedRows = legacyResult.rows;
+       }
+       for (const returned of returnedRows) {
+         await recordStockMovement(client, {
+           product_id: returned.product_id,
+           kind: 'return',
+           quantity: returned.quantity,
+           reason: 'Order cancelled',
+           order_id: order.id,
+           user_id: userId,
+         });
+       }
+       await returnIngredients(client, order.id, userId);
+       await releasePromotion(client, order.id);
+     }
+
+     return orderResult.rows[0];
+   };
+
+  /**
+   * Pricing choices made when placing (or quoting) an order.
+   */
+
+   export interface IOrderPricingInput {
+     promoCode?: string | null;
+     serviceCharge?: boolean;
+   }
+
+  /**
+   * The requested items of an order merged into lines (same product and same modifiers), with
+   * the product and modifier rows they reference.
+   */
+
+   interface ResolvedOrderLines {
+     lines: { product_id: number; quantity: number; modifier_ids: number[] }[];
+     quantities: Map<number, number>;
+     products: Map<number, { id: number; name: string; price: string; stock: number; station_id: number | null; category_id: number | null }>;
+     modifiers: Map<number, { id: number; group_id: number; name: string; price_delta: string; product_id: number }>;
+   }
+
+  /**
+   * Merges the requested items into lines and checks them against the current menu: every
+   * product must exist and not be archived, and the chosen modifiers must belong to the
+   * product's modifier groups and respect each group's `min_selections`/`max_selections`.
+   *
+   * @param db - The pool, or the client of the caller's transaction.
+   * @param orderItems - The requested items.
+   * @param lock - Whether to lock the product rows (`SELECT ... FOR UPDATE`) to check and update their stock.
+   * @throws {UnknownProductsError} If any requested product does not exist or is archived.
+   * @throws {InvalidModifiersError} If the chosen modifiers of any item do not fit the product's modifier groups.
+   */
+
+   const resolveOrderLines = async (db: Pool | PoolClient, orderItems: IOrderItemInput[], lock: boolean): Promise<ResolvedOrderLines> => {
+     const lines = new Map<string, { product_id: number; quantity: number; modifier_ids: number[] }>();
+     const quantities = new Map<number, number>();
+     orderItems.forEach((item) => {
+       const modifierIds = [...new Set(item.modifier_ids ?? [])].sort((a, b) => a - b);
+       const key = `${item.product_id}:${modifierIds.join(',')}`;
+       const line = lines.get(key) ?? { product_id: item.product_id, quantity: 0, modifier_ids: modifierIds };
+       line.quantity += item.quantity;
+       lines.set(key, line);
+       quantities.set(item.product_id, (quantities.get(item.product_id) || 0) + item.quantity);
+     });
+     const productIds = [...quantities.keys()];
+
+     const productResult = await db.query(
+       `SELECT id, name, price, stock, station_id, category_id FROM products WHERE id = ANY($1::int[]) AND archived_at IS NULL ORDER BY id
+        ${lock ? 'FOR UPDATE' : ''}`,
+       [productIds]
+     );
+     const products: ResolvedOrderLines['products'] = new Map(productResult.rows.map((row) => [row.id, row]));
+
+     const missing = productIds.filter((id) => !products.has(id));
+     if (missing.length > 0) {
+       throw new UnknownProductsError(missing);
+     }
+
+     const groupResult = await db.query(
+       'SELECT id, product_id, name, required, min_selections, max_selections FROM modifier_groups WHERE product_id = ANY($1::int[])',
+       [productIds]
+     );
+     const modifierResult = await db.query(
+       `SELECT m.id, m.group_id, m.name, m.price_delta, g.product_id
+        FROM modifiers m
+        JOIN modifier_groups g ON g.id = m.group_id
+        WHERE g.product_id = ANY($1::int[])`,
+       [productIds]
+     );
+     const modifiers: ResolvedOrderLines['modifiers'] = new Map(modifierResult.rows.map((row) => [row.id, row]));
+
+     const modifierProblems: IModifierSelectionProblem[] = [];
+     for (const line of lines.values()) {
+       const unknown = line.modifier_ids.filter((id) => modifiers.get(id)?.product_id !== line.product_id);
+       unknown.forEach((id) => modifierProblems.push({
+         product_id: line.product_id,
+         modifier_id: id,
+         message: `Modifier ${id} is not available for product ${line.product_id}`,
+       }));
+
+       groupResult.rows
+         .filter((group) => group.product_id === line.product_id)
+         .forEach((group) => {
+           const chosen = line.modifier_ids.filter((id) => modifiers.get(id)?.group_id === group.id).length;
+           if (chosen < group.min_selections) {
+             modifierProblems.push({
+               product_id: line.product_id,
+               group_id: group.id,
+               message: `Choose at least ${group.min_selections} option(s) from "${group.name}"`,
+             });
+           } else if (group.max_selections !== null && chosen > group.max_selections) {
+             modifierProblems.push({
+               product_id: line.product_id,
+               group_id: group.id,
+               message: `Choose at most ${group.max_selections} option(s) from "${group.name}"`,
+             });
+           }
+         });
+     }
+     if (modifierProblems.length > 0) {
+       throw new InvalidModifiersError(modifierProblems);
+     }
+
+     return { lines: [...lines.values()], quantities, products, modifiers };
+   };
+
+  /**
+   * Prices resolved order lines with the pricing engine (see `pricing/pricingEngine.ts`).
+   *
+   * Each unit is charged its product's price plus its modifiers' price deltas, and taxed at the
+   * rate of its product's category (`getCategoryTaxRates`), or at `DEFAULT_TAX_RATE` when no
+   * category up the tree sets one. A promo code is checked with `findApplicablePromotion`, and
+   * the service charge, when requested, uses `SERVICE_CHARGE_RATE`.
+   *
+   * @param db - The pool, or the client of the caller's transaction.
+   * @param resolved - The lines returned by `resolveOrderLines`.
+   * @param pricing - The promo code and service charge requested for the order.
+   * @param lock - Whether to lock the promotion row until the caller redeems it.
+   * @throws {PromoCodeNotApplicableError} If the promo code does not exist or cannot be redeemed now.
+   */
+
+   const priceOrderLines = async (db: Pool | PoolClient, resolved: ResolvedOrderLines, pricing: IOrderPricingInput, lock: boolean) => {
+     const promotion = pricing.promoCode ? await findApplicablePromotion(db, pricing.promoCode, lock) : null;
+
+     const categoryIds = [...new Set(
+       [...resolved.products.values()].map((product) => product.category_id).filter((id): id is number => id !== null)
+     )];
+     const categoryTaxRates = await getCategoryTaxRates(db, categoryIds);
+     const taxRates = resolved.lines.map((line) => {
+       const categoryId = resolved.products.get(line.product_id)!.category_id;
+       return (categoryId !== null ? categoryTaxRates.get(categoryId) : undefined) ?? config.pricing.defaultTaxRate;
+     });
+     const unitPrices = resolved.lines.map((line) => line.modifier_ids.reduce(
+       (price, id) => price + toCents(resolved.modifiers.get(id)!.price_delta),
+       toCents(resolved.products.get(line.product_id)!.price)
+     ));
+
+     const serviceChargeRate = pricing.serviceCharge ? config.pricing.serviceChargeRate : 0;
+     const breakdown = priceLines(
+       resolved.lines.map((line, index) => ({ quantity: line.quantity, unitPrice: unitPrices[index], taxRate: taxRates[index] })),
+       { discount: promotion && { kind: promotion.kind, value: Number(promotion.value) }, serviceChargeRate }
+     );
+
+     return { promotion, serviceChargeRate, taxRates, unitPrices, breakdown };
+   };
+
+  /**
+   * Prices an order without placing it, so the waiter can show the customer the breakdown
+   * (and check a promo code) before confirming. Nothing is locked or stored and stock is not
+   * checked; placing the order prices it again with the rates and promotions of that moment.
+   *
+   * @param orderItems - The requested items, as for `createOrder`.
+   * @param pricing - The promo code and service charge requested for the order.
+   * @returns A promise that resolves to the quote, with one entry per merged line.
+   *
+   * @throws {UnknownProductsError} If any requested product does not exist or is archived.
+   * @throws {InvalidModifiersError} If the chosen modifiers of any item do not fit the product's modifier groups.
+   * @throws {PromoCodeNotApplicableError} If the promo code does not exist or cannot be redeemed now.
+   * @throws Will throw a generic error if the quote fails for any other reason.
+   */
+
+   export const quoteOrder = async (orderItems: IOrderItemInput[], pricing: IOrderPricingInput = {}): Promise<IOrderQuote> => {
+     try {
+       const resolved = await resolveOrderLines(pool, orderItems, false);
+       const { promotion, serviceChargeRate, taxRates, unitPrices, breakdown } = await priceOrderLines(pool, resolved, pricing, false);
+
+       return {
+         subtotal: fromCents(breakdown.subtotal),
+         discount_total: fromCents(breakdown.discount),
+         service_charge: fromCents(breakdown.serviceCharge),
+         service_charge_rate: serviceChargeRate,
+         tax_total: fromCents(breakdown.tax),
+         total: fromCents(breakdown.total),
+         promo_code: promotion?.code ?? null,
+         items: resolved.lines.map((line, index) => ({
+           ...line,
+           unit_price: fromCents(unitPrices[index]),
+           subtotal: fromCents(breakdown.lines[index].subtotal),
+           discount: fromCents(breakdown.lines[index].discount),
+           service_charge: fromCents(breakdown.lines[index].serviceCharge),
+           tax_rate: taxRates[index],
+           tax: fromCents(breakdown.lines[index].tax),
+           line_total: fromCents(breakdown.lines[index].total),
+         })),
+       };
+     } catch (error) {
+       if (
+         error instanceof UnknownProductsError
+         || error instanceof InvalidModifiersError
+         || error instanceof PromoCodeNotApplicableError
+       ) {
+         throw error;
+       }
+       logger.error('Error in quoteOrder', { error });
+       throw new Error('Failed to quote order');
+     }
+   };
 
   /**
    * Creates a new order for a user, including associated order items, and stores it in the database.
    * The operation is performed within a transaction to ensure data consistency.
    *
+   * Prices are never taken from the caller: the affected product rows are locked
+   * (`SELECT ... FOR UPDATE`), each item is priced from `products.price`, stock is checked
+   * and decremented (recording a `sale` movement per product in the inventory ledger), and
+   * the order is priced from the stored items, all in the same
+   * transaction. Repeated lines for the same product with the same modifiers are merged into
+   * a single item.
+   *
+   * Each item may carry `modifier_ids`. They must belong to the product's modifier groups and
+   * respect each group's `min_selections`/`max_selections` (required groups need at least
+   * one). The chosen modifiers are stored in `order_item_modifiers` with their current name
+   * and price delta, and every unit of the item is charged its base price plus those deltas.
+   *
+   * Discount, service charge and taxes are computed by the pricing engine (see
+   * `priceOrderLines`). Every item stores its share of each of them and its `line_total`, and
+   * the order stores the sums, the service charge rate and the promo code, so the receipt of
+   * an order never changes when rates or promotions do. A redeemed promotion counts one use.
+   *
+   * Products with a recipe are limited by their ingredients instead of their own stock: the
+   * ingredients of every such product are locked, the amounts the whole order needs are
+   * checked against their stock and consumed (recording `sale` movements in their ledgers).
+   *
+   * Every item is routed to the kitchen station of its product and starts `queued`; the
+   * kitchen moves it forward with `updateOrderItemStatus`.
+   *
+   * The new order and its items are recorded in the audit log.
+   *
+   * When a table is given, it is locked and marked `occupied` in the same transaction; it is
+   * released again by `updateOrderStatus` once its last open order is completed or cancelled.
+   *
+   * On commit, an `order.created` event and a `product.stock_changed` event per product are
+   * published to the `/events` stream.
+   *
    * @param userId - The ID of the user placing the order.
-   * @param orderItems - An array of order items, each containing product ID, quantity, and price at the time of order.
+   * @param orderItems - An array of requested items, each containing a product ID, a quantity and optional modifier IDs.
+   * @param tableId - The ID of the table the order is served at, or `null` for orders without a table.
+   * @param pricing - The promo code to redeem and whether to add the service charge.
    * @returns A promise that resolves to the created order, including its associated order items.
    * 
+   * @throws {UnknownTableError} If the table does not exist.
+   * @throws {TableUnavailableError} If the table is `dirty`.
+   * @throws {UnknownProductsError} If any requested product does not exist or is archived.
+   * @throws {InvalidModifiersError} If the chosen modifiers of any item do not fit the product's modifier groups.
+   * @throws {InsufficientStockError} If any requested product does not have enough stock, or enough ingredients for its recipe.
+   * @throws {PromoCodeNotApplicableError} If the promo code does not exist or cannot be redeemed now.
    * @throws Will throw an error if the order creation fails or if the transaction cannot be completed.
    * 
    * Example usage:
    * ```typescript
    * const order = await createOrder(1, [
-   *   { product_id: 101, quantity: 2, price_at_time: 50 },
-   *   { product_id: 102, quantity: 1, price_at_time: 30 },
-   * ]);
+   *   { product_id: 101, quantity: 2, modifier_ids: [7] },
+   *   { product_id: 102, quantity: 1 },
+   * ], 4, { promoCode: 'VERANO10', serviceCharge: true });
    * console.log(order);
    * ```
    */
   
-   export const createOrder = async (userId: number, orderItems: IOrderItem[]): Promise<IOrder> => {
+   export const createOrder = async (
+     userId: number,
+     orderItems: IOrderItemInput[],
+     tableId: number | null = null,
+     pricing: IOrderPricingInput = {}
+   ): Promise<IOrder> => {
      const client = await pool.connect();
      try {
        await client.query('BEGIN');
 
-       const itemValues = orderItems.map((item) => [item.product_id, item.quantity, item.price_at_time]);
-       const itemInserts = orderItems.map((_, index) => `($1, $${index * 3 + 2}, $${index * 3 + 3}, $${index * 3 + 4})`).join(',');
-       const itemQuery = `INSERT INTO order_items (order_id, product_id, quantity, price_at_time) VALUES ${itemInserts} RETURNING id, order_id, product_id, quantity, price_at_time`;
-       const total = orderItems.reduce((sum, item) => sum + item.quantity * item.price_at_time, 0);
+       let tableNumber: number | null = null;
+       if (tableId !== null) {
+         const tableResult = await client.query('SELECT number, status FROM tables WHERE id = $1 FOR UPDATE', [tableId]);
+         if (tableResult.rows.length === 0) {
+           throw new UnknownTableError(tableId);
+         }
+         if (tableResult.rows[0].status === 'dirty') {
+           throw new TableUnavailableError(tableId, 'dirty');
+         }
+         tableNumber = tableResult.rows[0].number;
+         await client.query("UPDATE tables SET status = 'occupied' WHERE id = $1", [tableId]);
+       }
+
+       const resolved = await resolveOrderLines(client, orderItems, true);
+       const { lines, quantities, products, modifiers } = resolved;
+       const productIds = [...quantities.keys()];
+
+       const ingredientPlan = await planIngredientConsumption(client, quantities);
+       const shortages: IStockShortage[] = productIds
+         .map((id): IStockShortage => {
+           const product = products.get(id)!;
+           const recipe = ingredientPlan.recipes.get(id);
+           return recipe
+             ? { product_id: id, name: product.name, requested: quantities.get(id)!, available: recipe.available, ingredients: recipe.shortages }
+             : { product_id: id, name: product.name, requested: quantities.get(id)!, available: product.stock };
+         })
+         .filter((shortage) => shortage.requested > shortage.available || (shortage.ingredients?.length ?? 0) > 0);
+       if (shortages.length > 0) {
+         throw new InsufficientStockError(shortages);
+       }
+
+       const { promotion, serviceChargeRate, taxRates, breakdown } = await priceOrderLines(client, resolved, pricing, true);
 
        const orderResult = await client.query(
-         'INSERT INTO orders (user_id, total, status) VALUES ($1, $2, $3) RETURNING *',
-         [userId, total, 'pending']
+         `INSERT INTO orders (user_id, table_id, subtotal, discount_total, service_charge, service_charge_rate, tax_total, total, promotion_id, promo_code, status)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+          RETURNING *`,
+         [
+           userId,
+           tableId,
+           fromCents(breakdown.subtotal),
+           fromCents(breakdown.discount),
+           fromCents(breakdown.serviceCharge),
+           serviceChargeRate,
+           fromCents(breakdown.tax),
+           fromCents(breakdown.total),
+           promotion?.id ?? null,
+           promotion?.code ?? null,
+           'pending',
+         ]
        );
        const order = orderResult.rows[0];
+       if (promotion) {
+         await redeemPromotion(client, promotion.id!);
+       }
 
-       const itemParams = [order.id, ...itemValues.flat()];
-       const itemResult = await client.query(itemQuery, itemParams);
-       const items = itemResult.rows;
+       const items: IOrderItem[] = [];
+       for (const [index, line] of lines.entries()) {
+         const priced = breakdown.lines[index];
+         const itemResult = await client.query(
+           `INSERT INTO order_items (order_id, product_id, quantity, price_at_time, station_id, subtotal, discount, service_charge, tax_rate, tax, line_total)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+            RETURNING id, order_id, product_id, quantity, price_at_time, station_id, prep_status, queued_at,
+                      subtotal, discount, service_charge, tax_rate, tax, line_total`,
+           [
+             order.id,
+             line.product_id,
+             line.quantity,
+             products.get(line.product_id)!.price,
+             products.get(line.product_id)!.station_id,
+             fromCents(priced.subtotal),
+             fromCents(priced.discount),
+             fromCents(priced.serviceCharge),
+             taxRates[index],
+             fromCents(priced.tax),
+             fromCents(priced.total),
+           ]
+         );
+         const item: IOrderItem = itemResult.rows[0];
+
+         const itemModifiers: IOrderItemModifier[] = [];
+         for (const id of line.modifier_ids) {
+           const modifier = modifiers.get(id)!;
+           const modifierInsert = await client.query(
+             `INSERT INTO order_item_modifiers (order_item_id, modifier_id, name, price_delta) VALUES ($1, $2, $3, $4)
+              RETURNING *`,
+             [item.id, id, modifier.name, modifier.price_delta]
+           );
+           itemModifiers.push(modifierInsert.rows[0]);
+         }
+         items.push({ ...item, modifiers: itemModifiers });
+       }
+
+       for (const id of productIds.filter((productId) => !ingredientPlan.recipes.has(productId))) {
+         await recordStockMovement(client, { product_id: id, kind: 'sale', quantity: -quantities.get(id)!, order_id: order.id, user_id: userId });
+       }
+       await consumeIngredients(client, ingredientPlan, order.id, userId);
+
+       await client.query(
+         'INSERT INTO order_status_history (order_id, from_status, to_status, changed_by) VALUES ($1, NULL, $2, $3)',
+         [order.id, 'pending', userId]
+       );
+       await publishEvent(client, { type: 'order.created', order_id: order.id, user_id: userId, status: 'pending', table_id: tableId });
+       await recordAudit(client, {
+         actor_id: userId,
+         action: 'create',
+         entity_type: 'order',
+         entity_id: order.id,
+         after: {
+           ...order,
+           order_items: items.map((item) => ({
+             product_id: item.product_id,
+             quantity: item.quantity,
+             line_total: item.line_total,
+             modifier_ids: item.modifiers?.map((modifier) => modifier.modifier_id),
+           })),
+         },
+       });
 
        await client.query('COMMIT');
-       return { ...order, order_items: items };
+       return { ...order, table_number: tableNumber, order_items: items };
      } catch (error) {
        await client.query('ROLLBACK');
-       console.error('Error in createOrder:', error);
+       if (
+         error instanceof InsufficientStockError
+         || error instanceof UnknownProductsError
+         || error instanceof InvalidModifiersError
+         || error instanceof UnknownTableError
+         || error instanceof TableUnavailableError
+         || error instanceof PromoCodeNotApplicableError
+       ) {
+         throw error;
+       }
+       logger.error('Error in createOrder', { error });
        throw new Error('Failed to create order');
      } finally {
        client.release();
@@ -55,9 +700,12 @@ import pool from '../config/db';
    export const getAllOrdersWithDetails = async (userId: number): Promise<IOrder[]> => {
      try {
        const result = await pool.query(
-         `SELECT o.id, o.user_id, o.total, o.status, o.created_at,
-                oi.id AS item_id, oi.product_id, oi.quantity, oi.price_at_time
+         `SELECT o.id, o.user_id, o.table_id, t.number AS table_number, o.subtotal, o.discount_total, o.service_charge,
+                o.service_charge_rate, o.tax_total, o.total, o.promo_code, o.status, o.created_at,
+                oi.id AS item_id, oi.product_id, oi.quantity, oi.price_at_time, oi.subtotal AS item_subtotal,
+                oi.discount AS item_discount, oi.service_charge AS item_service_charge, oi.tax_rate, oi.tax, oi.line_total
           FROM orders o
+          LEFT JOIN tables t ON t.id = o.table_id
           LEFT JOIN order_items oi ON o.id = oi.order_id
           WHERE o.user_id = $1`,
          [userId]
@@ -68,7 +716,15 @@ import pool from '../config/db';
            ordersMap[row.id] = {
              id: row.id,
              user_id: row.user_id,
+             table_id: row.table_id,
+             table_number: row.table_number,
+             subtotal: row.subtotal,
+             discount_total: row.discount_total,
+             service_charge: row.service_charge,
+             service_charge_rate: row.service_charge_rate,
+             tax_total: row.tax_total,
              total: row.total,
+             promo_code: row.promo_code,
              status: row.status,
              created_at: row.created_at,
              order_items: [],
@@ -81,12 +737,218 @@ import pool from '../config/db';
              product_id: row.product_id,
              quantity: row.quantity,
              price_at_time: row.price_at_time,
+             subtotal: row.item_subtotal,
+             discount: row.item_discount,
+             service_charge: row.item_service_charge,
+             tax_rate: row.tax_rate,
+             tax: row.tax,
+             line_total: row.line_total,
            });
          }
        });
-       return Object.values(ordersMap);
+       const orders = Object.values(ordersMap);
+       const items = await withItemModifiers(pool, orders.flatMap((order) => order.order_items));
+       return orders.map((order) => ({
+         ...order,
+         order_items: items.filter((item) => item.order_id === order.id),
+       }));
      } catch (error) {
-       console.error('Error in getAllOrdersWithDetails:', error);
+       logger.error('Error in getAllOrdersWithDetails', { error });
        throw new Error('Failed to fetch orders');
      }
-   };
\ No newline at end of file
+   };
+
+  /**
+   * Retrieves a page of orders from every waiter, newest first, with the waiter's username
+   * and the order items included. Intended for the restaurant-wide admin view.
+   *
+   * @param query - The pagination options and filters. `status` matches any of the given statuses, `tableId` the table,
+   *                `waiter` matches the username case-insensitively, and `from`/`to` bound `created_at` (inclusive).
+   * @returns A promise that resolves to the page of orders and its pagination metadata.
+   * @throws Will throw an error if the query fails.
+   */
+
+   export const getAllOrders = async (query: IOrderQuery): Promise<IPaginated<IOrder>> => {
+     const conditions: string[] = [];
+     const params: unknown[] = [];
+     const addParam = (value: unknown) => {
+       params.push(value);
+       return `$${params.length}`;
+     };
+
+     if (query.status && query.status.length > 0) conditions.push(`o.status = ANY(${addParam(query.status)}::text[])`);
+     if (query.tableId !== undefined) conditions.push(`o.table_id = ${addParam(query.tableId)}`);
+     if (query.waiterId !== undefined) conditions.push(`o.user_id = ${addParam(query.waiterId)}`);
+     if (query.waiter) conditions.push(`LOWER(u.username) = LOWER(${addParam(query.waiter)})`);
+     if (query.from) conditions.push(`o.created_at >= ${addParam(query.from)}`);
+     if (query.to) conditions.push(`o.created_at <= ${addParam(query.to)}`);
+     if (query.minTotal !== undefined) conditions.push(`o.total >= ${addParam(query.minTotal)}`);
+     if (query.maxTotal !== undefined) conditions.push(`o.total <= ${addParam(query.maxTotal)}`);
+
+     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+     const filterParams = [...params];
+     const limitParam = addParam(query.limit);
+     const offsetParam = addParam((query.page - 1) * query.limit);
+
+     try {
+       const [countResult, orderResult] = await Promise.all([
+         pool.query(`SELECT COUNT(*)::int AS total FROM orders o JOIN users u ON u.id = o.user_id ${whereClause}`, filterParams),
+         pool.query(
+           `SELECT o.id, o.user_id, o.table_id, t.number AS table_number, o.subtotal, o.discount_total, o.service_charge,
+                   o.service_charge_rate, o.tax_total, o.total, o.promo_code, o.status, o.created_at, u.username
+            FROM orders o
+            JOIN users u ON u.id = o.user_id
+            LEFT JOIN tables t ON t.id = o.table_id
+            ${whereClause}
+            ORDER BY o.created_at DESC, o.id DESC
+            LIMIT ${limitParam} OFFSET ${offsetParam}`,
+           params
+         ),
+       ]);
+
+       const orderIds = orderResult.rows.map((row) => row.id);
+       const itemResult = orderIds.length > 0
+         ? await pool.query(
+           `SELECT id, order_id, product_id, quantity, price_at_time, subtotal, discount, service_charge, tax_rate, tax, line_total
+            FROM order_items WHERE order_id = ANY($1::int[]) ORDER BY id`,
+           [orderIds]
+         )
+         : { rows: [] as IOrderItem[] };
+       const items = await withItemModifiers(pool, itemResult.rows);
+
+       const total: number = countResult.rows[0].total;
+       return {
+         data: orderResult.rows.map((row) => ({
+           ...row,
+           order_items: items.filter((item) => item.order_id === row.id),
+         })),
+         pagination: {
+           page: query.page,
+           limit: query.limit,
+           total,
+           totalPages: Math.ceil(total / query.limit),
+           nextCursor: null,
+         },
+       };
+     } catch (error) {
+       logger.error('Error in getAllOrders', { error });
+       throw new Error('Failed to fetch orders');
+     }
+   };
+
+  /**
+   * Moves an order to a new status, enforcing the order state machine and recording
+   * the change in `order_status_history`. Cancelling an order returns its items to stock, and
+   * completing or cancelling the last open order of a table marks the table `free` (see
+   * `applyOrderStatusChange`). An order can only be completed once it has been fully paid, and
+   * can only be cancelled while it has received no payments.
+   *
+   * The order row is locked (`SELECT ... FOR UPDATE`) for the duration of the transaction
+   * so that concurrent status changes are applied one after the other.
+   *
+   * @param orderId - The ID of the order to update.
+   * @param status - The status the order should move to.
+   * @param userId - The ID of the user performing the change.
+   * @returns A promise that resolves to the updated order, or `null` if the order does not exist.
+   *
+   * @throws {OrderStatusTransitionError} If the transition is not allowed from the current status.
+   * @throws {OrderNotPaidError} If the order is being completed with an outstanding balance.
+   * @throws {OrderHasPaymentsError} If the order is being cancelled after receiving payments.
+   * @throws Will throw a generic error if the update fails for any other reason.
+   */
+
+   export const updateOrderStatus = async (orderId: number, status: OrderStatus, userId: number): Promise<IOrder | null> => {
+     const client = await pool.connect();
+     try {
+       await client.query('BEGIN');
+
+       const currentResult = await client.query('SELECT id, user_id, status FROM orders WHERE id = $1 FOR UPDATE', [orderId]);
+       if (currentResult.rows.length === 0) {
+         await client.query('ROLLBACK');
+         return null;
+       }
+
+       const currentStatus: OrderStatus = currentResult.rows[0].status;
+       if (!canTransitionOrderStatus(currentStatus, status)) {
+         throw new OrderStatusTransitionError(currentStatus, status);
+       }
+
+       if (status === 'completed') {
+         const balance = await getOutstandingBalance(client, orderId);
+         if (Number(balance) > 0) {
+           throw new OrderNotPaidError(orderId, balance);
+         }
+       }
+
+       if (status === 'cancelled') {
+         const paidResult = await client.query(
+           'SELECT COUNT(*)::int AS payments, COALESCE(SUM(amount), 0) AS paid FROM payments WHERE order_id = $1',
+           [orderId]
+         );
+         if (paidResult.rows[0].payments > 0) {
+           throw new OrderHasPaymentsError(orderId, paidResult.rows[0].paid);
+         }
+       }
+
+       const order = await applyOrderStatusChange(client, currentResult.rows[0], status, userId);
+
+       const itemResult = await client.query(
+         'SELECT id, order_id, product_id, quantity, price_at_time FROM order_items WHERE order_id = $1',
+         [orderId]
+       );
+
+       const items = await withItemModifiers(client, itemResult.rows);
+
+       await client.query('COMMIT');
+       return { ...order, order_items: items };
+     } catch (error) {
+       await client.query('ROLLBACK');
+       if (error instanceof OrderStatusTransitionError || error instanceof OrderNotPaidError || error instanceof OrderHasPaymentsError) {
+         throw error;
+       }
+       logger.error('Error in updateOrderStatus', { error });
+       throw new Error('Failed to update order status');
+     } finally {
+       client.release();
+     }
+   };
+
+  /**
+   * Retrieves the ID of the user who created an order, to check who may act on it.
+   *
+   * @param orderId - The ID of the order.
+   * @returns A promise that resolves to the owner's ID (`null` if their user was deleted), or
+   *          `undefined` if the order does not exist.
+   * @throws Will throw an error if the query fails.
+   */
+
+   export const getOrderOwnerId = async (orderId: number): Promise<number | null | undefined> => {
+     try {
+       const result = await pool.query('SELECT user_id FROM orders WHERE id = $1', [orderId]);
+       return result.rows.length === 0 ? undefined : result.rows[0].user_id;
+     } catch (error) {
+       logger.error('Error in getOrderOwnerId', { error });
+       throw new Error('Failed to fetch order owner');
+     }
+   };
+
+  /**
+   * Retrieves the status history of an order, oldest change first.
+   *
+   * @param orderId - The ID of the order.
+   * @returns A promise that resolves to the list of recorded status changes.
+   * @throws Will throw an error if the query fails.
+   */
+
+   export const getOrderStatusHistory = async (orderId: number): Promise<IOrderStatusHistory[]> => {
+     try {
+       const result = await pool.query(
+         'SELECT * FROM order_status_history WHERE order_id = $1 ORDER BY changed_at ASC, id ASC',
+         [orderId]
+       );
+       return result.rows;
+     } catch (error) {
+       logger.error('Error in getOrderStatusHistory', { error });
+       throw new Error('Failed to fetch order status history');
+     }
+   };
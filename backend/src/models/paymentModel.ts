@@ -0,0 +1,443 @@
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { Pool, PoolClient } from 'pg';
+import { IOrderBalance, IPayment, IPaymentItem, OrderStatus } from '../types';
+import { PaymentInput } from '@oceans/shared';
+import { applyOrderStatusChange, getOutstandingBalance } from './orderModel';
+import { getCardProvider } from '../payments/cardProvider';
+import { fromCents, toCents } from '../utils/money';
+
+/**
+ * Statuses of the orders that can no longer receive payments.
+ */
+
+const CLOSED_ORDER_STATUSES: OrderStatus[] = ['completed', 'cancelled'];
+
+/**
+ * Error thrown when paying an order that is already completed or cancelled.
+ */
+
+export class OrderNotPayableError extends Error {
+  constructor(public orderId: number, public orderStatus: OrderStatus) {
+    super(`Order ${orderId} is ${orderStatus} and cannot receive payments`);
+    this.name = 'OrderNotPayableError';
+  }
+}
+
+/**
+ * Error thrown when a payment is larger than what is left to pay of the order.
+ */
+
+export class PaymentExceedsBalanceError extends Error {
+  constructor(public orderId: number, public balance: string, public amount: string) {
+    super(Number(balance) > 0
+      ? `Payment of ${amount} exceeds the outstanding balance of ${balance}`
+      : `Order ${orderId} is already fully paid`);
+    this.name = 'PaymentExceedsBalanceError';
+  }
+}
+
+/**
+ * Error thrown when a payment split by item references items that are not part of the order
+ * or units that have already been paid. `problems` lists every offending item.
+ */
+
+export class InvalidPaymentItemsError extends Error {
+  constructor(public problems: { order_item_id: number; message: string }[]) {
+    super('Invalid items for this payment');
+    this.name = 'InvalidPaymentItemsError';
+  }
+}
+
+/**
+ * Error thrown when the cash handed over does not cover the payment and its tip.
+ */
+
+export class InsufficientTenderedError extends Error {
+  constructor(public required: string) {
+    super(`The cash tendered must be at least ${required}`);
+    this.name = 'InsufficientTenderedError';
+  }
+}
+
+/**
+ * Error thrown when the card provider declines a charge. Nothing is recorded.
+ */
+
+export class CardDeclinedError extends Error {
+  constructor(public reason: string) {
+    super(`Card declined: ${reason}`);
+    this.name = 'CardDeclinedError';
+  }
+}
+
+/**
+ * Error thrown when an order changes while its card payment is being charged (another payment
+ * or a cancellation), so the charged amount no longer applies. The charge is refunded.
+ */
+
+export class PaymentConflictError extends Error {
+  constructor(public orderId: number) {
+    super(`Order ${orderId} changed while the card was being charged; the charge was refunded, retry the payment`);
+    this.name = 'PaymentConflictError';
+  }
+}
+
+/**
+ * Loads every item of an order with its `line_total` (discount, service charge and tax
+ * included), the resulting price of one unit, and the units and amount already paid by item.
+ */
+
+const getPayableItems = async (db: Pool | PoolClient, orderId: number) => {
+  const result = await db.query(
+    `SELECT oi.id AS order_item_id, p.name AS product_name, oi.quantity,
+            ROUND(oi.line_total / oi.quantity, 2) AS unit_price, oi.line_total,
+            COALESCE((SELECT SUM(pi.quantity) FROM payment_items pi WHERE pi.order_item_id = oi.id), 0)::int AS paid_quantity,
+            COALESCE((SELECT SUM(pi.amount) FROM payment_items pi WHERE pi.order_item_id = oi.id), 0) AS paid_amount
+     FROM order_items oi
+     JOIN products p ON p.id = oi.product_id
+     WHERE oi.order_id = $1
+     ORDER BY oi.id`,
+    [orderId]
+  );
+  return result.rows as IOrderBalance['items'];
+};
+
+/**
+ * Refunds a card charge that was approved for a payment that could not be recorded, so the
+ * customer is not charged for nothing. A failed refund is logged with the provider's reference
+ * for manual follow-up, without hiding the error that made the payment fail.
+ */
+
+const refundUncommittedCharge = async (orderId: number, charge: { amount: number; reference: string }) => {
+  const cardProvider = getCardProvider();
+  try {
+    await cardProvider.refund(charge);
+    logger.warn('Card charge refunded after the payment could not be recorded', { orderId, provider: cardProvider.name, ...charge });
+  } catch (error) {
+    logger.error('Could not refund a card charge for a payment that was not recorded', {
+      error,
+      orderId,
+      provider: cardProvider.name,
+      ...charge,
+    });
+  }
+};
+
+/**
+ * A payment worked out against the current state of an order, ready to be charged and stored.
+ */
+
+interface PaymentPlan {
+  order: { id: number; user_id: number; status: OrderStatus };
+  balanceCents: number;
+  amountCents: number;
+  tipCents: number;
+  changeCents: number;
+  paidItems: { order_item_id: number; quantity: number; amountCents: number }[];
+}
+
+/**
+ * Locks an order inside the caller's transaction and works out a payment towards it: the
+ * amount taken off the balance according to `split`, the tip and the change.
+ *
+ * @returns The payment plan, or `null` if the order does not exist.
+ * @throws {OrderNotPayableError} If the order is completed or cancelled.
+ * @throws {InvalidPaymentItemsError} If a split by item references unknown or already paid units.
+ * @throws {PaymentExceedsBalanceError} If the payment is larger than the outstanding balance.
+ * @throws {InsufficientTenderedError} If the cash tendered does not cover the payment and tip.
+ */
+
+const planPayment = async (client: PoolClient, orderId: number, input: PaymentInput): Promise<PaymentPlan | null> => {
+  const orderResult = await client.query('SELECT id, user_id, status FROM orders WHERE id = $1 FOR UPDATE', [orderId]);
+  if (orderResult.rows.length === 0) {
+    return null;
+  }
+  const order: PaymentPlan['order'] = orderResult.rows[0];
+  if (CLOSED_ORDER_STATUSES.includes(order.status)) {
+    throw new OrderNotPayableError(orderId, order.status);
+  }
+
+  const balanceCents = toCents(await getOutstandingBalance(client, orderId));
+
+  let amountCents: number;
+  const paidItems: PaymentPlan['paidItems'] = [];
+  if (input.split === 'amount') {
+    amountCents = toCents(input.amount);
+  } else if (input.split === 'even') {
+    amountCents = Math.round(balanceCents / input.ways);
+  } else {
+    const requested = new Map<number, number>();
+    input.items.forEach((item) => requested.set(item.order_item_id, (requested.get(item.order_item_id) || 0) + item.quantity));
+
+    const orderItems = new Map((await getPayableItems(client, orderId)).map((item) => [item.order_item_id, item]));
+    const problems: { order_item_id: number; message: string }[] = [];
+    requested.forEach((quantity, id) => {
+      const item = orderItems.get(id);
+      if (!item) {
+        problems.push({ order_item_id: id, message: `Item ${id} is not part of order ${orderId}` });
+      } else if (quantity > item.quantity - item.paid_quantity) {
+        problems.push({ order_item_id: id, message: `Only ${item.quantity - item.paid_quantity} unit(s) of item ${id} are left to pay` });
+      } else {
+        // The last units pay whatever is left of the line, so rounding never leaves a cent behind.
+        const amount = quantity === item.quantity - item.paid_quantity
+          ? toCents(item.line_total) - toCents(item.paid_amount)
+          : Math.round((toCents(item.line_total) * quantity) / item.quantity);
+        paidItems.push({ order_item_id: id, quantity, amountCents: amount });
+      }
+    });
+    if (problems.length > 0) {
+      throw new InvalidPaymentItemsError(problems);
+    }
+    amountCents = paidItems.reduce((sum, item) => sum + item.amountCents, 0);
+  }
+
+  if (amountCents <= 0 || amountCents > balanceCents) {
+    throw new PaymentExceedsBalanceError(orderId, fromCents(balanceCents), fromCents(amountCents));
+  }
+
+  const tipCents = toCents(input.tip);
+  let changeCents = 0;
+  if (input.tendered !== undefined) {
+    changeCents = toCents(input.tendered) - amountCents - tipCents;
+    if (changeCents < 0) {
+      throw new InsufficientTenderedError(fromCents(amountCents + tipCents));
+    }
+  }
+
+  return { order, balanceCents, amountCents, tipCents, changeCents, paidItems };
+};
+
+/**
+ * Works out a payment towards an order in a transaction of its own that is rolled back, so the
+ * order is only locked while it is checked.
+ *
+ * @returns The payment plan, or `null` if the order does not exist.
+ * @throws The errors of `planPayment`, or a generic error if the check fails for any other reason.
+ */
+
+const checkPayment = async (orderId: number, input: PaymentInput): Promise<PaymentPlan | null> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    return await planPayment(client, orderId, input);
+  } catch (error) {
+    if (
+      error instanceof OrderNotPayableError
+      || error instanceof PaymentExceedsBalanceError
+      || error instanceof InvalidPaymentItemsError
+      || error instanceof InsufficientTenderedError
+    ) {
+      throw error;
+    }
+    logger.error('Error in checkPayment', { error });
+    throw new Error('Failed to check payment');
+  } finally {
+    await client.query('ROLLBACK').catch(() => undefined);
+    client.release();
+  }
+};
+
+/**
+ * Records a payment towards an order.
+ *
+ * The amount taken off the balance depends on `split` (see `paymentSchema`): the given
+ * `amount`, the share of the given item units in their lines' totals (discount, service charge
+ * and tax included), or one of `ways` equal shares of the current balance. It can never
+ * exceed the balance. The `tip` is charged on top and, for cash, the change is computed from
+ * `tendered`.
+ *
+ * The payment is stored in a transaction that locks the order row, so concurrent payments of
+ * the same order are applied one after the other and can never overpay it. When a payment
+ * settles a `served` order, the order is completed in the same transaction; orders paid
+ * earlier are completed by the regular status change.
+ *
+ * Card payments are charged through the configured card provider (`getCardProvider`) without
+ * holding the lock, so a slow provider does not block the order: the payment is checked
+ * first, then charged, then checked again and stored. If the order changed in between so that
+ * the charged amount no longer applies, or the payment cannot be stored for any other reason,
+ * the charge is refunded through the same provider.
+ *
+ * @param orderId - The ID of the order being paid.
+ * @param input - The payment, validated against `paymentSchema`.
+ * @param userId - The ID of the user recording the payment.
+ * @returns A promise that resolves to the payment with the resulting `balance`, `change` and
+ *          `order_status`, or `null` if the order does not exist.
+ *
+ * @throws {OrderNotPayableError} If the order is completed or cancelled.
+ * @throws {InvalidPaymentItemsError} If a split by item references unknown or already paid units.
+ * @throws {PaymentExceedsBalanceError} If the payment is larger than the outstanding balance.
+ * @throws {InsufficientTenderedError} If the cash tendered does not cover the payment and tip.
+ * @throws {CardDeclinedError} If the card provider declines the charge.
+ * @throws {PaymentConflictError} If the order changed while the card was being charged.
+ * @throws Will throw a generic error if the payment fails for any other reason.
+ */
+
+export const createPayment = async (
+  orderId: number,
+  input: PaymentInput,
+  userId: number
+): Promise<(IPayment & { balance: string; order_status: OrderStatus }) | null> => {
+  let provider: string | null = null;
+  let providerReference: string | null = null;
+  // An approved card charge that must be refunded unless the payment is stored.
+  let uncommittedCharge: { amount: number; reference: string } | null = null;
+
+  if (input.method === 'card') {
+    const checked = await checkPayment(orderId, input);
+    if (!checked) {
+      return null;
+    }
+    try {
+      const cardProvider = getCardProvider();
+      const chargeAmount = (checked.amountCents + checked.tipCents) / 100;
+      const charge = await cardProvider.charge({
+        amount: chargeAmount,
+        token: input.card_token,
+        reference: `order-${orderId}`,
+      });
+      if (!charge.approved) {
+        throw new CardDeclinedError(charge.reason);
+      }
+      uncommittedCharge = { amount: chargeAmount, reference: charge.reference };
+      provider = cardProvider.name;
+      providerReference = charge.reference;
+    } catch (error) {
+      if (error instanceof CardDeclinedError) {
+        throw error;
+      }
+      logger.error('Error in createPayment', { error });
+      throw new Error('Failed to create payment');
+    }
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const plan = await planPayment(client, orderId, input);
+    if (!plan) {
+      if (uncommittedCharge) {
+        throw new PaymentConflictError(orderId);
+      }
+      await client.query('ROLLBACK');
+      return null;
+    }
+    const { order, balanceCents, amountCents, tipCents, changeCents, paidItems } = plan;
+    if (uncommittedCharge && toCents(uncommittedCharge.amount) !== amountCents + tipCents) {
+      throw new PaymentConflictError(orderId);
+    }
+
+    const paymentResult = await client.query(
+      `INSERT INTO payments (order_id, method, split, amount, tip, tendered, change_given, provider, provider_reference, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *`,
+      [
+        orderId,
+        input.method,
+        input.split,
+        fromCents(amountCents),
+        fromCents(tipCents),
+        input.tendered ?? null,
+        fromCents(changeCents),
+        provider,
+        providerReference,
+        userId,
+      ]
+    );
+    const payment: IPayment = paymentResult.rows[0];
+
+    const items: IPaymentItem[] = [];
+    for (const item of paidItems) {
+      const itemResult = await client.query(
+        'INSERT INTO payment_items (payment_id, order_item_id, quantity, amount) VALUES ($1, $2, $3, $4) RETURNING order_item_id, quantity, amount',
+        [payment.id, item.order_item_id, item.quantity, fromCents(item.amountCents)]
+      );
+      items.push(itemResult.rows[0]);
+    }
+
+    const remainingCents = balanceCents - amountCents;
+    let orderStatus = order.status;
+    if (remainingCents === 0 && order.status === 'served') {
+      await applyOrderStatusChange(client, order, 'completed', userId);
+      orderStatus = 'completed';
+    }
+
+    await client.query('COMMIT');
+    uncommittedCharge = null;
+    return { ...payment, items, balance: fromCents(remainingCents), order_status: orderStatus };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (uncommittedCharge) {
+      await refundUncommittedCharge(orderId, uncommittedCharge);
+    }
+    if (
+      error instanceof OrderNotPayableError
+      || error instanceof PaymentExceedsBalanceError
+      || error instanceof InvalidPaymentItemsError
+      || error instanceof InsufficientTenderedError
+      || error instanceof CardDeclinedError
+      || error instanceof PaymentConflictError
+    ) {
+      throw error;
+    }
+    logger.error('Error in createPayment', { error });
+    throw new Error('Failed to create payment');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Retrieves what has been paid of an order and what is left: the totals, every payment with
+ * the items it covered, and how many units of each item have been paid by item.
+ *
+ * @param orderId - The ID of the order.
+ * @returns A promise that resolves to the order's balance, or `undefined` if it does not exist.
+ * @throws An error if the query fails.
+ */
+
+export const getOrderBalance = async (orderId: number): Promise<IOrderBalance | undefined> => {
+  try {
+    const orderResult = await pool.query('SELECT id, status, total FROM orders WHERE id = $1', [orderId]);
+    if (orderResult.rows.length === 0) {
+      return undefined;
+    }
+    const order = orderResult.rows[0];
+
+    const [paymentResult, paymentItemResult, items] = await Promise.all([
+      pool.query('SELECT * FROM payments WHERE order_id = $1 ORDER BY created_at, id', [orderId]),
+      pool.query(
+        `SELECT pi.payment_id, pi.order_item_id, pi.quantity, pi.amount
+         FROM payment_items pi
+         JOIN payments p ON p.id = pi.payment_id
+         WHERE p.order_id = $1`,
+        [orderId]
+      ),
+      getPayableItems(pool, orderId),
+    ]);
+
+    const payments: IPayment[] = paymentResult.rows.map((payment) => ({
+      ...payment,
+      items: paymentItemResult.rows
+        .filter((item) => item.payment_id === payment.id)
+        .map(({ payment_id, ...item }) => item),
+    }));
+    const paidCents = payments.reduce((sum, payment) => sum + toCents(payment.amount), 0);
+    const tipCents = payments.reduce((sum, payment) => sum + toCents(payment.tip), 0);
+
+    return {
+      order_id: order.id,
+      status: order.status,
+      total: order.total,
+      paid: fromCents(paidCents),
+      tips: fromCents(tipCents),
+      balance: fromCents(toCents(order.total) - paidCents),
+      items,
+      payments,
+    };
+  } catch (error) {
+    logger.error('Error in getOrderBalance', { error });
+    throw new Error('Failed to fetch order balance');
+  }
+};
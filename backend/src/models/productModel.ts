@@ -1,19 +1,202 @@
 import pool from '../config/db';
-import { IProduct } from '../types';
+import logger from '../utils/logger';
+import { IProduct, IProductQuery, IPaginated, ProductSortKey } from '../types';
+import { UnknownCategoryError } from './categoryModel';
+import { UnknownStationError } from './kitchenModel';
+import { recordStockMovement } from './inventoryModel';
+import { auditDiff, recordAudit } from './auditModel';
 
 /**
- * Retrieves all products from the database.
+ * Column type of each sortable product column, used to cast cursor values.
+ */
+
+const SORT_COLUMN_TYPES: Record<ProductSortKey, string> = {
+  id: 'int',
+  name: 'text',
+  price: 'numeric',
+  stock: 'int',
+  created_at: 'timestamp',
+};
+
+/**
+ * The products joined with `product_availability` (as `pa`), which adds how many units of
+ * each can be sold (`available`: from its ingredients if it has a recipe, otherwise its
+ * stock) and whether it has a recipe (`has_recipe`).
+ */
+
+const PRODUCTS_WITH_AVAILABILITY = 'products JOIN product_availability pa ON pa.product_id = products.id';
+
+/**
+ * Error thrown when a product is updated with an `If-Match` precondition that does not match
+ * its current `ETag`, i.e. it was changed since the client read it.
+ */
+
+export class ProductVersionMismatchError extends Error {
+  constructor(public etag: string) {
+    super('Product was modified since it was read');
+    this.name = 'ProductVersionMismatchError';
+  }
+}
+
+/**
+ * Builds the `ETag` of a product from its `version` and its `available` units. The latter is
+ * included because it can change with the stock of the ingredients of its recipe, which does
+ * not write to the product.
+ *
+ * @param product - A product read with its `version` and `available` units.
+ * @returns The strong entity tag, quotes included.
+ */
+
+export const productETag = (product: Pick<IProduct, 'version' | 'available'>): string =>
+  `"${product.version}-${product.available}"`;
+
+/**
+ * Error thrown when a pagination cursor cannot be decoded.
+ */
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid pagination cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Whether a database error is a violation of the `products.category_id` foreign key.
+ */
+
+const isUnknownCategory = (error: unknown) => {
+  const { code, constraint } = error as { code?: string; constraint?: string };
+  return code === '23503' && constraint === 'products_category_id_fkey';
+};
+
+/**
+ * Whether a database error is a violation of the `products.station_id` foreign key.
+ */
+
+const isUnknownStation = (error: unknown) => {
+  const { code, constraint } = error as { code?: string; constraint?: string };
+  return code === '23503' && constraint === 'products_station_id_fkey';
+};
+
+/**
+ * Encodes a position in a sorted listing as an opaque cursor. `sortValue` is the text
+ * form of the sort column as returned by Postgres, so it casts back without loss.
+ */
+
+const encodeCursor = (sortValue: string, id: number): string =>
+  Buffer.from(JSON.stringify([sortValue, id])).toString('base64url');
+
+/**
+ * Decodes a cursor produced by `encodeCursor` into its `[sortValue, id]` pair.
  *
- * @returns {Promise<IProduct[]>} A promise that resolves to an array of products.
+ * @throws {InvalidCursorError} If the cursor is malformed.
+ */
+
+const decodeCursor = (cursor: string): [string, number] => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!Array.isArray(decoded) || typeof decoded[0] !== 'string' || !Number.isInteger(decoded[1])) {
+      throw new InvalidCursorError();
+    }
+    return [decoded[0], decoded[1]];
+  } catch {
+    throw new InvalidCursorError();
+  }
+};
+
+/**
+ * Retrieves a page of active (non-archived) products matching the given filters.
+ *
+ * Results are ordered by `query.sort`/`query.order`, with the product ID as a tie-breaker.
+ * When `query.cursor` is set, keyset pagination is used and `query.page` is ignored;
+ * otherwise the page is selected with `LIMIT`/`OFFSET`. Either way the response includes
+ * a `nextCursor` that can be used to fetch the following page. Each product carries
+ * `has_modifiers`, so clients know when to ask for its modifier groups, and its
+ * `available` units (see `PRODUCTS_WITH_AVAILABILITY`); `inStock` filters on the latter.
+ *
+ * @param query - The pagination, sorting and filtering options.
+ * @returns {Promise<IPaginated<IProduct>>} A promise that resolves to the page of products and its pagination metadata.
+ * @throws {InvalidCursorError} If `query.cursor` is malformed.
  * @throws {Error} Throws an error if the query fails.
  */
 
-export const getAllProducts = async (): Promise<IProduct[]> => {
+export const getAllProducts = async (query: IProductQuery): Promise<IPaginated<IProduct>> => {
+  const conditions: string[] = ['archived_at IS NULL'];
+  const params: unknown[] = [];
+  const addParam = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  if (query.minPrice !== undefined) conditions.push(`price >= ${addParam(query.minPrice)}`);
+  if (query.maxPrice !== undefined) conditions.push(`price <= ${addParam(query.maxPrice)}`);
+  if (query.minStock !== undefined) conditions.push(`stock >= ${addParam(query.minStock)}`);
+  if (query.maxStock !== undefined) conditions.push(`stock <= ${addParam(query.maxStock)}`);
+  if (query.inStock !== undefined) conditions.push(query.inStock ? 'pa.available > 0' : 'pa.available <= 0');
+  if (query.q) {
+    const pattern = addParam(`%${query.q.replace(/[\\%_]/g, '\\$&')}%`);
+    conditions.push(`(name ILIKE ${pattern} OR description ILIKE ${pattern})`);
+  }
+  if (query.category !== undefined) {
+    conditions.push(`category_id IN (
+      WITH RECURSIVE subcategories AS (
+        SELECT id FROM categories WHERE id = ${addParam(query.category)}
+        UNION
+        SELECT c.id FROM categories c JOIN subcategories s ON c.parent_id = s.id
+      )
+      SELECT id FROM subcategories
+    )`);
+  }
+
+  const filterParams = [...params];
+  const filterClause = conditions.join(' AND ');
+
+  const pageConditions = [...conditions];
+  if (query.cursor) {
+    const [value, id] = decodeCursor(query.cursor);
+    const comparator = query.order === 'asc' ? '>' : '<';
+    pageConditions.push(
+      `(${query.sort}, id) ${comparator} (${addParam(value)}::${SORT_COLUMN_TYPES[query.sort]}, ${addParam(id)}::int)`
+    );
+  }
+
+  const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+  const offset = query.cursor ? 0 : (query.page - 1) * query.limit;
+  const limitParam = addParam(query.limit + 1);
+  const offsetParam = addParam(offset);
+
   try {
-    const result = await pool.query('SELECT * FROM products');
-    return result.rows;
+    const [countResult, result] = await Promise.all([
+      pool.query(`SELECT COUNT(*)::int AS total FROM ${PRODUCTS_WITH_AVAILABILITY} WHERE ${filterClause}`, filterParams),
+      pool.query(
+        `SELECT products.*, pa.available, pa.has_recipe, ${query.sort}::text AS cursor_value,
+                EXISTS (SELECT 1 FROM modifier_groups g WHERE g.product_id = products.id) AS has_modifiers
+         FROM ${PRODUCTS_WITH_AVAILABILITY} WHERE ${pageConditions.join(' AND ')}
+         ORDER BY ${query.sort} ${direction}, id ${direction}
+         LIMIT ${limitParam} OFFSET ${offsetParam}`,
+        params
+      ),
+    ]);
+
+    const total: number = countResult.rows[0].total;
+    const hasMore = result.rows.length > query.limit;
+    const rows = result.rows.slice(0, query.limit);
+    const data: IProduct[] = rows.map(({ cursor_value, ...product }) => product);
+    const last = rows[rows.length - 1];
+
+    return {
+      data,
+      pagination: {
+        page: query.cursor ? null : query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+        nextCursor: hasMore ? encodeCursor(last.cursor_value, last.id) : null,
+      },
+    };
   } catch (error) {
-    console.error('Error in getAllProducts:', error);
+    logger.error('Error in getAllProducts', { error });
     throw new Error('Failed to fetch products');
   }
 };
@@ -21,25 +204,284 @@ export const getAllProducts = async (): Promise<IProduct[]> => {
 /**
  * Creates a new product in the database.
  *
+ * The initial stock is not written directly: the product is created empty and, if `stock` is
+ * positive, a `restock` movement is recorded in the inventory ledger in the same transaction.
+ * The creation is recorded in the audit log.
+ *
  * @param product - The product object containing the details of the product to be created.
  * @param product.name - The name of the product.
  * @param product.description - A brief description of the product.
  * @param product.price - The price of the product.
- * @param product.stock - The stock quantity of the product.
+ * @param product.stock - The initial stock quantity of the product.
+ * @param product.reorder_threshold - The stock at or below which the product needs restocking, if any.
+ * @param product.category_id - The menu category of the product, if any.
+ * @param product.station_id - The kitchen station that prepares the product, if any.
+ * @param userId - The ID of the user creating the product, recorded on the initial stock movement and in the audit log.
  * @returns A promise that resolves to the created product object.
+ * @throws {UnknownCategoryError} If `category_id` does not reference an existing category.
+ * @throws {UnknownStationError} If `station_id` does not reference an existing station.
  * @throws An error if the product creation fails.
  */
 
-export const createProduct = async (product: IProduct): Promise<IProduct> => {
+export const createProduct = async (product: IProduct, userId: number): Promise<IProduct> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const { name, description, price, stock, reorder_threshold, category_id, station_id } = product;
+    const result = await client.query(
+      `INSERT INTO products (name, description, price, stock, reorder_threshold, category_id, station_id)
+       VALUES ($1, $2, $3, 0, $4, $5, $6) RETURNING *`,
+      [name, description, price, reorder_threshold ?? null, category_id ?? null, station_id ?? null]
+    );
+    const created: IProduct = result.rows[0];
+    if (stock > 0) {
+      const movement = await recordStockMovement(client, {
+        product_id: created.id!, kind: 'restock', quantity: stock, reason: 'Initial stock', user_id: userId,
+      });
+      created.stock = movement.stock_after;
+    }
+    await recordAudit(client, { actor_id: userId, action: 'create', entity_type: 'product', entity_id: created.id!, after: { ...created } });
+
+    await client.query('COMMIT');
+    return created;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (isUnknownCategory(error)) {
+      throw new UnknownCategoryError(product.category_id!);
+    }
+    if (isUnknownStation(error)) {
+      throw new UnknownStationError(product.station_id!);
+    }
+    logger.error('Error in createProduct', { error });
+    throw new Error('Failed to create product');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Retrieves all archived products, most recently archived first.
+ *
+ * @returns {Promise<IProduct[]>} A promise that resolves to an array of archived products.
+ * @throws {Error} Throws an error if the query fails.
+ */
+
+export const getArchivedProducts = async (): Promise<IProduct[]> => {
+  try {
+    const result = await pool.query('SELECT * FROM products WHERE archived_at IS NOT NULL ORDER BY archived_at DESC');
+    return result.rows;
+  } catch (error) {
+    logger.error('Error in getArchivedProducts', { error });
+    throw new Error('Failed to fetch archived products');
+  }
+};
+
+/**
+ * Retrieves a single active (non-archived) product by its ID, with its `available` units and
+ * whether it has a recipe.
+ *
+ * @param id - The ID of the product.
+ * @returns A promise that resolves to the product, or `undefined` if it does not exist or is archived.
+ * @throws An error if the query fails.
+ */
+
+export const getProductById = async (id: number): Promise<IProduct | undefined> => {
   try {
-    const { name, description, price, stock } = product;
     const result = await pool.query(
-      'INSERT INTO products (name, description, price, stock) VALUES ($1, $2, $3, $4) RETURNING *',
-      [name, description, price, stock]
+      `SELECT products.*, pa.available, pa.has_recipe FROM ${PRODUCTS_WITH_AVAILABILITY} WHERE id = $1 AND archived_at IS NULL`,
+      [id]
     );
     return result.rows[0];
   } catch (error) {
-    console.error('Error in createProduct:', error);
-    throw new Error('Failed to create product');
+    logger.error('Error in getProductById', { error });
+    throw new Error('Failed to fetch product');
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Updates the given fields of an active (non-archived) product, only if it still matches one
+ * of the entity tags in `ifMatch` (`*` matches any existing product).
+ *
+ * Only `name`, `description`, `price`, `stock`, `reorder_threshold`, `category_id` and
+ * `station_id` can be changed; any other key in `fields` is ignored. A new station only
+ * applies to orders placed from now on. A new `stock` is recorded in the inventory ledger as
+ * an `adjustment` for the difference, which publishes a `product.stock_changed` event. Every
+ * update that changes something increments the product's `version` and is recorded in the
+ * audit log with the fields it changed; an update that changes nothing writes nothing, so
+ * the product keeps its `ETag`.
+ *
+ * @param id - The ID of the product to update.
+ * @param fields - The product fields to change.
+ * @param userId - The ID of the user making the change, recorded on the stock adjustment and in the audit log.
+ * @param ifMatch - The entity tags of the `If-Match` header.
+ * @returns A promise that resolves to the updated product, with its `available` units and
+ *          whether it has a recipe, or `undefined` if it does not exist or is archived.
+ * @throws {ProductVersionMismatchError} If `ifMatch` does not match the current `ETag` of the product.
+ * @throws {UnknownCategoryError} If the new `category_id` does not reference an existing category.
+ * @throws {UnknownStationError} If the new `station_id` does not reference an existing station.
+ * @throws An error if the update fails for any other reason.
+ */
+
+export const updateProduct = async (
+  id: number,
+  fields: Partial<IProduct>,
+  userId: number,
+  ifMatch: string[]
+): Promise<IProduct | undefined> => {
+  const columns = (['name', 'description', 'price', 'reorder_threshold', 'category_id', 'station_id'] as const).filter((column) => fields[column] !== undefined);
+  if (columns.length === 0 && fields.stock === undefined && ifMatch.includes('*')) {
+    return getProductById(id);
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const currentResult = await client.query('SELECT * FROM products WHERE id = $1 AND archived_at IS NULL FOR UPDATE', [id]);
+    if (currentResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return undefined;
+    }
+
+    if (!ifMatch.includes('*')) {
+      const versionResult = await client.query(
+        `SELECT products.version, pa.available FROM ${PRODUCTS_WITH_AVAILABILITY} WHERE id = $1`,
+        [id]
+      );
+      const etag = productETag(versionResult.rows[0]);
+      if (!ifMatch.includes(etag)) {
+        throw new ProductVersionMismatchError(etag);
+      }
+    }
+
+    // Prices come back from the database as decimal strings.
+    const current = currentResult.rows[0];
+    const changedColumns = columns.filter((column) =>
+      column === 'price' ? Number(current.price) !== Number(fields.price) : current[column] !== fields[column]
+    );
+    const currentStock: number = current.stock;
+    const stockChanged = fields.stock !== undefined && fields.stock !== currentStock;
+    if (changedColumns.length === 0 && !stockChanged) {
+      const unchanged = await client.query(
+        `SELECT products.*, pa.available, pa.has_recipe FROM ${PRODUCTS_WITH_AVAILABILITY} WHERE id = $1`,
+        [id]
+      );
+      await client.query('COMMIT');
+      return unchanged.rows[0];
+    }
+
+    if (stockChanged) {
+      await recordStockMovement(client, {
+        product_id: id, kind: 'adjustment', quantity: fields.stock! - currentStock, reason: 'Set on product update', user_id: userId,
+      });
+    }
+
+    const assignments = [...changedColumns.map((column, index) => `${column} = $${index + 2}`), 'version = version + 1'].join(', ');
+    await client.query(`UPDATE products SET ${assignments} WHERE id = $1`, [id, ...changedColumns.map((column) => fields[column])]);
+    const result = await client.query(
+      `SELECT products.*, pa.available, pa.has_recipe FROM ${PRODUCTS_WITH_AVAILABILITY} WHERE id = $1`,
+      [id]
+    );
+    await recordAudit(client, {
+      actor_id: userId, action: 'update', entity_type: 'product', entity_id: id, ...auditDiff(currentResult.rows[0], result.rows[0]),
+    });
+
+    await client.query('COMMIT');
+    return result.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof ProductVersionMismatchError) {
+      throw error;
+    }
+    if (isUnknownCategory(error)) {
+      throw new UnknownCategoryError(fields.category_id!);
+    }
+    if (isUnknownStation(error)) {
+      throw new UnknownStationError(fields.station_id!);
+    }
+    logger.error('Error in updateProduct', { error });
+    throw new Error('Failed to update product');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Archives (soft-deletes) a product. Archived products are hidden from the menu and
+ * cannot be ordered, but remain referenced by historical order items.
+ *
+ * @param id - The ID of the product to archive.
+ * @param userId - The ID of the user archiving the product, recorded in the audit log.
+ * @returns A promise that resolves to the archived product, or `undefined` if it does not exist or is already archived.
+ * @throws An error if the update fails.
+ */
+
+export const archiveProduct = async (id: number, userId: number): Promise<IProduct | undefined> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const currentResult = await client.query('SELECT * FROM products WHERE id = $1 AND archived_at IS NULL FOR UPDATE', [id]);
+    if (currentResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return undefined;
+    }
+
+    const result = await client.query(
+      'UPDATE products SET archived_at = CURRENT_TIMESTAMP, version = version + 1 WHERE id = $1 RETURNING *',
+      [id]
+    );
+    await recordAudit(client, {
+      actor_id: userId, action: 'archive', entity_type: 'product', entity_id: id, ...auditDiff(currentResult.rows[0], result.rows[0]),
+    });
+
+    await client.query('COMMIT');
+    return result.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK');
+    logger.error('Error in archiveProduct', { error });
+    throw new Error('Failed to archive product');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Restores a previously archived product so it appears on the menu again.
+ *
+ * @param id - The ID of the product to restore.
+ * @param userId - The ID of the user restoring the product, recorded in the audit log.
+ * @returns A promise that resolves to the restored product, or `undefined` if it does not exist or is not archived.
+ * @throws An error if the update fails.
+ */
+
+export const restoreProduct = async (id: number, userId: number): Promise<IProduct | undefined> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const currentResult = await client.query('SELECT * FROM products WHERE id = $1 AND archived_at IS NOT NULL FOR UPDATE', [id]);
+    if (currentResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return undefined;
+    }
+
+    const result = await client.query(
+      'UPDATE products SET archived_at = NULL, version = version + 1 WHERE id = $1 RETURNING *',
+      [id]
+    );
+    await recordAudit(client, {
+      actor_id: userId, action: 'restore', entity_type: 'product', entity_id: id, ...auditDiff(currentResult.rows[0], result.rows[0]),
+    });
+
+    await client.query('COMMIT');
+    return result.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK');
+    logger.error('Error in restoreProduct', { error });
+    throw new Error('Failed to restore product');
+  } finally {
+    client.release();
+  }
+};
@@ -0,0 +1,240 @@
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { Pool, PoolClient } from 'pg';
+import { IPromotion } from '../types';
+
+/**
+ * Error thrown when a promotion is created or updated with a code that is already taken.
+ */
+
+export class DuplicatePromotionCodeError extends Error {
+  constructor(public code: string) {
+    super(`Promotion code "${code}" already exists`);
+    this.name = 'DuplicatePromotionCodeError';
+  }
+}
+
+/**
+ * Error thrown when an update leaves a promotion inconsistent: a percentage above 100, or a
+ * validity window that ends before it starts.
+ */
+
+export class InvalidPromotionError extends Error {
+  constructor(public promotionId: number) {
+    super(`Promotion ${promotionId} would have a percentage above 100 or end before it starts`);
+    this.name = 'InvalidPromotionError';
+  }
+}
+
+/**
+ * Why a promo code cannot be redeemed.
+ */
+
+export type PromoCodeRejection = 'unknown' | 'inactive' | 'not_started' | 'expired' | 'exhausted';
+
+/**
+ * Error thrown when an order is placed or quoted with a promo code that cannot be redeemed.
+ */
+
+export class PromoCodeNotApplicableError extends Error {
+  constructor(public code: string, public reason: PromoCodeRejection) {
+    super(`Promo code "${code}" cannot be applied: ${reason.replace('_', ' ')}`);
+    this.name = 'PromoCodeNotApplicableError';
+  }
+}
+
+/**
+ * Whether a database error is a violation of the given constraint (or, without `constraint`,
+ * of any constraint of that kind).
+ */
+
+const isConstraintViolation = (error: unknown, code: string, constraint?: string) => {
+  const details = error as { code?: string; constraint?: string };
+  return details.code === code && (constraint === undefined || details.constraint === constraint);
+};
+
+/**
+ * Retrieves every promotion, newest first.
+ *
+ * @returns A promise that resolves to the promotions.
+ * @throws An error if the query fails.
+ */
+
+export const getAllPromotions = async (): Promise<IPromotion[]> => {
+  try {
+    const result = await pool.query('SELECT * FROM promotions ORDER BY created_at DESC, id DESC');
+    return result.rows;
+  } catch (error) {
+    logger.error('Error in getAllPromotions', { error });
+    throw new Error('Failed to fetch promotions');
+  }
+};
+
+/**
+ * Retrieves a single promotion by its ID.
+ *
+ * @param id - The ID of the promotion.
+ * @returns A promise that resolves to the promotion, or `undefined` if it does not exist.
+ * @throws An error if the query fails.
+ */
+
+export const getPromotionById = async (id: number): Promise<IPromotion | undefined> => {
+  try {
+    const result = await pool.query('SELECT * FROM promotions WHERE id = $1', [id]);
+    return result.rows[0];
+  } catch (error) {
+    logger.error('Error in getPromotionById', { error });
+    throw new Error('Failed to fetch promotion');
+  }
+};
+
+/**
+ * Creates a new promotion. Promotions are active by default.
+ *
+ * @param promotion - The promotion to create, with its code already in upper case.
+ * @returns A promise that resolves to the created promotion.
+ * @throws {DuplicatePromotionCodeError} If another promotion already has the same code.
+ * @throws An error if the insert fails for any other reason.
+ */
+
+export const createPromotion = async (promotion: IPromotion): Promise<IPromotion> => {
+  try {
+    const { code, description, kind, value, starts_at, ends_at, max_uses, active } = promotion;
+    const result = await pool.query(
+      `INSERT INTO promotions (code, description, kind, value, starts_at, ends_at, max_uses, active)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [code, description ?? null, kind, value, starts_at ?? null, ends_at ?? null, max_uses ?? null, active ?? true]
+    );
+    return result.rows[0];
+  } catch (error) {
+    if (isConstraintViolation(error, '23505', 'promotions_code_key')) {
+      throw new DuplicatePromotionCodeError(promotion.code);
+    }
+    logger.error('Error in createPromotion', { error });
+    throw new Error('Failed to create promotion');
+  }
+};
+
+/**
+ * Updates the given fields of a promotion. `times_used` cannot be changed; any other key in
+ * `fields` that is not a promotion column is ignored.
+ *
+ * @param id - The ID of the promotion to update.
+ * @param fields - The promotion fields to change.
+ * @returns A promise that resolves to the updated promotion, or `undefined` if it does not exist.
+ * @throws {DuplicatePromotionCodeError} If the new code is already taken by another promotion.
+ * @throws {InvalidPromotionError} If the result would be a percentage above 100 or an empty validity window.
+ * @throws An error if the update fails for any other reason.
+ */
+
+export const updatePromotion = async (id: number, fields: Partial<IPromotion>): Promise<IPromotion | undefined> => {
+  const columns = (['code', 'description', 'kind', 'value', 'starts_at', 'ends_at', 'max_uses', 'active'] as const)
+    .filter((column) => fields[column] !== undefined);
+  if (columns.length === 0) {
+    return getPromotionById(id);
+  }
+
+  try {
+    const assignments = columns.map((column, index) => `${column} = $${index + 2}`).join(', ');
+    const result = await pool.query(
+      `UPDATE promotions SET ${assignments} WHERE id = $1 RETURNING *`,
+      [id, ...columns.map((column) => fields[column])]
+    );
+    return result.rows[0];
+  } catch (error) {
+    if (isConstraintViolation(error, '23505', 'promotions_code_key')) {
+      throw new DuplicatePromotionCodeError(fields.code!);
+    }
+    if (isConstraintViolation(error, '23514')) {
+      throw new InvalidPromotionError(id);
+    }
+    logger.error('Error in updatePromotion', { error });
+    throw new Error('Failed to update promotion');
+  }
+};
+
+/**
+ * Deletes a promotion. Orders that redeemed it keep their discount and promo code.
+ *
+ * @param id - The ID of the promotion to delete.
+ * @returns A promise that resolves to the deleted promotion, or `undefined` if it does not exist.
+ * @throws An error if the delete fails.
+ */
+
+export const deletePromotion = async (id: number): Promise<IPromotion | undefined> => {
+  try {
+    const result = await pool.query('DELETE FROM promotions WHERE id = $1 RETURNING *', [id]);
+    return result.rows[0];
+  } catch (error) {
+    logger.error('Error in deletePromotion', { error });
+    throw new Error('Failed to delete promotion');
+  }
+};
+
+/**
+ * Looks up the promotion of a promo code and checks that it can be redeemed now: it must be
+ * active, inside its validity window and below its usage limit. The window is checked against
+ * the database clock.
+ *
+ * When placing an order, pass the transaction client with `lock` so the promotion row stays
+ * locked until `redeemPromotion` has counted the use; concurrent orders then cannot exceed
+ * `max_uses`.
+ *
+ * @param db - The pool, or the client of the caller's transaction.
+ * @param code - The promo code, in upper case.
+ * @param lock - Whether to lock the promotion row (`SELECT ... FOR UPDATE`).
+ * @returns The promotion.
+ * @throws {PromoCodeNotApplicableError} If the code does not exist or cannot be redeemed now.
+ */
+
+export const findApplicablePromotion = async (db: Pool | PoolClient, code: string, lock = false): Promise<IPromotion> => {
+  const result = await db.query(
+    `SELECT *,
+            starts_at IS NOT NULL AND starts_at > CURRENT_TIMESTAMP AS not_started,
+            ends_at IS NOT NULL AND ends_at <= CURRENT_TIMESTAMP AS expired
+     FROM promotions WHERE code = $1
+     ${lock ? 'FOR UPDATE' : ''}`,
+    [code]
+  );
+  if (result.rows.length === 0) {
+    throw new PromoCodeNotApplicableError(code, 'unknown');
+  }
+
+  const { not_started: notStarted, expired, ...promotion } = result.rows[0];
+  if (!promotion.active) {
+    throw new PromoCodeNotApplicableError(code, 'inactive');
+  }
+  if (notStarted) {
+    throw new PromoCodeNotApplicableError(code, 'not_started');
+  }
+  if (expired) {
+    throw new PromoCodeNotApplicableError(code, 'expired');
+  }
+  if (promotion.max_uses !== null && promotion.times_used >= promotion.max_uses) {
+    throw new PromoCodeNotApplicableError(code, 'exhausted');
+  }
+  return promotion;
+};
+
+/**
+ * Counts one use of a promotion. Must run in the transaction that placed the order, after
+ * `findApplicablePromotion` locked the row.
+ */
+
+export const redeemPromotion = async (client: PoolClient, promotionId: number): Promise<void> => {
+  await client.query('UPDATE promotions SET times_used = times_used + 1 WHERE id = $1', [promotionId]);
+};
+
+/**
+ * Gives back the use of the promotion redeemed by an order, if any, when the order is
+ * cancelled. Must run in the transaction that cancels the order.
+ */
+
+export const releasePromotion = async (client: PoolClient, orderId: number): Promise<void> => {
+  await client.query(
+    `UPDATE promotions SET times_used = times_used - 1
+     WHERE id = (SELECT promotion_id FROM orders WHERE id = $1) AND times_used > 0`,
+    [orderId]
+  );
+};
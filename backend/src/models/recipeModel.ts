@@ -0,0 +1,134 @@
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { publishProductAvailability } from './inventoryModel';
+import { recordAudit } from './auditModel';
+import { IRecipeItem } from '../types';
+
+/**
+ * Error thrown when a recipe references ingredients that do not exist.
+ */
+
+export class UnknownIngredientsError extends Error {
+  constructor(public ingredientIds: number[]) {
+    super(`Unknown ingredient IDs: ${ingredientIds.join(', ')}`);
+    this.name = 'UnknownIngredientsError';
+  }
+}
+
+/**
+ * Retrieves the recipe of an active (non-archived) product: the ingredients one unit of it
+ * uses, by name.
+ *
+ * @param productId - The ID of the product.
+ * @returns A promise that resolves to the recipe (empty when the product has none), or
+ *          `undefined` if the product does not exist or is archived.
+ * @throws An error if the query fails.
+ */
+
+export const getProductRecipe = async (productId: number): Promise<IRecipeItem[] | undefined> => {
+  try {
+    const productResult = await pool.query('SELECT id FROM products WHERE id = $1 AND archived_at IS NULL', [productId]);
+    if (productResult.rows.length === 0) {
+      return undefined;
+    }
+
+    const result = await pool.query(
+      `SELECT ri.ingredient_id, i.name, i.unit, ri.quantity
+       FROM recipe_items ri
+       JOIN ingredients i ON i.id = ri.ingredient_id
+       WHERE ri.product_id = $1
+       ORDER BY i.name`,
+      [productId]
+    );
+    return result.rows;
+  } catch (error) {
+    logger.error('Error in getProductRecipe', { error });
+    throw new Error('Failed to fetch recipe');
+  }
+};
+
+/**
+ * Replaces the recipe of an active (non-archived) product, increments its `version`,
+ * publishes its new availability and records the old and new recipe in the audit log. An
+ * empty recipe turns the product back into one stocked as units.
+ *
+ * Orders already placed are not affected: cancelling them returns exactly the ingredients
+ * they consumed.
+ *
+ * @param productId - The ID of the product.
+ * @param items - The ingredients one unit of the product uses, each at most once.
+ * @param userId - The ID of the user making the change, recorded in the audit log.
+ * @returns A promise that resolves to the new recipe, or `undefined` if the product does not exist or is archived.
+ * @throws {UnknownIngredientsError} If any ingredient does not exist.
+ * @throws An error if the recipe cannot be saved for any other reason.
+ */
+
+export const replaceProductRecipe = async (
+  productId: number,
+  items: { ingredient_id: number; quantity: number }[],
+  userId: number
+): Promise<IRecipeItem[] | undefined> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const productResult = await client.query(
+      'UPDATE products SET version = version + 1 WHERE id = $1 AND archived_at IS NULL RETURNING id',
+      [productId]
+    );
+    if (productResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return undefined;
+    }
+
+    const ingredientIds = items.map((item) => item.ingredient_id);
+    const ingredientResult = await client.query('SELECT id FROM ingredients WHERE id = ANY($1::int[])', [ingredientIds]);
+    const found = new Set(ingredientResult.rows.map((row) => row.id));
+    const missing = ingredientIds.filter((id) => !found.has(id));
+    if (missing.length > 0) {
+      throw new UnknownIngredientsError(missing);
+    }
+
+    const previousResult = await client.query(
+      'DELETE FROM recipe_items WHERE product_id = $1 RETURNING ingredient_id, quantity',
+      [productId]
+    );
+    for (const item of items) {
+      await client.query(
+        'INSERT INTO recipe_items (product_id, ingredient_id, quantity) VALUES ($1, $2, $3)',
+        [productId, item.ingredient_id, item.quantity]
+      );
+    }
+
+    const result = await client.query(
+      `SELECT ri.ingredient_id, i.name, i.unit, ri.quantity
+       FROM recipe_items ri
+       JOIN ingredients i ON i.id = ri.ingredient_id
+       WHERE ri.product_id = $1
+       ORDER BY i.name`,
+      [productId]
+    );
+    await publishProductAvailability(client, [productId]);
+    const byIngredient = (a: { ingredient_id: number }, b: { ingredient_id: number }) => a.ingredient_id - b.ingredient_id;
+    await recordAudit(client, {
+      actor_id: userId,
+      action: 'update',
+      entity_type: 'product',
+      entity_id: productId,
+      before: { recipe: previousResult.rows.sort(byIngredient) },
+      after: { recipe: result.rows.map(({ ingredient_id, quantity }) => ({ ingredient_id, quantity })).sort(byIngredient) },
+    });
+
+    await client.query('COMMIT');
+    return result.rows;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof UnknownIngredientsError) {
+      throw error;
+    }
+    logger.error('Error in replaceProductRecipe', { error });
+    throw new Error('Failed to save recipe');
+  } finally {
+    client.release();
+  }
+};
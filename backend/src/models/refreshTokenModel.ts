@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { UserRole } from '../types';
+
+/**
+ * Number of days a refresh token stays valid after it is issued.
+ */
+
+export const REFRESH_TOKEN_TTL_DAYS = 7;
+
+/**
+ * Error thrown when a refresh token is unknown, expired or revoked.
+ *
+ * `reused` is `true` when an already rotated token was presented again; in that case the
+ * whole token family has been revoked, since the token was most likely stolen.
+ */
+
+export class InvalidRefreshTokenError extends Error {
+  constructor(public reused = false) {
+    super(reused ? 'Refresh token reuse detected; session revoked' : 'Invalid or expired refresh token');
+    this.name = 'InvalidRefreshTokenError';
+  }
+}
+
+/**
+ * Hashes a refresh token for storage. Only the SHA-256 hash is persisted, so a database
+ * leak does not expose usable tokens.
+ */
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Issues a new refresh token for a user and stores its hash.
+ *
+ * @param userId - The ID of the user the token belongs to.
+ * @param familyId - The session (token family) to attach the token to. A new session is started when omitted.
+ * @param client - An optional client to run the insert inside an existing transaction.
+ * @returns A promise that resolves to the plain token, its database ID and its family ID.
+ * @throws An error if the token cannot be stored.
+ */
+
+export const createRefreshToken = async (
+  userId: number,
+  familyId: string = crypto.randomUUID(),
+  client: { query: typeof pool.query } = pool
+): Promise<{ id: number; token: string; familyId: string }> => {
+  try {
+    const token = crypto.randomBytes(48).toString('hex');
+    const result = await client.query(
+      `INSERT INTO refresh_tokens (user_id, family_id, token_hash, expires_at)
+       VALUES ($1, $2, $3, CURRENT_TIMESTAMP + ($4 || ' days')::interval)
+       RETURNING id`,
+      [userId, familyId, hashToken(token), REFRESH_TOKEN_TTL_DAYS]
+    );
+    return { id: result.rows[0].id, token, familyId };
+  } catch (error) {
+    logger.error('Error in createRefreshToken', { error });
+    throw new Error('Failed to create refresh token');
+  }
+};
+
+/**
+ * Exchanges a refresh token for a new one (rotation).
+ *
+ * The presented token is revoked and linked to its replacement in the same transaction.
+ * Presenting a token that was already rotated revokes the whole family.
+ *
+ * @param token - The plain refresh token presented by the client.
+ * @returns A promise that resolves to the new refresh token and the user it belongs to.
+ * @throws {InvalidRefreshTokenError} If the token is unknown, expired, revoked or reused.
+ * @throws An error if the rotation fails for any other reason.
+ */
+
+export const rotateRefreshToken = async (
+  token: string
+): Promise<{ token: string; familyId: string; user: { id: number; username: string; role: UserRole } }> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      `SELECT rt.id, rt.family_id, rt.expires_at, rt.revoked_at, rt.replaced_by,
+              u.id AS user_id, u.username, u.role
+       FROM refresh_tokens rt
+       JOIN users u ON u.id = rt.user_id
+       WHERE rt.token_hash = $1
+       FOR UPDATE OF rt`,
+      [hashToken(token)]
+    );
+    const stored = result.rows[0];
+
+    if (!stored) {
+      throw new InvalidRefreshTokenError();
+    }
+
+    if (stored.revoked_at) {
+      if (stored.replaced_by) {
+        await client.query(
+          'UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE family_id = $1 AND revoked_at IS NULL',
+          [stored.family_id]
+        );
+        await client.query('COMMIT');
+        throw new InvalidRefreshTokenError(true);
+      }
+      throw new InvalidRefreshTokenError();
+    }
+
+    if (new Date(stored.expires_at) <= new Date()) {
+      throw new InvalidRefreshTokenError();
+    }
+
+    const next = await createRefreshToken(stored.user_id, stored.family_id, client);
+    await client.query(
+      'UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP, replaced_by = $1 WHERE id = $2',
+      [next.id, stored.id]
+    );
+
+    await client.query('COMMIT');
+    return {
+      token: next.token,
+      familyId: stored.family_id,
+      user: { id: stored.user_id, username: stored.username, role: stored.role },
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof InvalidRefreshTokenError) {
+      throw error;
+    }
+    logger.error('Error in rotateRefreshToken', { error });
+    throw new Error('Failed to refresh token');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Revokes every token of the session (family) the given refresh token belongs to.
+ *
+ * @param token - The plain refresh token presented by the client.
+ * @returns A promise that resolves to `true` if a session was found and revoked.
+ * @throws An error if the update fails.
+ */
+
+export const revokeRefreshTokenFamily = async (token: string): Promise<boolean> => {
+  try {
+    const result = await pool.query(
+      `UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP
+       WHERE family_id = (SELECT family_id FROM refresh_tokens WHERE token_hash = $1)
+         AND revoked_at IS NULL`,
+      [hashToken(token)]
+    );
+    return (result.rowCount ?? 0) > 0;
+  } catch (error) {
+    logger.error('Error in revokeRefreshTokenFamily', { error });
+    throw new Error('Failed to revoke refresh token');
+  }
+};
+
+/**
+ * Checks whether a session (token family) still has an active refresh token, i.e. it has
+ * not been logged out, revoked for reuse, or left to expire.
+ *
+ * @param familyId - The session ID carried in the access token's `sid` claim.
+ * @returns A promise that resolves to `true` if the session is active.
+ * @throws An error if the query fails.
+ */
+
+export const isSessionActive = async (familyId: string): Promise<boolean> => {
+  try {
+    const result = await pool.query(
+      `SELECT EXISTS (
+         SELECT 1 FROM refresh_tokens
+         WHERE family_id = $1 AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+       ) AS active`,
+      [familyId]
+    );
+    return result.rows[0].active;
+  } catch (error) {
+    logger.error('Error in isSessionActive', { error });
+    throw new Error('Failed to check session');
+  }
+};
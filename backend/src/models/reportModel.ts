@@ -0,0 +1,205 @@
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { ORDER_STATUSES } from './orderModel';
+import {
+  IAverageTicketReport,
+  IOrderStatusReportRow,
+  IReportRange,
+  IRevenueReportRow,
+  ITopProductReportRow,
+  IWaiterSalesReportRow,
+  ReportPeriod,
+} from '../types';
+
+/**
+ * Builds the `WHERE` clause shared by the reports: orders created inside `range` and, unless
+ * `allStatuses` is set, `completed`. Only completed orders are sales: open orders may still
+ * change or be cancelled, and may not have been paid.
+ *
+ * @returns The clause (possibly empty) and its parameters, to which callers may append more.
+ */
+
+const reportFilter = (range: IReportRange, allStatuses = false) => {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (!allStatuses) conditions.push("o.status = 'completed'");
+  if (range.from) {
+    params.push(range.from);
+    conditions.push(`o.created_at >= $${params.length}`);
+  }
+  if (range.to) {
+    params.push(range.to);
+    conditions.push(`o.created_at <= $${params.length}`);
+  }
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+};
+
+/**
+ * Retrieves the revenue of completed orders per day, week (starting on Monday) or month. Only
+ * periods with orders are returned, oldest first; `period` is the first day of the period
+ * (`YYYY-MM-DD`).
+ *
+ * `gross_sales` is the sum of the order subtotals, before `discounts`; `revenue` is what the
+ * orders were charged, service charges and taxes included.
+ *
+ * @param range - The creation dates of the orders to include.
+ * @param period - The length of each period.
+ * @returns A promise that resolves to one row per period.
+ * @throws An error if the query fails.
+ */
+
+export const getRevenueReport = async (range: IReportRange, period: ReportPeriod): Promise<IRevenueReportRow[]> => {
+  const { where, params } = reportFilter(range);
+  params.push(period);
+  try {
+    const result = await pool.query(
+      `SELECT to_char(date_trunc($${params.length}, o.created_at), 'YYYY-MM-DD') AS period,
+              COUNT(*)::int AS orders,
+              SUM(o.subtotal) AS gross_sales,
+              SUM(o.discount_total) AS discounts,
+              SUM(o.service_charge) AS service_charges,
+              SUM(o.tax_total) AS taxes,
+              SUM(o.total) AS revenue,
+              ROUND(AVG(o.total), 2) AS average_ticket
+       FROM orders o
+       ${where}
+       GROUP BY 1
+       ORDER BY 1`,
+      params
+    );
+    return result.rows;
+  } catch (error) {
+    logger.error('Error in getRevenueReport', { error });
+    throw new Error('Failed to fetch revenue report');
+  }
+};
+
+/**
+ * Retrieves the best-selling products of completed orders, by units sold or by revenue.
+ *
+ * A product's revenue is the sum of `quantity * price_at_time` of its order items: the base
+ * price it was sold at, without modifier deltas, discounts or taxes.
+ *
+ * @param range - The creation dates of the orders to include.
+ * @param sort - `quantity` to rank by units sold, `revenue` to rank by revenue.
+ * @param limit - How many products to return.
+ * @returns A promise that resolves to the top products, best first.
+ * @throws An error if the query fails.
+ */
+
+export const getTopProductsReport = async (
+  range: IReportRange,
+  sort: 'quantity' | 'revenue',
+  limit: number
+): Promise<ITopProductReportRow[]> => {
+  const { where, params } = reportFilter(range);
+  params.push(limit);
+  const orderBy = sort === 'revenue' ? 'revenue DESC, quantity DESC' : 'quantity DESC, revenue DESC';
+  try {
+    const result = await pool.query(
+      `SELECT p.id AS product_id, p.name, SUM(oi.quantity)::int AS quantity, SUM(oi.quantity * oi.price_at_time) AS revenue
+       FROM order_items oi
+       JOIN orders o ON o.id = oi.order_id
+       JOIN products p ON p.id = oi.product_id
+       ${where}
+       GROUP BY p.id, p.name
+       ORDER BY ${orderBy}, p.id
+       LIMIT $${params.length}`,
+      params
+    );
+    return result.rows;
+  } catch (error) {
+    logger.error('Error in getTopProductsReport', { error });
+    throw new Error('Failed to fetch top products report');
+  }
+};
+
+/**
+ * Retrieves the sales of each waiter: the completed orders they placed, their revenue and
+ * average ticket, and the tips paid on those orders. Waiters without orders are left out.
+ *
+ * @param range - The creation dates of the orders to include.
+ * @returns A promise that resolves to one row per waiter, highest revenue first.
+ * @throws An error if the query fails.
+ */
+
+export const getWaiterSalesReport = async (range: IReportRange): Promise<IWaiterSalesReportRow[]> => {
+  const { where, params } = reportFilter(range);
+  try {
+    const result = await pool.query(
+      `SELECT u.id AS user_id, u.username,
+              COUNT(*)::int AS orders,
+              SUM(o.total) AS revenue,
+              ROUND(AVG(o.total), 2) AS average_ticket,
+              COALESCE(SUM(t.tips), 0) AS tips
+       FROM orders o
+       JOIN users u ON u.id = o.user_id
+       LEFT JOIN (SELECT order_id, SUM(tip) AS tips FROM payments GROUP BY order_id) t ON t.order_id = o.id
+       ${where}
+       GROUP BY u.id, u.username
+       ORDER BY revenue DESC, u.username`,
+      params
+    );
+    return result.rows;
+  } catch (error) {
+    logger.error('Error in getWaiterSalesReport', { error });
+    throw new Error('Failed to fetch waiter sales report');
+  }
+};
+
+/**
+ * Retrieves the average ticket: how much and how many items a completed order has on average.
+ *
+ * @param range - The creation dates of the orders to include.
+ * @returns A promise that resolves to the order count, revenue, average ticket and average
+ *          number of items per order (all zero when there are no orders).
+ * @throws An error if the query fails.
+ */
+
+export const getAverageTicketReport = async (range: IReportRange): Promise<IAverageTicketReport> => {
+  const { where, params } = reportFilter(range);
+  try {
+    const result = await pool.query(
+      `SELECT COUNT(*)::int AS orders,
+              COALESCE(SUM(o.total), 0) AS revenue,
+              COALESCE(ROUND(AVG(o.total), 2), 0) AS average_ticket,
+              COALESCE(ROUND(AVG(i.quantity), 2), 0) AS average_items
+       FROM orders o
+       LEFT JOIN (SELECT order_id, SUM(quantity) AS quantity FROM order_items GROUP BY order_id) i ON i.order_id = o.id
+       ${where}`,
+      params
+    );
+    return result.rows[0];
+  } catch (error) {
+    logger.error('Error in getAverageTicketReport', { error });
+    throw new Error('Failed to fetch average ticket report');
+  }
+};
+
+/**
+ * Retrieves how many orders are in each status, and their total. Orders in every status are
+ * included, cancelled ones too, and every status is listed (with zeros when it has no orders), in workflow order.
+ *
+ * @param range - The creation dates of the orders to include.
+ * @returns A promise that resolves to one row per status.
+ * @throws An error if the query fails.
+ */
+
+export const getOrderStatusReport = async (range: IReportRange): Promise<IOrderStatusReportRow[]> => {
+  const { where, params } = reportFilter(range, true);
+  try {
+    const result = await pool.query(
+      `SELECT o.status, COUNT(*)::int AS orders, SUM(o.total) AS total
+       FROM orders o
+       ${where}
+       GROUP BY o.status`,
+      params
+    );
+    return ORDER_STATUSES.map((status) => (
+      result.rows.find((row) => row.status === status) ?? { status, orders: 0, total: '0.00' }
+    ));
+  } catch (error) {
+    logger.error('Error in getOrderStatusReport', { error });
+    throw new Error('Failed to fetch order status report');
+  }
+};
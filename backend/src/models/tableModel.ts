@@ -0,0 +1,191 @@
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { ITable, ITableQuery } from '../types';
+import { OPEN_ORDER_STATUSES } from './orderModel';
+
+/**
+ * Error thrown when a table is created or renumbered with a number that is already taken.
+ */
+
+export class DuplicateTableNumberError extends Error {
+  constructor(public number: number) {
+    super(`Table number ${number} already exists`);
+    this.name = 'DuplicateTableNumberError';
+  }
+}
+
+/**
+ * Error thrown when deleting a table that still has open orders.
+ */
+
+export class TableInUseError extends Error {
+  constructor(public tableId: number) {
+    super(`Table ${tableId} has open orders`);
+    this.name = 'TableInUseError';
+  }
+}
+
+/**
+ * Whether a database error is a violation of the unique table number constraint.
+ */
+
+const isDuplicateNumber = (error: unknown) => {
+  const { code, constraint } = error as { code?: string; constraint?: string };
+  return code === '23505' && constraint === 'tables_number_key';
+};
+
+/**
+ * Retrieves the dining tables, ordered by number.
+ *
+ * @param query - Optional filters: `status` matches any of the given statuses and `area`
+ *                matches the area case-insensitively.
+ * @returns A promise that resolves to the matching tables.
+ * @throws An error if the query fails.
+ */
+
+export const getAllTables = async (query: ITableQuery = {}): Promise<ITable[]> => {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (query.status && query.status.length > 0) {
+    params.push(query.status);
+    conditions.push(`status = ANY($${params.length}::text[])`);
+  }
+  if (query.area) {
+    params.push(query.area);
+    conditions.push(`LOWER(area) = LOWER($${params.length})`);
+  }
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  try {
+    const result = await pool.query(`SELECT * FROM tables ${whereClause} ORDER BY number`, params);
+    return result.rows;
+  } catch (error) {
+    logger.error('Error in getAllTables', { error });
+    throw new Error('Failed to fetch tables');
+  }
+};
+
+/**
+ * Retrieves a single table by its ID.
+ *
+ * @param id - The ID of the table.
+ * @returns A promise that resolves to the table, or `undefined` if it does not exist.
+ * @throws An error if the query fails.
+ */
+
+export const getTableById = async (id: number): Promise<ITable | undefined> => {
+  try {
+    const result = await pool.query('SELECT * FROM tables WHERE id = $1', [id]);
+    return result.rows[0];
+  } catch (error) {
+    logger.error('Error in getTableById', { error });
+    throw new Error('Failed to fetch table');
+  }
+};
+
+/**
+ * Creates a new dining table. Tables start `free` unless another status is given.
+ *
+ * @param table - The table to create.
+ * @returns A promise that resolves to the created table.
+ * @throws {DuplicateTableNumberError} If another table already has the same number.
+ * @throws An error if the insert fails for any other reason.
+ */
+
+export const createTable = async (table: Omit<ITable, 'status'> & { status?: ITable['status'] }): Promise<ITable> => {
+  try {
+    const { number, area, capacity, status } = table;
+    const result = await pool.query(
+      'INSERT INTO tables (number, area, capacity, status) VALUES ($1, $2, $3, $4) RETURNING *',
+      [number, area ?? null, capacity, status ?? 'free']
+    );
+    return result.rows[0];
+  } catch (error) {
+    if (isDuplicateNumber(error)) {
+      throw new DuplicateTableNumberError(table.number);
+    }
+    logger.error('Error in createTable', { error });
+    throw new Error('Failed to create table');
+  }
+};
+
+/**
+ * Updates the given fields of a table.
+ *
+ * Only `number`, `area`, `capacity` and `status` can be changed; any other key in
+ * `fields` is ignored.
+ *
+ * @param id - The ID of the table to update.
+ * @param fields - The table fields to change.
+ * @returns A promise that resolves to the updated table, or `undefined` if it does not exist.
+ * @throws {DuplicateTableNumberError} If the new number is already taken by another table.
+ * @throws An error if the update fails for any other reason.
+ */
+
+export const updateTable = async (id: number, fields: Partial<ITable>): Promise<ITable | undefined> => {
+  try {
+    const columns = (['number', 'area', 'capacity', 'status'] as const).filter((column) => fields[column] !== undefined);
+    if (columns.length === 0) {
+      return getTableById(id);
+    }
+
+    const assignments = columns.map((column, index) => `${column} = $${index + 2}`).join(', ');
+    const result = await pool.query(
+      `UPDATE tables SET ${assignments} WHERE id = $1 RETURNING *`,
+      [id, ...columns.map((column) => fields[column])]
+    );
+    return result.rows[0];
+  } catch (error) {
+    if (isDuplicateNumber(error)) {
+      throw new DuplicateTableNumberError(fields.number!);
+    }
+    logger.error('Error in updateTable', { error });
+    throw new Error('Failed to update table');
+  }
+};
+
+/**
+ * Deletes a table. Past orders keep their history but lose the reference to the table.
+ *
+ * @param id - The ID of the table to delete.
+ * @returns A promise that resolves to the deleted table, or `undefined` if it does not exist.
+ * @throws {TableInUseError} If the table still has open orders.
+ * @throws An error if the delete fails for any other reason.
+ */
+
+export const deleteTable = async (id: number): Promise<ITable | undefined> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const tableResult = await client.query('SELECT id FROM tables WHERE id = $1 FOR UPDATE', [id]);
+    if (tableResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return undefined;
+    }
+
+    const openResult = await client.query(
+      'SELECT 1 FROM orders WHERE table_id = $1 AND status = ANY($2::text[]) LIMIT 1',
+      [id, OPEN_ORDER_STATUSES]
+    );
+    if (openResult.rows.length > 0) {
+      throw new TableInUseError(id);
+    }
+
+    const result = await client.query('DELETE FROM tables WHERE id = $1 RETURNING *', [id]);
+
+    await client.query('COMMIT');
+    return result.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof TableInUseError) {
+      throw error;
+    }
+    logger.error('Error in deleteTable', { error });
+    throw new Error('Failed to delete table');
+  } finally {
+    client.release();
+  }
+};
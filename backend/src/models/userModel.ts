@@ -1,24 +1,7 @@
 import pool from '../config/db';
 import bcrypt from 'bcryptjs';
-
-pool.connect((err) => {
-    if (err) {
-      console.error('Initial database connection error:', {
-        message: err.message,
-        code: (err as any).code,
-        password: process.env.DB_PASSWORD?.toString() || 'undefined',
-      });
-    } else {
-      console.log('Database connected successfully');
-    }
-  });
-  
-  pool.on('error', (err, client) => {
-    console.error('Pool error:', {
-      message: err.message,
-      client: client ? 'active' : 'inactive',
-    });
-  });
+import logger from '../utils/logger';
+import { recordAudit } from './auditModel';
 
 /**
  * Finds a user in the database by their username.
@@ -33,7 +16,7 @@ export const findUserByUsername = async (username: string) => {
     const result = await pool.query('SELECT * FROM users WHERE username = $1', [username]);
     return result.rows[0];
   } catch (error) {
-    console.error('Error in findUserByUsername:', error);
+    logger.error('Error in findUserByUsername', { error });
     throw new Error('Database query failed');
   }
 };
@@ -54,13 +37,15 @@ export const comparePassword = async (password: string, hashedPassword: string)
     }
     return await bcrypt.compare(password, hashedPassword);
   } catch (error) {
-    console.error('Error in comparePassword:', error);
+    logger.error('Error in comparePassword', { error });
     throw error;
   }
 };
 
 /**
  * Creates a new user in the database with the specified username, password, and role.
+ * The creation is recorded in the audit log, with the new user as the actor since users
+ * register themselves.
  * 
  * @param username - The username of the new user. This field is required.
  * @param password - The password of the new user. Must be at least 8 characters long.
@@ -93,12 +78,14 @@ export const createUser = async (username: string, password: string, role: strin
         'INSERT INTO users (username, password, role) VALUES ($1, $2, $3) RETURNING id, username, role',
         [username, hashedPassword, role]
       );
+      const user = result.rows[0];
+      await recordAudit(client, { actor_id: user.id, action: 'create', entity_type: 'user', entity_id: user.id, after: { ...user } });
   
       await client.query('COMMIT');
-      return result.rows[0];
+      return user;
     } catch (error) {
       await client.query('ROLLBACK');
-      console.error('Error in createUser:', error);
+      logger.error('Error in createUser', { error });
   
       if ((error as any).code === '23505') {
         throw new Error('Username already exists');
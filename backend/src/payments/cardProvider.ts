@@ -0,0 +1,62 @@
+import config from '../config';
+import fakeCardProvider from './fakeCardProvider';
+
+/**
+ * A card charge requested by the payment flow. `amount` includes the tip and is in the
+ * restaurant's currency, rounded to cents.
+ */
+
+export interface CardChargeRequest {
+  amount: number;
+  /** Token of the card collected by the terminal or the frontend, if the provider needs one. */
+  token?: string;
+  /** Our own reference for the charge, e.g. `order-12`, shown in the provider's dashboard. */
+  reference: string;
+}
+
+export type CardChargeResult =
+  | { approved: true; reference: string }
+  | { approved: false; reason: string };
+
+/**
+ * A refund of an approved charge, in full. `reference` is the one returned by the provider
+ * when the charge was approved.
+ */
+
+export interface CardRefundRequest {
+  amount: number;
+  reference: string;
+}
+
+/**
+ * A card payment processor. Implementations must not throw for a declined card (return
+ * `approved: false` instead) and only throw when the provider cannot be reached.
+ *
+ * To add a provider, implement this interface in its own module, register it in
+ * `CARD_PROVIDERS` and allow its name in the `PAYMENT_PROVIDER` setting.
+ */
+
+export interface CardProvider {
+  /** Stored with each payment as `payments.provider`. */
+  name: string;
+  charge: (request: CardChargeRequest) => Promise<CardChargeResult>;
+  /**
+   * Refunds (or voids, if not yet settled) an approved charge. Used when a charge was approved
+   * but the payment could not be recorded. Throws if the provider cannot be reached.
+   */
+  refund: (request: CardRefundRequest) => Promise<void>;
+}
+
+/**
+ * Available card providers, keyed by the value of the `PAYMENT_PROVIDER` setting.
+ */
+
+const CARD_PROVIDERS: Record<typeof config.payments.provider, CardProvider> = {
+  fake: fakeCardProvider,
+};
+
+/**
+ * Returns the card provider selected by the `PAYMENT_PROVIDER` setting.
+ */
+
+export const getCardProvider = (): CardProvider => CARD_PROVIDERS[config.payments.provider];
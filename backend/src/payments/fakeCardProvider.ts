@@ -0,0 +1,27 @@
+import { randomUUID } from 'crypto';
+import { CardProvider } from './cardProvider';
+
+/**
+ * Card tokens the fake provider declines, to exercise the declined-card flow locally.
+ */
+
+export const FAKE_DECLINED_TOKENS = ['tok_declined', 'tok_insufficient_funds'];
+
+/**
+ * Local card provider for development and demos. It never contacts a real processor:
+ * every charge is approved with a random `fake_...` reference, except for the tokens in
+ * `FAKE_DECLINED_TOKENS`. Refunds always succeed.
+ */
+
+const fakeCardProvider: CardProvider = {
+  name: 'fake',
+  charge: async ({ token }) => {
+    if (token && FAKE_DECLINED_TOKENS.includes(token)) {
+      return { approved: false, reason: token === 'tok_insufficient_funds' ? 'insufficient_funds' : 'card_declined' };
+    }
+    return { approved: true, reference: `fake_${randomUUID()}` };
+  },
+  refund: async () => {},
+};
+
+export default fakeCardProvider;
@@ -0,0 +1,154 @@
+import { PromotionKind } from '../types';
+import { toCents } from '../utils/money';
+
+/**
+ * Order pricing: turns priced lines into a line-by-line breakdown of subtotal, discount,
+ * service charge and tax. This module is pure (no database access) so quotes and orders are
+ * always priced by exactly the same rules; loading rates and promotions is up to the caller.
+ *
+ * The breakdown is computed in integer cents, in this order:
+ * 1. Each line's subtotal is its unit price (base price plus modifier deltas) times its quantity.
+ * 2. The discount is taken off the order subtotal (a percentage of it, or a fixed amount capped
+ *    at the subtotal) and spread over the lines in proportion to their subtotals.
+ * 3. The service charge is a percentage of the discounted subtotal, spread over the lines in
+ *    proportion to their discounted subtotals. It is not taxed.
+ * 4. Each line is taxed at its own rate on its discounted subtotal, rounded per line.
+ *
+ * Shares are spread with the largest remainder method, so the lines always add up exactly to
+ * the order totals.
+ *
+ * @example
+ * ```typescript
+ * const breakdown = priceLines(
+ *   [{ quantity: 2, unitPrice: 1250, taxRate: 16 }, { quantity: 1, unitPrice: 300, taxRate: 0 }],
+ *   { discount: { kind: 'percentage', value: 10 }, serviceChargeRate: 10 }
+ * );
+ * console.log(breakdown.total); // in cents
+ * ```
+ */
+
+/**
+ * A line to price. `unitPrice` is in cents and `taxRate` is a percentage.
+ */
+
+export interface PricingLine {
+  quantity: number;
+  unitPrice: number;
+  taxRate: number;
+}
+
+/**
+ * A discount on the whole order: `value` is a percentage for `percentage` discounts and an
+ * amount in the restaurant's currency for `fixed` ones.
+ */
+
+export interface PricingDiscount {
+  kind: PromotionKind;
+  value: number;
+}
+
+export interface PricingOptions {
+  discount: PricingDiscount | null;
+  /** Percentage of the discounted subtotal charged as service, `0` for none. */
+  serviceChargeRate: number;
+}
+
+/**
+ * The price of one line, in cents. `total` is `subtotal - discount + serviceCharge + tax`.
+ */
+
+export interface PricedLine {
+  subtotal: number;
+  discount: number;
+  serviceCharge: number;
+  tax: number;
+  total: number;
+}
+
+/**
+ * The price of a whole order, in cents; `lines` follow the order of the input lines and add
+ * up exactly to the order totals.
+ */
+
+export interface PriceBreakdown {
+  lines: PricedLine[];
+  subtotal: number;
+  discount: number;
+  serviceCharge: number;
+  tax: number;
+  total: number;
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Returns `rate` percent of `cents`, rounded to the nearest cent. The rate is converted to
+ * basis points first so the product stays an exact integer.
+ */
+
+const percentOf = (cents: number, rate: number) => Math.round((cents * Math.round(rate * 100)) / 10000);
+
+/**
+ * Splits `amount` cents into shares proportional to `weights` (largest remainder method):
+ * every share is rounded down and the cents left over go to the largest remainders.
+ */
+
+const allocate = (amount: number, weights: number[]): number[] => {
+  const totalWeight = sum(weights);
+  if (amount === 0 || totalWeight === 0) {
+    return weights.map(() => 0);
+  }
+  const shares = weights.map((weight) => Math.floor((amount * weight) / totalWeight));
+  let leftover = amount - sum(shares);
+  const byRemainder = weights
+    .map((weight, index) => ({ index, remainder: (amount * weight) % totalWeight }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (let position = 0; leftover > 0; position++, leftover--) {
+    shares[byRemainder[position].index] += 1;
+  }
+  return shares;
+};
+
+/**
+ * Prices an order.
+ *
+ * @param lines - The lines of the order.
+ * @param options - The discount and service charge rate that apply to the order.
+ * @returns The breakdown of every line and of the order, in cents.
+ */
+
+export const priceLines = (lines: PricingLine[], options: PricingOptions): PriceBreakdown => {
+  const subtotals = lines.map((line) => line.unitPrice * line.quantity);
+  const subtotal = sum(subtotals);
+
+  let discount = 0;
+  if (options.discount?.kind === 'percentage') {
+    discount = percentOf(subtotal, options.discount.value);
+  } else if (options.discount?.kind === 'fixed') {
+    discount = Math.min(toCents(options.discount.value), subtotal);
+  }
+  const discounts = allocate(discount, subtotals);
+  const discounted = subtotals.map((lineSubtotal, index) => lineSubtotal - discounts[index]);
+
+  const serviceCharge = percentOf(subtotal - discount, options.serviceChargeRate);
+  const serviceCharges = allocate(serviceCharge, discounted);
+
+  const taxes = lines.map((line, index) => percentOf(discounted[index], line.taxRate));
+
+  const pricedLines = lines.map((_, index) => ({
+    subtotal: subtotals[index],
+    discount: discounts[index],
+    serviceCharge: serviceCharges[index],
+    tax: taxes[index],
+    total: discounted[index] + serviceCharges[index] + taxes[index],
+  }));
+
+  return {
+    lines: pricedLines,
+    subtotal,
+    discount,
+    serviceCharge,
+    tax: sum(taxes),
+    total: sum(pricedLines.map((line) => line.total)),
+  };
+};
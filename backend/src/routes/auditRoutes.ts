@@ -0,0 +1,139 @@
+import { Router } from 'express';
+import { getAuditLogHandler } from '../controllers/auditController';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { requirePermission } from '../middleware/roleMiddleware';
+
+/**
+ * Creates an instance of an Express router to define and handle
+ * audit log routes for the application.
+ *
+ * @constant
+ * @type {Router}
+ */
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Audit
+ *   description: Who changed which product, order or user, and when
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AuditEntry:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         actor_id:
+ *           type: integer
+ *           nullable: true
+ *         actor_username:
+ *           type: string
+ *           nullable: true
+ *         action:
+ *           type: string
+ *           enum: [create, update, archive, restore, status_change]
+ *         entity_type:
+ *           type: string
+ *           enum: [product, order, user]
+ *         entity_id:
+ *           type: integer
+ *         before:
+ *           type: object
+ *           nullable: true
+ *           description: The old values of the changed fields; `null` on creation
+ *           example: { price: '9.50' }
+ *         after:
+ *           type: object
+ *           nullable: true
+ *           description: The new values of the changed fields; the whole entity on creation
+ *           example: { price: '10.00' }
+ *         request_id:
+ *           type: string
+ *           nullable: true
+ *           description: The `X-Request-Id` of the request that made the change
+ *         ip:
+ *           type: string
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /audit:
+ *   get:
+ *     summary: Get a page of the audit log
+ *     description: "Roles: admin. Newest first. Every change made through the product, order and user models is recorded, including restocks, adjustments and waste of a product and changes to its recipe."
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: actorId
+ *         description: Only changes made by this user
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *           enum: [product, order, user]
+ *       - in: query
+ *         name: entityId
+ *         description: Only changes to this entity; requires `entityType`
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         description: A date without time includes the whole day
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: "`{ data, pagination }` with the entries"
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AuditEntry'
+ *       400:
+ *         description: Invalid query parameter
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ */
+
+router.get('/', authenticateToken, requirePermission('audit:read'), getAuditLogHandler); // admin
+
+export default router;
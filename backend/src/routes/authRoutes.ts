@@ -1,5 +1,10 @@
 import express from 'express';
-import { login, register } from '../controllers/authController';
+import { login, register, refresh, logout, getLockoutsHandler, unlockUsernameHandler } from '../controllers/authController';
+import { validate } from '../middleware/validate';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { requirePermission } from '../middleware/roleMiddleware';
+import { authRateLimit } from '../middleware/authRateLimit';
+import { loginSchema, registerSchema, refreshTokenSchema } from '@oceans/shared';
 
 /**
  * Creates an instance of an Express router to define and handle
@@ -15,7 +20,29 @@ const router = express.Router();
  * @swagger
  * tags:
  *   name: Auth
- *   description: Authentication routes
+ *   description: Authentication routes. Every route is limited to `AUTH_RATE_LIMIT_PER_MINUTE` requests per minute and IP address.
+ */
+
+/**
+ * @swagger
+ * components:
+ *   responses:
+ *     TooManyAuthRequests:
+ *       description: "Too many requests; retry after the seconds in `Retry-After` (also `retry_after` in the body). `reason` is `rate_limited`, or on login `login_throttled` (failed logins in a row) or `login_locked` (the username is locked)."
+ *       headers:
+ *         Retry-After:
+ *           schema:
+ *             type: integer
+ *       content:
+ *         application/problem+json:
+ *           schema:
+ *             $ref: '#/components/schemas/Problem'
+ *     AuthUnavailable:
+ *       description: The request and failed login counters are unavailable, so the request is refused; retry later
+ *       content:
+ *         application/problem+json:
+ *           schema:
+ *             $ref: '#/components/schemas/Problem'
  */
 
 /**
@@ -42,6 +69,10 @@ const router = express.Router();
  *         description: Successful login
  *       401:
  *         description: Unauthorized
+ *       429:
+ *         $ref: '#/components/responses/TooManyAuthRequests'
+ *       503:
+ *         $ref: '#/components/responses/AuthUnavailable'
  */
 
 /**
@@ -70,10 +101,147 @@ const router = express.Router();
  *       201:
  *         description: User registered successfully
  *       400:
- *         description: Bad request
+ *         description: Validation failed (per-field details in `errors`)
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       409:
+ *         description: Username already exists
+ *       429:
+ *         $ref: '#/components/responses/TooManyAuthRequests'
+ *       503:
+ *         $ref: '#/components/responses/AuthUnavailable'
+ */
+
+/**
+ * @swagger
+ * /refresh:
+ *   post:
+ *     summary: Exchange a refresh token for new access and refresh tokens
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New token pair issued; the presented refresh token is no longer valid
+ *       400:
+ *         description: Missing refresh token
+ *       401:
+ *         description: Invalid, expired, revoked or reused refresh token
+ *       429:
+ *         $ref: '#/components/responses/TooManyAuthRequests'
+ *       503:
+ *         $ref: '#/components/responses/AuthUnavailable'
+ */
+
+/**
+ * @swagger
+ * /logout:
+ *   post:
+ *     summary: Log out and revoke the session of a refresh token
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       204:
+ *         description: Session revoked
+ *       400:
+ *         description: Missing refresh token
+ *       429:
+ *         $ref: '#/components/responses/TooManyAuthRequests'
+ *       503:
+ *         $ref: '#/components/responses/AuthUnavailable'
+ */
+
+/**
+ * @swagger
+ * /lockouts:
+ *   get:
+ *     summary: List the usernames whose logins have to wait after failed attempts
+ *     description: "Roles: admin. Locked usernames are those with `LOGIN_LOCKOUT_THRESHOLD` failures or more; longest wait first."
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The locked or throttled usernames
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   username:
+ *                     type: string
+ *                   failures:
+ *                     type: integer
+ *                   last_failure_at:
+ *                     type: string
+ *                     format: date-time
+ *                   blocked_until:
+ *                     type: string
+ *                     format: date-time
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       429:
+ *         $ref: '#/components/responses/TooManyAuthRequests'
+ *       503:
+ *         $ref: '#/components/responses/AuthUnavailable'
+ */
+
+/**
+ * @swagger
+ * /lockouts/{username}:
+ *   delete:
+ *     summary: Unlock a username locked after failed logins
+ *     description: "Roles: admin. Forgets the failed logins of the username, so its next attempt is allowed right away."
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: username
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Username unlocked
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       404:
+ *         description: The username has no failed logins
+ *       429:
+ *         $ref: '#/components/responses/TooManyAuthRequests'
+ *       503:
+ *         $ref: '#/components/responses/AuthUnavailable'
  */
 
-router.post('/login', login);
-router.post('/register', register);
+router.post('/login', authRateLimit, validate(loginSchema), login);
+router.post('/register', authRateLimit, validate(registerSchema), register);
+router.post('/refresh', authRateLimit, validate(refreshTokenSchema), refresh);
+router.post('/logout', authRateLimit, validate(refreshTokenSchema), logout);
+router.get('/lockouts', authRateLimit, authenticateToken, requirePermission('users:unlock'), getLockoutsHandler); // admin
+router.delete('/lockouts/:username', authRateLimit, authenticateToken, requirePermission('users:unlock'), unlockUsernameHandler); // admin
 
 export default router;
\ No newline at end of file
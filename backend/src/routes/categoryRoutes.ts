@@ -0,0 +1,206 @@
+import { Router } from 'express';
+import {
+  getCategoriesHandler,
+  getCategoryHandler,
+  createCategoryHandler,
+  updateCategoryHandler,
+  deleteCategoryHandler,
+} from '../controllers/categoryController';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { requirePermission } from '../middleware/roleMiddleware';
+import { validate } from '../middleware/validate';
+import { categorySchema, categoryPatchSchema } from '@oceans/shared';
+
+/**
+ * Creates an instance of an Express router to define and handle
+ * menu category routes for the application.
+ *
+ * @constant
+ * @type {Router}
+ */
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Category:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: Bebidas
+ *         display_order:
+ *           type: integer
+ *           minimum: 0
+ *           example: 1
+ *         parent_id:
+ *           type: integer
+ *           nullable: true
+ *           example: null
+ *         tax_rate:
+ *           type: number
+ *           nullable: true
+ *           minimum: 0
+ *           maximum: 100
+ *           description: Porcentaje de impuesto de los productos de la categoría. Si es `null` se usa el de la categoría padre o `DEFAULT_TAX_RATE`.
+ *           example: 16
+ */
+
+/**
+ * @swagger
+ * /categories:
+ *   get:
+ *     summary: Obtiene las categorías del menú
+ *     description: Público, no requiere autenticación. Ordenadas por `display_order` y nombre; el anidamiento se indica con `parent_id`.
+ *     tags:
+ *       - Categorías
+ *     responses:
+ *       200:
+ *         description: Lista de categorías
+ *   post:
+ *     summary: Crea una categoría
+ *     description: "Roles permitidos: admin."
+ *     tags:
+ *       - Categorías
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Category'
+ *     responses:
+ *       201:
+ *         description: Categoría creada
+ *       400:
+ *         description: Error en la solicitud o la categoría padre no existe
+ *       401:
+ *         description: No autorizado
+ *       403:
+ *         description: El rol del usuario no tiene permiso (`reason` indica el motivo)
+ *       409:
+ *         description: Ya existe una categoría con ese nombre
+ */
+
+/**
+ * @swagger
+ * /categories/{id}:
+ *   get:
+ *     summary: Obtiene una categoría por su ID
+ *     description: Público, no requiere autenticación.
+ *     tags:
+ *       - Categorías
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: La categoría solicitada
+ *       400:
+ *         description: ID inválido
+ *       404:
+ *         description: Categoría no encontrada
+ *   put:
+ *     summary: Reemplaza los datos de una categoría
+ *     description: "Roles permitidos: admin. Si se omite `parent_id` la categoría pasa al nivel superior."
+ *     tags:
+ *       - Categorías
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Category'
+ *     responses:
+ *       200:
+ *         description: Categoría actualizada
+ *       400:
+ *         description: Error en la solicitud o la categoría padre no existe
+ *       401:
+ *         description: No autorizado
+ *       403:
+ *         description: El rol del usuario no tiene permiso (`reason` indica el motivo)
+ *       404:
+ *         description: Categoría no encontrada
+ *       409:
+ *         description: El nombre ya existe o la categoría quedaría dentro de sí misma
+ *   patch:
+ *     summary: Actualiza parcialmente una categoría
+ *     description: "Roles permitidos: admin. Solo se modifican los campos enviados."
+ *     tags:
+ *       - Categorías
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Category'
+ *     responses:
+ *       200:
+ *         description: Categoría actualizada
+ *       400:
+ *         description: Error en la solicitud o la categoría padre no existe
+ *       401:
+ *         description: No autorizado
+ *       403:
+ *         description: El rol del usuario no tiene permiso (`reason` indica el motivo)
+ *       404:
+ *         description: Categoría no encontrada
+ *       409:
+ *         description: El nombre ya existe o la categoría quedaría dentro de sí misma
+ *   delete:
+ *     summary: Elimina una categoría
+ *     description: "Roles permitidos: admin. Sus productos quedan sin categoría y sus subcategorías pasan al nivel superior."
+ *     tags:
+ *       - Categorías
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Categoría eliminada
+ *       400:
+ *         description: ID inválido
+ *       401:
+ *         description: No autorizado
+ *       403:
+ *         description: El rol del usuario no tiene permiso (`reason` indica el motivo)
+ *       404:
+ *         description: Categoría no encontrada
+ */
+
+router.get('/', getCategoriesHandler); // Public
+router.post('/', authenticateToken, requirePermission('categories:write'), validate(categorySchema), createCategoryHandler); // admin
+router.get('/:id', getCategoryHandler); // Public
+router.put('/:id', authenticateToken, requirePermission('categories:write'), validate(categorySchema), updateCategoryHandler); // admin
+router.patch('/:id', authenticateToken, requirePermission('categories:write'), validate(categoryPatchSchema), updateCategoryHandler); // admin
+router.delete('/:id', authenticateToken, requirePermission('categories:write'), deleteCategoryHandler); // admin
+
+export default router;
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { streamEventsHandler } from '../controllers/eventController';
+import { authenticateToken } from '../middleware/authMiddleware';
+
+/**
+ * Creates an instance of an Express router to define and handle
+ * the real-time event stream of the application.
+ *
+ * @constant
+ * @type {Router}
+ */
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Events
+ *   description: Real-time updates over Server-Sent Events
+ */
+
+/**
+ * @swagger
+ * /events:
+ *   get:
+ *     summary: Open the real-time event stream
+ *     description: >
+ *       Roles: admin, waiter, cook. A `text/event-stream` that stays open and sends
+ *       `order.created`, `order.status_changed`, `product.stock_changed` and
+ *       `product.low_stock` events, each with the event as JSON data. Waiters only receive the
+ *       order events of their own orders; admins and cooks receive them all. Stock changes are
+ *       sent to everyone; low-stock alerts only to admins. Events missed while disconnected
+ *       are not replayed.
+ *     tags: [Events]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               example: "event: order.status_changed\ndata: {\"type\":\"order.status_changed\",\"order_id\":12,\"user_id\":3,\"from\":\"pending\",\"to\":\"in_progress\"}\n\n"
+ *       401:
+ *         description: Unauthorized
+ */
+
+router.get('/', authenticateToken, streamEventsHandler); // admin, waiter, cook
+
+export default router;
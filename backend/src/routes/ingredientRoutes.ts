@@ -0,0 +1,275 @@
+import { Router } from 'express';
+import {
+  getIngredientsHandler,
+  getIngredientHandler,
+  createIngredientHandler,
+  updateIngredientHandler,
+  deleteIngredientHandler,
+  createIngredientMovementHandler,
+  getIngredientMovementsHandler,
+} from '../controllers/ingredientController';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { requirePermission } from '../middleware/roleMiddleware';
+import { validate } from '../middleware/validate';
+import { ingredientSchema, ingredientPatchSchema, ingredientMovementSchema } from '@oceans/shared';
+
+/**
+ * Creates an instance of an Express router to define and handle
+ * ingredient routes for the application.
+ *
+ * @constant
+ * @type {Router}
+ */
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Ingredients
+ *   description: Ingredients used by product recipes, with their own stock ledger
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Ingredient:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: Carne picada
+ *         unit:
+ *           type: string
+ *           enum: [g, kg, ml, l, unit]
+ *           example: kg
+ *         stock:
+ *           type: number
+ *           description: Initial stock, recorded as a restock; afterwards it only changes through movements
+ *           example: 12.5
+ */
+
+/**
+ * @swagger
+ * /ingredients:
+ *   get:
+ *     summary: Get every ingredient
+ *     description: "Roles: admin. By name, with `used_by`, the number of recipes that use each one."
+ *     tags: [Ingredients]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: A list of ingredients
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *   post:
+ *     summary: Create an ingredient
+ *     description: "Roles: admin."
+ *     tags: [Ingredients]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Ingredient'
+ *     responses:
+ *       201:
+ *         description: Ingredient created
+ *       400:
+ *         description: Invalid request body
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       409:
+ *         description: An ingredient with the same name already exists
+ */
+
+/**
+ * @swagger
+ * /ingredients/{id}:
+ *   get:
+ *     summary: Get an ingredient by ID
+ *     description: "Roles: admin."
+ *     tags: [Ingredients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The ingredient
+ *       400:
+ *         description: Invalid ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       404:
+ *         description: Ingredient not found
+ *   patch:
+ *     summary: Rename an ingredient or change its unit
+ *     description: "Roles: admin. The stock and the recipes are not converted to the new unit; use movements to change the stock."
+ *     tags: [Ingredients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               unit:
+ *                 type: string
+ *                 enum: [g, kg, ml, l, unit]
+ *     responses:
+ *       200:
+ *         description: Ingredient updated
+ *       400:
+ *         description: Invalid request body
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       404:
+ *         description: Ingredient not found
+ *       409:
+ *         description: An ingredient with the same name already exists
+ *   delete:
+ *     summary: Delete an ingredient
+ *     description: "Roles: admin. Its ledger is deleted with it."
+ *     tags: [Ingredients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Ingredient deleted
+ *       400:
+ *         description: Invalid ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       404:
+ *         description: Ingredient not found
+ *       409:
+ *         description: A recipe still uses the ingredient
+ */
+
+/**
+ * @swagger
+ * /ingredients/{id}/movements:
+ *   get:
+ *     summary: Get a page of an ingredient's ledger
+ *     description: "Roles: admin. Newest first. Orders record `sale` and `return` movements."
+ *     tags: [Ingredients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: "`{ data, pagination }` with the movements"
+ *       400:
+ *         description: Invalid ID or query parameter
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       404:
+ *         description: Ingredient not found
+ *   post:
+ *     summary: Record a restock, adjustment or waste of an ingredient
+ *     description: "Roles: admin. `quantity` is the signed change to the stock: positive for restocks, negative for waste. Adjustments and waste need a reason."
+ *     tags: [Ingredients]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [kind, quantity]
+ *             properties:
+ *               kind:
+ *                 type: string
+ *                 enum: [restock, adjustment, waste]
+ *               quantity:
+ *                 type: number
+ *                 example: 5
+ *               reason:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       201:
+ *         description: The recorded movement
+ *       400:
+ *         description: Invalid ID or request body
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       404:
+ *         description: Ingredient not found
+ *       409:
+ *         description: The stock would become negative (see `available`)
+ */
+
+router.get('/', authenticateToken, requirePermission('inventory:read'), getIngredientsHandler); // admin
+router.post('/', authenticateToken, requirePermission('inventory:write'), validate(ingredientSchema), createIngredientHandler); // admin
+router.get('/:id', authenticateToken, requirePermission('inventory:read'), getIngredientHandler); // admin
+router.patch('/:id', authenticateToken, requirePermission('inventory:write'), validate(ingredientPatchSchema), updateIngredientHandler); // admin
+router.delete('/:id', authenticateToken, requirePermission('inventory:write'), deleteIngredientHandler); // admin
+router.get('/:id/movements', authenticateToken, requirePermission('inventory:read'), getIngredientMovementsHandler); // admin
+router.post('/:id/movements', authenticateToken, requirePermission('inventory:write'), validate(ingredientMovementSchema), createIngredientMovementHandler); // admin
+
+export default router;
@@ -0,0 +1,271 @@
+import { Router } from 'express';
+import {
+  getStockMovementsHandler,
+  createRestockHandler,
+  createStockAdjustmentHandler,
+  getLowStockHandler,
+  getStockDiscrepanciesHandler,
+} from '../controllers/inventoryController';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { requirePermission } from '../middleware/roleMiddleware';
+import { validate } from '../middleware/validate';
+import { restockSchema, stockAdjustmentSchema } from '@oceans/shared';
+
+/**
+ * Creates an instance of an Express router to define and handle
+ * inventory (stock ledger) routes for the application.
+ *
+ * @constant
+ * @type {Router}
+ */
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Inventory
+ *   description: Stock ledger, restocks, adjustments and low-stock alerts
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     StockMovement:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         product_id:
+ *           type: integer
+ *         product_name:
+ *           type: string
+ *         kind:
+ *           type: string
+ *           enum: [sale, restock, adjustment, waste, return]
+ *         quantity:
+ *           type: integer
+ *           description: Signed change to the stock; negative for sales and waste
+ *           example: -2
+ *         stock_after:
+ *           type: integer
+ *           example: 48
+ *         reason:
+ *           type: string
+ *           nullable: true
+ *         order_id:
+ *           type: integer
+ *           nullable: true
+ *           description: The order of a sale or return
+ *         user_id:
+ *           type: integer
+ *           nullable: true
+ *         username:
+ *           type: string
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /inventory/movements:
+ *   get:
+ *     summary: Get a page of the stock ledger
+ *     description: "Roles: admin. Newest first. Sales and returns are recorded by orders; restocks, adjustments and waste by hand."
+ *     tags: [Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: productId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: kind
+ *         description: Comma-separated list of kinds, e.g. `restock,waste`
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         description: A date without time includes the whole day
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: "`{ data, pagination }` with the movements"
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/StockMovement'
+ *       400:
+ *         description: Invalid query parameter
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ */
+
+/**
+ * @swagger
+ * /inventory/restocks:
+ *   post:
+ *     summary: Record a restock
+ *     description: "Roles: admin. Adds the units received to the product's stock."
+ *     tags: [Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [product_id, quantity]
+ *             properties:
+ *               product_id:
+ *                 type: integer
+ *                 example: 1
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *                 example: 24
+ *               reason:
+ *                 type: string
+ *                 nullable: true
+ *                 example: Pedido al proveedor
+ *     responses:
+ *       201:
+ *         description: The recorded movement
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StockMovement'
+ *       400:
+ *         description: Invalid request body
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       404:
+ *         description: Product not found or archived
+ */
+
+/**
+ * @swagger
+ * /inventory/adjustments:
+ *   post:
+ *     summary: Record a manual adjustment or waste
+ *     description: "Roles: admin. `quantity` is the signed change to the stock; waste must be negative. A reason is required."
+ *     tags: [Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [product_id, quantity, reason]
+ *             properties:
+ *               product_id:
+ *                 type: integer
+ *                 example: 1
+ *               kind:
+ *                 type: string
+ *                 enum: [adjustment, waste]
+ *                 default: adjustment
+ *               quantity:
+ *                 type: integer
+ *                 example: -3
+ *               reason:
+ *                 type: string
+ *                 example: Recuento semanal
+ *     responses:
+ *       201:
+ *         description: The recorded movement
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StockMovement'
+ *       400:
+ *         description: Invalid request body
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       404:
+ *         description: Product not found or archived
+ *       409:
+ *         description: The stock would become negative (see `available`)
+ */
+
+/**
+ * @swagger
+ * /inventory/low-stock:
+ *   get:
+ *     summary: Get the products that need restocking
+ *     description: "Roles: admin. Active products whose stock is at or below their `reorder_threshold`. Admins are also alerted with `product.low_stock` events on `/events` when a product crosses its threshold."
+ *     tags: [Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: A list of products, emptiest first
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ */
+
+/**
+ * @swagger
+ * /inventory/discrepancies:
+ *   get:
+ *     summary: Audit the stock ledger
+ *     description: "Roles: admin. Lists the products whose stock differs from the sum of their movements, with both values and the difference. Empty when the ledger is consistent."
+ *     tags: [Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: A list of mismatched products
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ */
+
+router.get('/movements', authenticateToken, requirePermission('inventory:read'), getStockMovementsHandler); // admin
+router.post('/restocks', authenticateToken, requirePermission('inventory:write'), validate(restockSchema), createRestockHandler); // admin
+router.post('/adjustments', authenticateToken, requirePermission('inventory:write'), validate(stockAdjustmentSchema), createStockAdjustmentHandler); // admin
+router.get('/low-stock', authenticateToken, requirePermission('inventory:read'), getLowStockHandler); // admin
+router.get('/discrepancies', authenticateToken, requirePermission('inventory:read'), getStockDiscrepanciesHandler); // admin
+
+export default router;
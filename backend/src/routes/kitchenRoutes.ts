@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import { getStationsHandler, getStationTicketsHandler } from '../controllers/kitchenController';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { requirePermission } from '../middleware/roleMiddleware';
+
+/**
+ * Creates an instance of an Express router to define and handle
+ * kitchen display routes for the application.
+ *
+ * @constant
+ * @type {Router}
+ */
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Kitchen
+ *   description: API for the kitchen display screens
+ */
+
+/**
+ * @swagger
+ * /kitchen/stations:
+ *   get:
+ *     summary: List the kitchen stations
+ *     description: "Roles: admin, waiter, cook."
+ *     tags: [Kitchen]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The stations, ordered by name
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ */
+
+/**
+ * @swagger
+ * /kitchen/{station}/tickets:
+ *   get:
+ *     summary: Get the open tickets of a station
+ *     description: >
+ *       Roles: admin, waiter, cook. Returns the orders still in the kitchen that have items of
+ *       the station not yet ready, oldest first, each with the station's items and their
+ *       preparation status. Use `all` as the station to get the tickets of every station.
+ *     tags: [Kitchen]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: station
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: grill
+ *     responses:
+ *       200:
+ *         description: The station's tickets
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       404:
+ *         description: Station not found
+ */
+
+router.get('/stations', authenticateToken, requirePermission('kitchen:read'), getStationsHandler); // admin, waiter, cook
+router.get('/:station/tickets', authenticateToken, requirePermission('kitchen:read'), getStationTicketsHandler); // admin, waiter, cook
+
+export default router;
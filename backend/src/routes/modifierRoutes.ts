@@ -0,0 +1,232 @@
+import { Router } from 'express';
+import {
+  updateModifierGroupHandler,
+  deleteModifierGroupHandler,
+  createModifierHandler,
+  updateModifierHandler,
+  deleteModifierHandler,
+} from '../controllers/modifierController';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { requirePermission } from '../middleware/roleMiddleware';
+import { validate } from '../middleware/validate';
+import { modifierGroupPatchSchema, modifierSchema, modifierPatchSchema } from '@oceans/shared';
+
+/**
+ * Creates an instance of an Express router to define and handle the routes that manage
+ * modifier groups and their modifiers. Groups are created and listed per product under
+ * `/products/{id}/modifier-groups`.
+ *
+ * @constant
+ * @type {Router}
+ */
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ModifierGroup:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: Extras
+ *         required:
+ *           type: boolean
+ *           example: false
+ *         min_selections:
+ *           type: integer
+ *           minimum: 0
+ *           example: 0
+ *         max_selections:
+ *           type: integer
+ *           nullable: true
+ *           example: 3
+ *         display_order:
+ *           type: integer
+ *           example: 0
+ *     Modifier:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: Extra queso
+ *         price_delta:
+ *           type: number
+ *           example: 1.5
+ *         display_order:
+ *           type: integer
+ *           example: 0
+ */
+
+/**
+ * @swagger
+ * /modifier-groups/{id}:
+ *   patch:
+ *     summary: Actualiza parcialmente un grupo de modificadores
+ *     description: "Roles permitidos: admin. Solo se modifican los campos enviados; los modificadores se gestionan con sus propias rutas."
+ *     tags:
+ *       - Modificadores
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ModifierGroup'
+ *     responses:
+ *       200:
+ *         description: Grupo actualizado
+ *       400:
+ *         description: Error en la solicitud o límites de selección incoherentes
+ *       401:
+ *         description: No autorizado
+ *       403:
+ *         description: El rol del usuario no tiene permiso (`reason` indica el motivo)
+ *       404:
+ *         description: Grupo no encontrado
+ *   delete:
+ *     summary: Elimina un grupo de modificadores y sus modificadores
+ *     description: "Roles permitidos: admin. Las órdenes anteriores conservan los modificadores con los que se pidieron."
+ *     tags:
+ *       - Modificadores
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Grupo eliminado
+ *       400:
+ *         description: ID inválido
+ *       401:
+ *         description: No autorizado
+ *       403:
+ *         description: El rol del usuario no tiene permiso (`reason` indica el motivo)
+ *       404:
+ *         description: Grupo no encontrado
+ */
+
+/**
+ * @swagger
+ * /modifier-groups/{id}/modifiers:
+ *   post:
+ *     summary: Añade un modificador a un grupo
+ *     description: "Roles permitidos: admin."
+ *     tags:
+ *       - Modificadores
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Modifier'
+ *     responses:
+ *       201:
+ *         description: Modificador creado
+ *       400:
+ *         description: Error en la solicitud
+ *       401:
+ *         description: No autorizado
+ *       403:
+ *         description: El rol del usuario no tiene permiso (`reason` indica el motivo)
+ *       404:
+ *         description: Grupo no encontrado
+ */
+
+/**
+ * @swagger
+ * /modifier-groups/{id}/modifiers/{modifierId}:
+ *   patch:
+ *     summary: Actualiza parcialmente un modificador
+ *     description: "Roles permitidos: admin. Un nuevo `price_delta` solo se aplica a las órdenes futuras."
+ *     tags:
+ *       - Modificadores
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: modifierId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Modifier'
+ *     responses:
+ *       200:
+ *         description: Modificador actualizado
+ *       400:
+ *         description: Error en la solicitud
+ *       401:
+ *         description: No autorizado
+ *       403:
+ *         description: El rol del usuario no tiene permiso (`reason` indica el motivo)
+ *       404:
+ *         description: Modificador no encontrado en ese grupo
+ *   delete:
+ *     summary: Elimina un modificador
+ *     description: "Roles permitidos: admin. Las órdenes anteriores conservan el modificador con el que se pidieron."
+ *     tags:
+ *       - Modificadores
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: modifierId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Modificador eliminado
+ *       400:
+ *         description: ID inválido
+ *       401:
+ *         description: No autorizado
+ *       403:
+ *         description: El rol del usuario no tiene permiso (`reason` indica el motivo)
+ *       404:
+ *         description: Modificador no encontrado en ese grupo
+ */
+
+router.patch('/:id', authenticateToken, requirePermission('products:write'), validate(modifierGroupPatchSchema), updateModifierGroupHandler); // admin
+router.delete('/:id', authenticateToken, requirePermission('products:write'), deleteModifierGroupHandler); // admin
+router.post('/:id/modifiers', authenticateToken, requirePermission('products:write'), validate(modifierSchema), createModifierHandler); // admin
+router.patch('/:id/modifiers/:modifierId', authenticateToken, requirePermission('products:write'), validate(modifierPatchSchema), updateModifierHandler); // admin
+router.delete('/:id/modifiers/:modifierId', authenticateToken, requirePermission('products:write'), deleteModifierHandler); // admin
+
+export default router;
@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import { updateOrderItemStatusHandler } from '../controllers/kitchenController';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { requirePermission } from '../middleware/roleMiddleware';
+import { validate } from '../middleware/validate';
+import { orderItemStatusUpdateSchema } from '@oceans/shared';
+
+/**
+ * Creates an instance of an Express router to define and handle
+ * order item routes for the application.
+ *
+ * @constant
+ * @type {Router}
+ */
+
+const router = Router();
+
+/**
+ * @swagger
+ * /order-items/{id}/status:
+ *   patch:
+ *     summary: Change the preparation status of an order item
+ *     description: >
+ *       Roles: admin, cook. Items move from `queued` to `preparing` to `ready` (or straight to
+ *       `ready`). The order follows its items: it moves to `in_progress` when the first item
+ *       starts and to `ready` when all of its items are ready. The response includes the
+ *       resulting `order_status`.
+ *     tags: [Kitchen]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [queued, preparing, ready]
+ *                 example: preparing
+ *     responses:
+ *       200:
+ *         description: Item status updated
+ *       400:
+ *         description: Invalid item ID or status
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       404:
+ *         description: Order item not found
+ *       409:
+ *         description: Transition not allowed from the current status, or the order has left the kitchen
+ */
+
+router.patch('/:id/status', authenticateToken, requirePermission('kitchen:update'), validate(orderItemStatusUpdateSchema), updateOrderItemStatusHandler); // admin, cook
+
+export default router;
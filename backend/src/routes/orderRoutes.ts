@@ -1,6 +1,18 @@
 import { Router } from 'express';
-import { createOrderHandler, getOrders } from '../controllers/orderController';
+import {
+  createOrderHandler,
+  quoteOrderHandler,
+  getOrders,
+  getAllOrdersHandler,
+  updateOrderStatusHandler,
+  getOrderStatusHistoryHandler,
+} from '../controllers/orderController';
+import { createPaymentHandler, getOrderBalanceHandler } from '../controllers/paymentController';
 import { authenticateToken } from '../middleware/authMiddleware';
+import { requirePermission, requireOrderAccess } from '../middleware/roleMiddleware';
+import { validate } from '../middleware/validate';
+import { idempotent } from '../middleware/idempotency';
+import { createOrderSchema, orderStatusUpdateSchema, paymentSchema } from '@oceans/shared';
 
 /**
  * Creates an instance of an Express router to define and handle
@@ -19,19 +31,115 @@ const router = Router();
  *   description: API for managing orders
  */
 
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     IdempotencyKey:
+ *       in: header
+ *       name: Idempotency-Key
+ *       required: false
+ *       description: >
+ *         A unique value (e.g. a UUID) per attempt to create something. Retries with the same key
+ *         and body get the original response back, with the `Idempotent-Replayed: true` header,
+ *         instead of creating a duplicate. Keys expire after `IDEMPOTENCY_KEY_TTL_HOURS`.
+ *       schema:
+ *         type: string
+ *         maxLength: 255
+ *         example: 5f0c6e1e-8f0b-4a43-9a36-0d2c1b7f2e55
+ *   schemas:
+ *     OrderRequest:
+ *       type: object
+ *       properties:
+ *         table_id:
+ *           type: integer
+ *           nullable: true
+ *           description: Table the order is served at; it becomes occupied
+ *           example: 3
+ *         orderItems:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               product_id:
+ *                 type: integer
+ *                 example: 1
+ *               quantity:
+ *                 type: integer
+ *                 example: 2
+ *               modifier_ids:
+ *                 type: array
+ *                 description: Modifiers chosen for the item; they must fit the product's modifier groups
+ *                 items:
+ *                   type: integer
+ *                 example: [4, 7]
+ *         promo_code:
+ *           type: string
+ *           nullable: true
+ *           description: Promotion to redeem (case-insensitive)
+ *           example: VERANO10
+ *         service_charge:
+ *           type: boolean
+ *           default: false
+ *           description: Adds the configured service charge (`SERVICE_CHARGE_RATE`) to the order
+ */
+
 /**
  * @swagger
  * /orders:
  *   post:
  *     summary: Create a new order
+ *     description: "Roles: admin, waiter. Items are priced from the current product prices and modifier price deltas, then the promo code discount, the service charge and each category's tax rate are applied. The breakdown is stored with the order and each item."
  *     tags: [Orders]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OrderRequest'
  *     responses:
  *       201:
- *         description: Order created successfully
+ *         description: Order created, with `subtotal`, `discount_total`, `service_charge`, `tax_total` and `total`, and the same breakdown per item
+ *       400:
+ *         description: Invalid order items, unknown products, unknown table, modifiers that do not fit the product (see `modifier_problems`), or a promo code that cannot be applied (see `reason`)
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       409:
+ *         description: Insufficient stock, with the offending items listed in `items`, the table is dirty, or a request with the same `Idempotency-Key` is still being processed
+ *       422:
+ *         description: The `Idempotency-Key` was already used for a different request
+ */
+
+/**
+ * @swagger
+ * /orders/quote:
+ *   post:
+ *     summary: Price an order without placing it
+ *     description: "Roles: admin, waiter. Returns the breakdown the order would have if placed now. Stock is not checked or reserved and `table_id` is ignored."
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OrderRequest'
+ *     responses:
+ *       200:
+ *         description: The subtotal, discount, service charge, taxes and total, with the breakdown of every line in `items`
+ *       400:
+ *         description: Invalid order items, unknown products, modifiers that do not fit the product, or a promo code that cannot be applied (see `reason`)
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
  */
 
 /**
@@ -39,6 +147,7 @@ const router = Router();
  * /orders:
  *   get:
  *     summary: Get all orders
+ *     description: "Roles: admin, waiter."
  *     tags: [Orders]
  *     security:
  *       - bearerAuth: []
@@ -47,10 +156,275 @@ const router = Router();
  *         description: A list of orders
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ */
+
+/**
+ * @swagger
+ * /orders/all:
+ *   get:
+ *     summary: Get the orders of every waiter
+ *     description: "Roles: admin. Orders are returned newest first with the waiter's username."
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: status
+ *         description: Comma-separated list of statuses
+ *         schema:
+ *           type: string
+ *           example: pending,in_progress
+ *       - in: query
+ *         name: tableId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: waiterId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: waiter
+ *         description: Waiter username (case-insensitive)
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         description: Inclusive; a date without time covers the whole day
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: minTotal
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: maxTotal
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: A page of orders in a `{ data, pagination }` envelope
+ *       400:
+ *         description: Invalid filters
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ */
+
+/**
+ * @swagger
+ * /orders/{id}/status:
+ *   patch:
+ *     summary: Change the status of an order
+ *     description: "Roles: admin, waiter. Waiters can only change the orders they created."
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [pending, in_progress, ready, served, completed, cancelled]
+ *                 example: in_progress
+ *     responses:
+ *       200:
+ *         description: Order status updated
+ *       400:
+ *         description: Invalid order ID or status
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission, or the order belongs to another waiter (see `reason`)
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: Transition not allowed from the current status, or completing an order that is not fully paid (see `balance`), or cancelling an order that has received payments (see `paid`)
  */
 
+/**
+ * @swagger
+ * /orders/{id}/history:
+ *   get:
+ *     summary: Get the status history of an order
+ *     description: "Roles: admin, waiter. Waiters can only read the orders they created."
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The list of status changes, oldest first
+ *       400:
+ *         description: Invalid order ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission, or the order belongs to another waiter (see `reason`)
+ *       404:
+ *         description: Order not found
+ */
+
+/**
+ * @swagger
+ * /orders/{id}/payments:
+ *   post:
+ *     summary: Record a payment towards an order
+ *     description: >
+ *       Roles: admin, waiter (only on the orders they created). An order can be paid with several payments. `split` says how
+ *       the amount is worked out: `amount` pays the given `amount`; `items` pays the given
+ *       units of the order's items; `even` pays one of `ways` equal shares of the outstanding
+ *       balance (send the number of people still to pay, so the last one pays the exact
+ *       remainder). The `tip` is charged on top and never counts towards the balance. Cash
+ *       payments may send `tendered` to get the change back in `change_given`. Card payments
+ *       are charged through the configured card provider. When a payment settles a served
+ *       order, the order is completed.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [split, method]
+ *             properties:
+ *               split:
+ *                 type: string
+ *                 enum: [amount, items, even]
+ *               method:
+ *                 type: string
+ *                 enum: [cash, card, other]
+ *               amount:
+ *                 type: number
+ *                 description: Required when `split` is `amount`
+ *                 example: 20
+ *               items:
+ *                 type: array
+ *                 description: Required when `split` is `items`
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     order_item_id:
+ *                       type: integer
+ *                     quantity:
+ *                       type: integer
+ *                       default: 1
+ *               ways:
+ *                 type: integer
+ *                 description: Required when `split` is `even`
+ *                 example: 3
+ *               tip:
+ *                 type: number
+ *                 default: 0
+ *               tendered:
+ *                 type: number
+ *                 description: Cash handed over (cash only)
+ *               card_token:
+ *                 type: string
+ *                 description: Card token passed to the provider (card only)
+ *           example:
+ *             split: amount
+ *             method: cash
+ *             amount: 20
+ *             tip: 2
+ *             tendered: 25
+ *     responses:
+ *       201:
+ *         description: Payment recorded, with the remaining `balance` and the `order_status`
+ *       400:
+ *         description: Invalid payment, items not part of the order or already paid (see `item_problems`), or not enough cash tendered
+ *       401:
+ *         description: Unauthorized
+ *       402:
+ *         description: The card was declined (see `decline_reason`)
+ *       403:
+ *         description: The user's role lacks the required permission, or the order belongs to another waiter (see `reason`)
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: The order is completed or cancelled, the payment exceeds the outstanding balance, the order changed while the card was being charged (the charge is refunded), or a request with the same `Idempotency-Key` is still being processed
+ *       422:
+ *         description: The `Idempotency-Key` was already used for a different request
+ */
+
+/**
+ * @swagger
+ * /orders/{id}/balance:
+ *   get:
+ *     summary: Get what has been paid of an order and what is left
+ *     description: "Roles: admin, waiter. Waiters can only read the orders they created. Includes every payment and, per item, the units already paid by item."
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The order's total, paid amount, tips, balance, items and payments
+ *       400:
+ *         description: Invalid order ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission, or the order belongs to another waiter (see `reason`)
+ *       404:
+ *         description: Order not found
+ */
 
-router.post('/', authenticateToken, createOrderHandler);
-router.get('/', authenticateToken, getOrders);
+router.post('/', authenticateToken, requirePermission('orders:create'), idempotent, validate(createOrderSchema), createOrderHandler); // admin, waiter
+router.post('/quote', authenticateToken, requirePermission('orders:create'), validate(createOrderSchema), quoteOrderHandler); // admin, waiter
+router.get('/', authenticateToken, requirePermission('orders:read'), getOrders); // admin, waiter
+router.get('/all', authenticateToken, requirePermission('orders:read_all'), getAllOrdersHandler); // admin
+router.patch('/:id/status', authenticateToken, requirePermission('orders:update_status'), requireOrderAccess, validate(orderStatusUpdateSchema), updateOrderStatusHandler); // admin, waiter (own orders)
+router.get('/:id/history', authenticateToken, requirePermission('orders:read'), requireOrderAccess, getOrderStatusHistoryHandler); // admin, waiter (own orders)
+router.post('/:id/payments', authenticateToken, requirePermission('payments:create'), requireOrderAccess, idempotent, validate(paymentSchema), createPaymentHandler); // admin, waiter (own orders)
+router.get('/:id/balance', authenticateToken, requirePermission('payments:read'), requireOrderAccess, getOrderBalanceHandler); // admin, waiter (own orders)
 
 export default router;
\ No newline at end of file
@@ -1,6 +1,19 @@
 import { Router } from 'express';
-import { getProducts, createProductHandler } from '../controllers/productController';
+import {
+  getProducts,
+  createProductHandler,
+  getProductHandler,
+  getArchivedProductsHandler,
+  updateProductHandler,
+  archiveProductHandler,
+  restoreProductHandler,
+} from '../controllers/productController';
+import { getProductModifierGroupsHandler, createModifierGroupHandler } from '../controllers/modifierController';
+import { getProductRecipeHandler, replaceProductRecipeHandler } from '../controllers/recipeController';
 import { authenticateToken } from '../middleware/authMiddleware';
+import { requirePermission } from '../middleware/roleMiddleware';
+import { validate } from '../middleware/validate';
+import { productSchema, productPatchSchema, modifierGroupSchema, recipeSchema } from '@oceans/shared';
 import express from 'express';
 
 
@@ -17,30 +30,120 @@ const router = express.Router();
  * @swagger
  * /products:
  *   get:
- *     summary: Obtiene todos los productos
+ *     summary: Obtiene una página de productos activos
+ *     description: Público, no requiere autenticación. Admite paginación por página (`page`/`limit`) o por cursor (`cursor`/`limit`). Cada producto incluye `available`, las unidades que se pueden vender (según sus ingredientes si tiene receta, o su `stock`), y `has_recipe`. La respuesta lleva un `ETag`; si se envía en `If-None-Match` y la página no cambió, se responde 304 sin cuerpo.
  *     tags:
  *       - Productos
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: cursor
+ *         description: Valor `nextCursor` de la respuesta anterior; si se envía, se ignora `page`.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [id, name, price, stock, created_at]
+ *           default: id
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: asc
+ *       - in: query
+ *         name: minPrice
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: maxPrice
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: minStock
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: maxStock
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: inStock
+ *         description: Filtra por `available` (mayor que 0 o no).
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: q
+ *         description: Búsqueda de texto en el nombre y la descripción.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: category
+ *         description: ID de una categoría; incluye también los productos de sus subcategorías.
+ *         schema:
+ *           type: integer
  *     responses:
  *       200:
- *         description: Lista de productos
+ *         description: Página de productos
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: object
- *                 properties:
- *                   id:
- *                     type: integer
- *                     example: 1
- *                   name:
- *                     type: string
- *                     example: Producto A
- *                   price:
- *                     type: number
- *                     example: 100
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                         example: 1
+ *                       name:
+ *                         type: string
+ *                         example: Producto A
+ *                       price:
+ *                         type: number
+ *                         example: 100
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     page:
+ *                       type: integer
+ *                       nullable: true
+ *                       example: 1
+ *                     limit:
+ *                       type: integer
+ *                       example: 20
+ *                     total:
+ *                       type: integer
+ *                       example: 42
+ *                     totalPages:
+ *                       type: integer
+ *                       example: 3
+ *                     nextCursor:
+ *                       type: string
+ *                       nullable: true
+ *       304:
+ *         description: La página no cambió desde el `ETag` enviado en `If-None-Match`
+ *       400:
+ *         description: Parámetros de consulta inválidos
  *   post:
  *     summary: Crea un nuevo producto
+ *     description: "Roles permitidos: admin. El stock inicial se registra en el historial de inventario como una reposición."
  *     tags:
  *       - Productos
  *     security:
@@ -64,6 +167,20 @@ const router = express.Router();
  *               stock:
  *                 type: number
  *                 example: 50
+ *               reorder_threshold:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Stock mínimo; con ese stock o menos el producto aparece en `/inventory/low-stock`
+ *                 example: 10
+ *               category_id:
+ *                 type: integer
+ *                 nullable: true
+ *                 example: 1
+ *               station_id:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Estación de cocina que prepara el producto
+ *                 example: 1
  *     responses:
  *       201:
  *         description: Producto creado exitosamente
@@ -83,11 +200,358 @@ const router = express.Router();
  *                   example: 100
  *       401:
  *         description: No autorizado
+ *       403:
+ *         description: El rol del usuario no tiene permiso (`reason` indica el motivo)
+ *       400:
+ *         description: Error en la solicitud o la categoría no existe
+ */
+
+/**
+ * @swagger
+ * /products/archived:
+ *   get:
+ *     summary: Obtiene los productos archivados
+ *     description: "Roles permitidos: admin."
+ *     tags:
+ *       - Productos
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Lista de productos archivados
+ *       401:
+ *         description: No autorizado
+ *       403:
+ *         description: El rol del usuario no tiene permiso (`reason` indica el motivo)
+ */
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     ProductIfMatch:
+ *       in: header
+ *       name: If-Match
+ *       required: true
+ *       description: "`ETag` obtenido de `GET /products/{id}` (o `*` para sobrescribir sin comprobar). Si el producto cambió desde entonces se responde 412 y no se modifica nada; sin la cabecera se responde 428."
+ *       schema:
+ *         type: string
+ *         example: '"3-12"'
+ */
+
+/**
+ * @swagger
+ * /products/{id}:
+ *   get:
+ *     summary: Obtiene un producto activo por su ID
+ *     description: Público, no requiere autenticación. La respuesta lleva el `ETag` del producto, que cambia con cada modificación (incluido su stock) y sirve para `If-None-Match` y para actualizarlo con `If-Match`.
+ *     tags:
+ *       - Productos
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: El producto solicitado
+ *         headers:
+ *           ETag:
+ *             schema:
+ *               type: string
+ *               example: '"3-12"'
+ *       304:
+ *         description: El producto no cambió desde el `ETag` enviado en `If-None-Match`
+ *       400:
+ *         description: ID inválido
+ *       404:
+ *         description: Producto no encontrado o archivado
+ *   put:
+ *     summary: Reemplaza los datos de un producto
+ *     description: "Roles permitidos: admin. `name`, `price` y `stock` son obligatorios. Un cambio de stock se registra en el historial de inventario como un ajuste. Requiere `If-Match`: solo se actualiza si el producto no cambió desde que se leyó."
+ *     tags:
+ *       - Productos
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - $ref: '#/components/parameters/ProductIfMatch'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Producto A
+ *               description:
+ *                 type: string
+ *                 example: Este es un producto de ejemplo
+ *               price:
+ *                 type: number
+ *                 example: 100
+ *               stock:
+ *                 type: number
+ *                 example: 50
+ *               reorder_threshold:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Stock mínimo; con ese stock o menos el producto aparece en `/inventory/low-stock`
+ *                 example: 10
+ *               category_id:
+ *                 type: integer
+ *                 nullable: true
+ *                 example: 1
+ *               station_id:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Estación de cocina que prepara el producto
+ *                 example: 1
+ *     responses:
+ *       200:
+ *         description: Producto actualizado
+ *       400:
+ *         description: Error en la solicitud
+ *       401:
+ *         description: No autorizado
+ *       403:
+ *         description: El rol del usuario no tiene permiso (`reason` indica el motivo)
+ *       404:
+ *         description: Producto no encontrado o archivado
+ *       412:
+ *         description: El producto cambió desde que se leyó; `etag` indica su `ETag` actual
+ *       428:
+ *         description: Falta la cabecera `If-Match`
+ *   patch:
+ *     summary: Actualiza parcialmente un producto
+ *     description: "Roles permitidos: admin. Solo se modifican los campos enviados. Requiere `If-Match`: solo se actualiza si el producto no cambió desde que se leyó."
+ *     tags:
+ *       - Productos
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - $ref: '#/components/parameters/ProductIfMatch'
+ *     responses:
+ *       200:
+ *         description: Producto actualizado
  *       400:
  *         description: Error en la solicitud
+ *       401:
+ *         description: No autorizado
+ *       403:
+ *         description: El rol del usuario no tiene permiso (`reason` indica el motivo)
+ *       404:
+ *         description: Producto no encontrado o archivado
+ *       412:
+ *         description: El producto cambió desde que se leyó; `etag` indica su `ETag` actual
+ *       428:
+ *         description: Falta la cabecera `If-Match`
+ *   delete:
+ *     summary: Archiva un producto
+ *     description: "Roles permitidos: admin. El producto se oculta del menú pero se conserva en las órdenes históricas."
+ *     tags:
+ *       - Productos
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Producto archivado
+ *       401:
+ *         description: No autorizado
+ *       403:
+ *         description: El rol del usuario no tiene permiso (`reason` indica el motivo)
+ *       404:
+ *         description: Producto no encontrado o ya archivado
+ */
+
+/**
+ * @swagger
+ * /products/{id}/restore:
+ *   post:
+ *     summary: Restaura un producto archivado
+ *     description: "Roles permitidos: admin."
+ *     tags:
+ *       - Productos
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Producto restaurado
+ *       401:
+ *         description: No autorizado
+ *       403:
+ *         description: El rol del usuario no tiene permiso (`reason` indica el motivo)
+ *       404:
+ *         description: No existe un producto archivado con ese ID
+ */
+
+/**
+ * @swagger
+ * /products/{id}/modifier-groups:
+ *   get:
+ *     summary: Obtiene los grupos de modificadores de un producto
+ *     description: Público, no requiere autenticación. Cada grupo incluye sus modificadores (`modifiers`) con su `price_delta`.
+ *     tags:
+ *       - Modificadores
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Lista de grupos de modificadores (vacía si el producto no tiene)
+ *       400:
+ *         description: ID inválido
+ *       404:
+ *         description: Producto no encontrado o archivado
+ *   post:
+ *     summary: Crea un grupo de modificadores para un producto
+ *     description: "Roles permitidos: admin. `min_selections` vale 1 por defecto en los grupos obligatorios y 0 en los opcionales; sin `max_selections` se pueden elegir todas las opciones."
+ *     tags:
+ *       - Modificadores
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/ModifierGroup'
+ *               - type: object
+ *                 properties:
+ *                   modifiers:
+ *                     type: array
+ *                     items:
+ *                       $ref: '#/components/schemas/Modifier'
+ *     responses:
+ *       201:
+ *         description: Grupo creado con sus modificadores
+ *       400:
+ *         description: Error en la solicitud
+ *       401:
+ *         description: No autorizado
+ *       403:
+ *         description: El rol del usuario no tiene permiso (`reason` indica el motivo)
+ *       404:
+ *         description: Producto no encontrado o archivado
+ */
+
+/**
+ * @swagger
+ * /products/{id}/recipe:
+ *   get:
+ *     summary: Obtiene la receta de un producto
+ *     description: "Roles permitidos: admin. Cantidad de cada ingrediente que usa una unidad del producto, en la unidad del ingrediente."
+ *     tags:
+ *       - Recetas
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Lista de ingredientes de la receta (vacía si el producto no tiene)
+ *       400:
+ *         description: ID inválido
+ *       401:
+ *         description: No autorizado
+ *       403:
+ *         description: El rol del usuario no tiene permiso (`reason` indica el motivo)
+ *       404:
+ *         description: Producto no encontrado o archivado
+ *   put:
+ *     summary: Reemplaza la receta de un producto
+ *     description: "Roles permitidos: admin. Un producto con receta está disponible según el stock de sus ingredientes, y pedirlo los consume; su propio `stock` deja de usarse. Una lista vacía elimina la receta."
+ *     tags:
+ *       - Recetas
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     ingredient_id:
+ *                       type: integer
+ *                       example: 3
+ *                     quantity:
+ *                       type: number
+ *                       description: Cantidad por unidad del producto, con hasta tres decimales
+ *                       example: 0.15
+ *     responses:
+ *       200:
+ *         description: La nueva receta
+ *       400:
+ *         description: Error en la solicitud o algún ingrediente no existe
+ *       401:
+ *         description: No autorizado
+ *       403:
+ *         description: El rol del usuario no tiene permiso (`reason` indica el motivo)
+ *       404:
+ *         description: Producto no encontrado o archivado
  */
 
-router.get('/', getProducts);
-router.post('/', authenticateToken, createProductHandler);
+router.get('/', getProducts); // Public
+router.post('/', authenticateToken, requirePermission('products:write'), validate(productSchema), createProductHandler); // admin
+router.get('/archived', authenticateToken, requirePermission('products:write'), getArchivedProductsHandler); // admin
+router.get('/:id', getProductHandler); // Public
+router.put('/:id', authenticateToken, requirePermission('products:write'), validate(productSchema), updateProductHandler); // admin
+router.patch('/:id', authenticateToken, requirePermission('products:write'), validate(productPatchSchema), updateProductHandler); // admin
+router.delete('/:id', authenticateToken, requirePermission('products:write'), archiveProductHandler); // admin
+router.post('/:id/restore', authenticateToken, requirePermission('products:write'), restoreProductHandler); // admin
+router.get('/:id/modifier-groups', getProductModifierGroupsHandler); // Public
+router.post('/:id/modifier-groups', authenticateToken, requirePermission('products:write'), validate(modifierGroupSchema), createModifierGroupHandler); // admin
+router.get('/:id/recipe', authenticateToken, requirePermission('inventory:read'), getProductRecipeHandler); // admin
+router.put('/:id/recipe', authenticateToken, requirePermission('products:write'), validate(recipeSchema), replaceProductRecipeHandler); // admin
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,201 @@
+import { Router } from 'express';
+import {
+  getPromotionsHandler,
+  getPromotionHandler,
+  createPromotionHandler,
+  updatePromotionHandler,
+  deletePromotionHandler,
+} from '../controllers/promotionController';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { requirePermission } from '../middleware/roleMiddleware';
+import { validate } from '../middleware/validate';
+import { promotionSchema, promotionPatchSchema } from '@oceans/shared';
+
+/**
+ * Creates an instance of an Express router to define and handle
+ * promotion (promo code) routes for the application.
+ *
+ * @constant
+ * @type {Router}
+ */
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Promotions
+ *   description: API for managing the promo codes redeemed when placing orders
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Promotion:
+ *       type: object
+ *       properties:
+ *         code:
+ *           type: string
+ *           description: Case-insensitive; stored in upper case
+ *           example: VERANO10
+ *         description:
+ *           type: string
+ *           nullable: true
+ *           example: 10% de descuento en verano
+ *         kind:
+ *           type: string
+ *           enum: [percentage, fixed]
+ *           example: percentage
+ *         value:
+ *           type: number
+ *           description: A percentage (at most 100) for `percentage` promotions, an amount for `fixed` ones
+ *           example: 10
+ *         starts_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         ends_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         max_uses:
+ *           type: integer
+ *           nullable: true
+ *           description: How many orders can redeem the code; cancelled orders give their use back
+ *           example: 100
+ *         active:
+ *           type: boolean
+ *           default: true
+ */
+
+/**
+ * @swagger
+ * /promotions:
+ *   get:
+ *     summary: Get every promotion
+ *     description: "Roles: admin. Newest first, with `times_used`."
+ *     tags: [Promotions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: A list of promotions
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *   post:
+ *     summary: Create a promotion
+ *     description: "Roles: admin."
+ *     tags: [Promotions]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Promotion'
+ *     responses:
+ *       201:
+ *         description: Promotion created
+ *       400:
+ *         description: Invalid request body
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       409:
+ *         description: A promotion with the same code already exists
+ */
+
+/**
+ * @swagger
+ * /promotions/{id}:
+ *   get:
+ *     summary: Get a promotion by ID
+ *     description: "Roles: admin."
+ *     tags: [Promotions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The promotion
+ *       400:
+ *         description: Invalid ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       404:
+ *         description: Promotion not found
+ *   patch:
+ *     summary: Update some fields of a promotion
+ *     description: "Roles: admin. Only the fields sent are changed; orders that already redeemed the promotion keep their discount."
+ *     tags: [Promotions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Promotion'
+ *     responses:
+ *       200:
+ *         description: Promotion updated
+ *       400:
+ *         description: Invalid request body, or the promotion would exceed 100% or end before it starts
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       404:
+ *         description: Promotion not found
+ *       409:
+ *         description: A promotion with the same code already exists
+ *   delete:
+ *     summary: Delete a promotion
+ *     description: "Roles: admin. Orders that redeemed it keep their discount and promo code."
+ *     tags: [Promotions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Promotion deleted
+ *       400:
+ *         description: Invalid ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       404:
+ *         description: Promotion not found
+ */
+
+router.get('/', authenticateToken, requirePermission('promotions:write'), getPromotionsHandler); // admin
+router.post('/', authenticateToken, requirePermission('promotions:write'), validate(promotionSchema), createPromotionHandler); // admin
+router.get('/:id', authenticateToken, requirePermission('promotions:write'), getPromotionHandler); // admin
+router.patch('/:id', authenticateToken, requirePermission('promotions:write'), validate(promotionPatchSchema), updatePromotionHandler); // admin
+router.delete('/:id', authenticateToken, requirePermission('promotions:write'), deletePromotionHandler); // admin
+
+export default router;
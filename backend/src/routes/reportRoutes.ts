@@ -0,0 +1,224 @@
+import { Router } from 'express';
+import {
+  getRevenueReportHandler,
+  getTopProductsReportHandler,
+  getWaiterSalesReportHandler,
+  getAverageTicketReportHandler,
+  getOrderStatusReportHandler,
+} from '../controllers/reportController';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { requirePermission } from '../middleware/roleMiddleware';
+
+/**
+ * Creates an instance of an Express router to define and handle
+ * sales report routes for the application.
+ *
+ * @constant
+ * @type {Router}
+ */
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Reports
+ *   description: Sales reports, as JSON or CSV
+ */
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     ReportFrom:
+ *       in: query
+ *       name: from
+ *       schema:
+ *         type: string
+ *         format: date-time
+ *       description: Only include orders created at or after this date
+ *       example: 2024-05-01
+ *     ReportTo:
+ *       in: query
+ *       name: to
+ *       schema:
+ *         type: string
+ *         format: date-time
+ *       description: Only include orders created at or before this date; a date without time includes the whole day
+ *       example: 2024-05-31
+ *     ReportFormat:
+ *       in: query
+ *       name: format
+ *       schema:
+ *         type: string
+ *         enum: [json, csv]
+ *       description: "The response format. Without it, CSV is returned when the `Accept` header prefers `text/csv`."
+ */
+
+/**
+ * @swagger
+ * /reports/revenue:
+ *   get:
+ *     summary: Get the revenue per day, week or month
+ *     description: "Roles: admin. Only completed orders are counted. `gross_sales` is before discounts; `revenue` is what was charged, service charges and taxes included."
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ReportFrom'
+ *       - $ref: '#/components/parameters/ReportTo'
+ *       - $ref: '#/components/parameters/ReportFormat'
+ *       - in: query
+ *         name: groupBy
+ *         schema:
+ *           type: string
+ *           enum: [day, week, month]
+ *           default: day
+ *         description: The length of each period; weeks start on Monday
+ *     responses:
+ *       200:
+ *         description: One row per period with orders, gross_sales, discounts, service_charges, taxes, revenue and average_ticket
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid date range, format or groupBy
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ */
+
+/**
+ * @swagger
+ * /reports/top-products:
+ *   get:
+ *     summary: Get the best-selling products
+ *     description: "Roles: admin. Only completed orders are counted. Revenue is the sum of `quantity * price_at_time`, the price each product was sold at."
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ReportFrom'
+ *       - $ref: '#/components/parameters/ReportTo'
+ *       - $ref: '#/components/parameters/ReportFormat'
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [quantity, revenue]
+ *           default: quantity
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: The top products with product_id, name, quantity and revenue
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid date range, format, sort or limit
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ */
+
+/**
+ * @swagger
+ * /reports/waiters:
+ *   get:
+ *     summary: Get the sales per waiter
+ *     description: "Roles: admin. Only completed orders are counted. Orders are credited to the user who placed them."
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ReportFrom'
+ *       - $ref: '#/components/parameters/ReportTo'
+ *       - $ref: '#/components/parameters/ReportFormat'
+ *     responses:
+ *       200:
+ *         description: One row per waiter with orders, revenue, average_ticket and tips
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid date range or format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ */
+
+/**
+ * @swagger
+ * /reports/average-ticket:
+ *   get:
+ *     summary: Get the average ticket size
+ *     description: "Roles: admin. Only completed orders are counted."
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ReportFrom'
+ *       - $ref: '#/components/parameters/ReportTo'
+ *       - $ref: '#/components/parameters/ReportFormat'
+ *     responses:
+ *       200:
+ *         description: The number of orders, revenue, average_ticket and average_items per order
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid date range or format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ */
+
+/**
+ * @swagger
+ * /reports/order-status:
+ *   get:
+ *     summary: Get the number of orders in each status
+ *     description: "Roles: admin. Cancelled orders are included; every status is listed, with zeros when it has no orders."
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ReportFrom'
+ *       - $ref: '#/components/parameters/ReportTo'
+ *       - $ref: '#/components/parameters/ReportFormat'
+ *     responses:
+ *       200:
+ *         description: One row per status with orders and total
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid date range or format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ */
+
+router.get('/revenue', authenticateToken, requirePermission('reports:read'), getRevenueReportHandler); // admin
+router.get('/top-products', authenticateToken, requirePermission('reports:read'), getTopProductsReportHandler); // admin
+router.get('/waiters', authenticateToken, requirePermission('reports:read'), getWaiterSalesReportHandler); // admin
+router.get('/average-ticket', authenticateToken, requirePermission('reports:read'), getAverageTicketReportHandler); // admin
+router.get('/order-status', authenticateToken, requirePermission('reports:read'), getOrderStatusReportHandler); // admin
+
+export default router;
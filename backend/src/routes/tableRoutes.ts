@@ -0,0 +1,272 @@
+import { Router } from 'express';
+import {
+  getTablesHandler,
+  getTableHandler,
+  createTableHandler,
+  updateTableHandler,
+  updateTableStatusHandler,
+  deleteTableHandler,
+} from '../controllers/tableController';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { requirePermission } from '../middleware/roleMiddleware';
+import { validate } from '../middleware/validate';
+import { tableSchema, tablePatchSchema, tableStatusUpdateSchema } from '@oceans/shared';
+
+/**
+ * Creates an instance of an Express router to define and handle
+ * dining table routes for the application.
+ *
+ * @constant
+ * @type {Router}
+ */
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Tables
+ *   description: API for managing the dining tables
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Table:
+ *       type: object
+ *       properties:
+ *         number:
+ *           type: integer
+ *           example: 12
+ *         area:
+ *           type: string
+ *           nullable: true
+ *           example: Terraza
+ *         capacity:
+ *           type: integer
+ *           example: 4
+ *         status:
+ *           type: string
+ *           enum: [free, occupied, reserved, dirty]
+ *           example: free
+ */
+
+/**
+ * @swagger
+ * /tables:
+ *   get:
+ *     summary: List the dining tables
+ *     description: "Roles: admin, waiter. Tables are returned ordered by number."
+ *     tags: [Tables]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         description: Comma-separated list of statuses
+ *         schema:
+ *           type: string
+ *           example: free,reserved
+ *       - in: query
+ *         name: area
+ *         description: Area name (case-insensitive)
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The list of tables
+ *       400:
+ *         description: Invalid filters
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *   post:
+ *     summary: Create a table
+ *     description: "Roles: admin."
+ *     tags: [Tables]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Table'
+ *     responses:
+ *       201:
+ *         description: Table created
+ *       400:
+ *         description: Invalid table data
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       409:
+ *         description: The table number is already taken
+ */
+
+/**
+ * @swagger
+ * /tables/{id}:
+ *   get:
+ *     summary: Get a table
+ *     description: "Roles: admin, waiter."
+ *     tags: [Tables]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The table
+ *       400:
+ *         description: Invalid table ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       404:
+ *         description: Table not found
+ *   put:
+ *     summary: Replace a table
+ *     description: "Roles: admin. An omitted `area` is cleared."
+ *     tags: [Tables]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Table'
+ *     responses:
+ *       200:
+ *         description: Table updated
+ *       400:
+ *         description: Invalid table ID or data
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       404:
+ *         description: Table not found
+ *       409:
+ *         description: The table number is already taken
+ *   patch:
+ *     summary: Update some fields of a table
+ *     description: "Roles: admin."
+ *     tags: [Tables]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Table'
+ *     responses:
+ *       200:
+ *         description: Table updated
+ *       400:
+ *         description: Invalid table ID or data
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       404:
+ *         description: Table not found
+ *       409:
+ *         description: The table number is already taken
+ *   delete:
+ *     summary: Delete a table
+ *     description: "Roles: admin. Past orders are kept but unlinked from the table."
+ *     tags: [Tables]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Table deleted
+ *       400:
+ *         description: Invalid table ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       404:
+ *         description: Table not found
+ *       409:
+ *         description: The table still has open orders
+ */
+
+/**
+ * @swagger
+ * /tables/{id}/status:
+ *   patch:
+ *     summary: Change the status of a table
+ *     description: "Roles: admin, waiter. Tables also become occupied when an order is opened for them and free when their last open order is completed or cancelled."
+ *     tags: [Tables]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [free, occupied, reserved, dirty]
+ *                 example: dirty
+ *     responses:
+ *       200:
+ *         description: Table status updated
+ *       400:
+ *         description: Invalid table ID or status
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: The user's role lacks the required permission (see `reason`)
+ *       404:
+ *         description: Table not found
+ */
+
+router.get('/', authenticateToken, requirePermission('tables:read'), getTablesHandler); // admin, waiter
+router.post('/', authenticateToken, requirePermission('tables:write'), validate(tableSchema), createTableHandler); // admin
+router.get('/:id', authenticateToken, requirePermission('tables:read'), getTableHandler); // admin, waiter
+router.put('/:id', authenticateToken, requirePermission('tables:write'), validate(tableSchema), updateTableHandler); // admin
+router.patch('/:id', authenticateToken, requirePermission('tables:write'), validate(tablePatchSchema), updateTableHandler); // admin
+router.delete('/:id', authenticateToken, requirePermission('tables:write'), deleteTableHandler); // admin
+router.patch('/:id/status', authenticateToken, requirePermission('tables:update_status'), validate(tableStatusUpdateSchema), updateTableStatusHandler); // admin, waiter
+
+export default router;
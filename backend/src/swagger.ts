@@ -18,6 +18,7 @@
  * @property {string} definition.components.securitySchemes.bearerAuth.type - The type of security scheme (http).
  * @property {string} definition.components.securitySchemes.bearerAuth.scheme - The scheme name (bearer).
  * @property {string} definition.components.securitySchemes.bearerAuth.bearerFormat - The format of the bearer token (JWT).
+ * @property {object} definition.components.schemas.Problem - The problem details body of every error response.
  * @property {Array<object>} definition.security - Security requirements for the API.
  * @property {Array<string>} definition.security[].bearerAuth - Specifies the bearerAuth security scheme.
  * @property {Array<string>} apis - Glob pattern to locate API route files for documentation.
@@ -53,6 +54,30 @@ const options: swaggerJsdoc.Options = {
           bearerFormat: 'JWT',
         },
       },
+      schemas: {
+        // Cuerpo de todas las respuestas de error (RFC 7807, application/problem+json)
+        Problem: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', example: 'about:blank' },
+            title: { type: 'string', example: 'Bad Request' },
+            status: { type: 'integer', example: 400 },
+            detail: { type: 'string', example: 'Validation failed' },
+            instance: { type: 'string', example: '/products' },
+            errors: {
+              type: 'array',
+              description: 'Errores por campo (solo en errores de validación)',
+              items: {
+                type: 'object',
+                properties: {
+                  field: { type: 'string', example: 'price' },
+                  message: { type: 'string', example: 'El precio debe ser mayor que 0' },
+                },
+              },
+            },
+          },
+        },
+      },
     },
     security: [
       {
@@ -1,10 +1,53 @@
+export type UserRole = 'admin' | 'waiter' | 'cook';
+
 export interface IProduct {
     id?: number;
     name: string;
-    description?: string;
+    description?: string | null;
     price: number;
     stock: number;
+    reorder_threshold?: number | null;
+    category_id?: number | null;
+    station_id?: number | null;
+    has_modifiers?: boolean;
+    /** Units that can be sold now: from the ingredients if the product has a recipe, otherwise `stock`. */
+    available?: number;
+    has_recipe?: boolean;
+    /** Incremented by every write to the product; part of its `ETag`. */
+    version?: number;
     created_at?: Date;
+    archived_at?: Date | null;
+  }
+
+export type ProductSortKey = 'id' | 'name' | 'price' | 'stock' | 'created_at';
+
+export interface IProductQuery {
+    page: number;
+    limit: number;
+    cursor?: string;
+    sort: ProductSortKey;
+    order: 'asc' | 'desc';
+    minPrice?: number;
+    maxPrice?: number;
+    minStock?: number;
+    maxStock?: number;
+    inStock?: boolean;
+    q?: string;
+    /** Only products in this category or any of its subcategories. */
+    category?: number;
+  }
+
+export interface IPagination {
+    page: number | null;
+    limit: number;
+    total: number;
+    totalPages: number;
+    nextCursor: string | null;
+  }
+
+export interface IPaginated<T> {
+    data: T[];
+    pagination: IPagination;
   }
   
 export interface IOrderItem {
@@ -13,13 +56,503 @@ export interface IOrderItem {
     product_id: number;
     quantity: number;
     price_at_time: number;
+    station_id?: number | null;
+    prep_status?: PrepStatus;
+    queued_at?: Date;
+    started_at?: Date | null;
+    ready_at?: Date | null;
+    modifiers?: IOrderItemModifier[];
+    subtotal?: number;
+    discount?: number;
+    service_charge?: number;
+    tax_rate?: number;
+    tax?: number;
+    line_total?: number;
   }
   
+export interface IOrderItemInput {
+    product_id: number;
+    quantity: number;
+    modifier_ids?: number[];
+  }
+
+/**
+ * A modifier chosen for an order item, with its name and price delta copied at order time.
+ */
+
+export interface IOrderItemModifier {
+    id: number;
+    order_item_id: number;
+    modifier_id: number | null;
+    name: string;
+    price_delta: number;
+  }
+
+/**
+ * A problem with the modifiers chosen for an order item, e.g. a required group left empty.
+ */
+
+export interface IModifierSelectionProblem {
+    product_id: number;
+    group_id?: number;
+    modifier_id?: number;
+    message: string;
+  }
+
+export interface IStockShortage {
+    product_id: number;
+    name: string;
+    requested: number;
+    available: number;
+    /** For products with a recipe: the ingredients the whole order needs more of than there is. */
+    ingredients?: IIngredientShortage[];
+  }
+
+export interface IIngredientShortage {
+    ingredient_id: number;
+    name: string;
+    unit: IngredientUnit;
+    required: string;
+    available: string;
+  }
+
+export type OrderStatus = 'pending' | 'in_progress' | 'ready' | 'served' | 'completed' | 'cancelled';
+
 export interface IOrder {
     id: number;
     user_id: number;
+    table_id?: number | null;
+    table_number?: number | null;
+    subtotal?: number;
+    discount_total?: number;
+    service_charge?: number;
+    service_charge_rate?: number;
+    tax_total?: number;
     total: number;
-    status: 'pending' | 'completed' | 'cancelled';
+    promotion_id?: number | null;
+    promo_code?: string | null;
+    status: OrderStatus;
     created_at?: Date;
+    username?: string;
     order_items: IOrderItem[];
-  }
\ No newline at end of file
+  }
+
+export interface IOrderQuery {
+    page: number;
+    limit: number;
+    status?: OrderStatus[];
+    tableId?: number;
+    waiterId?: number;
+    waiter?: string;
+    from?: Date;
+    to?: Date;
+    minTotal?: number;
+    maxTotal?: number;
+  }
+
+export interface IOrderStatusHistory {
+    id: number;
+    order_id: number;
+    from_status: OrderStatus | null;
+    to_status: OrderStatus;
+    changed_by: number;
+    changed_at: Date;
+  }
+
+export type TableStatus = 'free' | 'occupied' | 'reserved' | 'dirty';
+
+export interface ITable {
+    id?: number;
+    number: number;
+    area?: string | null;
+    capacity: number;
+    status: TableStatus;
+    created_at?: Date;
+  }
+
+export interface ITableQuery {
+    status?: TableStatus[];
+    area?: string;
+  }
+
+export interface ICategory {
+    id?: number;
+    name: string;
+    display_order: number;
+    parent_id?: number | null;
+    tax_rate?: number | null;
+    created_at?: Date;
+  }
+
+export interface IModifier {
+    id?: number;
+    group_id?: number;
+    name: string;
+    price_delta: number;
+    display_order: number;
+    created_at?: Date;
+  }
+
+export interface IModifierGroup {
+    id?: number;
+    product_id?: number;
+    name: string;
+    required: boolean;
+    min_selections: number;
+    /** `null` when any number of modifiers may be chosen. */
+    max_selections: number | null;
+    display_order: number;
+    created_at?: Date;
+    modifiers?: IModifier[];
+  }
+
+export type PrepStatus = 'queued' | 'preparing' | 'ready';
+
+export interface IStation {
+    id: number;
+    code: string;
+    name: string;
+    created_at?: Date;
+  }
+
+/**
+ * An order as seen by a kitchen station: only the items routed to that station.
+ */
+
+export interface IKitchenTicket {
+    order_id: number;
+    order_status: OrderStatus;
+    table_number: number | null;
+    waiter: string;
+    created_at: Date;
+    items: (IOrderItem & { product_name: string; station_code: string | null })[];
+  }
+/**
+ * A real-time event published to the `GET /events` stream. `user_id` on order events is the
+ * owner of the order and is used to decide which clients receive it.
+ */
+
+export type AppEvent =
+  | { type: 'order.created'; order_id: number; user_id: number; status: OrderStatus; table_id: number | null }
+  | { type: 'order.status_changed'; order_id: number; user_id: number; from: OrderStatus; to: OrderStatus }
+  | { type: 'product.stock_changed'; product_id: number; stock: number; available: number }
+  | { type: 'product.low_stock'; product_id: number; name: string; stock: number; reorder_threshold: number };
+
+export type PaymentMethod = 'cash' | 'card' | 'other';
+export type PaymentSplit = 'amount' | 'items' | 'even';
+
+export interface IPaymentItem {
+    order_item_id: number;
+    quantity: number;
+    amount: string;
+  }
+
+export interface IPayment {
+    id: number;
+    order_id: number;
+    method: PaymentMethod;
+    split: PaymentSplit;
+    amount: string;
+    tip: string;
+    tendered: string | null;
+    change_given: string;
+    provider: string | null;
+    provider_reference: string | null;
+    created_by: number | null;
+    created_at: Date;
+    items?: IPaymentItem[];
+  }
+
+/**
+ * What has been paid of an order and what is left. Amounts are decimal strings, like the
+ * order total. `items` tells, per order item, how many units have already been paid by item.
+ */
+
+export interface IOrderBalance {
+    order_id: number;
+    status: OrderStatus;
+    total: string;
+    paid: string;
+    tips: string;
+    balance: string;
+    items: {
+      order_item_id: number;
+      product_name: string;
+      quantity: number;
+      paid_quantity: number;
+      unit_price: string;
+      line_total: string;
+      paid_amount: string;
+    }[];
+    payments: IPayment[];
+  }
+
+export type PromotionKind = 'percentage' | 'fixed';
+
+export interface IPromotion {
+    id?: number;
+    code: string;
+    description?: string | null;
+    kind: PromotionKind;
+    value: number;
+    starts_at?: Date | null;
+    ends_at?: Date | null;
+    max_uses?: number | null;
+    times_used?: number;
+    active?: boolean;
+    created_at?: Date;
+  }
+
+/**
+ * The price an order would have, as returned by `POST /orders/quote` before placing it.
+ * Amounts are decimal strings; `items` follow the merged lines of the order.
+ */
+
+export interface IOrderQuote {
+    subtotal: string;
+    discount_total: string;
+    service_charge: string;
+    service_charge_rate: number;
+    tax_total: string;
+    total: string;
+    promo_code: string | null;
+    items: {
+      product_id: number;
+      quantity: number;
+      modifier_ids: number[];
+      unit_price: string;
+      subtotal: string;
+      discount: string;
+      service_charge: string;
+      tax_rate: number;
+      tax: string;
+      line_total: string;
+    }[];
+  }
+
+/**
+ * Sales reports (`/reports`). Every report covers the orders created between `from` and `to`
+ * (inclusive, either may be omitted) and, except the status breakdown, leaves cancelled
+ * orders out. Amounts are decimal strings.
+ */
+
+export type ReportPeriod = 'day' | 'week' | 'month';
+
+export interface IReportRange {
+    from?: Date;
+    to?: Date;
+  }
+
+export interface IRevenueReportRow {
+    period: string;
+    orders: number;
+    gross_sales: string;
+    discounts: string;
+    service_charges: string;
+    taxes: string;
+    revenue: string;
+    average_ticket: string;
+  }
+
+export interface ITopProductReportRow {
+    product_id: number;
+    name: string;
+    quantity: number;
+    revenue: string;
+  }
+
+export interface IWaiterSalesReportRow {
+    user_id: number;
+    username: string;
+    orders: number;
+    revenue: string;
+    average_ticket: string;
+    tips: string;
+  }
+
+export interface IAverageTicketReport {
+    orders: number;
+    revenue: string;
+    average_ticket: string;
+    average_items: string;
+  }
+
+export interface IOrderStatusReportRow {
+    status: OrderStatus;
+    orders: number;
+    total: string;
+  }
+
+/**
+ * Inventory ledger (`stock_movements`). `quantity` is the signed change to the stock
+ * (negative for sales and waste) and `stock_after` the stock it left the product with.
+ */
+
+export type StockMovementKind = 'sale' | 'restock' | 'adjustment' | 'waste' | 'return';
+
+export interface IStockMovement {
+    id: number;
+    product_id: number;
+    product_name?: string;
+    kind: StockMovementKind;
+    quantity: number;
+    stock_after: number;
+    reason: string | null;
+    order_id: number | null;
+    user_id: number | null;
+    username?: string | null;
+    created_at: Date;
+  }
+
+export interface IStockMovementInput {
+    product_id: number;
+    kind: StockMovementKind;
+    quantity: number;
+    reason?: string | null;
+    order_id?: number | null;
+    user_id?: number | null;
+  }
+
+export interface IStockMovementQuery {
+    page: number;
+    limit: number;
+    productId?: number;
+    kind?: StockMovementKind[];
+    from?: Date;
+    to?: Date;
+  }
+
+/**
+ * A product whose stock differs from the sum of its ledger movements.
+ */
+
+export interface IStockDiscrepancy {
+    product_id: number;
+    name: string;
+    stock: number;
+    ledger_stock: number;
+    difference: number;
+  }
+
+/**
+ * Ingredients and recipes. Quantities are decimal strings in the ingredient's `unit`; a
+ * recipe item is the amount one unit of the product uses.
+ */
+
+export type IngredientUnit = 'g' | 'kg' | 'ml' | 'l' | 'unit';
+
+export interface IIngredient {
+    id: number;
+    name: string;
+    unit: IngredientUnit;
+    stock: string;
+    created_at?: Date;
+  }
+
+export interface IRecipeItem {
+    ingredient_id: number;
+    name: string;
+    unit: IngredientUnit;
+    quantity: string;
+  }
+
+export interface IIngredientMovement {
+    id: number;
+    ingredient_id: number;
+    kind: StockMovementKind;
+    quantity: string;
+    stock_after: string;
+    reason: string | null;
+    order_id: number | null;
+    user_id: number | null;
+    username?: string | null;
+    created_at: Date;
+  }
+
+export interface IIngredientMovementInput {
+    ingredient_id: number;
+    kind: StockMovementKind;
+    /** The signed change to the stock, as a number or a decimal string. */
+    quantity: number | string;
+    reason?: string | null;
+    order_id?: number | null;
+    user_id?: number | null;
+  }
+
+/**
+ * A request sent with an `Idempotency-Key`. `status_code`, `content_type` and
+ * `response_body` are `null` while the request is still being handled.
+ */
+
+export interface IIdempotencyKey {
+    user_id: number;
+    key: string;
+    fingerprint: string;
+    status_code: number | null;
+    content_type: string | null;
+    response_body: string | null;
+    created_at: Date;
+    expires_at: Date;
+  }
+
+export type AuditEntityType = 'product' | 'order' | 'user';
+export type AuditAction = 'create' | 'update' | 'archive' | 'restore' | 'status_change';
+
+/**
+ * An entry of the audit log. `before` and `after` hold only the fields that changed (the
+ * whole entity on creation, when `before` is `null`).
+ */
+
+export interface IAuditEntry {
+    id: number;
+    actor_id: number | null;
+    /** Username of the actor, when listing. */
+    actor_username?: string | null;
+    action: AuditAction;
+    entity_type: AuditEntityType;
+    entity_id: number;
+    before: Record<string, unknown> | null;
+    after: Record<string, unknown> | null;
+    request_id: string | null;
+    ip: string | null;
+    created_at: Date;
+  }
+
+export interface IAuditEntryInput {
+    actor_id: number | null;
+    action: AuditAction;
+    entity_type: AuditEntityType;
+    entity_id: number;
+    before?: Record<string, unknown> | null;
+    after?: Record<string, unknown> | null;
+  }
+
+export interface IAuditQuery {
+    page: number;
+    limit: number;
+    actorId?: number;
+    entityType?: AuditEntityType;
+    entityId?: number;
+    from?: Date;
+    to?: Date;
+  }
+
+/**
+ * Why a login attempt must wait: `login_throttled` after a few failures in a row (a delay of
+ * seconds), `login_locked` once the username is locked.
+ */
+
+export type LoginBlockReason = 'login_throttled' | 'login_locked';
+
+export interface ILoginBlock {
+    reason: LoginBlockReason;
+    /** Seconds until the next attempt is allowed. */
+    retry_after: number;
+  }
+
+export interface ILoginLockout {
+    username: string;
+    failures: number;
+    last_failure_at: Date;
+    blocked_until: Date;
+  }
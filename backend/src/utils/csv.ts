@@ -0,0 +1,42 @@
+/**
+ * Minimal CSV writer (RFC 4180) for the downloadable reports.
+ *
+ * Values containing commas, quotes or line breaks are quoted, dates are written as ISO 8601
+ * and `null`/`undefined` as empty cells. Text cells that a spreadsheet would run as a formula
+ * (starting with `=`, `+`, `-`, `@`, tab or carriage return) are prefixed with `'`.
+ *
+ * @example
+ * ```typescript
+ * toCsv([{ name: 'Tacos, al pastor', quantity: 3 }], ['name', 'quantity']);
+ * // 'name,quantity\r\n"Tacos, al pastor",3\r\n'
+ * ```
+ */
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Formats a single cell.
+ */
+
+const formatCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes rows to CSV, with a header line of column names.
+ *
+ * @param rows - The rows to write.
+ * @param columns - The keys to write from each row, in order; they are also the header.
+ * @returns The CSV document, with CRLF line endings.
+ */
+
+export const toCsv = <T extends object>(rows: T[], columns: (keyof T & string)[]): string =>
+  [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+    .map((cells) => cells.map(formatCell).join(','))
+    .map((line) => `${line}\r\n`)
+    .join('');
@@ -0,0 +1,112 @@
+import { EventEmitter } from 'events';
+import { Client } from 'pg';
+import config from '../config';
+import logger from './logger';
+import { AppEvent } from '../types';
+
+/**
+ * Real-time event bus backed by Postgres `LISTEN/NOTIFY`.
+ *
+ * Models publish events with `publishEvent`, passing the client of their transaction so the
+ * notification is only delivered if the transaction commits. Every backend instance keeps one
+ * dedicated connection listening on `EVENT_CHANNEL` (see `startEventListener`) and re-emits
+ * what it receives to its local subscribers, so clients connected to any instance see the
+ * changes made through any other.
+ *
+ * @example
+ * ```typescript
+ * await publishEvent(client, { type: 'product.stock_changed', product_id: 7, stock: 12 });
+ * const unsubscribe = subscribeToEvents((event) => console.log(event.type));
+ * ```
+ */
+
+/**
+ * Postgres notification channel the events are sent on.
+ */
+
+export const EVENT_CHANNEL = 'app_events';
+
+/**
+ * Delay before reconnecting the listener after its connection is lost.
+ */
+
+const RECONNECT_DELAY_MS = 5000;
+
+const emitter = new EventEmitter();
+// One listener per open `/events` stream.
+emitter.setMaxListeners(0);
+
+/**
+ * Anything that can run a query: the pool or a client inside a transaction.
+ */
+
+interface Queryable {
+  query: (text: string, values?: unknown[]) => Promise<unknown>;
+}
+
+/**
+ * Publishes an event to every backend instance. When `db` is a client inside a transaction,
+ * Postgres delivers the notification on commit and drops it on rollback.
+ *
+ * @param db - The pool or the transaction client to send the notification with.
+ * @param event - The event to publish. Payloads must stay well under Postgres' 8000 byte limit.
+ */
+
+export const publishEvent = async (db: Queryable, event: AppEvent): Promise<void> => {
+  await db.query('SELECT pg_notify($1, $2)', [EVENT_CHANNEL, JSON.stringify(event)]);
+};
+
+/**
+ * Registers a listener for the events received by this instance.
+ *
+ * @param listener - Called with every event.
+ * @returns A function that removes the listener.
+ */
+
+export const subscribeToEvents = (listener: (event: AppEvent) => void): (() => void) => {
+  emitter.on('event', listener);
+  return () => {
+    emitter.off('event', listener);
+  };
+};
+
+/**
+ * Opens the dedicated connection that listens on `EVENT_CHANNEL` and re-emits each
+ * notification to the local subscribers. The connection is re-established after
+ * `RECONNECT_DELAY_MS` whenever it fails or ends.
+ */
+
+export const startEventListener = (): void => {
+  const client = new Client({
+    user: config.db.user,
+    host: config.db.host,
+    database: config.db.database,
+    password: config.db.password,
+    port: config.db.port,
+  });
+
+  let reconnecting = false;
+  const reconnect = (error?: Error) => {
+    if (reconnecting) return;
+    reconnecting = true;
+    logger.error('Event listener connection lost, reconnecting', { error, delayMs: RECONNECT_DELAY_MS });
+    client.end().catch(() => undefined);
+    setTimeout(startEventListener, RECONNECT_DELAY_MS);
+  };
+
+  client.on('notification', (message) => {
+    if (message.channel !== EVENT_CHANNEL || !message.payload) return;
+    try {
+      emitter.emit('event', JSON.parse(message.payload) as AppEvent);
+    } catch (error) {
+      logger.error('Invalid event payload', { error });
+    }
+  });
+  client.on('error', reconnect);
+  client.on('end', () => reconnect());
+
+  client.connect()
+    .then(() => client.query(`LISTEN ${EVENT_CHANNEL}`))
+    .then(() => logger.info('Listening for events', { channel: EVENT_CHANNEL }))
+    .catch(reconnect);
+};
@@ -0,0 +1,116 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import config from '../config';
+
+/**
+ * Structured JSON logger.
+ *
+ * Every entry is written as a single JSON line with a timestamp, a level and a message,
+ * plus any extra fields. Entries logged while handling a request automatically carry its
+ * `requestId` (see `middleware/requestId.ts`), so all the lines of a request can be correlated.
+ *
+ * Fields whose name looks like a secret (`password`, `token`, `authorization`, ...) are
+ * replaced with `[REDACTED]` at any depth, and `Error` values are serialized with their
+ * name, message, code and stack.
+ *
+ * @example
+ * ```typescript
+ * logger.info('Server running', { port: 3000 });
+ * logger.error('Error in createOrder', { error });
+ * // {"time":"2024-05-31T12:00:00.000Z","level":"error","msg":"Error in createOrder","requestId":"...","error":{...}}
+ * ```
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * Minimum level written, from the `LOG_LEVEL` setting (defaults to `info`).
+ */
+
+const minLevel: LogLevel = config.logLevel;
+
+/**
+ * Field names whose values are never written to the logs.
+ */
+
+const REDACTED_KEYS = /password|passwd|secret|token|authorization|cookie|api[-_]?key/i;
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Per-request context, populated by the `requestId` middleware.
+ */
+
+export interface RequestContext {
+  requestId: string;
+  /** The client's IP address, recorded in the audit log. */
+  ip?: string;
+}
+
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Returns a copy of `value` that is safe to log: secret fields are redacted, errors are
+ * serialized and circular references are cut.
+ */
+
+export const redact = (value: unknown, seen: WeakSet<object> = new WeakSet()): unknown => {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const { code } = value as Error & { code?: unknown };
+    return {
+      name: value.name,
+      message: value.message,
+      ...(code !== undefined && { code }),
+      stack: value.stack,
+    };
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, seen));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, REDACTED_KEYS.test(key) ? REDACTED : redact(item, seen)])
+  );
+};
+
+const write = (level: LogLevel, msg: string, fields: Record<string, unknown> = {}) => {
+  if (LOG_LEVEL_PRIORITY[level] < LOG_LEVEL_PRIORITY[minLevel]) {
+    return;
+  }
+
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg,
+    requestId: requestContext.getStore()?.requestId,
+    ...(redact(fields) as Record<string, unknown>),
+  };
+  const line = `${JSON.stringify(entry)}\n`;
+
+  if (level === 'error' || level === 'warn') {
+    process.stderr.write(line);
+  } else {
+    process.stdout.write(line);
+  }
+};
+
+const logger = {
+  debug: (msg: string, fields?: Record<string, unknown>) => write('debug', msg, fields),
+  info: (msg: string, fields?: Record<string, unknown>) => write('info', msg, fields),
+  warn: (msg: string, fields?: Record<string, unknown>) => write('warn', msg, fields),
+  error: (msg: string, fields?: Record<string, unknown>) => write('error', msg, fields),
+};
+
+export default logger;
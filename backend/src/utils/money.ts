@@ -0,0 +1,17 @@
+/**
+ * Helpers to handle money as integer cents, so amounts are never added or compared as
+ * floating point. Postgres returns `DECIMAL` columns as strings, which both helpers accept
+ * and produce.
+ */
+
+/**
+ * Converts a decimal amount (number or Postgres decimal string) to integer cents.
+ */
+
+export const toCents = (amount: number | string): number => Math.round(Number(amount) * 100);
+
+/**
+ * Formats integer cents as a decimal string, like Postgres returns `DECIMAL` columns.
+ */
+
+export const fromCents = (cents: number): string => (cents / 100).toFixed(2);
@@ -0,0 +1,77 @@
+import { Request } from 'express';
+
+/**
+ * Default and maximum page sizes shared by the paginated listing endpoints.
+ */
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+/**
+ * Reads a single, non-empty string value from the query string.
+ *
+ * @param query - The parsed query string (`req.query`).
+ * @param key - The name of the parameter.
+ * @returns The trimmed value, or `undefined` if the parameter is missing, empty or repeated.
+ */
+
+export const queryString = (query: Request['query'], key: string): string | undefined => {
+  const raw = query[key];
+  return typeof raw === 'string' && raw.trim() !== '' ? raw.trim() : undefined;
+};
+
+/**
+ * Reads a numeric value from the query string.
+ *
+ * @param query - The parsed query string (`req.query`).
+ * @param key - The name of the parameter.
+ * @param options.integer - Whether the value must be an integer.
+ * @param options.min - The smallest accepted value (defaults to 0).
+ * @returns The parsed number, `undefined` if the parameter is missing, or `null` if it is invalid.
+ */
+
+export const queryNumber = (
+  query: Request['query'],
+  key: string,
+  { integer = false, min = 0 }: { integer?: boolean; min?: number } = {}
+): number | undefined | null => {
+  const raw = queryString(query, key);
+  if (raw === undefined) return undefined;
+  const parsed = Number(raw);
+  if (isNaN(parsed) || parsed < min || (integer && !Number.isInteger(parsed))) return null;
+  return parsed;
+};
+
+/**
+ * Reads a date value from the query string (any format accepted by `Date`, e.g. `2024-05-01`).
+ *
+ * @param query - The parsed query string (`req.query`).
+ * @param key - The name of the parameter.
+ * @returns The parsed date, `undefined` if the parameter is missing, or `null` if it is invalid.
+ */
+
+export const queryDate = (query: Request['query'], key: string): Date | undefined | null => {
+  const raw = queryString(query, key);
+  if (raw === undefined) return undefined;
+  const parsed = new Date(raw);
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+/**
+ * Reads the `from`/`to` date range from the query string. Both bounds are inclusive, and a
+ * date-only `to` (e.g. `2024-05-31`) includes the whole day.
+ *
+ * @param query - The parsed query string (`req.query`).
+ * @returns The range (either bound may be `undefined`), or `null` if a bound is invalid.
+ */
+
+export const queryDateRange = (query: Request['query']): { from?: Date; to?: Date } | null => {
+  const from = queryDate(query, 'from');
+  let to = queryDate(query, 'to');
+  if (from === null || to === null) return null;
+
+  if (to && /^\d{4}-\d{2}-\d{2}$/.test(queryString(query, 'to')!)) {
+    to = new Date(to.getTime() + 24 * 60 * 60 * 1000 - 1);
+  }
+  return { from, to };
+};
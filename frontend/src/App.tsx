@@ -14,9 +14,10 @@
  * - `/create-product`: Renders the `CreateProduct` component.
  * - `/create-order`: Renders the `CreateOrder` component.
  * - `/dashboard`: Renders the `Dashboard` component, protected by the `ProtectedRoute` component.
+ * - `/kitchen`: Renders the `Kitchen` display, protected by the `ProtectedRoute` component.
  * 
  * Protected Routes:
- * - The `ProtectedRoute` component ensures that only authenticated users can access the `/dashboard` route.
+ * - The `ProtectedRoute` component ensures that only authenticated users can access the `/dashboard` and `/kitchen` routes.
  * 
  * Context:
  * - The `AuthProvider` wraps the application to provide authentication-related state and functionality.
@@ -32,6 +33,7 @@ import ProductList from './pages/ProductList';
 import CreateProduct from './pages/CreateProduct';
 import CreateOrder from './pages/CreateOrder';
 import Register from './pages/Register';
+import Kitchen from './pages/Kitchen';
 import ProtectedRoute from './components/ProtectedRoute';
 import { AuthProvider } from './context/AuthContext';
 
@@ -49,6 +51,7 @@ const App: React.FC = () => {
           
           <Route element={<ProtectedRoute />}>
             <Route path="/dashboard" element={<Dashboard />} />
+            <Route path="/kitchen" element={<Kitchen />} />
           </Route>
         </Routes>
       </AuthProvider>
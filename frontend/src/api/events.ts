@@ -0,0 +1,130 @@
+/**
+ * Client for the backend's real-time event stream (`GET /events`, Server-Sent Events).
+ *
+ * The browser's `EventSource` cannot send an `Authorization` header, so the stream is read
+ * with `fetch` using the stored access token. When the token has expired it is refreshed
+ * through `refreshSession` (the same refresh the axios interceptor uses) and the stream is
+ * reopened; any other disconnection is retried after `RECONNECT_DELAY_MS`.
+ *
+ * Events missed while disconnected are not replayed, so pages pass an `onReconnect` callback
+ * that refetches their data.
+ *
+ * @module api/events
+ *
+ * @example
+ * useServerEvents((event) => {
+ *   if (event.type === 'product.stock_changed') updateStock(event.product_id, event.stock);
+ * }, refetchProducts);
+ */
+
+import { useEffect, useRef } from 'react';
+import { API_BASE_URL, refreshSession } from './index';
+
+export type ServerEvent =
+  | { type: 'order.created'; order_id: number; user_id: number; status: string; table_id: number | null }
+  | { type: 'order.status_changed'; order_id: number; user_id: number; from: string; to: string }
+  | { type: 'product.stock_changed'; product_id: number; stock: number; available: number }
+  | { type: 'product.low_stock'; product_id: number; name: string; stock: number; reorder_threshold: number };
+
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Parses one SSE message block and returns its JSON data, or `undefined` for comments
+ * (heartbeats) and `retry` hints.
+ */
+const parseMessage = (block: string): ServerEvent | undefined => {
+  const data = block
+    .split('\n')
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice(5).trimStart())
+    .join('\n');
+  return data ? (JSON.parse(data) as ServerEvent) : undefined;
+};
+
+/**
+ * Opens the event stream and keeps it open until the returned function is called.
+ *
+ * @param onEvent - Called with every event received.
+ * @param onReconnect - Called each time the stream is reopened after a disconnection.
+ * @returns A function that closes the stream and stops reconnecting.
+ */
+export const connectToEvents = (onEvent: (event: ServerEvent) => void, onReconnect?: () => void): (() => void) => {
+  const controller = new AbortController();
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let connectedBefore = false;
+
+  const connect = async () => {
+    const token = localStorage.getItem('authToken');
+    if (!token || controller.signal.aborted) return;
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/events`, {
+        headers: { Authorization: `Bearer ${token}`, Accept: 'text/event-stream' },
+        signal: controller.signal,
+      });
+
+      if (response.status === 401) {
+        // Without a valid session there is nothing to reconnect to; the next API call logs the user out.
+        const refreshed = await refreshSession().then(() => true, () => false);
+        if (refreshed) connect();
+        return;
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`Event stream responded with ${response.status}`);
+      }
+
+      if (connectedBefore) onReconnect?.();
+      connectedBefore = true;
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value.replace(/\r\n/g, '\n');
+        const blocks = buffer.split('\n\n');
+        buffer = blocks.pop() ?? '';
+        blocks.forEach((block) => {
+          const event = parseMessage(block);
+          if (event) onEvent(event);
+        });
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Error en el canal de eventos:', error);
+    }
+
+    if (!controller.signal.aborted) {
+      retryTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+    }
+  };
+
+  connect();
+  return () => {
+    controller.abort();
+    clearTimeout(retryTimer);
+  };
+};
+
+/**
+ * React hook that subscribes a component to the event stream while it is mounted.
+ * The latest callbacks are always used, so they do not need to be memoized.
+ *
+ * @param onEvent - Called with every event received.
+ * @param onReconnect - Called after the stream is reopened, to refetch data that may have changed meanwhile.
+ */
+export const useServerEvents = (onEvent: (event: ServerEvent) => void, onReconnect?: () => void) => {
+  const handlers = useRef({ onEvent, onReconnect });
+
+  useEffect(() => {
+    handlers.current = { onEvent, onReconnect };
+  });
+
+  useEffect(
+    () => connectToEvents(
+      (event) => handlers.current.onEvent(event),
+      () => handlers.current.onReconnect?.()
+    ),
+    []
+  );
+};
@@ -0,0 +1,60 @@
+/**
+ * Idempotency keys for requests that create something (`POST /orders`,
+ * `POST /orders/:id/payments`).
+ *
+ * Each submission attempt gets its own `Idempotency-Key`. When the attempt gets no response
+ * (the connection dropped, so it is unknown whether the backend handled it) or the backend
+ * is still handling it, the key is kept: submitting the same payload again sends the same key
+ * and the backend replays the original response instead of creating a duplicate. Any other
+ * outcome ends the attempt, so the next submission, even with an identical payload (e.g. a
+ * second diner paying the same even share), is a new one.
+ *
+ * @module api/idempotency
+ *
+ * @example
+ * const { keyFor, settle } = useIdempotencyKey();
+ * try {
+ *   await api.post('/orders', payload, { headers: { 'Idempotency-Key': keyFor(payload) } });
+ *   settle();
+ * } catch (error) {
+ *   settle(error);
+ * }
+ */
+
+import { useCallback, useRef } from 'react';
+import axios from 'axios';
+
+/**
+ * Generates a random key. `crypto.randomUUID` is not used because it is only available on
+ * secure origins, and the app may be served over plain HTTP on the restaurant's network.
+ */
+const newKey = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Whether the outcome of a request is unknown, so it must be retried with the same key.
+ */
+const isUnsettled = (error: unknown) =>
+  axios.isAxiosError(error) && (!error.response || (error.response.status === 409 && Boolean(error.response.headers['retry-after'])));
+
+export const useIdempotencyKey = () => {
+  const attempt = useRef<{ key: string; payload: string } | null>(null);
+
+  /** Returns the key of the attempt to send `payload`, starting a new one if needed. */
+  const keyFor = useCallback((payload: unknown) => {
+    const serialized = JSON.stringify(payload);
+    if (attempt.current?.payload !== serialized) {
+      attempt.current = { key: newKey(), payload: serialized };
+    }
+    return attempt.current.key;
+  }, []);
+
+  /** Ends the current attempt, unless `error` leaves its outcome unknown. */
+  const settle = useCallback((error?: unknown) => {
+    if (!isUnsettled(error)) {
+      attempt.current = null;
+    }
+  }, []);
+
+  return { keyFor, settle };
+};
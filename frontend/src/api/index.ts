@@ -7,9 +7,10 @@
  * 
  * - The request interceptor automatically attaches a `Bearer` token from localStorage
  *   to the `Authorization` header of outgoing requests, if available.
- * - The response interceptor handles `401 Unauthorized` responses by clearing the
- *   authentication token and user data from localStorage, and redirects the user
- *   to the login page.
+ * - The response interceptor handles `401 Unauthorized` responses by exchanging the stored
+ *   refresh token at `/auth/refresh` and retrying the original request once with the new
+ *   access token. Concurrent 401s share a single refresh request. If the refresh fails, the
+ *   session data is cleared from localStorage and the user is redirected to the login page.
  * 
  * @module api
  * @requires axios
@@ -25,15 +26,59 @@
  */
 
 import axios from 'axios';
+import type { InternalAxiosRequestConfig } from 'axios';
+
+export const API_BASE_URL = 'http://localhost:3001'; // Cambia esto según tu configuración
 
 const api = axios.create({
-  baseURL: 'http://localhost:3001' , // Cambia esto según tu configuración
+  baseURL: API_BASE_URL,
 });
 
+/**
+ * Removes every session value stored by `AuthContext` from localStorage.
+ */
+export const clearStoredSession = () => {
+  localStorage.removeItem('authToken');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('username');
+  localStorage.removeItem('userRole');
+};
+
+let refreshPromise: Promise<string> | null = null;
+
+/**
+ * Exchanges the stored refresh token for a new token pair and stores it.
+ * Uses plain `axios` so the request does not go through the interceptors below.
+ */
+const refreshAccessToken = async (): Promise<string> => {
+  const refreshToken = localStorage.getItem('refreshToken');
+  if (!refreshToken) {
+    throw new Error('No hay refresh token disponible');
+  }
+
+  const response = await axios.post(`${API_BASE_URL}/auth/refresh`, { refreshToken });
+  const { token, refreshToken: nextRefreshToken } = response.data;
+
+  localStorage.setItem('authToken', token);
+  localStorage.setItem('refreshToken', nextRefreshToken);
+  api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+  return token;
+};
+
+/**
+ * Refreshes the access token, sharing a single `/auth/refresh` request between concurrent callers.
+ */
+export const refreshSession = (): Promise<string> => {
+  refreshPromise = refreshPromise ?? refreshAccessToken().finally(() => {
+    refreshPromise = null;
+  });
+  return refreshPromise;
+};
+
 // Interceptor para agregar el token a las solicitudes
 api.interceptors.request.use(
   (config) => {
-    const token = localStorage.getItem('token');
+    const token = localStorage.getItem('authToken');
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -44,18 +89,33 @@ api.interceptors.request.use(
   }
 );
 
-// Interceptor para manejar respuestas no autorizadas
+// Interceptor para renovar el token en respuestas no autorizadas
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      // Maneja el cierre de sesión directamente
-      localStorage.removeItem('token');
-      localStorage.removeItem('user');
-      window.location.href = '/login'; // Redirige al inicio de sesión
+  async (error) => {
+    const originalRequest = error.config as (InternalAxiosRequestConfig & { _retry?: boolean }) | undefined;
+    const isAuthRequest = originalRequest?.url?.startsWith('/auth/');
+
+    if (error.response?.status !== 401 || !originalRequest || isAuthRequest) {
+      return Promise.reject(error);
+    }
+
+    if (!originalRequest._retry) {
+      originalRequest._retry = true;
+      try {
+        const token = await refreshSession();
+        originalRequest.headers.Authorization = `Bearer ${token}`;
+        return api(originalRequest);
+      } catch (refreshError) {
+        console.error('No se pudo renovar la sesión:', refreshError);
+      }
     }
+
+    // Maneja el cierre de sesión directamente
+    clearStoredSession();
+    window.location.href = '/login'; // Redirige al inicio de sesión
     return Promise.reject(error);
   }
 );
 
-export default api;
\ No newline at end of file
+export default api;
@@ -0,0 +1,67 @@
+/**
+ * Helpers for the RFC 7807 `application/problem+json` error responses sent by the API.
+ *
+ * Every error response carries a human-readable `detail`; validation errors also carry an
+ * `errors` array with one entry per invalid field, using the same messages as the shared
+ * schemas in `@oceans/shared`, so they can be shown next to the matching form inputs.
+ *
+ * @example
+ * ```tsx
+ * try {
+ *   await api.post('/products', data);
+ * } catch (error) {
+ *   if (!applyFieldErrors(error, setError)) {
+ *     setSubmissionError(getErrorMessage(error, 'Error al crear el producto.'));
+ *   }
+ * }
+ * ```
+ */
+
+import axios from 'axios';
+import type { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import type { FieldError } from '@oceans/shared';
+
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  errors?: FieldError[];
+  [extension: string]: unknown;
+}
+
+/**
+ * Returns the problem details of a failed API request, or `undefined` if the error did not
+ * come with a response body (e.g. a network error).
+ */
+
+export const getProblem = (error: unknown): ProblemDetails | undefined => {
+  if (!axios.isAxiosError(error) || !error.response?.data || typeof error.response.data !== 'object') {
+    return undefined;
+  }
+  return error.response.data as ProblemDetails;
+};
+
+/**
+ * Returns the `detail` of a failed API request, falling back to `fallback` when there is none.
+ */
+
+export const getErrorMessage = (error: unknown, fallback: string): string =>
+  getProblem(error)?.detail || fallback;
+
+/**
+ * Shows the per-field validation errors of a failed API request on the matching form inputs.
+ *
+ * @param error - The error thrown by the API call.
+ * @param setError - The `setError` function of the form.
+ * @returns `true` if at least one field error was applied.
+ */
+
+export const applyFieldErrors = <T extends FieldValues>(error: unknown, setError: UseFormSetError<T>): boolean => {
+  const fieldErrors = getProblem(error)?.errors?.filter((fieldError) => fieldError.field) ?? [];
+  fieldErrors.forEach((fieldError) => {
+    setError(fieldError.field as Path<T>, { type: 'server', message: fieldError.message });
+  });
+  return fieldErrors.length > 0;
+};
@@ -0,0 +1,178 @@
+/**
+ * A modal dialog to choose the modifiers of a product ("sin cebolla", "extra queso +$1.50")
+ * before adding it to an order.
+ *
+ * Each modifier group is shown with its limits: groups that allow a single choice behave like
+ * radio buttons, the others like checkboxes that stop accepting choices once the group's
+ * `max_selections` is reached. The confirm button stays disabled until every group has at
+ * least its `min_selections`, the same rule the backend enforces when the order is created.
+ *
+ * @component
+ *
+ * @interface Modifier
+ * Represents a modifier as returned by `GET /products/:id/modifier-groups`.
+ * @property {number} id - The unique identifier of the modifier.
+ * @property {string} name - The name of the modifier.
+ * @property {string} price_delta - The price added to each unit, as a decimal string (may be `"0.00"`).
+ *
+ * @interface ModifierGroup
+ * Represents a modifier group of a product with its modifiers.
+ * @property {number} id - The unique identifier of the group.
+ * @property {string} name - The name of the group, e.g. "Extras".
+ * @property {boolean} required - Whether at least one modifier must be chosen.
+ * @property {number} min_selections - The minimum number of modifiers to choose.
+ * @property {number | null} max_selections - The maximum number of modifiers, or `null` for no limit.
+ * @property {Modifier[]} modifiers - The modifiers of the group, in display order.
+ *
+ * @interface SelectedModifier
+ * A chosen modifier, with its price delta already parsed.
+ *
+ * @param {string} productName - The name of the product being added.
+ * @param {number} basePrice - The price of the product without modifiers.
+ * @param {ModifierGroup[]} groups - The modifier groups of the product.
+ * @param {(modifiers: SelectedModifier[]) => void} onConfirm - Called with the chosen modifiers.
+ * @param {() => void} onCancel - Called when the dialog is closed without adding the product.
+ *
+ * @example
+ * <ModifierDialog productName="Hamburguesa" basePrice={8.5} groups={groups} onConfirm={add} onCancel={close} />
+ */
+
+import React, { useState } from 'react';
+
+export interface Modifier {
+  id: number;
+  name: string;
+  price_delta: string;
+}
+
+export interface ModifierGroup {
+  id: number;
+  name: string;
+  required: boolean;
+  min_selections: number;
+  max_selections: number | null;
+  modifiers: Modifier[];
+}
+
+export interface SelectedModifier {
+  id: number;
+  name: string;
+  priceDelta: number;
+}
+
+interface ModifierDialogProps {
+  productName: string;
+  basePrice: number;
+  groups: ModifierGroup[];
+  onConfirm: (modifiers: SelectedModifier[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Describes the selection limits of a group, e.g. "Obligatorio · elige 1" or "Opcional · hasta 3".
+ */
+
+const describeLimits = (group: ModifierGroup): string => {
+  const { min_selections: min, max_selections: max } = group;
+  const kind = min > 0 ? 'Obligatorio' : 'Opcional';
+  if (max !== null && min === max) return `${kind} · elige ${max}`;
+  if (min > 0 && max !== null) return `${kind} · elige de ${min} a ${max}`;
+  if (min > 0) return `${kind} · elige al menos ${min}`;
+  if (max !== null) return `${kind} · hasta ${max}`;
+  return kind;
+};
+
+const ModifierDialog: React.FC<ModifierDialogProps> = ({ productName, basePrice, groups, onConfirm, onCancel }) => {
+  const [selected, setSelected] = useState<Record<number, number[]>>({});
+
+  const toggleModifier = (group: ModifierGroup, modifierId: number) => {
+    setSelected((prev) => {
+      const current = prev[group.id] ?? [];
+      if (current.includes(modifierId)) {
+        return { ...prev, [group.id]: current.filter((id) => id !== modifierId) };
+      }
+      if (group.max_selections === 1) {
+        return { ...prev, [group.id]: [modifierId] };
+      }
+      if (group.max_selections !== null && current.length >= group.max_selections) {
+        return prev;
+      }
+      return { ...prev, [group.id]: [...current, modifierId] };
+    });
+  };
+
+  const chosen: SelectedModifier[] = groups.flatMap((group) =>
+    group.modifiers
+      .filter((modifier) => (selected[group.id] ?? []).includes(modifier.id))
+      .map((modifier) => ({ id: modifier.id, name: modifier.name, priceDelta: parseFloat(modifier.price_delta) || 0 }))
+  );
+  const isValid = groups.every((group) => (selected[group.id] ?? []).length >= group.min_selections);
+  const unitPrice = basePrice + chosen.reduce((sum, modifier) => sum + modifier.priceDelta, 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" role="dialog" aria-modal="true" aria-labelledby="modifier-dialog-title">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 border border-blue-100">
+        <h2 id="modifier-dialog-title" className="text-2xl font-bold text-blue-800 mb-4">{productName}</h2>
+
+        <div className="space-y-5">
+          {groups.map((group) => (
+            <fieldset key={group.id}>
+              <legend className="font-semibold text-gray-800">
+                {group.name} <span className="text-sm font-normal text-gray-500">({describeLimits(group)})</span>
+              </legend>
+              <div className="mt-2 space-y-1">
+                {group.modifiers.map((modifier) => {
+                  const isChecked = (selected[group.id] ?? []).includes(modifier.id);
+                  const delta = parseFloat(modifier.price_delta) || 0;
+                  return (
+                    <label key={modifier.id} className="flex items-center justify-between gap-2 p-2 rounded-lg hover:bg-blue-50 cursor-pointer">
+                      <span className="flex items-center gap-2">
+                        <input
+                          type={group.max_selections === 1 ? 'radio' : 'checkbox'}
+                          name={`modifier-group-${group.id}`}
+                          checked={isChecked}
+                          onChange={() => toggleModifier(group, modifier.id)}
+                          onClick={() => {
+                            // Radio buttons do not fire onChange when clicked again; allow clearing an optional choice.
+                            if (group.max_selections === 1 && isChecked) toggleModifier(group, modifier.id);
+                          }}
+                        />
+                        {modifier.name}
+                      </span>
+                      {delta !== 0 && (
+                        <span className="text-sm text-gray-600">{delta > 0 ? '+' : '-'}${Math.abs(delta).toFixed(2)}</span>
+                      )}
+                    </label>
+                  );
+                })}
+              </div>
+            </fieldset>
+          ))}
+        </div>
+
+        <div className="mt-6 flex items-center justify-between gap-4">
+          <span className="text-lg font-bold text-blue-900">${unitPrice.toFixed(2)} / ud.</span>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 rounded-lg bg-gray-200 text-gray-800 hover:bg-gray-300"
+            >
+              Cancelar
+            </button>
+            <button
+              type="button"
+              onClick={() => onConfirm(chosen)}
+              disabled={!isValid}
+              className={`px-4 py-2 rounded-lg text-white font-semibold ${isValid ? 'bg-green-600 hover:bg-green-700' : 'bg-gray-400 cursor-not-allowed'}`}
+            >
+              Agregar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModifierDialog;
@@ -0,0 +1,344 @@
+/**
+ * A modal dialog to charge an order, in one or several payments.
+ *
+ * Shows the order's balance (`GET /orders/:id/balance`) and lets the waiter record payments
+ * (`POST /orders/:id/payments`) in three ways: a free amount ("Importe"), the units of some
+ * items ("Por productos") or one equal share of the balance ("Partes iguales"). A tip can be
+ * added to any payment, and for cash payments the change is shown from the amount handed
+ * over. The dialog stays open after each payment so the rest of the bill can be split, and
+ * closes itself once nothing is left to pay. Payments are sent with an `Idempotency-Key`, so
+ * resubmitting after a dropped connection cannot charge twice.
+ *
+ * @component
+ *
+ * @interface BalanceItem
+ * An item of the order with the units already paid by item.
+ * @property {number} order_item_id - The ID of the order item.
+ * @property {string} product_name - The name of the product.
+ * @property {number} quantity - The units ordered.
+ * @property {number} paid_quantity - The units already paid by item.
+ * @property {string} unit_price - The price of one unit with its modifiers, discount, service charge and tax, as a decimal string.
+ * @property {string} line_total - What the whole item is charged, as a decimal string.
+ * @property {string} paid_amount - What has already been paid of the item by item, as a decimal string.
+ *
+ * @interface Balance
+ * The balance of an order as returned by the backend; amounts are decimal strings.
+ *
+ * @param {number} orderId - The ID of the order to charge.
+ * @param {() => void} onClose - Called when the dialog is closed.
+ * @param {(orderStatus: string) => void} onPaid - Called after each payment with the resulting order status.
+ *
+ * @example
+ * <PaymentDialog orderId={12} onClose={close} onPaid={(status) => updateOrderStatus(12, status)} />
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import api from '../api';
+import { getErrorMessage, getProblem } from '../api/problem';
+import { useIdempotencyKey } from '../api/idempotency';
+
+interface BalanceItem {
+  order_item_id: number;
+  product_name: string;
+  quantity: number;
+  paid_quantity: number;
+  unit_price: string;
+  line_total: string;
+  paid_amount: string;
+}
+
+interface Payment {
+  id: number;
+  method: PaymentMethod;
+  amount: string;
+  tip: string;
+  change_given: string;
+}
+
+interface Balance {
+  total: string;
+  paid: string;
+  tips: string;
+  balance: string;
+  items: BalanceItem[];
+  payments: Payment[];
+}
+
+type PaymentMethod = 'cash' | 'card' | 'other';
+type PaymentSplit = 'amount' | 'items' | 'even';
+
+interface PaymentDialogProps {
+  orderId: number;
+  onClose: () => void;
+  onPaid: (orderStatus: string) => void;
+}
+
+const METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Efectivo',
+  card: 'Tarjeta',
+  other: 'Otro',
+};
+
+const SPLIT_LABELS: Record<PaymentSplit, string> = {
+  amount: 'Importe',
+  items: 'Por productos',
+  even: 'Partes iguales',
+};
+
+/**
+ * What paying `quantity` units of an item by item costs, as the backend computes it: a share of
+ * the item's line total, where the last units pay whatever is left of the line.
+ */
+
+const itemAmount = (item: BalanceItem, quantity: number) => {
+  if (quantity === 0) return 0;
+  const lineCents = Math.round(parseFloat(item.line_total) * 100);
+  const cents = quantity === item.quantity - item.paid_quantity
+    ? lineCents - Math.round(parseFloat(item.paid_amount) * 100)
+    : Math.round((lineCents * quantity) / item.quantity);
+  return cents / 100;
+};
+
+const inputClassName = 'mt-1 block w-full p-2 border border-blue-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const PaymentDialog: React.FC<PaymentDialogProps> = ({ orderId, onClose, onPaid }) => {
+  const [balance, setBalance] = useState<Balance | null>(null);
+  const [split, setSplit] = useState<PaymentSplit>('amount');
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [amount, setAmount] = useState<string>('');
+  const [itemQuantities, setItemQuantities] = useState<Record<number, number>>({});
+  const [ways, setWays] = useState<string>('2');
+  const [tip, setTip] = useState<string>('');
+  const [tendered, setTendered] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [lastChange, setLastChange] = useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const { keyFor, settle } = useIdempotencyKey();
+
+  const fetchBalance = useCallback(async () => {
+    try {
+      const response = await api.get<Balance>(`/orders/${orderId}/balance`);
+      setBalance(response.data);
+      setAmount(response.data.balance);
+      setItemQuantities({});
+    } catch (err) {
+      console.error('Error fetching order balance:', err);
+      setError(getErrorMessage(err, 'No se pudo cargar el saldo de la orden.'));
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    fetchBalance();
+  }, [fetchBalance]);
+
+  const outstanding = balance ? parseFloat(balance.balance) : 0;
+  const paymentAmount = (() => {
+    if (split === 'amount') return parseFloat(amount) || 0;
+    if (split === 'even') return Math.round((outstanding * 100) / (parseInt(ways) || 1)) / 100;
+    return (balance?.items ?? []).reduce((sum, item) => sum + itemAmount(item, itemQuantities[item.order_item_id] ?? 0), 0);
+  })();
+  const tipAmount = parseFloat(tip) || 0;
+  const change = method === 'cash' && tendered !== '' ? (parseFloat(tendered) || 0) - paymentAmount - tipAmount : null;
+
+  const changeItemQuantity = (item: BalanceItem, quantity: number) => {
+    const remaining = item.quantity - item.paid_quantity;
+    setItemQuantities((prev) => ({ ...prev, [item.order_item_id]: Math.min(Math.max(quantity, 0), remaining) }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setLastChange(null);
+
+    const payload = {
+      split,
+      method,
+      tip: tipAmount,
+      ...(split === 'amount' && { amount: parseFloat(amount) }),
+      ...(split === 'even' && { ways: parseInt(ways) }),
+      ...(split === 'items' && {
+        items: Object.entries(itemQuantities)
+          .filter(([, quantity]) => quantity > 0)
+          .map(([id, quantity]) => ({ order_item_id: Number(id), quantity })),
+      }),
+      ...(method === 'cash' && tendered !== '' && { tendered: parseFloat(tendered) }),
+    };
+
+    setIsSubmitting(true);
+    try {
+      const response = await api.post(`/orders/${orderId}/payments`, payload, {
+        headers: { 'Idempotency-Key': keyFor(payload) },
+      });
+      settle();
+      setLastChange(method === 'cash' ? parseFloat(response.data.change_given) : null);
+      setTip('');
+      setTendered('');
+      if (split === 'even' && parseInt(ways) > 1) {
+        setWays(String(parseInt(ways) - 1));
+      }
+      onPaid(response.data.order_status);
+      if (parseFloat(response.data.balance) <= 0) {
+        alert(method === 'cash' ? `Orden pagada. Cambio: $${parseFloat(response.data.change_given).toFixed(2)}` : 'Orden pagada.');
+        onClose();
+        return;
+      }
+      await fetchBalance();
+    } catch (err) {
+      settle(err);
+      console.error('Error creating payment:', err);
+      const problem = getProblem(err);
+      if (problem?.status === 402) {
+        setError('La tarjeta fue rechazada.');
+      } else {
+        setError(getErrorMessage(err, 'No se pudo registrar el pago.'));
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" role="dialog" aria-modal="true" aria-labelledby="payment-dialog-title">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 border border-blue-100">
+        <h2 id="payment-dialog-title" className="text-2xl font-bold text-blue-800 mb-4">Cobrar Orden #{orderId}</h2>
+
+        {!balance ? (
+          <p className="text-gray-600">{error ?? 'Cargando...'}</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="p-2 bg-blue-50 rounded-lg">
+                <p className="text-xs text-gray-600">Total</p>
+                <p className="font-bold">${parseFloat(balance.total).toFixed(2)}</p>
+              </div>
+              <div className="p-2 bg-green-50 rounded-lg">
+                <p className="text-xs text-gray-600">Pagado</p>
+                <p className="font-bold">${parseFloat(balance.paid).toFixed(2)}</p>
+              </div>
+              <div className="p-2 bg-yellow-50 rounded-lg">
+                <p className="text-xs text-gray-600">Pendiente</p>
+                <p className="font-bold">${outstanding.toFixed(2)}</p>
+              </div>
+            </div>
+
+            {balance.payments.length > 0 && (
+              <ul className="text-sm text-gray-600 space-y-1">
+                {balance.payments.map((payment) => (
+                  <li key={payment.id}>
+                    {METHOD_LABELS[payment.method]}: ${parseFloat(payment.amount).toFixed(2)}
+                    {parseFloat(payment.tip) > 0 && ` + propina $${parseFloat(payment.tip).toFixed(2)}`}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex gap-2" role="tablist">
+              {(Object.keys(SPLIT_LABELS) as PaymentSplit[]).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  role="tab"
+                  aria-selected={split === option}
+                  onClick={() => setSplit(option)}
+                  className={`flex-1 px-3 py-2 rounded-lg text-sm font-semibold ${split === option ? 'bg-blue-600 text-white' : 'bg-blue-100 text-blue-800 hover:bg-blue-200'}`}
+                >
+                  {SPLIT_LABELS[option]}
+                </button>
+              ))}
+            </div>
+
+            {split === 'amount' && (
+              <label className="block text-sm font-semibold text-gray-700">
+                Importe
+                <input type="number" min="0.01" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} className={inputClassName} />
+              </label>
+            )}
+
+            {split === 'items' && (
+              <div className="space-y-2">
+                {balance.items.map((item) => {
+                  const remaining = item.quantity - item.paid_quantity;
+                  return (
+                    <div key={item.order_item_id} className="flex items-center justify-between gap-2 text-sm">
+                      <span className={remaining === 0 ? 'text-gray-400 line-through' : ''}>
+                        {item.product_name} (${parseFloat(item.unit_price).toFixed(2)}) · {remaining} de {item.quantity} por pagar
+                      </span>
+                      <input
+                        type="number"
+                        min="0"
+                        max={remaining}
+                        disabled={remaining === 0}
+                        value={itemQuantities[item.order_item_id] ?? 0}
+                        onChange={(e) => changeItemQuantity(item, parseInt(e.target.value) || 0)}
+                        className="w-16 p-1 border border-blue-300 rounded"
+                        aria-label={`Unidades de ${item.product_name}`}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {split === 'even' && (
+              <label className="block text-sm font-semibold text-gray-700">
+                Personas que faltan por pagar
+                <input type="number" min="1" max="50" value={ways} onChange={(e) => setWays(e.target.value)} className={inputClassName} />
+              </label>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block text-sm font-semibold text-gray-700">
+                Método
+                <select value={method} onChange={(e) => setMethod(e.target.value as PaymentMethod)} className={inputClassName}>
+                  {(Object.keys(METHOD_LABELS) as PaymentMethod[]).map((option) => (
+                    <option key={option} value={option}>{METHOD_LABELS[option]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm font-semibold text-gray-700">
+                Propina (Opcional)
+                <input type="number" min="0" step="0.01" value={tip} onChange={(e) => setTip(e.target.value)} className={inputClassName} />
+              </label>
+            </div>
+
+            {method === 'cash' && (
+              <label className="block text-sm font-semibold text-gray-700">
+                Efectivo entregado (Opcional)
+                <input type="number" min="0" step="0.01" value={tendered} onChange={(e) => setTendered(e.target.value)} className={inputClassName} />
+              </label>
+            )}
+
+            <div className="text-gray-800">
+              <p>A cobrar: <strong>${(paymentAmount + tipAmount).toFixed(2)}</strong></p>
+              {change !== null && (
+                <p className={change < 0 ? 'text-red-600' : ''}>
+                  {change < 0 ? `Faltan $${Math.abs(change).toFixed(2)}` : `Cambio: $${change.toFixed(2)}`}
+                </p>
+              )}
+              {lastChange !== null && lastChange > 0 && (
+                <p className="text-green-700">Cambio del último pago: ${lastChange.toFixed(2)}</p>
+              )}
+            </div>
+
+            {error && <p className="text-red-600 text-sm">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg bg-gray-200 text-gray-800 hover:bg-gray-300">
+                Cerrar
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting || paymentAmount <= 0}
+                className={`px-4 py-2 rounded-lg text-white font-semibold ${isSubmitting || paymentAmount <= 0 ? 'bg-gray-400 cursor-not-allowed' : 'bg-green-600 hover:bg-green-700'}`}
+              >
+                {isSubmitting ? 'Cobrando...' : 'Cobrar'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PaymentDialog;
@@ -1,7 +1,18 @@
 import React, { createContext, useState, useContext, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import type { ReactNode } from 'react';
-import api from '../api';
+import api, { clearStoredSession } from '../api';
+import { getErrorMessage, getProblem } from '../api/problem';
+
+/**
+ * The session returned by `POST /auth/login` and `POST /auth/register`.
+ */
+export interface AuthSession {
+  token: string;
+  refreshToken: string;
+  user: string;
+  role: string;
+}
 
 interface AuthContextType {
   isAuthenticated: boolean; 
@@ -9,6 +20,7 @@ interface AuthContextType {
   userRole: string | null; 
   token: string | null;
   login: (username: string, password: string) => Promise<void>;
+  startSession: (session: AuthSession) => void;
   logout: () => void;
 }
 
@@ -41,6 +53,7 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
  * @property {string | null} userRole - The role of the authenticated user, or null if not authenticated.
  * @property {string | null} token - The authentication token, or null if not authenticated.
  * @property {Function} login - A function to log in the user. Accepts a username and password, and updates the authentication state.
+ * @property {Function} startSession - Starts the session returned by the backend (e.g. by `POST /auth/register`) without logging in again.
  * @property {Function} logout - A function to log out the user. Clears the authentication state and redirects to the login page.
  * 
  * @example
@@ -70,49 +83,66 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   }, [token]); 
 
+  /**
+   * Starts a session returned by the backend: stores the access token, refresh token, username
+   * and role in localStorage, updates the application state, sets the authorization header for
+   * future API requests and navigates to the dashboard.
+   *
+   * @param session - The `token`, `refreshToken`, `user` and `role` of the new session.
+   */
+
+  const startSession = ({ token: sessionToken, refreshToken, user: sessionUser, role }: AuthSession) => {
+    localStorage.setItem('authToken', sessionToken);
+    localStorage.setItem('refreshToken', refreshToken);
+    localStorage.setItem('username', sessionUser);
+    localStorage.setItem('userRole', role);
+
+    setToken(sessionToken);
+    setUser(sessionUser);
+    setUserRole(role);
+
+    api.defaults.headers.common['Authorization'] = `Bearer ${sessionToken}`;
+
+    navigate('/dashboard');
+  };
+
   /**
    * Logs in a user by sending their credentials to the authentication API.
    * 
    * This function sends a POST request to the `/auth/login` endpoint with the provided
-   * username and password. Upon successful authentication, it stores the received token,
-   * username, and user role in localStorage, updates the application state, and sets the
-   * authorization header for future API requests. Finally, it navigates the user to the
-   * dashboard page.
+   * username and password. Upon successful authentication, it starts the received session with
+   * `startSession`.
    * 
    * @param username - The username of the user attempting to log in.
    * @param password - The password of the user attempting to log in.
    * @throws {Error} Throws an error with a message if the login attempt fails. The error
-   * message is either provided by the server or defaults to "Credenciales inválidas. Por favor, inténtalo de nuevo."
+   * message is either the `detail` of the server's problem details response or defaults to "Credenciales inválidas. Por favor, inténtalo de nuevo."
+   * When the attempt has to wait (429, after too many requests or failed logins, or with the
+   * account locked), the original API error is rethrown instead, so the caller can read its
+   * `reason` and `Retry-After`.
    */
 
   const login = async (username: string, password: string) => {
     try {
-      const response = await api.post('/auth/login', { username, password });
-      const { token: fetchedToken, user: fetchedUser, role: fetchedRole } = response.data; 
-
-      // Store in localStorage
-      localStorage.setItem('authToken', fetchedToken);
-      localStorage.setItem('username', fetchedUser);
-      localStorage.setItem('userRole', fetchedRole);
-
-      setToken(fetchedToken);
-      setUser(fetchedUser);
-      setUserRole(fetchedRole);
-
-      api.defaults.headers.common['Authorization'] = `Bearer ${fetchedToken}`;
-
-      navigate('/dashboard'); 
-    } catch (error: any) { 
+      const response = await api.post<AuthSession>('/auth/login', { username, password });
+      startSession(response.data);
+    } catch (error: unknown) { 
       console.error('Login failed:', error);
+
+      if (getProblem(error)?.status === 429) {
+        throw error;
+      }
     
-      const message = error.response?.data?.message || 'Credenciales inválidas. Por favor, inténtalo de nuevo.';
+      const message = getErrorMessage(error, 'Credenciales inválidas. Por favor, inténtalo de nuevo.');
       throw new Error(message); 
     }
   };
 
   /**
    * Logs the user out by performing the following actions:
-   * - Removes authentication-related data (`authToken`, `username`, `userRole`) from local storage.
+   * - Asks the backend (`/auth/logout`) to revoke the session of the stored refresh token, so
+   *   its tokens stop working immediately. Failures are logged but do not block the logout.
+   * - Removes authentication-related data (`authToken`, `refreshToken`, `username`, `userRole`) from local storage.
    * - Resets the authentication state by setting `token`, `user`, and `userRole` to `null`.
    * - Deletes the `Authorization` header from the API's default headers.
    * - Redirects the user to the login page.
@@ -124,10 +154,14 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
    */
 
   const logout = () => {
-  
-    localStorage.removeItem('authToken');
-    localStorage.removeItem('username');
-    localStorage.removeItem('userRole');
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (refreshToken) {
+      api.post('/auth/logout', { refreshToken }).catch((error) => {
+        console.error('Logout request failed:', error);
+      });
+    }
+
+    clearStoredSession();
 
     setToken(null);
     setUser(null);
@@ -139,7 +173,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   return (
-    <AuthContext.Provider value={{ isAuthenticated, user, userRole, token, login, logout }}>
+    <AuthContext.Provider value={{ isAuthenticated, user, userRole, token, login, startSession, logout }}>
       {children}
     </AuthContext.Provider>
   );
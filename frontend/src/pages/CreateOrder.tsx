@@ -8,10 +8,22 @@
  *
  * @description
  * This component provides the following features:
- * - Fetches a list of products from the backend API and displays them for selection.
+ * - Fetches products from the paginated backend API (optionally filtered by a text search
+ *   and a menu category) and displays them for selection. Dishes that can no longer be made
+ *   (no stock, or not enough of an ingredient of their recipe) are greyed out.
+ * - Shows the top-level menu categories as tabs so the products of one section ("Bebidas",
+ *   "Postres", ...) can be found quickly; a category tab includes its subcategories.
  * - Allows users to add products to an order, adjust quantities, and remove items.
- * - Calculates the total cost of the order dynamically based on selected products and their quantities.
- * - Submits the order to the backend API with the required payload structure.
+ * - Opens the `ModifierDialog` when a product with modifiers is added, so the waiter can record
+ *   choices like "sin cebolla" or "extra queso (+$1.50)". The same product with different
+ *   modifiers becomes a separate line of the order.
+ * - Calculates the subtotal of the order dynamically based on selected products, their modifiers
+ *   and their quantities, and asks the backend for a quote (`POST /orders/quote`) with the
+ *   discount, service charge, taxes and total the order would be charged.
+ * - Lets the user apply a promo code and add the service charge.
+ * - Lets the user assign the order to a dining table, or leave it unassigned for take-away orders.
+ * - Submits the order to the backend API with the required payload structure and an
+ *   `Idempotency-Key`, so resubmitting after a dropped connection cannot create it twice.
  * - Handles loading states, error states, and form submission states.
  *
  * @returns {JSX.Element} The rendered `CreateOrder` component.
@@ -22,54 +34,144 @@
  * @property {string} name - The name of the product.
  * @property {string} description - A brief description of the product.
  * @property {number} price - The price of the product.
- * @property {number} stock - The available stock of the product.
+ * @property {number} stock - The stock of the product as units.
+ * @property {number} available - How many units can still be ordered: the stock, or for a
+ * product with a recipe, how many its ingredients allow.
+ * @property {boolean} hasModifiers - Whether the product has modifier groups to choose from.
+ *
+ * @interface OrderLine
+ * Represents a line of the order being built.
+ * @property {string} key - Identifies the line: the product ID plus the sorted modifier IDs.
+ * @property {number} productId - The ID of the product.
+ * @property {number} quantity - The quantity of the line.
+ * @property {SelectedModifier[]} modifiers - The modifiers chosen for every unit of the line.
+ *
+ * @interface Category
+ * Represents a menu category fetched from the backend.
+ * @property {number} id - The unique identifier of the category.
+ * @property {string} name - The name of the category.
+ * @property {number | null} parent_id - The parent category, or `null` for a top-level category.
+ *
+ * @interface Table
+ * Represents a dining table fetched from the backend.
+ * @property {number} id - The unique identifier of the table.
+ * @property {number} number - The number shown on the table.
+ * @property {string | null} area - The area of the restaurant the table is in.
+ * @property {number} capacity - How many guests the table seats.
+ * @property {TableStatus} status - `free`, `occupied`, `reserved` or `dirty`. Dirty tables cannot take orders.
  *
  * @interface OrderItemPayload
  * Represents the payload structure for an individual order item sent to the backend.
+ * Prices are not sent: the backend prices each item from the current product data.
  * @property {number} product_id - The unique identifier of the product (in snake_case for backend compatibility).
  * @property {number} quantity - The quantity of the product in the order.
- * @property {number} price_at_time - The price of the product at the time of order creation.
+ * @property {number[]} modifier_ids - The IDs of the modifiers chosen for the item.
+ *
+ * @interface OrderQuote
+ * The price of the order as computed by the backend; amounts are decimal strings.
+ * @property {string} subtotal - The sum of the lines before discount, service charge and taxes.
+ * @property {string} discount_total - The discount of the promo code.
+ * @property {string} service_charge - The service charge, if requested.
+ * @property {number} service_charge_rate - The percentage charged as service.
+ * @property {string} tax_total - The taxes of every line.
+ * @property {string} total - What the order will be charged.
+ * @property {string | null} promo_code - The promo code applied.
  *
- * @state {Product[]} products - The list of products fetched from the backend.
- * @state {{ productId: number; quantity: number }[]} orderItems - The list of selected products and their quantities.
- * @state {number} total - The total cost of the order.
+ * @interface StockShortage
+ * Represents an item rejected by the backend (409) because there is not enough stock.
+ * @property {number} product_id - The unique identifier of the product.
+ * @property {string} name - The name of the product.
+ * @property {number} requested - The quantity requested in the order.
+ * @property {number} available - The units available when the order was placed.
+ * @property {IngredientShortage[]} [ingredients] - For a product with a recipe, the ingredients
+ * that ran short, with the `required` and `available` quantities in their unit.
+ *
+ * @state {Product[]} products - The list of products returned by the latest product search.
+ * @state {Record<number, Product>} productCache - Every product seen so far, keyed by ID, so items already
+ * in the order keep their name and price when a new search no longer returns them.
+ * @state {string} searchInput - The current value of the product search box.
+ * @state {string} search - The submitted search text sent to the backend as `q`.
+ * @state {Category[]} categories - The top-level menu categories shown as tabs.
+ * @state {number | null} selectedCategoryId - The selected category tab, sent to the backend as
+ * `category`, or `null` for every product.
+ * @state {OrderLine[]} orderItems - The lines of the order: products, modifiers and quantities.
+ * @state {{ product: Product; groups: ModifierGroup[] } | null} modifierDialog - The product whose
+ * modifiers are being chosen, or `null` when the dialog is closed.
+ * @state {number} subtotal - The subtotal of the order computed locally, shown until the quote arrives.
+ * @state {string} promoCodeInput - The current value of the promo code box.
+ * @state {string} promoCode - The promo code applied to the order, or an empty string.
+ * @state {string | null} promoError - Why the backend rejected the promo code.
+ * @state {boolean} serviceCharge - Whether to add the service charge to the order.
+ * @state {OrderQuote | null} quote - The latest quote for the order, or `null` while there is none.
  * @state {boolean} loadingProducts - Indicates whether the product data is being loaded.
  * @state {string | null} errorProducts - Stores any error message encountered while fetching products.
+ * @state {Table[]} tables - The dining tables the order can be assigned to.
+ * @state {number | null} selectedTableId - The table the order is for, or `null` for a take-away order.
  * @state {boolean} isSubmitting - Indicates whether the order is being submitted.
  *
+ * @function handleSelectProduct
+ * Adds a product without modifiers directly, or fetches its modifier groups and opens the
+ * `ModifierDialog` first.
+ * @param {Product} product - The product picked from the list.
+ *
  * @function handleAddItem
- * Adds a product to the order or increases its quantity if it already exists in the order.
+ * Adds a product with the given modifiers to the order, or increases the quantity of the line
+ * that already has them. Stock is checked across every line of the same product.
  * @param {number} productId - The ID of the product to add or increase.
+ * @param {SelectedModifier[]} modifiers - The modifiers chosen for the product.
  *
  * @function handleDecreaseItem
- * Decreases the quantity of a product in the order or removes it if the quantity reaches zero.
- * @param {number} productId - The ID of the product to decrease.
+ * Decreases the quantity of a line or removes it if the quantity reaches zero.
+ * @param {string} key - The key of the line to decrease.
  *
  * @function handleRemoveItem
- * Removes a product from the order entirely.
- * @param {number} productId - The ID of the product to remove.
+ * Removes a line from the order entirely.
+ * @param {string} key - The key of the line to remove.
  *
  * @function handleSubmit
  * Submits the order to the backend API. Validates the order, prepares the payload, and handles
  * success or error responses.
  *
  * @function fetchProducts
- * Fetches the list of products from the backend API and updates the `products` state.
+ * Fetches the matching products from the backend API and updates the `products` state and cache.
+ *
+ * @function fetchCategories
+ * Fetches the menu categories from the backend API. A failure only hides the tabs.
  *
- * @function calculateTotal
- * Calculates the total cost of the order based on the selected products and their quantities.
+ * @function fetchTables
+ * Fetches the dining tables from the backend API. A failure only hides the picker; orders can
+ * still be created without a table.
+ *
+ * @function calculateSubtotal
+ * Calculates the subtotal of the order based on the selected products, the price deltas of
+ * their modifiers and their quantities.
+ *
+ * @function fetchQuote
+ * Prices the current order on the backend. A rejected promo code is removed and its message
+ * shown under the promo code box.
  *
  * @hook useEffect
- * - Fetches products when the component mounts.
- * - Recalculates the total cost whenever `orderItems` or `products` change.
+ * - Fetches products when the component mounts and whenever the search or the category changes.
+ * - Fetches the categories and the dining tables when the component mounts.
+ * - Recalculates the subtotal whenever `orderItems` or `productCache` change.
+ * - Fetches a new quote (debounced) whenever the lines, the promo code or the service charge change.
+ *
+ * @hook useServerEvents
+ * Keeps the listed stock and availability up to date with the `product.stock_changed` events
+ * of the `/events` stream, so orders placed by other waiters and ingredients running out are
+ * reflected without reloading.
  *
  * @example
  * <CreateOrder />
  */
 
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import api from '../api';
+import { getProblem } from '../api/problem';
+import { useServerEvents } from '../api/events';
+import { useIdempotencyKey } from '../api/idempotency';
 import { useNavigate } from 'react-router-dom';
+import ModifierDialog, { type ModifierGroup, type SelectedModifier } from '../components/ModifierDialog';
 
 interface Product {
   id: number;
@@ -77,88 +179,306 @@ interface Product {
   description: string;
   price: number;
   stock: number;
+  available: number;
+  hasModifiers: boolean;
+}
+
+interface ProductResponse {
+  id: number;
+  name: string;
+  description: string;
+  price: string;
+  stock: string;
+  available: number;
+  has_modifiers?: boolean;
+}
+
+interface OrderLine {
+  key: string;
+  productId: number;
+  quantity: number;
+  modifiers: SelectedModifier[];
+}
+
+/**
+ * Builds the key of an order line, so the same product with the same modifiers (in any
+ * order) always lands on the same line.
+ */
+
+const lineKey = (productId: number, modifiers: SelectedModifier[]) =>
+  `${productId}:${modifiers.map((modifier) => modifier.id).sort((a, b) => a - b).join(',')}`;
+
+const PRODUCT_SEARCH_LIMIT = 100;
+
+interface Category {
+  id: number;
+  name: string;
+  parent_id: number | null;
+}
+
+type TableStatus = 'free' | 'occupied' | 'reserved' | 'dirty';
+
+interface Table {
+  id: number;
+  number: number;
+  area: string | null;
+  capacity: number;
+  status: TableStatus;
 }
 
+const TABLE_STATUS_LABELS: Record<TableStatus, string> = {
+  free: 'Libre',
+  occupied: 'Ocupada',
+  reserved: 'Reservada',
+  dirty: 'Por limpiar',
+};
+
 interface OrderItemPayload {
   product_id: number;
   quantity: number;
-  price_at_time: number; 
+  modifier_ids: number[];
+}
+
+interface OrderQuote {
+  subtotal: string;
+  discount_total: string;
+  service_charge: string;
+  service_charge_rate: number;
+  tax_total: string;
+  total: string;
+  promo_code: string | null;
+}
+
+const QUOTE_DEBOUNCE_MS = 300;
+
+interface IngredientShortage {
+  ingredient_id: number;
+  name: string;
+  unit: string;
+  required: string;
+  available: string;
+}
+
+interface StockShortage {
+  product_id: number;
+  name: string;
+  requested: number;
+  available: number;
+  ingredients?: IngredientShortage[];
 }
 
 const CreateOrder: React.FC = () => {
   const [products, setProducts] = useState<Product[]>([]);
-  const [orderItems, setOrderItems] = useState<{ productId: number; quantity: number }[]>([]); 
-  const [total, setTotal] = useState<number>(0);
+  const [productCache, setProductCache] = useState<Record<number, Product>>({});
+  const [searchInput, setSearchInput] = useState<string>('');
+  const [search, setSearch] = useState<string>('');
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [selectedCategoryId, setSelectedCategoryId] = useState<number | null>(null);
+  const [orderItems, setOrderItems] = useState<OrderLine[]>([]);
+  const [modifierDialog, setModifierDialog] = useState<{ product: Product; groups: ModifierGroup[] } | null>(null);
+  const [subtotal, setSubtotal] = useState<number>(0);
+  const [promoCodeInput, setPromoCodeInput] = useState<string>('');
+  const [promoCode, setPromoCode] = useState<string>('');
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [serviceCharge, setServiceCharge] = useState<boolean>(false);
+  const [quote, setQuote] = useState<OrderQuote | null>(null);
   const [loadingProducts, setLoadingProducts] = useState<boolean>(true);
   const [errorProducts, setErrorProducts] = useState<string | null>(null);
+  const [tables, setTables] = useState<Table[]>([]);
+  const [selectedTableId, setSelectedTableId] = useState<number | null>(null);
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const { keyFor, settle } = useIdempotencyKey();
   const navigate = useNavigate();
 
-  useEffect(() => {
-    const fetchProducts = async () => {
-      try {
-        const response = await api.get('/products');
-        const fetchedProducts: Product[] = response.data.map((product: { id: number; name: string; description: string; price: string; stock: string }) => ({ 
-            ...product,
-            price: parseFloat(product.price), 
-            stock: parseInt(product.stock) 
-        }));
-        setProducts(fetchedProducts);
-      } catch (err) {
-        console.error('Error fetching products:', err);
-        setErrorProducts('No se pudieron cargar los productos. Por favor, inténtalo de nuevo.');
-      } finally {
-        setLoadingProducts(false);
-      }
-    };
+  const fetchProducts = useCallback(async () => {
+    try {
+      const response = await api.get('/products', {
+        params: {
+          q: search || undefined,
+          category: selectedCategoryId ?? undefined,
+          sort: 'name',
+          limit: PRODUCT_SEARCH_LIMIT,
+        },
+      });
+      const fetchedProducts: Product[] = response.data.data.map((product: ProductResponse) => ({ 
+          ...product,
+          price: parseFloat(product.price), 
+          stock: parseInt(product.stock),
+          available: Number(product.available),
+          hasModifiers: Boolean(product.has_modifiers),
+      }));
+      setProducts(fetchedProducts);
+      setProductCache((prevCache) => ({
+        ...prevCache,
+        ...Object.fromEntries(fetchedProducts.map((product) => [product.id, product])),
+      }));
+    } catch (err) {
+      console.error('Error fetching products:', err);
+      setErrorProducts('No se pudieron cargar los productos. Por favor, inténtalo de nuevo.');
+    } finally {
+      setLoadingProducts(false);
+    }
+  }, [search, selectedCategoryId]);
 
-    fetchProducts();
+  const fetchCategories = useCallback(async () => {
+    try {
+      const response = await api.get<Category[]>('/categories');
+      setCategories(response.data.filter((category) => category.parent_id === null));
+    } catch (err) {
+      console.error('Error fetching categories:', err);
+      setCategories([]);
+    }
+  }, []);
+
+  const fetchTables = useCallback(async () => {
+    try {
+      const response = await api.get<Table[]>('/tables');
+      setTables(response.data);
+    } catch (err) {
+      console.error('Error fetching tables:', err);
+      setTables([]);
+    }
   }, []);
 
   useEffect(() => {
-    const newTotal = orderItems.reduce((sum, item) => {
-      const product = products.find((p) => p.id === item.productId);
-      return sum + (product ? product.price * item.quantity : 0);
+    fetchProducts();
+  }, [fetchProducts]);
+
+  useEffect(() => {
+    fetchCategories();
+    fetchTables();
+  }, [fetchCategories, fetchTables]);
+
+  useServerEvents((event) => {
+    if (event.type !== 'product.stock_changed') return;
+    const updateStock = (product: Product) => (product.id === event.product_id ? { ...product, stock: event.stock, available: event.available } : product);
+    setProducts((prev) => prev.map(updateStock));
+    setProductCache((prevCache) => (
+      prevCache[event.product_id] ? { ...prevCache, [event.product_id]: updateStock(prevCache[event.product_id]) } : prevCache
+    ));
+  }, fetchProducts);
+
+  useEffect(() => {
+    const newSubtotal = orderItems.reduce((sum, item) => {
+      const product = productCache[item.productId];
+      const modifiersPrice = item.modifiers.reduce((modifierSum, modifier) => modifierSum + modifier.priceDelta, 0);
+      return sum + (product ? (product.price + modifiersPrice) * item.quantity : 0);
     }, 0);
-    setTotal(newTotal);
-  }, [orderItems, products]);
+    setSubtotal(newSubtotal);
+  }, [orderItems, productCache]);
 
-  const handleAddItem = (productId: number) => {
+  const fetchQuote = useCallback(async (signal: AbortSignal) => {
+    try {
+      const response = await api.post<OrderQuote>('/orders/quote', {
+        orderItems: orderItems.map((item) => ({
+          product_id: item.productId,
+          quantity: item.quantity,
+          modifier_ids: item.modifiers.map((modifier) => modifier.id),
+        })),
+        promo_code: promoCode || null,
+        service_charge: serviceCharge,
+      }, { signal });
+      setQuote(response.data);
+    } catch (err) {
+      if (signal.aborted) return;
+      const promoProblem = getProblem(err)?.errors?.find((error) => error.field === 'promo_code');
+      if (promoProblem) {
+        setPromoError(promoProblem.message);
+        setPromoCode('');
+        return;
+      }
+      console.error('Error fetching quote:', err);
+      setQuote(null);
+    }
+  }, [orderItems, promoCode, serviceCharge]);
+
+  useEffect(() => {
+    if (orderItems.length === 0) {
+      setQuote(null);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => fetchQuote(controller.signal), QUOTE_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [orderItems, fetchQuote]);
+
+  const handleApplyPromoCode = (event: React.FormEvent) => {
+    event.preventDefault();
+    setPromoError(null);
+    setPromoCode(promoCodeInput.trim());
+  };
+
+  const handleRemovePromoCode = () => {
+    setPromoCode('');
+    setPromoCodeInput('');
+    setPromoError(null);
+  };
+
+  const handleSearchSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    setSearch(searchInput.trim());
+  };
+
+  const handleAddItem = (productId: number, modifiers: SelectedModifier[] = []) => {
     setOrderItems((prevItems) => {
-      const product = products.find((p) => p.id === productId);
+      const product = productCache[productId];
       if (!product) return prevItems;
 
-      const existingItem = prevItems.find((item) => item.productId === productId);
-      
+      const key = lineKey(productId, modifiers);
+      const existingItem = prevItems.find((item) => item.key === key);
+      const quantityOfProduct = prevItems
+        .filter((item) => item.productId === productId)
+        .reduce((sum, item) => sum + item.quantity, 0);
+
+      if (quantityOfProduct + 1 > product.available) {
+        alert(quantityOfProduct > 0
+          ? `No hay suficiente stock para añadir más de "${product.name}". Disponibles: ${product.available}`
+          : `No hay stock disponible para "${product.name}". Disponibles: ${product.available}`);
+        return prevItems;
+      }
+
       if (existingItem) {
-        if (existingItem.quantity + 1 > product.stock) {
-          alert(`No hay suficiente stock para añadir más de "${product.name}". Stock disponible: ${product.stock}`);
-          return prevItems;
-        }
         return prevItems.map((item) =>
-          item.productId === productId
+          item.key === key
             ? { ...item, quantity: item.quantity + 1 }
             : item
         );
       }
-      
-      if (1 > product.stock) {
-        alert(`No hay stock disponible para "${product.name}". Stock disponible: ${product.stock}`);
-        return prevItems;
-      }
-      return [...prevItems, { productId, quantity: 1 }];
+      return [...prevItems, { key, productId, quantity: 1, modifiers }];
     });
   };
 
-  const handleDecreaseItem = (productId: number) => {
+  const handleSelectProduct = async (product: Product) => {
+    if (!product.hasModifiers) {
+      handleAddItem(product.id);
+      return;
+    }
+
+    try {
+      const response = await api.get<ModifierGroup[]>(`/products/${product.id}/modifier-groups`);
+      if (response.data.length === 0) {
+        handleAddItem(product.id);
+        return;
+      }
+      setModifierDialog({ product, groups: response.data });
+    } catch (err) {
+      console.error('Error fetching modifiers:', err);
+      alert(`No se pudieron cargar las opciones de "${product.name}". Inténtalo de nuevo.`);
+    }
+  };
+
+  const handleDecreaseItem = (key: string) => {
     setOrderItems((prevItems) => {
-      const existingItem = prevItems.find((item) => item.productId === productId);
+      const existingItem = prevItems.find((item) => item.key === key);
       if (existingItem) {
         if (existingItem.quantity - 1 <= 0) {
-          return prevItems.filter((item) => item.productId !== productId);
+          return prevItems.filter((item) => item.key !== key);
         }
         return prevItems.map((item) =>
-          item.productId === productId
+          item.key === key
             ? { ...item, quantity: item.quantity - 1 }
             : item
         );
@@ -167,9 +487,9 @@ const CreateOrder: React.FC = () => {
     });
   };
 
-  const handleRemoveItem = (productId: number) => {
+  const handleRemoveItem = (key: string) => {
     setOrderItems((prevItems) =>
-      prevItems.filter((item) => item.productId !== productId)
+      prevItems.filter((item) => item.key !== key)
     );
   };
 
@@ -181,40 +501,64 @@ const CreateOrder: React.FC = () => {
   
     setIsSubmitting(true);
     try {
-      const payloadItems: OrderItemPayload[] = orderItems.map(item => {
-        const product = products.find(p => p.id === item.productId);
-        return {
-          product_id: item.productId,
-          quantity: item.quantity,
-          price_at_time: product ? product.price : 0 
-        };
-      });
+      const payloadItems: OrderItemPayload[] = orderItems.map(item => ({
+        product_id: item.productId,
+        quantity: item.quantity,
+        modifier_ids: item.modifiers.map((modifier) => modifier.id),
+      }));
 
       const orderPayload = {
-        orderItems: payloadItems
+        orderItems: payloadItems,
+        table_id: selectedTableId,
+        promo_code: promoCode || null,
+        service_charge: serviceCharge,
       };
 
       console.log('Sending order payload:', orderPayload); 
 
-      const response = await api.post('/orders', orderPayload);
+      const response = await api.post('/orders', orderPayload, {
+        headers: { 'Idempotency-Key': keyFor(orderPayload) },
+      });
+      settle();
       alert('Orden creada exitosamente. ID: ' + response.data.id); 
       
       setOrderItems([]);
-      setTotal(0);
+      setSubtotal(0);
+      setSelectedTableId(null);
+      handleRemovePromoCode();
+      setServiceCharge(false);
 
-      const updatedProductsResponse = await api.get('/products');
-      setProducts(updatedProductsResponse.data.map((product: any) => ({
-        ...product,
-        price: parseFloat(product.price),
-        stock: parseInt(product.stock)
-      })));
+      await fetchProducts();
 
       navigate('/dashboard'); 
     } catch (error: unknown) {
-      const err = error as { response?: { data?: { message?: string } } };
+      settle(error);
+      const problem = getProblem(error);
       console.error('Error creando la orden:', error);
-      if (err.response && err.response.data && err.response.data.message) {
-        alert(`Error al crear la orden: ${err.response.data.message}`);
+      if (problem?.status === 409 && problem.items) {
+        const details = (problem.items as StockShortage[])
+          .map((item) => [
+            `- ${item.name}: pedido ${item.requested}, disponible ${item.available}`,
+            ...(item.ingredients ?? []).map((ingredient) =>
+              `    · ${ingredient.name}: se necesitan ${ingredient.required} ${ingredient.unit}, quedan ${ingredient.available} ${ingredient.unit}`),
+          ].join('\n'))
+          .join('\n');
+        alert(`No hay suficiente stock para completar la orden:\n${details}`);
+      } else if (problem?.status === 409 && problem.table_status) {
+        const status = TABLE_STATUS_LABELS[problem.table_status as TableStatus] ?? String(problem.table_status);
+        alert(`La mesa seleccionada no puede recibir órdenes (estado: ${status}). Elige otra mesa.`);
+        await fetchTables();
+      } else if (problem?.status === 400 && problem.reason && problem.errors?.some((error) => error.field === 'promo_code')) {
+        setPromoError(problem.errors.find((error) => error.field === 'promo_code')!.message);
+        setPromoCode('');
+        alert('El código promocional ya no se puede aplicar. Revisa el nuevo total antes de confirmar.');
+      } else if (problem?.status === 400 && problem.modifier_problems) {
+        const details = (problem.modifier_problems as { product_id: number; message: string }[])
+          .map((item) => `- ${productCache[item.product_id]?.name ?? `Producto ${item.product_id}`}: ${item.message}`)
+          .join('\n');
+        alert(`Las opciones elegidas ya no son válidas:\n${details}`);
+      } else if (problem?.detail) {
+        alert(`Error al crear la orden: ${problem.detail}`);
       } else {
         alert('Error al crear la orden. Por favor, inténtalo de nuevo. Revisa la consola para más detalles.');
       }
@@ -263,6 +607,38 @@ const CreateOrder: React.FC = () => {
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 lg:gap-12 mt-8">
           <div className="bg-blue-50 p-6 rounded-lg shadow-md animate-fade-in-up">
             <h2 className="text-2xl font-bold mb-4 text-blue-800">Seleccionar Productos</h2>
+            <form onSubmit={handleSearchSubmit} className="flex gap-2 mb-4">
+              <input
+                type="search"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Buscar producto..."
+                className="flex-1 p-2 border border-blue-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button type="submit" className="bg-blue-600 text-white px-4 py-2 rounded-lg shadow hover:bg-blue-700 text-sm">
+                Buscar
+              </button>
+            </form>
+            {categories.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-4" role="tablist" aria-label="Categorías">
+                {[{ id: null, name: 'Todas' }, ...categories].map((category) => (
+                  <button
+                    key={category.id ?? 'all'}
+                    type="button"
+                    role="tab"
+                    aria-selected={selectedCategoryId === category.id}
+                    onClick={() => setSelectedCategoryId(category.id)}
+                    className={`px-4 py-2 rounded-full text-sm font-semibold shadow-sm transition-all duration-200
+                      ${selectedCategoryId === category.id
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white text-blue-800 border border-blue-200 hover:bg-blue-100'
+                      }`}
+                  >
+                    {category.name}
+                  </button>
+                ))}
+              </div>
+            )}
             {products.length === 0 ? (
               <p className="text-gray-600 italic">No hay productos disponibles para añadir a la orden.</p>
             ) : (
@@ -270,18 +646,33 @@ const CreateOrder: React.FC = () => {
                 {products.map((product) => (
                   <div
                     key={product.id}
-                    className="flex justify-between items-center p-3 bg-white border border-blue-100 rounded-md shadow-sm hover:shadow-md transition-shadow duration-200"
+                    className={`flex justify-between items-center p-3 border rounded-md shadow-sm transition-shadow duration-200
+                      ${product.available > 0
+                        ? 'bg-white border-blue-100 hover:shadow-md'
+                        : 'bg-gray-100 border-gray-200 opacity-60'
+                      }`}
                   >
                     <div>
                       <span className="font-semibold text-gray-800">{product.name}</span>
-                      <p className="text-sm text-gray-600">${product.price.toFixed(2)} | Stock: {product.stock}</p>
+                      <p className="text-sm text-gray-600">
+                        ${product.price.toFixed(2)} | Disponibles: {product.available}{product.hasModifiers && ' | Con opciones'}
+                      </p>
                     </div>
-                    <button
-                      onClick={() => handleAddItem(product.id)}
-                      className="bg-blue-500 text-white px-4 py-2 rounded-lg shadow hover:bg-blue-600 transition-all duration-200 transform hover:scale-105 active:scale-95 text-sm"
-                    >
-                      Agregar
-                    </button>
+                    {product.available > 0 ? (
+                      <button
+                        onClick={() => handleSelectProduct(product)}
+                        className="bg-blue-500 text-white px-4 py-2 rounded-lg shadow hover:bg-blue-600 transition-all duration-200 transform hover:scale-105 active:scale-95 text-sm"
+                      >
+                        Agregar
+                      </button>
+                    ) : (
+                      <button
+                        disabled
+                        className="bg-gray-300 text-gray-600 px-4 py-2 rounded-lg shadow-none cursor-not-allowed text-sm"
+                      >
+                        No disponible
+                      </button>
+                    )}
                   </div>
                 ))}
               </div>
@@ -290,42 +681,64 @@ const CreateOrder: React.FC = () => {
 
           <div className="bg-white p-6 rounded-lg shadow-md border border-blue-100 animate-fade-in-up" style={{ animationDelay: '0.2s' }}>
             <h2 className="text-2xl font-bold mb-4 text-blue-800">Detalle de la Orden</h2>
+            {tables.length > 0 && (
+              <div className="mb-4">
+                <label htmlFor="table" className="block text-sm font-semibold text-gray-700 mb-1">Mesa</label>
+                <select
+                  id="table"
+                  value={selectedTableId ?? ''}
+                  onChange={(e) => setSelectedTableId(e.target.value ? Number(e.target.value) : null)}
+                  className="w-full p-2 border border-blue-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Sin mesa (para llevar)</option>
+                  {tables.map((table) => (
+                    <option key={table.id} value={table.id} disabled={table.status === 'dirty'}>
+                      Mesa {table.number}{table.area ? ` · ${table.area}` : ''} · {table.capacity} pers. · {TABLE_STATUS_LABELS[table.status]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
             {orderItems.length === 0 ? (
               <p className="text-gray-600 italic text-center py-8">Tu orden está vacía. Añade productos de la lista.</p>
             ) : (
               <div className="space-y-4 max-h-96 overflow-y-auto pr-2">
                 {orderItems.map((item) => {
-                  const product = products.find((p) => p.id === item.productId);
+                  const product = productCache[item.productId];
                   if (!product) return null;
+                  const unitPrice = product.price + item.modifiers.reduce((sum, modifier) => sum + modifier.priceDelta, 0);
 
                   return (
                     <div
-                      key={item.productId}
+                      key={item.key}
                       className="flex justify-between items-center p-3 bg-blue-50 border border-blue-100 rounded-md shadow-sm"
                     >
                       <div>
                         <span className="font-semibold text-gray-800">{product.name}</span>
+                        {item.modifiers.length > 0 && (
+                          <p className="text-sm text-blue-700">{item.modifiers.map((modifier) => modifier.name).join(', ')}</p>
+                        )}
                         <p className="text-sm text-gray-600">
-                          Cantidad: {item.quantity} | Total: ${(product.price * item.quantity).toFixed(2)}
+                          Cantidad: {item.quantity} | Total: ${(unitPrice * item.quantity).toFixed(2)}
                         </p>
                       </div>
                       <div className="flex space-x-2">
                         <button
-                          onClick={() => handleDecreaseItem(item.productId)}
+                          onClick={() => handleDecreaseItem(item.key)}
                           className="bg-red-500 text-white px-3 py-1 rounded-full shadow hover:bg-red-600 transition-all duration-200 transform hover:scale-105 active:scale-95 text-sm"
                           aria-label={`Disminuir cantidad de ${product.name}`}
                         >
                           -
                         </button>
                         <button
-                          onClick={() => handleAddItem(item.productId)}
+                          onClick={() => handleAddItem(item.productId, item.modifiers)}
                           className="bg-green-500 text-white px-3 py-1 rounded-full shadow hover:bg-green-600 transition-all duration-200 transform hover:scale-105 active:scale-95 text-sm"
                           aria-label={`Aumentar cantidad de ${product.name}`}
                         >
                           +
                         </button>
                         <button
-                          onClick={() => handleRemoveItem(item.productId)}
+                          onClick={() => handleRemoveItem(item.key)}
                           className="bg-gray-400 text-white px-3 py-1 rounded-full shadow hover:bg-gray-500 transition-all duration-200 transform hover:scale-105 active:scale-95 text-sm"
                           aria-label={`Eliminar ${product.name} de la orden`}
                         >
@@ -338,8 +751,64 @@ const CreateOrder: React.FC = () => {
               </div>
             )}
             
-            <div className="mt-6 pt-4 border-t-2 border-blue-200 text-right">
-              <h3 className="text-2xl font-bold text-blue-900 mb-4">Total: ${total.toFixed(2)}</h3>
+            <div className="mt-6 pt-4 border-t-2 border-blue-200">
+              {promoCode ? (
+                <div className="flex justify-between items-center mb-3 text-sm">
+                  <span className="text-green-700 font-semibold">Código {promoCode} aplicado</span>
+                  <button onClick={handleRemovePromoCode} className="text-red-600 hover:underline">Quitar</button>
+                </div>
+              ) : (
+                <form onSubmit={handleApplyPromoCode} className="flex gap-2 mb-1">
+                  <input
+                    type="text"
+                    value={promoCodeInput}
+                    onChange={(e) => setPromoCodeInput(e.target.value)}
+                    placeholder="Código promocional"
+                    aria-label="Código promocional"
+                    className="flex-1 p-2 border border-blue-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 uppercase"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!promoCodeInput.trim()}
+                    className="bg-blue-600 text-white px-4 py-2 rounded-lg shadow hover:bg-blue-700 text-sm disabled:bg-gray-300 disabled:cursor-not-allowed"
+                  >
+                    Aplicar
+                  </button>
+                </form>
+              )}
+              {promoError && <p className="text-red-600 text-sm mb-2">{promoError}</p>}
+              <label className="flex items-center gap-2 mb-4 text-sm text-gray-700">
+                <input type="checkbox" checked={serviceCharge} onChange={(e) => setServiceCharge(e.target.checked)} />
+                Añadir cargo por servicio
+              </label>
+
+              <dl className="space-y-1 text-gray-700 mb-2">
+                <div className="flex justify-between">
+                  <dt>Subtotal</dt>
+                  <dd>${(quote ? parseFloat(quote.subtotal) : subtotal).toFixed(2)}</dd>
+                </div>
+                {quote && parseFloat(quote.discount_total) > 0 && (
+                  <div className="flex justify-between text-green-700">
+                    <dt>Descuento{quote.promo_code ? ` (${quote.promo_code})` : ''}</dt>
+                    <dd>-${parseFloat(quote.discount_total).toFixed(2)}</dd>
+                  </div>
+                )}
+                {quote && parseFloat(quote.service_charge) > 0 && (
+                  <div className="flex justify-between">
+                    <dt>Cargo por servicio ({quote.service_charge_rate}%)</dt>
+                    <dd>${parseFloat(quote.service_charge).toFixed(2)}</dd>
+                  </div>
+                )}
+                {quote && (
+                  <div className="flex justify-between">
+                    <dt>Impuestos</dt>
+                    <dd>${parseFloat(quote.tax_total).toFixed(2)}</dd>
+                  </div>
+                )}
+              </dl>
+              <h3 className="text-2xl font-bold text-blue-900 mb-4 text-right">
+                Total: ${(quote ? parseFloat(quote.total) : subtotal).toFixed(2)}
+              </h3>
               <button
                 onClick={handleSubmit}
                 disabled={orderItems.length === 0 || isSubmitting}
@@ -355,6 +824,18 @@ const CreateOrder: React.FC = () => {
           </div>
         </div>
       </div>
+      {modifierDialog && (
+        <ModifierDialog
+          productName={modifierDialog.product.name}
+          basePrice={modifierDialog.product.price}
+          groups={modifierDialog.groups}
+          onConfirm={(modifiers) => {
+            handleAddItem(modifierDialog.product.id, modifiers);
+            setModifierDialog(null);
+          }}
+          onCancel={() => setModifierDialog(null)}
+        />
+      )}
     </div>
   );
 };
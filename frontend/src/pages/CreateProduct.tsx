@@ -1,7 +1,9 @@
 /**
  * A React functional component for creating a new product.
- * This component provides a form to input product details such as name, description, price, and stock.
- * It uses `react-hook-form` for form handling and validation with `zod` schema.
+ * This component provides a form to input product details such as name, description, price, stock,
+ * the menu category the product is listed under and the kitchen station that prepares it.
+ * It uses `react-hook-form` for form handling and validation with the shared `productSchema`
+ * from `@oceans/shared`, the same schema the backend validates the request with.
  *
  * @component
  * @returns {JSX.Element} The rendered CreateProduct component.
@@ -9,7 +11,14 @@
  * @remarks
  * - The form includes validation for required fields and specific constraints (e.g., price must be greater than 0).
  * - On successful submission, the form data is sent to the API endpoint `/products`.
- * - Displays error messages for validation errors and API submission errors.
+ * - Displays error messages for validation errors and API submission errors; field errors
+ *   returned by the API are shown on the matching input.
+ * - The category options are fetched from `/categories`; subcategories are listed under their
+ *   parent. Leaving the category empty creates an uncategorized product.
+ * - The station options are fetched from `/kitchen/stations`; orders of products without a
+ *   station only show up on the kitchen's "Todas" screen.
+ * - The optional minimum stock (`reorder_threshold`) lists the product in `/inventory/low-stock`
+ *   once its stock falls to it.
  * - Includes a button to navigate back to the dashboard.
  *
  * @example
@@ -24,7 +33,7 @@
  * @dependencies
  * - `react`
  * - `react-hook-form`
- * - `zod`
+ * - `@oceans/shared`
  * - `@hookform/resolvers/zod`
  * - `react-router-dom`
  *
@@ -32,36 +41,57 @@
  * Located at `/src/pages/CreateProduct.tsx`.
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
-import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
+import { productSchema, type ProductInput } from '@oceans/shared';
 import api from '../api';
+import { applyFieldErrors, getErrorMessage } from '../api/problem';
 import { useNavigate } from 'react-router-dom'; 
 
-const productSchema = z.object({
-  name: z.string().min(1, 'El nombre es obligatorio'),
-  description: z.string().optional(),
-  price: z
-    .number()
-    .min(0.01, 'El precio debe ser mayor que 0')
-    .refine((val) => !isNaN(val), { message: 'El precio debe ser un número' }),
-  stock: z.number({
-    message: 'El stock debe ser un número',
-  }).int('El stock debe ser un número entero').min(0, 'El stock no puede ser negativo'),
-});
+type ProductFormInputs = ProductInput;
 
-type ProductFormInputs = z.infer<typeof productSchema>;
+interface Category {
+  id: number;
+  name: string;
+  parent_id: number | null;
+}
+
+interface Station {
+  id: number;
+  name: string;
+}
+
+/**
+ * Orders the categories so every subcategory follows its parent, with its nesting depth.
+ */
+
+const flattenCategories = (categories: Category[], parentId: number | null = null, depth = 0): { category: Category; depth: number }[] =>
+  categories
+    .filter((category) => category.parent_id === parentId)
+    .flatMap((category) => [{ category, depth }, ...flattenCategories(categories, category.id, depth + 1)]);
 
 const CreateProduct: React.FC = () => {
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
   const [submissionError, setSubmissionError] = useState<string | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [stations, setStations] = useState<Station[]>([]);
   const navigate = useNavigate();
 
+  useEffect(() => {
+    api.get<Category[]>('/categories')
+      .then((response) => setCategories(response.data))
+      .catch((err) => console.error('Error fetching categories:', err));
+    api.get<Station[]>('/kitchen/stations')
+      .then((response) => setStations(response.data))
+      .catch((err) => console.error('Error fetching stations:', err));
+  }, []);
+
   const {
     register,
     handleSubmit,
     reset, // Importa reset para limpiar el formulario
+    setError,
     formState: { errors },
   } = useForm<ProductFormInputs>({
     resolver: zodResolver(productSchema),
@@ -74,12 +104,10 @@ const CreateProduct: React.FC = () => {
       await api.post('/products', data);
       alert('Producto creado exitosamente');
       reset();
-    } catch (error: any) {
+    } catch (error: unknown) {
       console.error('Error creando producto:', error);
-      if (error.response && error.response.data && error.response.data.message) {
-        setSubmissionError(`Error al crear el producto: ${error.response.data.message}`);
-      } else {
-        setSubmissionError('Error al crear el producto. Por favor, inténtalo de nuevo.');
+      if (!applyFieldErrors(error, setError)) {
+        setSubmissionError(getErrorMessage(error, 'Error al crear el producto. Por favor, inténtalo de nuevo.'));
       }
     } finally {
       setIsSubmitting(false);
@@ -165,6 +193,58 @@ const CreateProduct: React.FC = () => {
             {errors.stock && <p className="text-red-500 text-sm mt-1">{errors.stock.message}</p>}
           </div>
 
+          <div>
+            <label htmlFor="reorder_threshold" className="block text-sm font-semibold text-gray-700 mb-1">
+              Stock Mínimo (Opcional)
+            </label>
+            <input
+              id="reorder_threshold"
+              type="number"
+              step="1"
+              {...register('reorder_threshold', { setValueAs: (value) => (value === '' ? null : Number(value)) })}
+              className="mt-1 block w-full p-3 border border-blue-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+              placeholder="Ej: 10"
+            />
+            <p className="text-gray-500 text-xs mt-1">Con este stock o menos, el producto aparece como pendiente de reponer.</p>
+            {errors.reorder_threshold && <p className="text-red-500 text-sm mt-1">{errors.reorder_threshold.message}</p>}
+          </div>
+
+          <div>
+            <label htmlFor="category_id" className="block text-sm font-semibold text-gray-700 mb-1">
+              Categoría (Opcional)
+            </label>
+            <select
+              id="category_id"
+              {...register('category_id', { setValueAs: (value) => (value === '' ? null : Number(value)) })}
+              className="mt-1 block w-full p-3 border border-blue-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+            >
+              <option value="">Sin categoría</option>
+              {flattenCategories(categories).map(({ category, depth }) => (
+                <option key={category.id} value={category.id}>
+                  {'\u00A0\u00A0'.repeat(depth)}{category.name}
+                </option>
+              ))}
+            </select>
+            {errors.category_id && <p className="text-red-500 text-sm mt-1">{errors.category_id.message}</p>}
+          </div>
+
+          <div>
+            <label htmlFor="station_id" className="block text-sm font-semibold text-gray-700 mb-1">
+              Estación de cocina (Opcional)
+            </label>
+            <select
+              id="station_id"
+              {...register('station_id', { setValueAs: (value) => (value === '' ? null : Number(value)) })}
+              className="mt-1 block w-full p-3 border border-blue-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+            >
+              <option value="">Sin estación</option>
+              {stations.map((station) => (
+                <option key={station.id} value={station.id}>{station.name}</option>
+              ))}
+            </select>
+            {errors.station_id && <p className="text-red-500 text-sm mt-1">{errors.station_id.message}</p>}
+          </div>
+
           <button
             type="submit"
             disabled={isSubmitting} 
@@ -15,6 +15,11 @@
  * @property {number} quantity - The quantity of the product in the order item.
  * @property {string} price_at_time - The price of the product at the time of the order (string from backend).
  * @property {string} productName - The name of the product (frontend only, derived/added).
+ * @property {OrderItemModifier[]} modifiers - The modifiers chosen for the item.
+ *
+ * @typedef {Object} OrderItemModifier
+ * @property {string} name - The name of the modifier at the time of the order.
+ * @property {string} price_delta - The price added to each unit (string from backend).
  *
  * @typedef {Object} Order
  * @property {number} id - The ID of the order.
@@ -22,8 +27,18 @@
  * @property {string} total - The total amount of the order (string from backend).
  * @property {string} status - The status of the order.
  * @property {string} created_at - The creation date of the order (ISO 8601 string).
+ * @property {string} [username] - The username of the waiter who placed the order (admin view only).
+ * @property {number | null} [table_number] - The number of the table the order is for (`null` for take-away orders).
  * @property {OrderItem[]} order_items - The list of items in the order.
  *
+ * @typedef {Object} AdminOrderFilters
+ * @property {string} status - The status to filter by (empty for any).
+ * @property {string} waiter - The waiter username to filter by (empty for any).
+ * @property {string} from - The earliest creation date (YYYY-MM-DD, empty for no bound).
+ * @property {string} to - The latest creation date (YYYY-MM-DD, empty for no bound).
+ * @property {string} minTotal - The minimum order total (empty for no bound).
+ * @property {string} maxTotal - The maximum order total (empty for no bound).
+ *
  * @typedef {'created_at' | 'total' | 'id'} SortKey - The key used for sorting orders.
  * @typedef {'asc' | 'desc'} SortDirection - The direction used for sorting orders.
  *
@@ -31,9 +46,13 @@
  *
  * @remarks
  * - Fetches orders from the backend and processes them for display.
+ * - Admins can switch to a restaurant-wide view (`/orders/all`) listing every waiter's orders,
+ *   filtered by status, waiter, date range and total, and paginated on the server.
  * - Allows sorting of orders by date, total, or ID.
  * - Displays detailed information for each order, including its items.
- * - Provides navigation links to manage products and orders.
+ * - Stays up to date through the `/events` stream: status changes are applied in place and new
+ *   orders trigger a refetch of the current view.
+ * - Provides navigation links to manage products and orders and to the kitchen display (product creation is only offered to admins).
  * - Handles user authentication and logout functionality.
  *
  * @example
@@ -49,6 +68,8 @@ import React, { useEffect, useState, useMemo } from 'react';
 import api from '../api';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
+import { useServerEvents } from '../api/events';
+import PaymentDialog from '../components/PaymentDialog';
 
 interface OrderItem {
   id: number; 
@@ -57,17 +78,60 @@ interface OrderItem {
   quantity: number;
   price_at_time: string; 
   productName: string; 
+  modifiers: OrderItemModifier[];
+}
+
+interface OrderItemModifier {
+  name: string;
+  price_delta: string;
 }
 
+/**
+ * Price of one unit of an item: its base price plus the price deltas of its modifiers.
+ */
+
+const unitPrice = (item: OrderItem) =>
+  parseFloat(item.price_at_time) + item.modifiers.reduce((sum, modifier) => sum + parseFloat(modifier.price_delta), 0);
+
 interface Order {
   id: number;
   user_id: number;
   total: string; 
   status: string;
   created_at: string; 
+  username?: string;
+  table_number?: number | null;
   order_items: OrderItem[]; 
 }
 
+interface AdminOrderFilters {
+  status: string;
+  waiter: string;
+  from: string;
+  to: string;
+  minTotal: string;
+  maxTotal: string;
+}
+
+const EMPTY_FILTERS: AdminOrderFilters = { status: '', waiter: '', from: '', to: '', minTotal: '', maxTotal: '' };
+
+const ORDER_STATUS_LABELS: Record<string, string> = {
+  pending: 'Pendiente',
+  in_progress: 'En preparación',
+  ready: 'Lista',
+  served: 'Servida',
+  completed: 'Completada',
+  cancelled: 'Cancelada',
+};
+
+// Orders in these statuses can no longer receive payments.
+const CLOSED_ORDER_STATUSES = ['completed', 'cancelled'];
+
+// Roles with the `payments:create` permission.
+const PAYMENT_ROLES = ['admin', 'waiter'];
+
+const ADMIN_PAGE_SIZE = 20;
+
 type SortKey = 'created_at' | 'total' | 'id'; 
 type SortDirection = 'asc' | 'desc';
 
@@ -77,20 +141,42 @@ const Dashboard: React.FC = () => {
   const [sortKey, setSortKey] = useState<SortKey>('created_at'); 
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc'); 
   const navigate = useNavigate();
-  const { isAuthenticated, logout } = useAuth();
+  const { isAuthenticated, userRole, logout } = useAuth();
+  const canTakePayments = userRole !== null && PAYMENT_ROLES.includes(userRole);
+  const isAdmin = userRole === 'admin';
+  const [showAllOrders, setShowAllOrders] = useState<boolean>(false);
+  const [filterInputs, setFilterInputs] = useState<AdminOrderFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AdminOrderFilters>(EMPTY_FILTERS);
+  const [adminPage, setAdminPage] = useState<number>(1);
+  const [adminTotalPages, setAdminTotalPages] = useState<number>(0);
+  const [refreshKey, setRefreshKey] = useState<number>(0);
+  const [payingOrderId, setPayingOrderId] = useState<number | null>(null);
 
   useEffect(() => {
     const fetchOrders = async () => {
       try {
-        const response = await api.get('/orders');
-        console.log("Raw orders data from backend (GET /orders):", response.data); 
-        const fetchedOrders: Order[] = response.data.map((order: any) => {
+        let rawOrders;
+        if (showAllOrders) {
+          const params = Object.fromEntries(
+            Object.entries({ ...filters, page: adminPage, limit: ADMIN_PAGE_SIZE }).filter(([, value]) => value !== '')
+          );
+          const response = await api.get('/orders/all', { params });
+          rawOrders = response.data.data;
+          setAdminTotalPages(response.data.pagination.totalPages);
+        } else {
+          const response = await api.get('/orders');
+          rawOrders = response.data;
+        }
+        console.log("Raw orders data from backend:", rawOrders); 
+        const fetchedOrders: Order[] = rawOrders.map((order: any) => {
           const processedOrder: Order = {
             id: order.id,
             user_id: order.user_id,
             total: order.total, 
             status: order.status,
             created_at: order.created_at, 
+            username: order.username,
+            table_number: order.table_number,
             order_items: [] 
           };
 
@@ -101,7 +187,8 @@ const Dashboard: React.FC = () => {
               product_id: item.product_id,
               quantity: item.quantity,
               price_at_time: item.price_at_time, 
-              productName: item.product_name || `Producto ID: ${item.product_id}` 
+              productName: item.product_name || `Producto ID: ${item.product_id}`,
+              modifiers: Array.isArray(item.modifiers) ? item.modifiers : [],
             }));
           } else {
             console.warn(`Order ${order.id} has no or invalid 'order_items' property:`, order.order_items);
@@ -118,7 +205,31 @@ const Dashboard: React.FC = () => {
     if (isAuthenticated) {
       fetchOrders();
     }
-  }, [isAuthenticated, logout]); 
+  }, [isAuthenticated, logout, showAllOrders, filters, adminPage, refreshKey]); 
+
+  useServerEvents((event) => {
+    if (event.type === 'order.status_changed') {
+      setOrders((prev) => prev.map((order) => (order.id === event.order_id ? { ...order, status: event.to } : order)));
+    } else if (event.type === 'order.created') {
+      setRefreshKey((key) => key + 1);
+    }
+  }, () => setRefreshKey((key) => key + 1));
+
+  const handleFilterChange = (key: keyof AdminOrderFilters, value: string) => {
+    setFilterInputs((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleApplyFilters = (event: React.FormEvent) => {
+    event.preventDefault();
+    setAdminPage(1);
+    setFilters(filterInputs);
+  };
+
+  const handleClearFilters = () => {
+    setAdminPage(1);
+    setFilterInputs(EMPTY_FILTERS);
+    setFilters(EMPTY_FILTERS);
+  };
 
   const sortedOrders = useMemo(() => {
     const sortableOrders = [...orders];
@@ -233,18 +344,132 @@ const Dashboard: React.FC = () => {
                 <span className="text-xl font-semibold">Gestionar Órdenes</span>
               </div>
             </Link>
-            <Link to="/create-product" className="dashboard-card group">
+            <Link to="/kitchen" className="dashboard-card group">
               <div className="dashboard-card-inner">
-                <span className="text-5xl mb-4 transform group-hover:scale-110 transition-transform duration-300">✨</span>
-                <span className="text-xl font-semibold">Crear Nuevo Producto</span>
+                <span className="text-5xl mb-4 transform group-hover:scale-110 transition-transform duration-300">🍳</span>
+                <span className="text-xl font-semibold">Pantalla de Cocina</span>
               </div>
             </Link>
+            {userRole === 'admin' && (
+              <Link to="/create-product" className="dashboard-card group">
+                <div className="dashboard-card-inner">
+                  <span className="text-5xl mb-4 transform group-hover:scale-110 transition-transform duration-300">✨</span>
+                  <span className="text-xl font-semibold">Crear Nuevo Producto</span>
+                </div>
+              </Link>
+            )}
           </div>
         </div>
 
         <hr className="my-10 border-t-2 border-blue-200" />
 
-        <h2 className="text-3xl font-bold mb-6 text-blue-800 text-center">Órdenes Recientes</h2>
+        <h2 className="text-3xl font-bold mb-6 text-blue-800 text-center">
+          {showAllOrders ? 'Órdenes del Restaurante' : 'Órdenes Recientes'}
+        </h2>
+
+        {isAdmin && (
+          <div className="mb-6 flex justify-center gap-3">
+            {[false, true].map((all) => (
+              <button
+                key={String(all)}
+                onClick={() => {
+                  setShowAllOrders(all);
+                  setAdminPage(1);
+                }}
+                className={`px-4 py-2 rounded-full text-sm font-medium transition-colors duration-200
+                  ${showAllOrders === all
+                    ? 'bg-blue-600 text-white shadow-md'
+                    : 'bg-blue-100 text-blue-800 hover:bg-blue-200'
+                  }`}
+              >
+                {all ? 'Todas las órdenes' : 'Mis órdenes'}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {isAdmin && showAllOrders && (
+          <form
+            onSubmit={handleApplyFilters}
+            className="mb-6 p-4 bg-blue-50 rounded-lg shadow-inner grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3 items-end"
+          >
+            <label className="text-sm text-gray-700">
+              Estado
+              <select
+                value={filterInputs.status}
+                onChange={(e) => handleFilterChange('status', e.target.value)}
+                className="mt-1 block w-full p-2 border border-blue-300 rounded-lg"
+              >
+                <option value="">Todos</option>
+                {Object.entries(ORDER_STATUS_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              Mesero
+              <input
+                type="text"
+                value={filterInputs.waiter}
+                onChange={(e) => handleFilterChange('waiter', e.target.value)}
+                placeholder="Usuario"
+                className="mt-1 block w-full p-2 border border-blue-300 rounded-lg"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Desde
+              <input
+                type="date"
+                value={filterInputs.from}
+                onChange={(e) => handleFilterChange('from', e.target.value)}
+                className="mt-1 block w-full p-2 border border-blue-300 rounded-lg"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Hasta
+              <input
+                type="date"
+                value={filterInputs.to}
+                onChange={(e) => handleFilterChange('to', e.target.value)}
+                className="mt-1 block w-full p-2 border border-blue-300 rounded-lg"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Total mín.
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={filterInputs.minTotal}
+                onChange={(e) => handleFilterChange('minTotal', e.target.value)}
+                className="mt-1 block w-full p-2 border border-blue-300 rounded-lg"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Total máx.
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={filterInputs.maxTotal}
+                onChange={(e) => handleFilterChange('maxTotal', e.target.value)}
+                className="mt-1 block w-full p-2 border border-blue-300 rounded-lg"
+              />
+            </label>
+            <div className="md:col-span-3 lg:col-span-6 flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={handleClearFilters}
+                className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300"
+              >
+                Limpiar
+              </button>
+              <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700">
+                Filtrar
+              </button>
+            </div>
+          </form>
+        )}
 
         {isAuthenticated && orders.length > 0 && (
           <div className="mb-6 flex flex-wrap gap-3 justify-center items-center">
@@ -291,13 +516,28 @@ const Dashboard: React.FC = () => {
                     <h2 className="text-xl font-bold text-blue-800">Orden #{order.id}</h2>
                     <p className="text-gray-700">Total: ${parseFloat(order.total).toFixed(2)}</p> {/* Parse total here for display */}
                     <p className="text-gray-600 text-sm">Fecha: {formatDate(order.created_at)}</p>
+                    <p className="text-gray-600 text-sm">Estado: {ORDER_STATUS_LABELS[order.status] || order.status}</p>
+                    <p className="text-gray-600 text-sm">Mesa: {order.table_number ?? 'Para llevar'}</p>
+                    {order.username && (
+                      <p className="text-gray-600 text-sm">Mesero: {order.username}</p>
+                    )}
+                  </div>
+                  <div className="flex flex-col gap-2">
+                    <button
+                      onClick={() => toggleOrderDetails(order.id)}
+                      className="px-6 py-2 bg-blue-600 text-white rounded-full shadow-md hover:bg-blue-700 transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+                    >
+                      {expandedOrderId === order.id ? 'Ocultar Detalles' : 'Ver Detalles'}
+                    </button>
+                    {canTakePayments && !CLOSED_ORDER_STATUSES.includes(order.status) && (
+                      <button
+                        onClick={() => setPayingOrderId(order.id)}
+                        className="px-6 py-2 bg-green-600 text-white rounded-full shadow-md hover:bg-green-700 transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-opacity-50"
+                      >
+                        Cobrar
+                      </button>
+                    )}
                   </div>
-                  <button
-                    onClick={() => toggleOrderDetails(order.id)}
-                    className="px-6 py-2 bg-blue-600 text-white rounded-full shadow-md hover:bg-blue-700 transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
-                  >
-                    {expandedOrderId === order.id ? 'Ocultar Detalles' : 'Ver Detalles'}
-                  </button>
                 </div>
                 {expandedOrderId === order.id && (
                   <div className="mt-4 pt-4 border-t border-blue-100">
@@ -319,20 +559,25 @@ const Dashboard: React.FC = () => {
                             {order.order_items.map((item, itemIndex) => (
                               <tr key={item.id || itemIndex} className="border-b border-gray-200 hover:bg-blue-50">
                                 <td className="py-3 px-6 text-left whitespace-nowrap">
-                                  <div className="flex items-center">
+                                  <div className="flex flex-col">
                                     <span className="font-medium">
                                       ID: {item.product_id}
                                     </span>
+                                    {item.modifiers.length > 0 && (
+                                      <span className="text-xs text-blue-700">
+                                        {item.modifiers.map((modifier) => modifier.name).join(', ')}
+                                      </span>
+                                    )}
                                   </div>
                                 </td>
                                 <td className="py-3 px-6 text-center">
                                   {item.quantity}
                                 </td>
                                 <td className="py-3 px-6 text-right">
-                                  ${parseFloat(item.price_at_time).toFixed(2)} 
+                                  ${unitPrice(item).toFixed(2)} 
                                 </td>
                                 <td className="py-3 px-6 text-right">
-                                  ${(parseFloat(item.price_at_time) * item.quantity).toFixed(2)}
+                                  ${(unitPrice(item) * item.quantity).toFixed(2)}
                                 </td>
                               </tr>
                             ))}
@@ -346,7 +591,36 @@ const Dashboard: React.FC = () => {
             ))}
           </div>
         )}
+
+        {showAllOrders && adminTotalPages > 1 && (
+          <div className="flex justify-center items-center gap-4 mt-8 text-gray-700">
+            <button
+              onClick={() => setAdminPage((prev) => prev - 1)}
+              disabled={adminPage <= 1}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg shadow disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              ← Anterior
+            </button>
+            <span>Página {adminPage} de {adminTotalPages}</span>
+            <button
+              onClick={() => setAdminPage((prev) => prev + 1)}
+              disabled={adminPage >= adminTotalPages}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg shadow disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              Siguiente →
+            </button>
+          </div>
+        )}
       </div>
+      {payingOrderId !== null && (
+        <PaymentDialog
+          orderId={payingOrderId}
+          onClose={() => setPayingOrderId(null)}
+          onPaid={(orderStatus) => {
+            setOrders((prev) => prev.map((order) => (order.id === payingOrderId ? { ...order, status: orderStatus } : order)));
+          }}
+        />
+      )}
     </div>
   );
 };
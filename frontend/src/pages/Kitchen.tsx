@@ -0,0 +1,253 @@
+/**
+ * Kitchen display screen: shows the open tickets of a station and lets the cooks move each
+ * item from "En cola" to "Preparando" to "Listo".
+ *
+ * @component
+ *
+ * @typedef {Object} Station
+ * @property {number} id - The ID of the station.
+ * @property {string} code - The code of the station used in the URL, e.g. `grill`.
+ * @property {string} name - The display name of the station, e.g. "Parrilla".
+ *
+ * @typedef {Object} TicketItem
+ * @property {number} id - The ID of the order item.
+ * @property {string} product_name - The name of the product.
+ * @property {number} quantity - The number of units to prepare.
+ * @property {PrepStatus} prep_status - The preparation status of the item.
+ * @property {string | null} station_code - The station the item is routed to.
+ * @property {{ name: string }[]} modifiers - The modifiers chosen for the item.
+ *
+ * @typedef {Object} Ticket
+ * @property {number} order_id - The ID of the order.
+ * @property {number | null} table_number - The table of the order (`null` for take-away orders).
+ * @property {string} waiter - The username of the waiter who placed the order.
+ * @property {string} created_at - When the order was placed (ISO 8601 string).
+ * @property {TicketItem[]} items - The items of the order routed to the station.
+ *
+ * @returns {JSX.Element} The rendered kitchen display.
+ *
+ * @remarks
+ * - The station tabs come from `GET /kitchen/stations`; "Todas" shows the tickets of every station.
+ * - Tickets are fetched from `GET /kitchen/:station/tickets`, oldest order first. They are
+ *   refetched as soon as an order is created or changes status (`/events` stream), and every
+ *   `REFRESH_INTERVAL_MS` to pick up the items other cooks update.
+ * - Each ticket is colored by the time elapsed since the order was placed (see `ticketColor`),
+ *   updated every second.
+ * - Item buttons call `PATCH /order-items/:id/status`; only roles with the `kitchen:update`
+ *   permission (admin, cook) can use them, the rest get an alert with the server's message.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import api from '../api';
+import { getErrorMessage } from '../api/problem';
+import { useServerEvents } from '../api/events';
+
+type PrepStatus = 'queued' | 'preparing' | 'ready';
+
+interface Station {
+  id: number;
+  code: string;
+  name: string;
+}
+
+interface TicketItem {
+  id: number;
+  product_name: string;
+  quantity: number;
+  prep_status: PrepStatus;
+  station_code: string | null;
+  modifiers: { name: string }[];
+}
+
+interface Ticket {
+  order_id: number;
+  table_number: number | null;
+  waiter: string;
+  created_at: string;
+  items: TicketItem[];
+}
+
+const ALL_STATIONS = 'all';
+
+const REFRESH_INTERVAL_MS = 10000;
+
+const PREP_STATUS_LABELS: Record<PrepStatus, string> = {
+  queued: 'En cola',
+  preparing: 'Preparando',
+  ready: 'Listo',
+};
+
+/**
+ * Border and header colors of a ticket: green for orders placed less than 5 minutes ago,
+ * yellow up to 10 minutes and red after that.
+ */
+
+const ticketColor = (elapsedMinutes: number) => {
+  if (elapsedMinutes < 5) return 'border-green-500 bg-green-100 text-green-900';
+  if (elapsedMinutes < 10) return 'border-yellow-500 bg-yellow-100 text-yellow-900';
+  return 'border-red-500 bg-red-100 text-red-900';
+};
+
+/**
+ * Formats an elapsed time in milliseconds as `mm:ss`.
+ */
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
+
+const Kitchen: React.FC = () => {
+  const [stations, setStations] = useState<Station[]>([]);
+  const [selectedStation, setSelectedStation] = useState<string>(ALL_STATIONS);
+  const [tickets, setTickets] = useState<Ticket[]>([]);
+  const [now, setNow] = useState<number>(Date.now());
+  const [error, setError] = useState<string | null>(null);
+  const [updatingItemId, setUpdatingItemId] = useState<number | null>(null);
+
+  useEffect(() => {
+    const fetchStations = async () => {
+      try {
+        const response = await api.get('/kitchen/stations');
+        setStations(response.data);
+      } catch (err) {
+        console.error('Error fetching stations:', err);
+      }
+    };
+    fetchStations();
+  }, []);
+
+  const fetchTickets = useCallback(async () => {
+    try {
+      const response = await api.get(`/kitchen/${selectedStation}/tickets`);
+      setTickets(response.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching kitchen tickets:', err);
+      setError(getErrorMessage(err, 'No se pudieron cargar los pedidos de cocina.'));
+    }
+  }, [selectedStation]);
+
+  useEffect(() => {
+    fetchTickets();
+    const interval = setInterval(fetchTickets, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchTickets]);
+
+  useServerEvents((event) => {
+    if (event.type === 'order.created' || event.type === 'order.status_changed') {
+      fetchTickets();
+    }
+  }, fetchTickets);
+
+  useEffect(() => {
+    const ticker = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(ticker);
+  }, []);
+
+  const handleUpdateStatus = async (itemId: number, status: PrepStatus) => {
+    setUpdatingItemId(itemId);
+    try {
+      await api.patch(`/order-items/${itemId}/status`, { status });
+      await fetchTickets();
+    } catch (err) {
+      console.error('Error updating item status:', err);
+      alert(getErrorMessage(err, 'No se pudo actualizar el estado del producto.'));
+    } finally {
+      setUpdatingItemId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="text-4xl font-extrabold text-white">Cocina 🍳</h1>
+        <Link to="/dashboard" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+          Volver al Panel
+        </Link>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-6" role="tablist">
+        {[{ code: ALL_STATIONS, name: 'Todas' }, ...stations].map((station) => (
+          <button
+            key={station.code}
+            type="button"
+            role="tab"
+            aria-selected={selectedStation === station.code}
+            onClick={() => setSelectedStation(station.code)}
+            className={`px-4 py-2 rounded-lg font-semibold ${
+              selectedStation === station.code ? 'bg-white text-gray-900' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+            }`}
+          >
+            {station.name}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="mb-4 text-red-400">{error}</p>}
+
+      {tickets.length === 0 ? (
+        <p className="text-gray-400 text-center text-xl mt-16">No hay pedidos pendientes.</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+          {tickets.map((ticket) => {
+            const elapsed = now - new Date(ticket.created_at).getTime();
+            return (
+              <div key={ticket.order_id} className={`rounded-xl border-4 overflow-hidden ${ticketColor(elapsed / 60000)}`}>
+                <div className="flex justify-between items-center px-4 py-2">
+                  <span className="font-bold text-lg">
+                    #{ticket.order_id} · {ticket.table_number !== null ? `Mesa ${ticket.table_number}` : 'Para llevar'}
+                  </span>
+                  <span className="font-mono text-lg">{formatElapsed(elapsed)}</span>
+                </div>
+                <p className="px-4 pb-1 text-xs">{ticket.waiter}</p>
+                <ul className="p-4 space-y-3 bg-white text-gray-900">
+                  {ticket.items.map((item) => (
+                    <li key={item.id} className={item.prep_status === 'ready' ? 'opacity-50' : ''}>
+                      <div className="flex justify-between items-start gap-2">
+                        <div>
+                          <span className="font-semibold">{item.quantity} × {item.product_name}</span>
+                          {item.modifiers.length > 0 && (
+                            <p className="text-sm text-gray-600">{item.modifiers.map((modifier) => modifier.name).join(', ')}</p>
+                          )}
+                          <p className="text-xs text-gray-500">{PREP_STATUS_LABELS[item.prep_status]}</p>
+                        </div>
+                        <div className="flex gap-1 shrink-0">
+                          {item.prep_status === 'queued' && (
+                            <button
+                              type="button"
+                              disabled={updatingItemId === item.id}
+                              onClick={() => handleUpdateStatus(item.id, 'preparing')}
+                              className="px-2 py-1 text-sm rounded bg-yellow-500 text-white hover:bg-yellow-600 disabled:opacity-50"
+                            >
+                              Preparar
+                            </button>
+                          )}
+                          {item.prep_status !== 'ready' && (
+                            <button
+                              type="button"
+                              disabled={updatingItemId === item.id}
+                              onClick={() => handleUpdateStatus(item.id, 'ready')}
+                              className="px-2 py-1 text-sm rounded bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+                            >
+                              Listo
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Kitchen;
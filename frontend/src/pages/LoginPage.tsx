@@ -9,9 +9,11 @@
  * successful login.
  *
  * Features:
- * - Form validation with Zod to ensure required fields and password length.
+ * - Form validation with the shared `loginSchema` from `@oceans/shared` to ensure required fields.
  * - Displays error messages for invalid inputs or failed login attempts.
  * - Disables form inputs and button while submitting to prevent duplicate submissions.
+ * - After too many attempts (429), explains why (a locked account can be unlocked by an
+ *   admin) and keeps the button disabled with a countdown until `Retry-After` expires.
  * - Provides a link to the registration page for users without an account.
  *
  * @component
@@ -20,10 +22,11 @@
  * @dependencies
  * - `react`: For building the component.
  * - `react-hook-form`: For form state management and validation.
- * - `zod`: For schema-based validation.
+ * - `@oceans/shared`: For the shared login schema.
  * - `@hookform/resolvers/zod`: To integrate Zod with React Hook Form.
  * - `react-router-dom`: For navigation and linking to other pages.
  * - `../context/AuthContext`: For authentication context to handle login.
+ * - `../api/problem`: To read the reason and wait of a rejected attempt.
  *
  * @example
  * ```tsx
@@ -41,25 +44,46 @@
  * ```
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import axios from 'axios';
 import { useForm } from 'react-hook-form';
-import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
+import { loginSchema, type LoginInput } from '@oceans/shared';
 import { useAuth } from '../context/AuthContext'; 
+import { getProblem } from '../api/problem';
 import { useNavigate, Link } from 'react-router-dom'; 
 
-const loginSchema = z.object({
-  username: z.string().min(1, 'El nombre de usuario es obligatorio'),
-  password: z.string().min(6, 'La contraseña debe tener al menos 6 caracteres'),
-});
+type LoginFormInputs = LoginInput;
 
-type LoginFormInputs = z.infer<typeof loginSchema>;
+/**
+ * Seconds a rejected attempt has to wait, from the `retry_after` of the problem details or
+ * the `Retry-After` header.
+ */
+const retryAfterSeconds = (error: unknown): number => {
+  const fromBody = Number(getProblem(error)?.retry_after);
+  const fromHeader = axios.isAxiosError(error) ? Number(error.response?.headers['retry-after']) : NaN;
+  const seconds = Number.isFinite(fromBody) && fromBody > 0 ? fromBody : fromHeader;
+  return Number.isFinite(seconds) && seconds > 0 ? Math.ceil(seconds) : 0;
+};
+
+/** Formats a wait as `m:ss`, or as seconds when under a minute. */
+const formatWait = (seconds: number) =>
+  seconds < 60 ? `${seconds} s` : `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
 
 const LoginPage: React.FC = () => {
   const { login } = useAuth(); 
   const navigate = useNavigate();
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [waitSeconds, setWaitSeconds] = useState<number>(0);
+
+  useEffect(() => {
+    if (waitSeconds <= 0) return;
+    const timer = setTimeout(() => setWaitSeconds((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [waitSeconds]);
+
+  const isWaiting = waitSeconds > 0;
 
   const {
     register,
@@ -79,9 +103,18 @@ const LoginPage: React.FC = () => {
       navigate('/dashboard'); 
     } catch (error: unknown) { 
       console.error('Error al iniciar sesión:', error);
-      if (error instanceof Error && 'response' in error) {
-        const responseError = error as { response?: { data?: { message?: string } } };
-        setErrorMessage(responseError.response?.data?.message || 'Credenciales inválidas. Por favor, inténtalo de nuevo.');
+      const problem = getProblem(error);
+      // `login` rethrows API failures with the `detail` of the problem details response,
+      // except 429s, which keep the original error with the reason and wait.
+      if (problem?.status === 429) {
+        setWaitSeconds(retryAfterSeconds(error));
+        setErrorMessage(
+          problem.reason === 'login_locked'
+            ? 'Cuenta bloqueada por demasiados intentos fallidos. Un administrador puede desbloquearla, o inténtalo de nuevo más tarde.'
+            : 'Demasiados intentos. Espera un momento antes de volver a intentarlo.'
+        );
+      } else if (error instanceof Error) {
+        setErrorMessage(error.message);
       } else {
         setErrorMessage('Ocurrió un error inesperado. Por favor, inténtalo de nuevo.');
       }
@@ -141,14 +174,18 @@ const LoginPage: React.FC = () => {
           </div>
           <button
             type="submit"
-            disabled={isSubmitting} 
+            disabled={isSubmitting || isWaiting} 
             className={`w-full py-3 px-4 rounded-lg shadow-xl text-white font-semibold text-lg transition-all duration-300 transform
-              ${isSubmitting
+              ${isSubmitting || isWaiting
                 ? 'bg-gray-400 cursor-not-allowed'
                 : 'bg-blue-600 hover:bg-blue-700 hover:scale-105 active:scale-95'
               }`}
           >
-            {isSubmitting ? 'Iniciando Sesión...' : 'Iniciar Sesión'}
+            {isSubmitting
+              ? 'Iniciando Sesión...'
+              : isWaiting
+                ? `Reintentar en ${formatWait(waitSeconds)}`
+                : 'Iniciar Sesión'}
           </button>
         </form>
 
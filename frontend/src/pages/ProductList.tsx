@@ -12,16 +12,23 @@
  * @property {string} description - A brief description of the product.
  * @property {string} price - The price of the product, formatted as a string.
  * @property {number} stock - The available stock quantity of the product.
+ * @property {number | null} category_id - The menu category of the product, if any.
  *
  * @returns {JSX.Element} A React component that renders the product list.
  *
  * @remarks
  * - The component fetches product data from an API endpoint (`/products`) using an asynchronous
- *   function inside a `useEffect` hook.
- * - The `price` field is converted to a float during data transformation to ensure proper formatting.
+ *   function inside a `useEffect` hook. The endpoint is paginated on the server: the page,
+ *   sort order, text search, category and "in stock" filter are sent as query parameters and the
+ *   `{ data, pagination }` envelope drives the page controls.
+ * - The categories are fetched once from `/categories` to fill the category filter and to show
+ *   each product's category name. Filtering by a category includes its subcategories.
+ * - The `price` field arrives as a decimal string and is parsed to a float when rendered.
  * - The component handles three states: loading, error, and displaying the product list.
  * - If no products are available, a message is displayed encouraging the user to add products.
  * - Includes a button to navigate back to the dashboard.
+ * - Admins can archive products, switch to the archived list (`/products/archived`) and restore them.
+ *   Archived products are hidden from the menu but kept for historical orders.
  *
  * @example
  * ```tsx
@@ -42,6 +49,7 @@
 import React, { useEffect, useState } from 'react';
 import api from '../api';
 import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
 
 interface Product {
   id: number;
@@ -49,22 +57,76 @@ interface Product {
   description: string;
   price: string; 
   stock: number;
+  category_id: number | null;
 }
 
+interface Category {
+  id: number;
+  name: string;
+  parent_id: number | null;
+}
+
+interface Pagination {
+  page: number | null;
+  limit: number;
+  total: number;
+  totalPages: number;
+  nextCursor: string | null;
+}
+
+type SortOption = 'id' | 'name' | 'price' | 'stock' | 'created_at';
+
+const PAGE_SIZE = 20;
+
 const ProductList: React.FC = () => {
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState<boolean>(false);
+  const [page, setPage] = useState<number>(1);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [searchInput, setSearchInput] = useState<string>('');
+  const [search, setSearch] = useState<string>('');
+  const [sort, setSort] = useState<SortOption>('id');
+  const [order, setOrder] = useState<'asc' | 'desc'>('asc');
+  const [inStockOnly, setInStockOnly] = useState<boolean>(false);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [category, setCategory] = useState<string>('');
   const navigate = useNavigate();
+  const { userRole } = useAuth();
+  const isAdmin = userRole === 'admin';
+
+  useEffect(() => {
+    api.get<Category[]>('/categories')
+      .then((response) => setCategories(response.data))
+      .catch((err) => console.error('Error fetching categories:', err));
+  }, []);
 
   useEffect(() => {
     const fetchProducts = async () => {
+      setLoading(true);
+      setError(null);
       try {
-        const response = await api.get('/products');
-        const fetchedProducts: Product[] = response.data.map((product: Product) => ({
-          ...product,
-          price: parseFloat(product.price), 
-        }));
+        let fetchedProducts: Product[];
+        if (showArchived) {
+          const response = await api.get('/products/archived');
+          fetchedProducts = response.data;
+          setPagination(null);
+        } else {
+          const response = await api.get('/products', {
+            params: {
+              page,
+              limit: PAGE_SIZE,
+              sort,
+              order,
+              q: search || undefined,
+              inStock: inStockOnly ? true : undefined,
+              category: category || undefined,
+            },
+          });
+          fetchedProducts = response.data.data;
+          setPagination(response.data.pagination);
+        }
         setProducts(fetchedProducts);
       } catch (err) {
         console.error('Error fetching products:', err);
@@ -75,7 +137,32 @@ const ProductList: React.FC = () => {
     };
 
     fetchProducts();
-  }, []);
+  }, [showArchived, page, search, sort, order, inStockOnly, category]);
+
+  const categoryNames = Object.fromEntries(categories.map((c) => [c.id, c.name]));
+
+  const handleSearchSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    setPage(1);
+    setSearch(searchInput.trim());
+  };
+
+  const handleArchiveToggle = async (product: Product) => {
+    const action = showArchived ? 'restaurar' : 'archivar';
+    if (!window.confirm(`¿Seguro que quieres ${action} "${product.name}"?`)) return;
+
+    try {
+      if (showArchived) {
+        await api.post(`/products/${product.id}/restore`);
+      } else {
+        await api.delete(`/products/${product.id}`);
+      }
+      setProducts((prev) => prev.filter((p) => p.id !== product.id));
+    } catch (err) {
+      console.error(`Error al ${action} el producto:`, err);
+      setError(`No se pudo ${action} el producto. Inténtalo de nuevo.`);
+    }
+  };
 
 
   return (
@@ -83,8 +170,19 @@ const ProductList: React.FC = () => {
       <div className="max-w-6xl mx-auto bg-white rounded-xl shadow-xl overflow-hidden p-6 sm:p-8">
         <div className="flex justify-between items-center mb-8">
           <h1 className="text-4xl font-extrabold text-blue-800 animate-fade-in-down">
-            Catálogo de Productos
+            {showArchived ? 'Productos Archivados' : 'Catálogo de Productos'}
           </h1>
+          {isAdmin && (
+            <button
+              onClick={() => {
+                setShowArchived((prev) => !prev);
+                setPage(1);
+              }}
+              className="px-6 py-3 bg-gray-200 text-gray-800 rounded-lg shadow hover:bg-gray-300 transition-all duration-300"
+            >
+              {showArchived ? 'Ver catálogo activo' : 'Ver archivados'}
+            </button>
+          )}
           <button
             onClick={() => navigate('/dashboard')}
             className="px-6 py-3 bg-blue-600 text-white rounded-lg shadow-lg hover:bg-blue-700 transition-all duration-300 transform hover:scale-105 animate-fade-in-right"
@@ -93,6 +191,74 @@ const ProductList: React.FC = () => {
           </button>
         </div>
 
+        {!showArchived && (
+          <form onSubmit={handleSearchSubmit} className="mb-6 flex flex-wrap gap-3 items-center">
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Buscar por nombre o descripción..."
+              className="flex-1 min-w-[200px] p-3 border border-blue-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button type="submit" className="px-5 py-3 bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700">
+              Buscar
+            </button>
+            <select
+              value={sort}
+              onChange={(e) => {
+                setSort(e.target.value as SortOption);
+                setPage(1);
+              }}
+              className="p-3 border border-blue-300 rounded-lg"
+              aria-label="Ordenar por"
+            >
+              <option value="id">ID</option>
+              <option value="name">Nombre</option>
+              <option value="price">Precio</option>
+              <option value="stock">Stock</option>
+              <option value="created_at">Fecha de creación</option>
+            </select>
+            <button
+              type="button"
+              onClick={() => {
+                setOrder((prev) => (prev === 'asc' ? 'desc' : 'asc'));
+                setPage(1);
+              }}
+              className="px-4 py-3 bg-blue-100 text-blue-800 rounded-lg hover:bg-blue-200"
+              aria-label="Cambiar dirección de orden"
+            >
+              {order === 'asc' ? '⬆️' : '⬇️'}
+            </button>
+            {categories.length > 0 && (
+              <select
+                value={category}
+                onChange={(e) => {
+                  setCategory(e.target.value);
+                  setPage(1);
+                }}
+                className="p-3 border border-blue-300 rounded-lg"
+                aria-label="Filtrar por categoría"
+              >
+                <option value="">Todas las categorías</option>
+                {categories.map((c) => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+            )}
+            <label className="flex items-center gap-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={inStockOnly}
+                onChange={(e) => {
+                  setInStockOnly(e.target.checked);
+                  setPage(1);
+                }}
+              />
+              Solo con stock
+            </label>
+          </form>
+        )}
+
         {error && (
           <div className="text-center py-4 text-red-600 text-lg">
             <p>{error}</p>
@@ -115,9 +281,11 @@ const ProductList: React.FC = () => {
                 <tr>
                   <th className="py-3 px-6 border-b border-blue-700">ID</th>
                   <th className="py-3 px-6 border-b border-blue-700">Nombre</th>
+                  <th className="py-3 px-6 border-b border-blue-700">Categoría</th>
                   <th className="py-3 px-6 border-b border-blue-700">Descripción</th>
                   <th className="py-3 px-6 border-b border-blue-700">Precio</th>
                   <th className="py-3 px-6 border-b border-blue-700">Stock</th>
+                  {isAdmin && <th className="py-3 px-6 border-b border-blue-700">Acciones</th>}
                 </tr>
               </thead>
               <tbody>
@@ -130,13 +298,48 @@ const ProductList: React.FC = () => {
                   >
                     <td className="py-3 px-6 text-blue-800 font-semibold">{product.id}</td>
                     <td className="py-3 px-6 text-gray-800">{product.name}</td>
+                    <td className="py-3 px-6 text-gray-700">{(product.category_id && categoryNames[product.category_id]) || 'Sin categoría'}</td>
                     <td className="py-3 px-6 text-gray-600 max-w-xs truncate">{product.description || 'N/A'}</td>
                     <td className="py-3 px-6 text-green-700 font-bold">${(parseFloat(product.price) || 0).toFixed(2)}</td>
                     <td className="py-3 px-6 text-gray-700">{product.stock}</td>
+                    {isAdmin && (
+                      <td className="py-3 px-6">
+                        <button
+                          onClick={() => handleArchiveToggle(product)}
+                          className={`px-3 py-1 rounded-lg text-sm text-white shadow transition-all duration-200
+                            ${showArchived ? 'bg-green-500 hover:bg-green-600' : 'bg-red-500 hover:bg-red-600'}`}
+                        >
+                          {showArchived ? 'Restaurar' : 'Archivar'}
+                        </button>
+                      </td>
+                    )}
                   </tr>
                 ))}
               </tbody>
             </table>
+            {pagination && pagination.totalPages > 1 && (
+              <div className="flex justify-between items-center mt-6 text-gray-700">
+                <span>
+                  Página {page} de {pagination.totalPages} ({pagination.total} productos)
+                </span>
+                <div className="space-x-2">
+                  <button
+                    onClick={() => setPage((prev) => prev - 1)}
+                    disabled={page <= 1}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg shadow disabled:bg-gray-300 disabled:cursor-not-allowed"
+                  >
+                    ← Anterior
+                  </button>
+                  <button
+                    onClick={() => setPage((prev) => prev + 1)}
+                    disabled={page >= pagination.totalPages}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg shadow disabled:bg-gray-300 disabled:cursor-not-allowed"
+                  >
+                    Siguiente →
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -8,10 +8,12 @@
  * password, and password confirmation, with appropriate validation and error handling.
  *
  * Features:
- * - Validates input fields using `zod` schema.
- * - Displays error messages for invalid inputs or backend errors.
+ * - Validates input fields using the shared `registerFormSchema` from `@oceans/shared`, the
+ *   same rules the backend enforces (e.g. passwords of at least 8 characters).
+ * - Displays error messages for invalid inputs or backend errors; field errors returned by
+ *   the API (e.g. a username that already exists) are shown on the matching input.
  * - Shows success messages upon successful registration.
- * - Optionally auto-logs in the user after registration and redirects to the dashboard.
+ * - Starts the session returned by the registration (no second login) and redirects to the dashboard.
  * - Redirects to the login page after successful registration if auto-login is not used.
  *
  * @component
@@ -20,10 +22,10 @@
  * @dependencies
  * - `react`: For building the component.
  * - `react-hook-form`: For form handling and validation.
- * - `zod` and `@hookform/resolvers/zod`: For schema-based validation.
+ * - `@oceans/shared` and `@hookform/resolvers/zod`: For schema-based validation.
  * - `react-router-dom`: For navigation and linking.
  * - `api`: Axios instance for API communication.
- * - `useAuth`: Context hook for authentication (optional for auto-login).
+ * - `useAuth`: Context hook for authentication, to start the new session.
  *
  * @example
  * ```tsx
@@ -37,27 +39,18 @@
 
 import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
-import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useNavigate, Link } from 'react-router-dom';
+import { registerFormSchema, type RegisterFormInput } from '@oceans/shared';
 import api from '../api'; 
-import { useAuth } from '../context/AuthContext'; 
+import { applyFieldErrors, getErrorMessage } from '../api/problem';
+import { useAuth, type AuthSession } from '../context/AuthContext'; 
 
-
-const registerSchema = z.object({
-  username: z.string().min(3, 'El nombre de usuario debe tener al menos 3 caracteres'),
-  password: z.string().min(6, 'La contraseña debe tener al menos 6 caracteres'),
-  confirmPassword: z.string().min(6, 'Debes confirmar la contraseña'),
-}).refine((data) => data.password === data.confirmPassword, {
-  message: 'Las contraseñas no coinciden',
-  path: ['confirmPassword'], 
-});
-
-type RegisterFormInputs = z.infer<typeof registerSchema>;
+type RegisterFormInputs = RegisterFormInput;
 
 const Register: React.FC = () => {
   const navigate = useNavigate();
-  const { login } = useAuth(); 
+  const { startSession } = useAuth(); 
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
@@ -67,8 +60,9 @@ const Register: React.FC = () => {
     handleSubmit,
     formState: { errors },
     reset,
+    setError,
   } = useForm<RegisterFormInputs>({
-    resolver: zodResolver(registerSchema),
+    resolver: zodResolver(registerFormSchema),
   });
 
   const onSubmit = async (data: RegisterFormInputs) => {
@@ -76,25 +70,27 @@ const Register: React.FC = () => {
     setSuccessMessage(null); 
     setIsSubmitting(true); 
     try {
-      const response = await api.post('/register', {
+      const response = await api.post<Partial<AuthSession> & { message?: string }>('/auth/register', {
         username: data.username,
         password: data.password,
       });
 
       setSuccessMessage(response.data.message || 'Registro exitoso. ¡Ahora puedes iniciar sesión!');
       reset(); 
-      if (response.data.token && response.data.role) {
-        login(response.data.token, response.data.role);
-        navigate('/dashboard');
+      const { token, refreshToken, user, role } = response.data;
+      if (token && refreshToken && user && role) {
+        startSession({ token, refreshToken, user, role });
       } else {
         setTimeout(() => {
           navigate('/login');
         }, 2000); 
       }
 
-    } catch (error: any) {
+    } catch (error: unknown) {
       console.error('Error al registrar usuario:', error);
-      setErrorMessage(error.response?.data?.message || 'Error en el registro. Inténtalo de nuevo.');
+      if (!applyFieldErrors(error, setError)) {
+        setErrorMessage(getErrorMessage(error, 'Error en el registro. Inténtalo de nuevo.'));
+      }
     } finally {
       setIsSubmitting(false); 
     }
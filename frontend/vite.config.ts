@@ -4,6 +4,10 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // @oceans/shared is linked from ../shared; make its zod import resolve to ours.
+    dedupe: ['zod'],
+  },
   css: {
     postcss: 'postcss.config.js',
   }
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+/**
+ * Minimum password length, enforced on registration by both the API and the forms.
+ */
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, 'El nombre de usuario es obligatorio'),
+  password: z.string().min(1, 'La contraseña es obligatoria'),
+});
+
+export const registerSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .min(3, 'El nombre de usuario debe tener al menos 3 caracteres')
+    .max(50, 'El nombre de usuario no puede tener más de 50 caracteres'),
+  password: z.string().min(PASSWORD_MIN_LENGTH, `La contraseña debe tener al menos ${PASSWORD_MIN_LENGTH} caracteres`),
+});
+
+/**
+ * Registration form schema: the API payload plus a password confirmation that must match.
+ */
+
+export const registerFormSchema = registerSchema
+  .extend({
+    confirmPassword: z.string().min(1, 'Debes confirmar la contraseña'),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: 'Las contraseñas no coinciden',
+    path: ['confirmPassword'],
+  });
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'El refresh token es obligatorio'),
+});
+
+export type LoginInput = z.infer<typeof loginSchema>;
+export type RegisterInput = z.infer<typeof registerSchema>;
+export type RegisterFormInput = z.infer<typeof registerFormSchema>;
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
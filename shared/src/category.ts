@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+export const categorySchema = z.object({
+  name: z
+    .string({ message: 'El nombre es obligatorio' })
+    .trim()
+    .min(1, 'El nombre es obligatorio')
+    .max(50, 'El nombre no puede tener más de 50 caracteres'),
+  display_order: z
+    .number({ message: 'El orden debe ser un número' })
+    .int('El orden debe ser un número entero')
+    .min(0, 'El orden no puede ser negativo')
+    .optional(),
+  parent_id: z
+    .number({ message: 'La categoría padre debe ser un ID válido' })
+    .int('La categoría padre debe ser un ID válido')
+    .positive('La categoría padre debe ser un ID válido')
+    .nullish(),
+  tax_rate: z
+    .number({ message: 'El impuesto debe ser un número' })
+    .min(0, 'El impuesto no puede ser negativo')
+    .max(100, 'El impuesto no puede ser mayor que 100')
+    .multipleOf(0.01, 'El impuesto admite como máximo dos decimales')
+    .nullish(),
+});
+
+/**
+ * Partial category update (`PATCH`): any subset of the category fields, but at least one.
+ */
+
+export const categoryPatchSchema = categorySchema
+  .partial()
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Debes enviar al menos un campo para actualizar',
+  });
+
+export type CategoryInput = z.infer<typeof categorySchema>;
+export type CategoryPatchInput = z.infer<typeof categoryPatchSchema>;
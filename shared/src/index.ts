@@ -0,0 +1,18 @@
+/**
+ * Validation schemas shared by the backend controllers (through the `validate` middleware)
+ * and the frontend forms (through `zodResolver`), so both sides enforce the same rules
+ * and report the same messages.
+ */
+
+export * from './validation';
+export * from './auth';
+export * from './product';
+export * from './order';
+export * from './table';
+export * from './category';
+export * from './modifier';
+export * from './kitchen';
+export * from './payment';
+export * from './promotion';
+export * from './inventory';
+export * from './ingredient';
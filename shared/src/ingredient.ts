@@ -0,0 +1,90 @@
+import { z } from 'zod';
+
+export const INGREDIENT_UNITS = ['g', 'kg', 'ml', 'l', 'unit'] as const;
+export const INGREDIENT_MOVEMENT_KINDS = ['restock', 'adjustment', 'waste'] as const;
+
+/**
+ * An amount of an ingredient, in its unit of measure, with at most three decimals.
+ */
+
+const ingredientQuantity = (label: string) => z
+  .number({ message: `${label} debe ser un número` })
+  .multipleOf(0.001, `${label} admite como máximo tres decimales`);
+
+export const ingredientSchema = z.object({
+  name: z
+    .string({ message: 'El nombre es obligatorio' })
+    .trim()
+    .min(1, 'El nombre es obligatorio')
+    .max(100, 'El nombre no puede tener más de 100 caracteres'),
+  unit: z.enum(INGREDIENT_UNITS, { message: `La unidad debe ser una de: ${INGREDIENT_UNITS.join(', ')}` }),
+  stock: ingredientQuantity('El stock').min(0, 'El stock no puede ser negativo').optional(),
+});
+
+/**
+ * Partial ingredient update (`PATCH`): the name and/or unit. The stock only changes through
+ * movements.
+ */
+
+export const ingredientPatchSchema = ingredientSchema
+  .omit({ stock: true })
+  .partial()
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Debes enviar al menos un campo para actualizar',
+  });
+
+/**
+ * A manual change to an ingredient's stock. `quantity` is the signed change: positive for a
+ * `restock`, negative for `waste`, either way for an `adjustment`. Adjustments and waste need
+ * a reason for the ledger.
+ */
+
+export const ingredientMovementSchema = z
+  .object({
+    kind: z.enum(INGREDIENT_MOVEMENT_KINDS, { message: `El tipo debe ser uno de: ${INGREDIENT_MOVEMENT_KINDS.join(', ')}` }),
+    quantity: ingredientQuantity('La cantidad').refine((quantity) => quantity !== 0, 'La cantidad no puede ser 0'),
+    reason: z
+      .string({ message: 'El motivo debe ser un texto' })
+      .trim()
+      .max(255, 'El motivo no puede tener más de 255 caracteres')
+      .nullish(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.kind === 'restock' && data.quantity < 0) {
+      ctx.addIssue({ code: 'custom', path: ['quantity'], message: 'Una reposición debe sumar stock (cantidad positiva)' });
+    }
+    if (data.kind === 'waste' && data.quantity > 0) {
+      ctx.addIssue({ code: 'custom', path: ['quantity'], message: 'Una merma debe restar stock (cantidad negativa)' });
+    }
+    if (data.kind !== 'restock' && !data.reason) {
+      ctx.addIssue({ code: 'custom', path: ['reason'], message: 'El motivo es obligatorio' });
+    }
+  });
+
+/**
+ * The recipe of a product: how much of each ingredient one unit of it uses, in the
+ * ingredient's unit. Each ingredient may appear once; an empty list removes the recipe.
+ */
+
+export const recipeSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        ingredient_id: z
+          .number({ message: 'El ingrediente debe ser un ID válido' })
+          .int('El ingrediente debe ser un ID válido')
+          .positive('El ingrediente debe ser un ID válido'),
+        quantity: ingredientQuantity('La cantidad').positive('La cantidad debe ser mayor que 0'),
+      }),
+      { message: 'Los ingredientes deben ser una lista' }
+    )
+    .refine(
+      (items) => new Set(items.map((item) => item.ingredient_id)).size === items.length,
+      'Cada ingrediente solo puede aparecer una vez'
+    ),
+});
+
+export type IngredientInput = z.infer<typeof ingredientSchema>;
+export type IngredientPatchInput = z.infer<typeof ingredientPatchSchema>;
+export type IngredientMovementInput = z.infer<typeof ingredientMovementSchema>;
+export type RecipeInput = z.infer<typeof recipeSchema>;
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+export const STOCK_ADJUSTMENT_KINDS = ['adjustment', 'waste'] as const;
+
+const productIdSchema = z
+  .number({ message: 'El producto debe ser un ID válido' })
+  .int('El producto debe ser un ID válido')
+  .positive('El producto debe ser un ID válido');
+
+const reasonSchema = z
+  .string({ message: 'El motivo es obligatorio' })
+  .trim()
+  .max(255, 'El motivo no puede tener más de 255 caracteres');
+
+/**
+ * A restock: units of a product received, e.g. from a supplier delivery.
+ */
+
+export const restockSchema = z.object({
+  product_id: productIdSchema,
+  quantity: z
+    .number({ message: 'La cantidad debe ser un número' })
+    .int('La cantidad debe ser un número entero')
+    .positive('La cantidad debe ser mayor que 0'),
+  reason: reasonSchema.nullish(),
+});
+
+/**
+ * A manual stock correction. `quantity` is the signed change to the stock (negative to remove
+ * units): an `adjustment` fixes a count in either direction, and `waste` records units thrown
+ * away, so it must be negative. Both need a reason for the ledger.
+ */
+
+export const stockAdjustmentSchema = z
+  .object({
+    product_id: productIdSchema,
+    kind: z
+      .enum(STOCK_ADJUSTMENT_KINDS, { message: `El tipo debe ser uno de: ${STOCK_ADJUSTMENT_KINDS.join(', ')}` })
+      .default('adjustment'),
+    quantity: z
+      .number({ message: 'La cantidad debe ser un número' })
+      .int('La cantidad debe ser un número entero')
+      .refine((quantity) => quantity !== 0, 'La cantidad no puede ser 0'),
+    reason: reasonSchema.min(1, 'El motivo es obligatorio'),
+  })
+  .refine((data) => data.kind !== 'waste' || data.quantity < 0, {
+    path: ['quantity'],
+    message: 'Una merma debe restar stock (cantidad negativa)',
+  });
+
+export type RestockInput = z.infer<typeof restockSchema>;
+export type StockAdjustmentInput = z.infer<typeof stockAdjustmentSchema>;
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const PREP_STATUSES = ['queued', 'preparing', 'ready'] as const;
+
+export const orderItemStatusUpdateSchema = z.object({
+  status: z.enum(PREP_STATUSES, { message: `El estado debe ser uno de: ${PREP_STATUSES.join(', ')}` }),
+});
+
+export type OrderItemStatusUpdateInput = z.infer<typeof orderItemStatusUpdateSchema>;
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+
+const displayOrder = z
+  .number({ message: 'El orden debe ser un número' })
+  .int('El orden debe ser un número entero')
+  .min(0, 'El orden no puede ser negativo');
+
+export const modifierSchema = z.object({
+  name: z
+    .string({ message: 'El nombre es obligatorio' })
+    .trim()
+    .min(1, 'El nombre es obligatorio')
+    .max(50, 'El nombre no puede tener más de 50 caracteres'),
+  price_delta: z.number({ message: 'El precio adicional debe ser un número' }).default(0),
+  display_order: displayOrder.optional(),
+});
+
+/**
+ * Partial modifier update (`PATCH`): any subset of the modifier fields, but at least one.
+ */
+
+export const modifierPatchSchema = modifierSchema
+  .partial()
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Debes enviar al menos un campo para actualizar',
+  });
+
+const modifierGroupFields = z.object({
+  name: z
+    .string({ message: 'El nombre es obligatorio' })
+    .trim()
+    .min(1, 'El nombre es obligatorio')
+    .max(50, 'El nombre no puede tener más de 50 caracteres'),
+  required: z.boolean({ message: 'Obligatorio debe ser verdadero o falso' }).optional(),
+  min_selections: z
+    .number({ message: 'El mínimo debe ser un número' })
+    .int('El mínimo debe ser un número entero')
+    .min(0, 'El mínimo no puede ser negativo')
+    .optional(),
+  max_selections: z
+    .number({ message: 'El máximo debe ser un número' })
+    .int('El máximo debe ser un número entero')
+    .positive('El máximo debe ser mayor que 0')
+    .nullish(),
+  display_order: displayOrder.optional(),
+});
+
+/**
+ * Checks that the selection limits of a group are consistent. Only the limits present in
+ * `data` are compared, so it also works for partial updates.
+ */
+
+const checkSelectionLimits = (
+  data: { required?: boolean; min_selections?: number; max_selections?: number | null },
+  ctx: z.RefinementCtx
+) => {
+  if (data.required && data.min_selections === 0) {
+    ctx.addIssue({ code: 'custom', path: ['min_selections'], message: 'Un grupo obligatorio debe pedir al menos una opción' });
+  }
+  if (data.min_selections !== undefined && data.max_selections != null && data.max_selections < data.min_selections) {
+    ctx.addIssue({ code: 'custom', path: ['max_selections'], message: 'El máximo no puede ser menor que el mínimo' });
+  }
+};
+
+/**
+ * A modifier group with, optionally, its first modifiers. `min_selections` defaults to 1 for
+ * required groups and 0 otherwise; a missing `max_selections` allows any number of choices.
+ */
+
+export const modifierGroupSchema = modifierGroupFields
+  .extend({
+    modifiers: z.array(modifierSchema, { message: 'Las opciones deben ser una lista' }).optional(),
+  })
+  .superRefine(checkSelectionLimits);
+
+/**
+ * Partial modifier group update (`PATCH`): any subset of the group fields, but at least one.
+ * Modifiers are managed through their own endpoints.
+ */
+
+export const modifierGroupPatchSchema = modifierGroupFields
+  .partial()
+  .superRefine(checkSelectionLimits)
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Debes enviar al menos un campo para actualizar',
+  });
+
+export type ModifierInput = z.infer<typeof modifierSchema>;
+export type ModifierPatchInput = z.infer<typeof modifierPatchSchema>;
+export type ModifierGroupInput = z.infer<typeof modifierGroupSchema>;
+export type ModifierGroupPatchInput = z.infer<typeof modifierGroupPatchSchema>;
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { promoCodeSchema } from './promotion';
+
+export const ORDER_STATUSES = ['pending', 'in_progress', 'ready', 'served', 'completed', 'cancelled'] as const;
+
+export const orderItemSchema = z.object({
+  product_id: z
+    .number({ message: 'El producto debe ser un ID numérico' })
+    .int('El producto debe ser un ID numérico')
+    .positive('El producto debe ser un ID numérico'),
+  quantity: z
+    .number({ message: 'La cantidad debe ser un número' })
+    .int('La cantidad debe ser un número entero')
+    .positive('La cantidad debe ser mayor que 0')
+    .default(1),
+  modifier_ids: z
+    .array(
+      z.number({ message: 'Las opciones deben ser IDs numéricos' }).int('Las opciones deben ser IDs numéricos').positive('Las opciones deben ser IDs numéricos'),
+      { message: 'Las opciones deben ser una lista' }
+    )
+    .default([]),
+});
+
+export const createOrderSchema = z.object({
+  table_id: z
+    .number({ message: 'La mesa debe ser un ID numérico' })
+    .int('La mesa debe ser un ID numérico')
+    .positive('La mesa debe ser un ID numérico')
+    .nullish(),
+  orderItems: z
+    .array(orderItemSchema, { message: 'Los productos de la orden son obligatorios' })
+    .min(1, 'La orden debe tener al menos un producto'),
+  promo_code: promoCodeSchema.nullish(),
+  service_charge: z.boolean({ message: 'El cargo por servicio debe ser verdadero o falso' }).default(false),
+});
+
+export const orderStatusUpdateSchema = z.object({
+  status: z.enum(ORDER_STATUSES, { message: `El estado debe ser uno de: ${ORDER_STATUSES.join(', ')}` }),
+});
+
+export type OrderItemInput = z.infer<typeof orderItemSchema>;
+export type CreateOrderInput = z.infer<typeof createOrderSchema>;
+export type OrderStatusUpdateInput = z.infer<typeof orderStatusUpdateSchema>;
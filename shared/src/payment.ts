@@ -0,0 +1,82 @@
+import { z } from 'zod';
+
+export const PAYMENT_METHODS = ['cash', 'card', 'other'] as const;
+export const PAYMENT_SPLITS = ['amount', 'items', 'even'] as const;
+
+const paymentMethod = z.enum(PAYMENT_METHODS, { message: `El método de pago debe ser uno de: ${PAYMENT_METHODS.join(', ')}` });
+
+/**
+ * Fields shared by every kind of payment. `tendered` is the cash handed over by the customer,
+ * used to compute the change; `card_token` is passed on to the card provider.
+ */
+
+const paymentFields = {
+  method: paymentMethod,
+  tip: z
+    .number({ message: 'La propina debe ser un número' })
+    .min(0, 'La propina no puede ser negativa')
+    .default(0),
+  tendered: z
+    .number({ message: 'El importe entregado debe ser un número' })
+    .min(0.01, 'El importe entregado debe ser mayor que 0')
+    .optional(),
+  card_token: z.string().trim().min(1, 'El token de la tarjeta no puede estar vacío').max(200, 'El token de la tarjeta es demasiado largo').optional(),
+};
+
+export const paymentItemSchema = z.object({
+  order_item_id: z
+    .number({ message: 'El producto de la orden debe ser un ID numérico' })
+    .int('El producto de la orden debe ser un ID numérico')
+    .positive('El producto de la orden debe ser un ID numérico'),
+  quantity: z
+    .number({ message: 'La cantidad debe ser un número' })
+    .int('La cantidad debe ser un número entero')
+    .positive('La cantidad debe ser mayor que 0')
+    .default(1),
+});
+
+/**
+ * A payment towards an order. `split` says how the amount is worked out:
+ * - `amount`: the given `amount` (a partial payment when it is less than the balance).
+ * - `items`: the price of the given units of the order's items ("I had the burger").
+ * - `even`: one share of the balance split among `ways` people; send the number of people
+ *   who have not paid yet, so the last one (`ways: 1`) pays the exact remainder.
+ */
+
+export const paymentSchema = z
+  .discriminatedUnion('split', [
+    z.object({
+      split: z.literal('amount'),
+      amount: z
+        .number({ message: 'El importe debe ser un número' })
+        .min(0.01, 'El importe debe ser mayor que 0'),
+      ...paymentFields,
+    }),
+    z.object({
+      split: z.literal('items'),
+      items: z
+        .array(paymentItemSchema, { message: 'Los productos a pagar son obligatorios' })
+        .min(1, 'Debes elegir al menos un producto a pagar'),
+      ...paymentFields,
+    }),
+    z.object({
+      split: z.literal('even'),
+      ways: z
+        .number({ message: 'El número de partes debe ser un número' })
+        .int('El número de partes debe ser un número entero')
+        .min(1, 'El número de partes debe ser al menos 1')
+        .max(50, 'El número de partes no puede ser mayor que 50'),
+      ...paymentFields,
+    }),
+  ], { message: `La forma de dividir debe ser una de: ${PAYMENT_SPLITS.join(', ')}` })
+  .superRefine((data, ctx) => {
+    if (data.tendered !== undefined && data.method !== 'cash') {
+      ctx.addIssue({ code: 'custom', path: ['tendered'], message: 'Solo los pagos en efectivo tienen importe entregado' });
+    }
+    if (data.card_token !== undefined && data.method !== 'card') {
+      ctx.addIssue({ code: 'custom', path: ['card_token'], message: 'Solo los pagos con tarjeta tienen token' });
+    }
+  });
+
+export type PaymentItemInput = z.infer<typeof paymentItemSchema>;
+export type PaymentInput = z.infer<typeof paymentSchema>;
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+export const productSchema = z.object({
+  name: z
+    .string({ message: 'El nombre es obligatorio' })
+    .trim()
+    .min(1, 'El nombre es obligatorio')
+    .max(100, 'El nombre no puede tener más de 100 caracteres'),
+  description: z.string().nullish(),
+  price: z
+    .number({ message: 'El precio debe ser un número' })
+    .min(0.01, 'El precio debe ser mayor que 0'),
+  stock: z
+    .number({ message: 'El stock debe ser un número' })
+    .int('El stock debe ser un número entero')
+    .min(0, 'El stock no puede ser negativo'),
+  reorder_threshold: z
+    .number({ message: 'El stock mínimo debe ser un número' })
+    .int('El stock mínimo debe ser un número entero')
+    .min(0, 'El stock mínimo no puede ser negativo')
+    .nullish(),
+  category_id: z
+    .number({ message: 'La categoría debe ser un ID válido' })
+    .int('La categoría debe ser un ID válido')
+    .positive('La categoría debe ser un ID válido')
+    .nullish(),
+  station_id: z
+    .number({ message: 'La estación debe ser un ID válido' })
+    .int('La estación debe ser un ID válido')
+    .positive('La estación debe ser un ID válido')
+    .nullish(),
+});
+
+/**
+ * Partial product update (`PATCH`): any subset of the product fields, but at least one.
+ */
+
+export const productPatchSchema = productSchema
+  .partial()
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Debes enviar al menos un campo para actualizar',
+  });
+
+export type ProductInput = z.infer<typeof productSchema>;
+export type ProductPatchInput = z.infer<typeof productPatchSchema>;
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+
+export const PROMOTION_KINDS = ['percentage', 'fixed'] as const;
+
+/**
+ * A promo code as typed by the customer. Codes are case-insensitive and stored in upper case.
+ */
+
+export const promoCodeSchema = z
+  .string({ message: 'El código promocional debe ser un texto' })
+  .trim()
+  .min(1, 'El código promocional no puede estar vacío')
+  .max(30, 'El código promocional no puede tener más de 30 caracteres')
+  .regex(/^[A-Za-z0-9_-]+$/, 'El código promocional solo puede tener letras, números, guiones y guiones bajos')
+  .transform((code) => code.toUpperCase());
+
+const promotionFields = z.object({
+  code: promoCodeSchema,
+  description: z.string().trim().max(255, 'La descripción no puede tener más de 255 caracteres').nullish(),
+  kind: z.enum(PROMOTION_KINDS, { message: `El tipo debe ser uno de: ${PROMOTION_KINDS.join(', ')}` }),
+  value: z
+    .number({ message: 'El valor debe ser un número' })
+    .positive('El valor debe ser mayor que 0')
+    .multipleOf(0.01, 'El valor admite como máximo dos decimales'),
+  starts_at: z.coerce.date({ message: 'La fecha de inicio no es válida' }).nullish(),
+  ends_at: z.coerce.date({ message: 'La fecha de fin no es válida' }).nullish(),
+  max_uses: z
+    .number({ message: 'El límite de usos debe ser un número' })
+    .int('El límite de usos debe ser un número entero')
+    .positive('El límite de usos debe ser mayor que 0')
+    .nullish(),
+  active: z.boolean({ message: 'El estado activo debe ser verdadero o falso' }).optional(),
+});
+
+/**
+ * Checks the rules that involve several fields, when those fields are present.
+ */
+
+const checkPromotion = (
+  data: { kind?: (typeof PROMOTION_KINDS)[number]; value?: number; starts_at?: Date | null; ends_at?: Date | null },
+  ctx: z.RefinementCtx
+) => {
+  if (data.kind === 'percentage' && data.value !== undefined && data.value > 100) {
+    ctx.addIssue({ code: 'custom', path: ['value'], message: 'Un descuento porcentual no puede ser mayor que 100' });
+  }
+  if (data.starts_at && data.ends_at && data.ends_at <= data.starts_at) {
+    ctx.addIssue({ code: 'custom', path: ['ends_at'], message: 'La fecha de fin debe ser posterior a la de inicio' });
+  }
+};
+
+/**
+ * A promotion: a percentage or fixed discount redeemed with a promo code, optionally limited
+ * to a validity window (`starts_at`/`ends_at`) and a number of uses (`max_uses`).
+ */
+
+export const promotionSchema = promotionFields.superRefine(checkPromotion);
+
+/**
+ * Partial promotion update (`PATCH`): any subset of the promotion fields, but at least one.
+ */
+
+export const promotionPatchSchema = promotionFields
+  .partial()
+  .superRefine(checkPromotion)
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Debes enviar al menos un campo para actualizar',
+  });
+
+export type PromotionKind = (typeof PROMOTION_KINDS)[number];
+export type PromotionInput = z.infer<typeof promotionSchema>;
+export type PromotionPatchInput = z.infer<typeof promotionPatchSchema>;
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+export const TABLE_STATUSES = ['free', 'occupied', 'reserved', 'dirty'] as const;
+
+const tableStatus = z.enum(TABLE_STATUSES, { message: `El estado debe ser uno de: ${TABLE_STATUSES.join(', ')}` });
+
+export const tableSchema = z.object({
+  number: z
+    .number({ message: 'El número de mesa debe ser un número' })
+    .int('El número de mesa debe ser un número entero')
+    .positive('El número de mesa debe ser mayor que 0'),
+  area: z.string().trim().max(50, 'La zona no puede tener más de 50 caracteres').nullish(),
+  capacity: z
+    .number({ message: 'La capacidad debe ser un número' })
+    .int('La capacidad debe ser un número entero')
+    .positive('La capacidad debe ser mayor que 0'),
+  status: tableStatus.optional(),
+});
+
+/**
+ * Partial table update (`PATCH`): any subset of the table fields, but at least one.
+ */
+
+export const tablePatchSchema = tableSchema
+  .partial()
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Debes enviar al menos un campo para actualizar',
+  });
+
+export const tableStatusUpdateSchema = z.object({
+  status: tableStatus,
+});
+
+export type TableInput = z.infer<typeof tableSchema>;
+export type TablePatchInput = z.infer<typeof tablePatchSchema>;
+export type TableStatusUpdateInput = z.infer<typeof tableStatusUpdateSchema>;
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+/**
+ * Any schema exported by this package.
+ */
+
+export type Schema = z.ZodType;
+
+/**
+ * A validation error attached to a single input. `field` is the dotted path of the
+ * offending value (e.g. `password` or `orderItems.0.quantity`); it is empty for errors
+ * that apply to the whole payload.
+ */
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: FieldError[] };
+
+/**
+ * Validates `data` against `schema` and flattens any failure into a list of field errors.
+ *
+ * @param schema - The schema to validate against.
+ * @param data - The untrusted input.
+ * @returns The parsed (and possibly transformed) data, or the list of field errors.
+ */
+
+export const parseWithSchema = <S extends Schema>(schema: S, data: unknown): ParseResult<z.output<S>> => {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.issues.map((issue) => ({
+      field: issue.path.map(String).join('.'),
+      message: issue.message,
+    })),
+  };
+};